@@ -5,8 +5,12 @@
  * Uses React Hook Form + Zod for validation.
  *
  * Form Fields:
- * - Category (dropdown - only unused categories)
+ * - Category (dropdown - only unused categories; a parent category's
+ *   budget includes its subcategories)
  * - Maximum Spend (number input)
+ * - Period (weekly ... yearly) with an optional start day
+ * - Rollover between periods with optional cap
+ * - Spending alerts (% of the limit)
  * - Theme (color selector - only unused colors)
  *
  * Usage:
@@ -22,7 +26,7 @@ import * as React from 'react';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { useCreateBudget } from '@/queryHooks';
+import { useCreateBudget, useCategoryOptions } from '@/queryHooks';
 import {
   Dialog,
   DialogContent,
@@ -34,25 +38,36 @@ import {
   Label,
   Select,
   SelectContent,
-  SelectItem,
   SelectTrigger,
   SelectValue,
 } from '@/components/ui';
+import { PeriodSelector } from './PeriodSelector';
+import { RolloverSelector } from './RolloverSelector';
+import { AlertThresholdsSelector } from './AlertThresholdsSelector';
 import { ThemeSelector, themeColors } from './ThemeSelector';
-import { categories as allCategories } from '@/components/features/Transactions/CategoryFilter';
+import { CategoryOptions } from '@/components/features/Transactions/CategoryOptions';
 
-// Available budget categories (exclude "All Transactions")
-const budgetCategories = allCategories.filter((c) => c !== 'All Transactions');
-
-// Validation schema
-const addBudgetSchema = z.object({
-  category: z.string().min(1, 'Please select a category'),
-  maximum: z
-    .number({ message: 'Please enter a valid amount' })
-    .positive('Amount must be greater than 0')
-    .max(1000000, 'Amount cannot exceed $1,000,000'),
-  theme: z.string().min(1, 'Please select a theme color'),
-});
+// Validation schema (an empty start day means calendar periods, an empty cap means no cap)
+const addBudgetSchema = z
+  .object({
+    category: z.string().min(1, 'Please select a category'),
+    maximum: z
+      .number({ message: 'Please enter a valid amount' })
+      .positive('Amount must be greater than 0')
+      .max(1000000, 'Amount cannot exceed $1,000,000'),
+    theme: z.string().min(1, 'Please select a theme color'),
+    period: z.enum(['weekly', 'biweekly', 'monthly', 'quarterly', 'yearly']),
+    periodAnchor: z.string(),
+    rolloverMode: z.enum(['none', 'surplus', 'surplus_and_deficit']),
+    rolloverCap: z.number().optional(),
+    rolloverSince: z.string(),
+    alertThresholds: z.array(z.number()),
+  })
+  .refine(
+    (data) =>
+      data.rolloverCap === undefined || Number.isNaN(data.rolloverCap) || data.rolloverCap > 0,
+    { message: 'Cap must be greater than 0', path: ['rolloverCap'] }
+  );
 
 type AddBudgetFormData = z.infer<typeof addBudgetSchema>;
 
@@ -70,10 +85,11 @@ export function AddBudgetForm({
   usedThemes,
 }: AddBudgetFormProps) {
   const createBudget = useCreateBudget();
+  const { options: categoryOptions } = useCategoryOptions();
 
   // Available categories (not already used)
-  const availableCategories = budgetCategories.filter(
-    (cat) => !usedCategories.includes(cat)
+  const availableCategories = categoryOptions.filter(
+    (option) => !usedCategories.includes(option.value)
   );
 
   // Find first available theme
@@ -94,10 +110,19 @@ export function AddBudgetForm({
       category: '',
       maximum: undefined,
       theme: firstAvailableTheme,
+      period: 'monthly',
+      periodAnchor: '',
+      rolloverMode: 'none',
+      rolloverCap: undefined,
+      rolloverSince: '',
+      alertThresholds: [80, 100],
     },
   });
 
   const selectedTheme = watch('theme');
+  const selectedPeriod = watch('period');
+  const selectedRolloverMode = watch('rolloverMode');
+  const selectedAlertThresholds = watch('alertThresholds');
   const selectedCategory = watch('category');
 
   // Reset form when dialog opens
@@ -107,13 +132,24 @@ export function AddBudgetForm({
         category: '',
         maximum: undefined,
         theme: firstAvailableTheme,
+        period: 'monthly',
+        periodAnchor: '',
+        rolloverMode: 'none',
+        rolloverCap: undefined,
+        rolloverSince: '',
+        alertThresholds: [80, 100],
       });
     }
   }, [open, reset, firstAvailableTheme]);
 
   const onSubmit = async (data: AddBudgetFormData) => {
     try {
-      await createBudget.mutateAsync(data);
+      await createBudget.mutateAsync({
+        ...data,
+        periodAnchor: data.periodAnchor || null,
+        rolloverCap: data.rolloverMode === 'none' ? null : data.rolloverCap || null,
+        rolloverSince: (data.rolloverMode !== 'none' && data.rolloverSince) || undefined,
+      });
       onOpenChange(false);
       reset();
     } catch (error) {
@@ -149,11 +185,7 @@ export function AddBudgetForm({
                   <SelectValue placeholder="Select a category" />
                 </SelectTrigger>
                 <SelectContent>
-                  {availableCategories.map((category) => (
-                    <SelectItem key={category} value={category}>
-                      {category}
-                    </SelectItem>
-                  ))}
+                  <CategoryOptions options={availableCategories} />
                 </SelectContent>
               </Select>
             )}
@@ -189,6 +221,30 @@ export function AddBudgetForm({
             )}
           </div>
 
+          {/* Budget Period */}
+          <PeriodSelector
+            period={selectedPeriod}
+            onPeriodChange={(period) => setValue('period', period)}
+            anchorRegistration={register('periodAnchor')}
+            anchorError={errors.periodAnchor?.message}
+          />
+
+          {/* Rollover */}
+          <RolloverSelector
+            mode={selectedRolloverMode}
+            onModeChange={(mode) => setValue('rolloverMode', mode)}
+            capRegistration={register('rolloverCap', { valueAsNumber: true })}
+            capError={errors.rolloverCap?.message}
+            sinceRegistration={register('rolloverSince')}
+            sinceDefault="the current period"
+          />
+
+          {/* Spending Alerts */}
+          <AlertThresholdsSelector
+            value={selectedAlertThresholds}
+            onChange={(thresholds) => setValue('alertThresholds', thresholds)}
+          />
+
           {/* Theme Selector */}
           <ThemeSelector
             value={selectedTheme}
@@ -0,0 +1,65 @@
+/**
+ * Alert Thresholds Selector Component
+ *
+ * CONCEPT: Picks the percentages of a budget's limit that send a
+ * notification when spending crosses them. Nothing selected = no alerts.
+ *
+ * Usage:
+ *   <AlertThresholdsSelector
+ *     value={alertThresholds}
+ *     onChange={(thresholds) => setValue('alertThresholds', thresholds)}
+ *   />
+ */
+
+import { Label } from '@/components/ui';
+import { cn } from '@/lib/utils';
+
+// Percentages offered (the server accepts any whole percentage up to 200)
+const thresholdOptions = [50, 75, 80, 90, 100, 120];
+
+interface AlertThresholdsSelectorProps {
+  value: number[];
+  onChange: (thresholds: number[]) => void;
+}
+
+export function AlertThresholdsSelector({ value, onChange }: AlertThresholdsSelectorProps) {
+  const toggle = (threshold: number) => {
+    onChange(
+      value.includes(threshold)
+        ? value.filter((t) => t !== threshold)
+        : [...value, threshold].sort((a, b) => a - b)
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label id="alertThresholds-label">Spending Alerts</Label>
+      <div className="flex flex-wrap gap-2" role="group" aria-labelledby="alertThresholds-label">
+        {thresholdOptions.map((threshold) => {
+          const selected = value.includes(threshold);
+          return (
+            <button
+              key={threshold}
+              type="button"
+              aria-pressed={selected}
+              onClick={() => toggle(threshold)}
+              className={cn(
+                'rounded-full border px-3 py-1 text-sm transition-colors',
+                selected
+                  ? 'border-[var(--color-grey-900)] bg-[var(--color-grey-900)] text-white'
+                  : 'border-[var(--color-beige-500)] text-[var(--color-grey-500)] hover:border-[var(--color-grey-900)]'
+              )}
+            >
+              {threshold}%
+            </button>
+          );
+        })}
+      </div>
+      <p className="text-xs text-[var(--color-grey-500)]">
+        {value.length === 0
+          ? 'No alerts for this budget.'
+          : "You'll get a notification when spending reaches these shares of the period's limit."}
+      </p>
+    </div>
+  );
+}
@@ -5,8 +5,11 @@
  * spending summary, and latest 3 transactions.
  *
  * Features:
- * - Donut chart showing spent vs maximum
+ * - Donut chart showing spent vs this period's limit
+ * - Current period dates (monthly, weekly, from payday, ...)
+ * - Amount carried over from earlier periods (budgets with rollover)
  * - Spent/Remaining summary with color indicators
+ * - Bar chart of spending in recent periods (when history is passed)
  * - Latest 3 transactions from the category
  * - "See All" link to filtered transactions page
  * - Dropdown menu for edit/delete actions
@@ -14,6 +17,7 @@
  * Usage:
  *   <BudgetCard
  *     budget={budget}
+ *     history={budgetHistory}
  *     onEdit={() => handleEdit(budget)}
  *     onDelete={() => handleDelete(budget)}
  *   />
@@ -21,8 +25,14 @@
 
 import { useNavigate } from 'react-router-dom';
 import { MoreHorizontal, Pencil, Trash2 } from 'lucide-react';
-import type { Budget } from '@/lib/api';
-import { formatCurrency, formatDate, calculatePercentage } from '@/lib/utils';
+import type { Budget, BudgetPeriodStatus } from '@/lib/api';
+import {
+  formatCurrency,
+  formatDate,
+  formatFrequency,
+  formatPeriod,
+  calculatePercentage,
+} from '@/lib/utils';
 import {
   Button,
   Avatar,
@@ -35,9 +45,11 @@ import {
   DropdownMenuSeparator,
 } from '@/components/ui';
 import { BudgetDonutChart } from './BudgetDonutChart';
+import { BudgetHistoryChart } from './BudgetHistoryChart';
 
 interface BudgetCardProps {
   budget: Budget;
+  history?: BudgetPeriodStatus[];
   onEdit: () => void;
   onDelete: () => void;
 }
@@ -54,10 +66,12 @@ function getInitials(name: string): string {
     .slice(0, 2);
 }
 
-export function BudgetCard({ budget, onEdit, onDelete }: BudgetCardProps) {
+export function BudgetCard({ budget, history, onEdit, onDelete }: BudgetCardProps) {
   const navigate = useNavigate();
-  const percentage = calculatePercentage(budget.spent, budget.maximum);
-  const isOverBudget = budget.spent > budget.maximum;
+  // This period's limit includes anything carried over
+  const limit = budget.effectiveMaximum;
+  const percentage = calculatePercentage(budget.spent, limit);
+  const isOverBudget = budget.spent > limit;
 
   /**
    * Navigate to transactions filtered by this budget's category
@@ -110,7 +124,7 @@ export function BudgetCard({ budget, onEdit, onDelete }: BudgetCardProps) {
         <div className="flex justify-center lg:justify-start">
           <BudgetDonutChart
             spent={budget.spent}
-            maximum={budget.maximum}
+            maximum={limit}
             theme={budget.theme}
             size="default"
           />
@@ -120,9 +134,26 @@ export function BudgetCard({ budget, onEdit, onDelete }: BudgetCardProps) {
         <div className="flex-1 space-y-5">
           {/* Spending Summary */}
           <div className="space-y-4">
-            <p className="text-sm text-[var(--color-grey-500)]">
-              Maximum of {formatCurrency(budget.maximum)}
-            </p>
+            <div className="space-y-1">
+              <p className="text-sm text-[var(--color-grey-500)]">
+                Maximum of {formatCurrency(budget.maximum)} {formatFrequency(budget.period).toLowerCase()}
+              </p>
+              <p className="text-xs text-[var(--color-grey-500)]">
+                {formatPeriod(budget.periodStart, budget.periodEnd)}
+              </p>
+              {budget.rolloverMode !== 'none' && budget.carriedOver !== 0 && (
+                <p
+                  className={`text-xs font-bold ${
+                    budget.carriedOver > 0
+                      ? 'text-[var(--color-green)]'
+                      : 'text-[var(--color-red)]'
+                  }`}
+                >
+                  {formatCurrency(budget.carriedOver, true)} carried over (
+                  {formatCurrency(limit)} this period)
+                </p>
+              )}
+            </div>
 
             {/* Progress bar (compact) */}
             <div className="h-6 bg-[var(--color-beige-100)] rounded-sm overflow-hidden">
@@ -162,6 +193,16 @@ export function BudgetCard({ budget, onEdit, onDelete }: BudgetCardProps) {
             </div>
           </div>
 
+          {/* Spending History */}
+          {history && history.length > 1 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-bold text-[var(--color-grey-900)]">
+                Spending History
+              </h3>
+              <BudgetHistoryChart history={history} period={budget.period} theme={budget.theme} />
+            </div>
+          )}
+
           {/* Latest Transactions */}
           {budget.latestTransactions && budget.latestTransactions.length > 0 && (
             <div className="bg-[var(--color-beige-100)] rounded-lg p-4">
@@ -0,0 +1,97 @@
+/**
+ * Budget History Chart Component
+ *
+ * CONCEPT: A small bar chart of what a budget spent in each of its
+ * recent periods, with the period's limit drawn as a line.
+ * Bars turn red for periods that went over the limit.
+ *
+ * Usage:
+ *   <BudgetHistoryChart
+ *     history={budgetHistory.history}
+ *     period="monthly"
+ *     theme="#277C78"
+ *   />
+ */
+
+import {
+  ComposedChart,
+  Bar,
+  Cell,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import type { BudgetPeriod, BudgetPeriodStatus } from '@/lib/api';
+import { formatCurrency, formatPeriod } from '@/lib/utils';
+
+interface BudgetHistoryChartProps {
+  history: BudgetPeriodStatus[];
+  period: BudgetPeriod;
+  theme: string;
+}
+
+/**
+ * Short axis label for a period (e.g. "Sep", "Sep 25", "2026")
+ */
+function formatPeriodLabel(start: string, period: BudgetPeriod): string {
+  const date = new Date(start);
+  if (period === 'yearly') {
+    return String(date.getUTCFullYear());
+  }
+  return date.toLocaleDateString('en-US', {
+    timeZone: 'UTC',
+    month: 'short',
+    ...(date.getUTCDate() !== 1 && { day: 'numeric' }),
+  });
+}
+
+export function BudgetHistoryChart({ history, period, theme }: BudgetHistoryChartProps) {
+  const chartData = history.map((entry) => ({
+    ...entry,
+    label: formatPeriodLabel(entry.periodStart, period),
+  }));
+
+  return (
+    <div className="h-32" aria-hidden="true">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={chartData} margin={{ top: 4, right: 0, bottom: 0, left: 0 }}>
+          <XAxis
+            dataKey="label"
+            tickLine={false}
+            axisLine={false}
+            tick={{ fontSize: 10, fill: 'var(--color-grey-500)' }}
+            interval="preserveStartEnd"
+          />
+          <YAxis hide domain={[0, 'dataMax']} />
+          <Tooltip
+            formatter={(value, name) => [formatCurrency(Number(value)), name]}
+            labelFormatter={(_, payload) => {
+              const entry = payload?.[0]?.payload as BudgetPeriodStatus | undefined;
+              return entry ? formatPeriod(entry.periodStart, entry.periodEnd) : '';
+            }}
+          />
+          <Bar dataKey="spent" name="Spent" radius={[4, 4, 0, 0]} isAnimationActive={false}>
+            {chartData.map((entry) => (
+              <Cell
+                key={entry.periodStart}
+                fill={entry.difference < 0 ? 'var(--color-red)' : theme}
+                fillOpacity={entry.isCurrent ? 0.5 : 1}
+              />
+            ))}
+          </Bar>
+          <Line
+            type="stepAfter"
+            dataKey="limit"
+            name="Limit"
+            stroke="var(--color-grey-500)"
+            strokeDasharray="4 4"
+            dot={false}
+            isAnimationActive={false}
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
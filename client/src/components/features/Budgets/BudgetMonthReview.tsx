@@ -0,0 +1,107 @@
+/**
+ * Budget Month Review Component
+ *
+ * CONCEPT: How every budget did in a past month - its limit, what was
+ * spent and how far under or over it ended up.
+ *
+ * A budget counts the periods that started in the month (one for monthly
+ * budgets, 4-5 for weekly ones). Quarterly and yearly budgets that didn't
+ * start a period that month show the period the month falls in.
+ *
+ * Usage:
+ *   <BudgetMonthReview
+ *     month="2026-09"
+ *     budgets={historyData.budgets}
+ *   />
+ */
+
+import type { BudgetHistory, BudgetPeriodStatus } from '@/lib/api';
+import { cn, formatCurrency, formatPeriod } from '@/lib/utils';
+
+interface BudgetMonthReviewProps {
+  month: string;  // YYYY-MM
+  budgets: BudgetHistory[];
+}
+
+/**
+ * Periods of a budget that belong to a month
+ */
+function getMonthPeriods(history: BudgetPeriodStatus[], month: string): BudgetPeriodStatus[] {
+  const started = history.filter((entry) => entry.periodStart.slice(0, 7) === month);
+  if (started.length > 0) return started;
+
+  const monthStart = `${month}-01T00:00:00.000Z`;
+  return history.filter(
+    (entry) => entry.periodStart <= monthStart && entry.periodEnd >= monthStart
+  );
+}
+
+export function BudgetMonthReview({ month, budgets }: BudgetMonthReviewProps) {
+  const rows = budgets.map((budget) => {
+    const periods = getMonthPeriods(budget.history, month);
+    return {
+      ...budget,
+      periods,
+      limit: periods.reduce((sum, entry) => sum + entry.limit, 0),
+      spent: periods.reduce((sum, entry) => sum + entry.spent, 0),
+      difference: periods.reduce((sum, entry) => sum + entry.difference, 0),
+    };
+  });
+
+  const monthLabel = new Date(`${month}-01T00:00:00.000Z`).toLocaleDateString('en-US', {
+    timeZone: 'UTC',
+    month: 'long',
+    year: 'numeric',
+  });
+
+  return (
+    <div className="rounded-xl bg-white p-6 shadow-sm">
+      <h2 className="text-xl font-bold text-[var(--color-grey-900)] mb-5">{monthLabel}</h2>
+
+      <ul className="divide-y divide-[var(--color-grey-100)]">
+        {rows.map((row) => (
+          <li key={row.budgetId} className="flex items-center justify-between gap-4 py-4">
+            <div className="flex items-center gap-4 min-w-0">
+              <div
+                className="w-1 h-10 rounded-full shrink-0"
+                style={{ backgroundColor: row.theme }}
+              />
+              <div className="min-w-0">
+                <p className="font-bold text-[var(--color-grey-900)]">{row.category}</p>
+                <p className="text-xs text-[var(--color-grey-500)]">
+                  {row.periods.length === 0
+                    ? 'No budget period this month'
+                    : formatPeriod(
+                        row.periods[0].periodStart,
+                        row.periods[row.periods.length - 1].periodEnd
+                      )}
+                </p>
+              </div>
+            </div>
+
+            {row.periods.length > 0 && (
+              <div className="text-right shrink-0">
+                <p className="text-sm font-bold text-[var(--color-grey-900)]">
+                  {formatCurrency(row.spent)}
+                  <span className="font-normal text-[var(--color-grey-500)]">
+                    {' '}of {formatCurrency(row.limit)}
+                  </span>
+                </p>
+                <p
+                  className={cn(
+                    'text-xs font-bold',
+                    row.difference < 0 ? 'text-[var(--color-red)]' : 'text-[var(--color-green)]'
+                  )}
+                >
+                  {row.difference < 0
+                    ? `Over by ${formatCurrency(Math.abs(row.difference))}`
+                    : `Under by ${formatCurrency(row.difference)}`}
+                </p>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
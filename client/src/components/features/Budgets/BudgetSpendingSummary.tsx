@@ -24,14 +24,15 @@ interface BudgetSpendingSummaryProps {
 export function BudgetSpendingSummary({ budgets }: BudgetSpendingSummaryProps) {
   // Calculate total spent across all budgets
   const totalSpent = budgets.reduce((sum, b) => sum + b.spent, 0);
-  const totalMaximum = budgets.reduce((sum, b) => sum + b.maximum, 0);
+  // Limits of each budget's current period, including carried over amounts
+  const totalMaximum = budgets.reduce((sum, b) => sum + b.effectiveMaximum, 0);
 
   // Data for the pie chart
   const chartData = budgets.map((budget) => ({
     name: budget.category,
     value: budget.spent,
     theme: budget.theme,
-    maximum: budget.maximum,
+    maximum: budget.effectiveMaximum,
   }));
 
   // Add remaining as a gray segment if there's budget left
@@ -7,6 +7,9 @@
  * Form Fields:
  * - Category (displayed, not editable)
  * - Maximum Spend (number input)
+ * - Period (weekly ... yearly) with an optional start day
+ * - Rollover between periods with optional cap
+ * - Spending alerts (% of the limit)
  * - Theme (color selector)
  *
  * Usage:
@@ -34,16 +37,31 @@ import {
   Input,
   Label,
 } from '@/components/ui';
+import { PeriodSelector } from './PeriodSelector';
+import { RolloverSelector } from './RolloverSelector';
+import { AlertThresholdsSelector } from './AlertThresholdsSelector';
 import { ThemeSelector } from './ThemeSelector';
 
-// Validation schema
-const editBudgetSchema = z.object({
-  maximum: z
-    .number({ message: 'Please enter a valid amount' })
-    .positive('Amount must be greater than 0')
-    .max(1000000, 'Amount cannot exceed $1,000,000'),
-  theme: z.string().min(1, 'Please select a theme color'),
-});
+// Validation schema (an empty start day means calendar periods, an empty cap means no cap)
+const editBudgetSchema = z
+  .object({
+    maximum: z
+      .number({ message: 'Please enter a valid amount' })
+      .positive('Amount must be greater than 0')
+      .max(1000000, 'Amount cannot exceed $1,000,000'),
+    theme: z.string().min(1, 'Please select a theme color'),
+    period: z.enum(['weekly', 'biweekly', 'monthly', 'quarterly', 'yearly']),
+    periodAnchor: z.string(),
+    rolloverMode: z.enum(['none', 'surplus', 'surplus_and_deficit']),
+    rolloverCap: z.number().optional(),
+    rolloverSince: z.string(),
+    alertThresholds: z.array(z.number()),
+  })
+  .refine(
+    (data) =>
+      data.rolloverCap === undefined || Number.isNaN(data.rolloverCap) || data.rolloverCap > 0,
+    { message: 'Cap must be greater than 0', path: ['rolloverCap'] }
+  );
 
 type EditBudgetFormData = z.infer<typeof editBudgetSchema>;
 
@@ -74,10 +92,19 @@ export function EditBudgetForm({
     defaultValues: {
       maximum: budget?.maximum || 0,
       theme: budget?.theme || '',
+      period: budget?.period ?? 'monthly',
+      periodAnchor: budget?.periodAnchor?.slice(0, 10) ?? '',
+      rolloverMode: budget?.rolloverMode ?? 'none',
+      rolloverCap: budget?.rolloverCap ?? undefined,
+      rolloverSince: budget?.rolloverSince?.slice(0, 10) ?? '',
+      alertThresholds: budget?.alertThresholds ?? [],
     },
   });
 
   const selectedTheme = watch('theme');
+  const selectedPeriod = watch('period');
+  const selectedRolloverMode = watch('rolloverMode');
+  const selectedAlertThresholds = watch('alertThresholds');
 
   // Reset form when budget changes or dialog opens
   React.useEffect(() => {
@@ -85,6 +112,12 @@ export function EditBudgetForm({
       reset({
         maximum: budget.maximum,
         theme: budget.theme,
+        period: budget.period,
+        periodAnchor: budget.periodAnchor?.slice(0, 10) ?? '',
+        rolloverMode: budget.rolloverMode,
+        rolloverCap: budget.rolloverCap ?? undefined,
+        rolloverSince: budget.rolloverSince?.slice(0, 10) ?? '',
+        alertThresholds: budget.alertThresholds,
       });
     }
   }, [open, budget, reset]);
@@ -95,7 +128,12 @@ export function EditBudgetForm({
     try {
       await updateBudget.mutateAsync({
         id: budget._id,
-        data,
+        data: {
+          ...data,
+          periodAnchor: data.periodAnchor || null,
+          rolloverCap: data.rolloverMode === 'none' ? null : data.rolloverCap || null,
+          rolloverSince: (data.rolloverMode !== 'none' && data.rolloverSince) || undefined,
+        },
       });
       onOpenChange(false);
     } catch (error) {
@@ -114,8 +152,9 @@ export function EditBudgetForm({
         <DialogHeader>
           <DialogTitle>Edit Budget</DialogTitle>
           <DialogDescription>
-            Update your budget limit and theme color. As your needs change, feel free
-            to update your spending limits.
+            Update your budget limit, period, rollover, alerts and theme color. As your needs
+            change, feel free to update your spending limits. Changing the period or
+            rollover recalculates what's carried over from your transactions.
           </DialogDescription>
         </DialogHeader>
 
@@ -158,6 +197,30 @@ export function EditBudgetForm({
             )}
           </div>
 
+          {/* Budget Period */}
+          <PeriodSelector
+            period={selectedPeriod}
+            onPeriodChange={(period) => setValue('period', period)}
+            anchorRegistration={register('periodAnchor')}
+            anchorError={errors.periodAnchor?.message}
+          />
+
+          {/* Rollover */}
+          <RolloverSelector
+            mode={selectedRolloverMode}
+            onModeChange={(mode) => setValue('rolloverMode', mode)}
+            capRegistration={register('rolloverCap', { valueAsNumber: true })}
+            capError={errors.rolloverCap?.message}
+            sinceRegistration={register('rolloverSince')}
+            sinceDefault="when the budget was created"
+          />
+
+          {/* Spending Alerts */}
+          <AlertThresholdsSelector
+            value={selectedAlertThresholds}
+            onChange={(thresholds) => setValue('alertThresholds', thresholds)}
+          />
+
           {/* Theme Selector */}
           <ThemeSelector
             value={selectedTheme}
@@ -0,0 +1,97 @@
+/**
+ * Period Selector Component
+ *
+ * CONCEPT: Chooses how long a budget's maximum lasts, and optionally the
+ * day periods start on (e.g. a month that starts on payday, the 25th).
+ *
+ * Without a start date, periods follow the calendar: months from the 1st,
+ * weeks from Monday, quarters from January/April/July/October, years from
+ * January 1st.
+ *
+ * Usage:
+ *   <PeriodSelector
+ *     period={period}
+ *     onPeriodChange={(period) => setValue('period', period)}
+ *     anchorRegistration={register('periodAnchor')}
+ *     anchorError={errors.periodAnchor?.message}
+ *   />
+ */
+
+import type { UseFormRegisterReturn } from 'react-hook-form';
+import type { BudgetPeriod } from '@/lib/api';
+import {
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui';
+
+// Period options
+const periods: { value: BudgetPeriod; label: string; calendar: string }[] = [
+  { value: 'weekly', label: 'Weekly', calendar: 'Mondays' },
+  { value: 'biweekly', label: 'Bi-weekly', calendar: 'every other Monday' },
+  { value: 'monthly', label: 'Monthly', calendar: 'the 1st of the month' },
+  { value: 'quarterly', label: 'Quarterly', calendar: 'January, April, July and October 1st' },
+  { value: 'yearly', label: 'Yearly', calendar: 'January 1st' },
+];
+
+// Today's date in UTC format YYYY-MM-DD
+const today = () => new Date().toISOString().slice(0, 10);
+
+interface PeriodSelectorProps {
+  period: BudgetPeriod;
+  onPeriodChange: (period: BudgetPeriod) => void;
+  anchorRegistration: UseFormRegisterReturn;
+  anchorError?: string;
+}
+
+export function PeriodSelector({
+  period,
+  onPeriodChange,
+  anchorRegistration,
+  anchorError,
+}: PeriodSelectorProps) {
+  const selected = periods.find((option) => option.value === period);
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label htmlFor="period">Budget Period</Label>
+        <Select value={period} onValueChange={(value) => onPeriodChange(value as BudgetPeriod)}>
+          <SelectTrigger id="period">
+            <SelectValue placeholder="Select a period" />
+          </SelectTrigger>
+          <SelectContent>
+            {periods.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="periodAnchor">Starts On (optional)</Label>
+        <Input
+          id="periodAnchor"
+          type="date"
+          max={today()}
+          {...anchorRegistration}
+          error={!!anchorError}
+        />
+      </div>
+
+      <p className="col-span-2 text-xs text-[var(--color-grey-500)]">
+        {anchorError ? (
+          <span className="text-[var(--color-red)]">{anchorError}</span>
+        ) : (
+          `Pick a day a period started on (e.g. your last payday). Leave empty to start on ${selected?.calendar}.`
+        )}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+/**
+ * Rollover Selector Component
+ *
+ * CONCEPT: Chooses what a budget carries into its next period
+ * (envelope budgeting), with an optional cap on the carried amount and
+ * the day the rollover starts counting from (earlier periods are replayed
+ * from your transactions).
+ *
+ * Modes:
+ * - none: Every period starts from the maximum
+ * - surplus: Unspent money is added to the next period
+ * - surplus_and_deficit: Overspending is also taken off the next period
+ *
+ * Usage:
+ *   <RolloverSelector
+ *     mode={rolloverMode}
+ *     onModeChange={(mode) => setValue('rolloverMode', mode)}
+ *     capRegistration={register('rolloverCap', { valueAsNumber: true })}
+ *     capError={errors.rolloverCap?.message}
+ *     sinceRegistration={register('rolloverSince')}
+ *     sinceDefault="the current period"
+ *   />
+ */
+
+import type { UseFormRegisterReturn } from 'react-hook-form';
+import type { RolloverMode } from '@/lib/api';
+import {
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui';
+
+// Rollover options
+const rolloverModes: { value: RolloverMode; label: string; description: string }[] = [
+  { value: 'none', label: 'No rollover', description: 'Every period starts fresh.' },
+  {
+    value: 'surplus',
+    label: 'Carry unspent money',
+    description: "Money you don't spend is added to the next period's limit.",
+  },
+  {
+    value: 'surplus_and_deficit',
+    label: 'Carry unspent and overspent',
+    description: 'Unspent money is added to the next period, overspending is taken off it.',
+  },
+];
+
+// Today's date in UTC format YYYY-MM-DD
+const today = () => new Date().toISOString().slice(0, 10);
+
+interface RolloverSelectorProps {
+  mode: RolloverMode;
+  onModeChange: (mode: RolloverMode) => void;
+  capRegistration: UseFormRegisterReturn;
+  capError?: string;
+  sinceRegistration: UseFormRegisterReturn;
+  sinceDefault: string;  // Where the rollover starts when no date is picked
+}
+
+export function RolloverSelector({
+  mode,
+  onModeChange,
+  capRegistration,
+  capError,
+  sinceRegistration,
+  sinceDefault,
+}: RolloverSelectorProps) {
+  const selected = rolloverModes.find((option) => option.value === mode);
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="rolloverMode">Rollover</Label>
+      <Select value={mode} onValueChange={(value) => onModeChange(value as RolloverMode)}>
+        <SelectTrigger id="rolloverMode">
+          <SelectValue placeholder="Select a rollover" />
+        </SelectTrigger>
+        <SelectContent>
+          {rolloverModes.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {selected && (
+        <p className="text-xs text-[var(--color-grey-500)]">{selected.description}</p>
+      )}
+
+      {/* Cap (only with rollover) */}
+      {mode !== 'none' && (
+        <div className="space-y-2 pt-2">
+          <Label htmlFor="rolloverCap">Carry at Most (optional)</Label>
+          <div className="relative">
+            <span className="absolute left-4 top-1/2 -translate-y-1/2 text-[var(--color-grey-500)]">
+              $
+            </span>
+            <Input
+              id="rolloverCap"
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="No cap"
+              className="pl-8"
+              {...capRegistration}
+              error={!!capError}
+            />
+          </div>
+          {capError && <p className="text-xs text-[var(--color-red)]">{capError}</p>}
+        </div>
+      )}
+
+      {/* First period counted (only with rollover) */}
+      {mode !== 'none' && (
+        <div className="space-y-2 pt-2">
+          <Label htmlFor="rolloverSince">Carry Since (optional)</Label>
+          <Input id="rolloverSince" type="date" max={today()} {...sinceRegistration} />
+          <p className="text-xs text-[var(--color-grey-500)]">
+            Leftovers count from the period containing this day. Leave empty to start from{' '}
+            {sinceDefault}.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,7 +6,12 @@
 
 export { BudgetDonutChart } from './BudgetDonutChart';
 export { ThemeSelector, themeColors } from './ThemeSelector';
+export { PeriodSelector } from './PeriodSelector';
+export { RolloverSelector } from './RolloverSelector';
+export { AlertThresholdsSelector } from './AlertThresholdsSelector';
 export { BudgetCard } from './BudgetCard';
+export { BudgetHistoryChart } from './BudgetHistoryChart';
+export { BudgetMonthReview } from './BudgetMonthReview';
 export { BudgetSpendingSummary } from './BudgetSpendingSummary';
 export { AddBudgetForm } from './AddBudgetForm';
 export { EditBudgetForm } from './EditBudgetForm';
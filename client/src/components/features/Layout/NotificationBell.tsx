@@ -0,0 +1,162 @@
+/**
+ * Notification Bell Component
+ *
+ * CONCEPT: The notification center - a bell with the unread count that
+ * opens a panel of the latest notifications (e.g. budget alerts).
+ *
+ * Features:
+ * - Unread count badge (9+ above nine)
+ * - Opening a notification marks it as read and goes to its page
+ * - Dismiss button per notification
+ * - "Mark all as read"
+ *
+ * Placement:
+ * - sidebar: Next to the logo in the desktop sidebar
+ * - bottomNav: Item of the mobile bottom navigation
+ *
+ * Usage:
+ *   <NotificationBell placement="sidebar" />
+ */
+
+import { useNavigate } from 'react-router-dom';
+import { Bell, X } from 'lucide-react';
+import type { Notification } from '@/lib/api';
+import { cn, formatDate } from '@/lib/utils';
+import {
+  useNotifications,
+  useMarkNotificationRead,
+  useMarkAllNotificationsRead,
+  useDismissNotification,
+} from '@/queryHooks';
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+} from '@/components/ui';
+
+// Page each notification type links to
+const notificationLinks: Record<Notification['type'], string> = {
+  budget_threshold: '/budgets',
+};
+
+interface NotificationBellProps {
+  placement: 'sidebar' | 'bottomNav';
+}
+
+export function NotificationBell({ placement }: NotificationBellProps) {
+  const navigate = useNavigate();
+  const { data } = useNotifications();
+  const markRead = useMarkNotificationRead();
+  const markAllRead = useMarkAllNotificationsRead();
+  const dismiss = useDismissNotification();
+
+  const notifications = data?.data.notifications ?? [];
+  const unreadCount = data?.data.unreadCount ?? 0;
+  const label = unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications';
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.readAt) {
+      markRead.mutate(notification._id);
+    }
+    navigate(notificationLinks[notification.type]);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          aria-label={label}
+          className={cn(
+            'relative flex items-center rounded-lg transition-colors text-[var(--color-grey-300)] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[var(--color-green)]',
+            placement === 'sidebar'
+              ? 'p-2 hover:text-white hover:bg-white/5'
+              : 'flex-col gap-1 px-3 py-2 focus-visible:ring-offset-2 focus-visible:ring-offset-[var(--color-grey-900)]'
+          )}
+        >
+          <span className="relative">
+            <Bell className="h-5 w-5" aria-hidden="true" />
+            {unreadCount > 0 && (
+              <span className="absolute -top-1.5 -right-1.5 min-w-4 h-4 px-1 rounded-full bg-[var(--color-red)] text-white text-[10px] font-bold leading-4 text-center">
+                {unreadCount > 9 ? '9+' : unreadCount}
+              </span>
+            )}
+          </span>
+          {placement === 'bottomNav' && (
+            <span className="text-xs font-medium hidden sm:block">Alerts</span>
+          )}
+        </button>
+      </DropdownMenuTrigger>
+
+      <DropdownMenuContent
+        align={placement === 'sidebar' ? 'start' : 'end'}
+        side={placement === 'sidebar' ? 'right' : 'top'}
+        className="w-80"
+      >
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <button
+              onClick={() => markAllRead.mutate()}
+              disabled={markAllRead.isPending}
+              className="px-2 text-xs text-[var(--color-grey-500)] hover:text-[var(--color-grey-900)] disabled:opacity-50"
+            >
+              Mark all as read
+            </button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-[var(--color-grey-500)]">
+            You're all caught up.
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <div key={notification._id} className="flex items-start gap-1">
+                <DropdownMenuItem
+                  onSelect={() => handleOpen(notification)}
+                  className="flex-1 items-start gap-3 py-2"
+                >
+                  <span
+                    className={cn(
+                      'mt-1.5 h-2 w-2 shrink-0 rounded-full',
+                      notification.readAt ? 'bg-transparent' : 'bg-[var(--color-red)]'
+                    )}
+                    aria-hidden="true"
+                  />
+                  <span className="min-w-0">
+                    <span
+                      className={cn(
+                        'block text-sm text-[var(--color-grey-900)]',
+                        !notification.readAt && 'font-bold'
+                      )}
+                    >
+                      {notification.title}
+                    </span>
+                    <span className="block text-xs text-[var(--color-grey-500)]">
+                      {notification.message}
+                    </span>
+                    <span className="block text-xs text-[var(--color-grey-300)] mt-1">
+                      {formatDate(notification.createdAt)}
+                    </span>
+                  </span>
+                </DropdownMenuItem>
+                <button
+                  onClick={() => dismiss.mutate(notification._id)}
+                  aria-label={`Dismiss ${notification.title}`}
+                  className="mt-2 p-1 rounded text-[var(--color-grey-300)] hover:text-[var(--color-grey-900)]"
+                >
+                  <X className="h-4 w-4" aria-hidden="true" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -3,13 +3,14 @@
  *
  * Navigation sidebar with links to all main pages.
  * Hidden on mobile, shows as fixed sidebar on desktop.
- * Includes user info and logout button.
+ * Includes user info, logout button and the notification bell.
  */
 
 import { NavLink, useNavigate } from 'react-router-dom';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/contexts';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui';
+import { NotificationBell } from './NotificationBell';
 import {
   LayoutDashboard,
   ArrowLeftRight,
@@ -54,13 +55,14 @@ export function Sidebar() {
       {/* Desktop Sidebar */}
       <aside className="hidden lg:fixed lg:inset-y-0 lg:left-0 lg:flex lg:w-[300px] lg:flex-col">
         <div className="flex grow flex-col gap-y-5 overflow-y-auto bg-[var(--color-grey-900)] px-6 pb-4 rounded-r-2xl">
-          {/* Logo */}
-          <div className="flex h-20 shrink-0 items-center">
+          {/* Logo + Notifications */}
+          <div className="flex h-20 shrink-0 items-center justify-between">
             <img
               src="/assets/images/logo-large.svg"
               alt="Centinel"
               className="h-6 w-auto"
             />
+            {user && <NotificationBell placement="sidebar" />}
           </div>
 
           {/* Navigation */}
@@ -145,6 +147,12 @@ export function Sidebar() {
               </NavLink>
             </li>
           ))}
+          {/* Mobile notifications */}
+          {user && (
+            <li role="none">
+              <NotificationBell placement="bottomNav" />
+            </li>
+          )}
           {/* Mobile logout button */}
           <li role="none">
             <button
@@ -26,7 +26,8 @@ interface BudgetsOverviewProps {
 export function BudgetsOverview({ budgets }: BudgetsOverviewProps) {
   // Calculate totals
   const totalSpent = budgets.reduce((sum, b) => sum + b.spent, 0);
-  const totalMaximum = budgets.reduce((sum, b) => sum + b.maximum, 0);
+  // Limits of each budget's current period, including carried over amounts
+  const totalMaximum = budgets.reduce((sum, b) => sum + b.effectiveMaximum, 0);
 
   // Prepare chart data
   const chartData = budgets.map((budget) => ({
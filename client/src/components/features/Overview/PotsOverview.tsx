@@ -7,6 +7,7 @@
  * Features:
  * - Total saved amount with pot icon
  * - Grid of first 4 pots with theme colors
+ * - On track / behind badge for pots with a target date
  * - "See Details" link to Pots page
  * - Responsive layout that stacks on small screens
  *
@@ -18,6 +19,7 @@ import { Link } from 'react-router-dom';
 import { Wallet } from 'lucide-react';
 import type { Pot } from '@/lib/api';
 import { formatCurrency } from '@/lib/utils';
+import { PotStatusBadge } from '@/components/features/Pots';
 
 interface PotsOverviewProps {
   totalSaved: number;
@@ -69,9 +71,12 @@ export function PotsOverview({ totalSaved, pots }: PotsOverviewProps) {
                   <p className="text-xs text-[var(--color-grey-500)] truncate">
                     {pot.name}
                   </p>
-                  <p className="font-bold text-[var(--color-grey-900)]">
-                    {formatCurrency(pot.total)}
-                  </p>
+                  <div className="flex flex-wrap items-center gap-x-2">
+                    <p className="font-bold text-[var(--color-grey-900)]">
+                      {formatCurrency(pot.total)}
+                    </p>
+                    <PotStatusBadge pot={pot} />
+                  </div>
                 </div>
               </div>
             ))}
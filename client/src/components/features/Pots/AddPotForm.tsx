@@ -7,6 +7,7 @@
  * Form Fields:
  * - Pot Name (text input, max 30 chars)
  * - Target Amount (number input)
+ * - Target Date (optional date input)
  * - Theme (color selector)
  *
  * Usage:
@@ -44,6 +45,12 @@ const addPotSchema = z.object({
     .number({ message: 'Please enter a valid amount' })
     .positive('Target must be greater than 0')
     .max(1000000, 'Target cannot exceed $1,000,000'),
+  targetDate: z
+    .string()
+    .refine(
+      (value) => !value || value >= new Date().toISOString().slice(0, 10),
+      'Target date cannot be in the past'
+    ),
   theme: z.string().min(1, 'Please select a theme color'),
 });
 
@@ -79,6 +86,7 @@ export function AddPotForm({
     defaultValues: {
       name: '',
       target: undefined,
+      targetDate: '',
       theme: firstAvailableTheme,
     },
   });
@@ -94,6 +102,7 @@ export function AddPotForm({
       reset({
         name: '',
         target: undefined,
+        targetDate: '',
         theme: firstAvailableTheme,
       });
     }
@@ -101,7 +110,10 @@ export function AddPotForm({
 
   const onSubmit = async (data: AddPotFormData) => {
     try {
-      await createPot.mutateAsync(data);
+      await createPot.mutateAsync({
+        ...data,
+        targetDate: data.targetDate || undefined,
+      });
       onOpenChange(false);
       reset();
     } catch (error) {
@@ -174,6 +186,22 @@ export function AddPotForm({
             )}
           </div>
 
+          {/* Target Date */}
+          <div className="space-y-2">
+            <Label htmlFor="targetDate">Target Date (optional)</Label>
+            <Input
+              id="targetDate"
+              type="date"
+              {...register('targetDate')}
+              error={!!errors.targetDate}
+            />
+            {errors.targetDate && (
+              <p className="text-xs text-[var(--color-red)]">
+                {errors.targetDate.message}
+              </p>
+            )}
+          </div>
+
           {/* Theme Selector */}
           <ThemeSelector
             value={selectedTheme}
@@ -0,0 +1,111 @@
+/**
+ * Complete Pot Modal Component
+ *
+ * CONCEPT: A confirmation dialog for marking a pot that reached its
+ * target as completed. The money stays in the pot.
+ *
+ * Features:
+ * - Optional deposit lock (no more manual or rule deposits)
+ *
+ * Usage:
+ *   <CompletePotModal
+ *     open={isOpen}
+ *     onOpenChange={setIsOpen}
+ *     pot={selectedPot}
+ *   />
+ */
+
+import * as React from 'react';
+import { useCompletePot } from '@/queryHooks';
+import type { Pot } from '@/lib/api';
+import { formatCurrency } from '@/lib/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  Button,
+  Label,
+} from '@/components/ui';
+
+interface CompletePotModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  pot: Pot | null;
+}
+
+export function CompletePotModal({
+  open,
+  onOpenChange,
+  pot,
+}: CompletePotModalProps) {
+  const completePot = useCompletePot();
+  const [lockDeposits, setLockDeposits] = React.useState(false);
+
+  // Forget the lock choice whenever the dialog closes
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setLockDeposits(false);
+    onOpenChange(nextOpen);
+  };
+
+  const handleComplete = async () => {
+    if (!pot) return;
+
+    try {
+      await completePot.mutateAsync({ id: pot._id, lockDeposits });
+      handleOpenChange(false);
+    } catch (error) {
+      console.error('Failed to complete pot:', error);
+    }
+  };
+
+  if (!pot) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Complete '{pot.name}'?</DialogTitle>
+          <DialogDescription>
+            You saved {formatCurrency(pot.total)} of your{' '}
+            {formatCurrency(pot.target)} target. The money stays in the pot
+            until you withdraw it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Lock Deposits Checkbox */}
+        <div className="flex items-center gap-3">
+          <input
+            type="checkbox"
+            id="lockDeposits"
+            checked={lockDeposits}
+            onChange={(e) => setLockDeposits(e.target.checked)}
+            className="w-5 h-5 rounded border-[var(--color-grey-300)] text-[var(--color-green)] focus:ring-[var(--color-green)]"
+          />
+          <Label htmlFor="lockDeposits" className="cursor-pointer">
+            Stop further deposits (including savings rules)
+          </Label>
+        </div>
+
+        <DialogFooter className="flex-col gap-2 sm:flex-col">
+          <Button
+            onClick={handleComplete}
+            disabled={completePot.isPending}
+            className="w-full"
+          >
+            {completePot.isPending ? 'Completing...' : 'Mark as Complete'}
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={() => handleOpenChange(false)}
+            className="w-full"
+          >
+            No, Go Back
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,6 +7,7 @@
  * Form Fields:
  * - Pot Name (text input, max 30 chars)
  * - Target Amount (number input)
+ * - Target Date (optional date input)
  * - Theme (color selector)
  *
  * Usage:
@@ -46,6 +47,7 @@ const editPotSchema = z.object({
     .number({ message: 'Please enter a valid amount' })
     .positive('Target must be greater than 0')
     .max(1000000, 'Target cannot exceed $1,000,000'),
+  targetDate: z.string(), // Empty = no target date
   theme: z.string().min(1, 'Please select a theme color'),
 });
 
@@ -78,6 +80,7 @@ export function EditPotForm({
     defaultValues: {
       name: pot?.name || '',
       target: pot?.target || 0,
+      targetDate: pot?.targetDate?.slice(0, 10) ?? '',
       theme: pot?.theme || '',
     },
   });
@@ -93,6 +96,7 @@ export function EditPotForm({
       reset({
         name: pot.name,
         target: pot.target,
+        targetDate: pot.targetDate?.slice(0, 10) ?? '',
         theme: pot.theme,
       });
     }
@@ -104,7 +108,10 @@ export function EditPotForm({
     try {
       await updatePot.mutateAsync({
         id: pot._id,
-        data,
+        data: {
+          ...data,
+          targetDate: data.targetDate || null, // Cleared field removes the date
+        },
       });
       onOpenChange(false);
     } catch (error) {
@@ -180,6 +187,22 @@ export function EditPotForm({
             )}
           </div>
 
+          {/* Target Date */}
+          <div className="space-y-2">
+            <Label htmlFor="targetDate">Target Date (optional)</Label>
+            <Input
+              id="targetDate"
+              type="date"
+              {...register('targetDate')}
+              error={!!errors.targetDate}
+            />
+            {errors.targetDate && (
+              <p className="text-xs text-[var(--color-red)]">
+                {errors.targetDate.message}
+              </p>
+            )}
+          </div>
+
           {/* Theme Selector */}
           <ThemeSelector
             value={selectedTheme}
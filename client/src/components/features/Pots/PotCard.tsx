@@ -7,8 +7,10 @@
  * Features:
  * - Theme-colored progress bar
  * - Percentage and target display
- * - Dropdown menu for edit/delete
- * - Add Money and Withdraw buttons
+ * - Target date with required contribution, projection and on-track badge
+ * - Dropdown menu for transfer/history/savings rules/edit/complete/archive/delete
+ * - Add Money and Withdraw buttons (Add Money disabled when deposits are locked)
+ * - Archived pots only offer history, restore and delete
  *
  * Usage:
  *   <PotCard
@@ -17,12 +19,28 @@
  *     onDelete={() => handleDelete(pot)}
  *     onDeposit={() => handleDeposit(pot)}
  *     onWithdraw={() => handleWithdraw(pot)}
+ *     onTransfer={() => handleTransfer(pot)}
+ *     onHistory={() => handleHistory(pot)}
+ *     onRules={() => handleRules(pot)}
+ *     onComplete={() => handleComplete(pot)}
+ *     onArchive={() => handleArchive(pot)}
+ *     onRestore={() => handleRestore(pot)}
  *   />
  */
 
-import { MoreHorizontal, Pencil, Trash2 } from 'lucide-react';
+import {
+  Archive,
+  ArchiveRestore,
+  ArrowRightLeft,
+  CircleCheck,
+  History,
+  MoreHorizontal,
+  Pencil,
+  Repeat,
+  Trash2,
+} from 'lucide-react';
 import type { Pot } from '@/lib/api';
-import { formatCurrency, calculatePercentage } from '@/lib/utils';
+import { cn, formatCurrency, formatDate, calculatePercentage } from '@/lib/utils';
 import {
   Button,
   Progress,
@@ -32,6 +50,7 @@ import {
   DropdownMenuItem,
   DropdownMenuSeparator,
 } from '@/components/ui';
+import { PotStatusBadge } from './PotStatusBadge';
 
 interface PotCardProps {
   pot: Pot;
@@ -39,6 +58,12 @@ interface PotCardProps {
   onDelete: () => void;
   onDeposit: () => void;
   onWithdraw: () => void;
+  onTransfer: () => void;
+  onHistory: () => void;
+  onRules: () => void;
+  onComplete: () => void;
+  onArchive: () => void;
+  onRestore: () => void;
 }
 
 export function PotCard({
@@ -47,11 +72,19 @@ export function PotCard({
   onDelete,
   onDeposit,
   onWithdraw,
+  onTransfer,
+  onHistory,
+  onRules,
+  onComplete,
+  onArchive,
+  onRestore,
 }: PotCardProps) {
   const percentage = calculatePercentage(pot.total, pot.target);
+  const isArchived = pot.status === 'archived';
+  const depositsLocked = pot.status === 'completed' && pot.lockDeposits;
 
   return (
-    <div className="rounded-xl bg-white p-6 shadow-sm">
+    <div className={cn('rounded-xl bg-white p-6 shadow-sm', isArchived && 'opacity-75')}>
       {/* Header: Name + Theme indicator + Menu */}
       <div className="flex items-center justify-between mb-6">
         <div className="flex items-center gap-4">
@@ -72,11 +105,47 @@ export function PotCard({
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="end">
-            <DropdownMenuItem onClick={onEdit}>
-              <Pencil className="mr-2 h-4 w-4" />
-              Edit Pot
+            {!isArchived && (
+              <DropdownMenuItem onClick={onTransfer} disabled={pot.total <= 0}>
+                <ArrowRightLeft className="mr-2 h-4 w-4" />
+                Transfer to Pot
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuItem onClick={onHistory}>
+              <History className="mr-2 h-4 w-4" />
+              View History
             </DropdownMenuItem>
+            {!isArchived && (
+              <>
+                <DropdownMenuItem onClick={onRules}>
+                  <Repeat className="mr-2 h-4 w-4" />
+                  Savings Rules
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={onEdit}>
+                  <Pencil className="mr-2 h-4 w-4" />
+                  Edit Pot
+                </DropdownMenuItem>
+              </>
+            )}
             <DropdownMenuSeparator />
+            {pot.status === 'active' && (
+              <DropdownMenuItem onClick={onComplete} disabled={pot.remaining > 0}>
+                <CircleCheck className="mr-2 h-4 w-4" />
+                Mark as Complete
+              </DropdownMenuItem>
+            )}
+            {pot.status !== 'active' && (
+              <DropdownMenuItem onClick={onRestore}>
+                <ArchiveRestore className="mr-2 h-4 w-4" />
+                Restore Pot
+              </DropdownMenuItem>
+            )}
+            {!isArchived && (
+              <DropdownMenuItem onClick={onArchive}>
+                <Archive className="mr-2 h-4 w-4" />
+                Archive Pot
+              </DropdownMenuItem>
+            )}
             <DropdownMenuItem
               onClick={onDelete}
               className="text-[var(--color-red)] focus:text-[var(--color-red)]"
@@ -104,7 +173,7 @@ export function PotCard({
       />
 
       {/* Percentage + Target */}
-      <div className="flex items-center justify-between text-xs mb-8">
+      <div className="flex items-center justify-between text-xs mb-4">
         <span
           className="font-bold"
           style={{ color: pot.theme }}
@@ -116,24 +185,54 @@ export function PotCard({
         </span>
       </div>
 
-      {/* Action Buttons */}
-      <div className="flex gap-4">
-        <Button
-          variant="secondary"
-          className="flex-1"
-          onClick={onDeposit}
-        >
-          + Add Money
-        </Button>
-        <Button
-          variant="secondary"
-          className="flex-1"
-          onClick={onWithdraw}
-          disabled={pot.total <= 0}
-        >
-          Withdraw
-        </Button>
+      {/* Target Date + Projection */}
+      <div className="rounded-lg bg-[var(--color-beige-100)] p-4 mb-6 space-y-1 text-xs text-[var(--color-grey-500)]">
+        <div className="flex items-center justify-between">
+          <span>
+            {pot.targetDate ? `By ${formatDate(pot.targetDate, 'long')}` : 'No target date'}
+          </span>
+          <PotStatusBadge pot={pot} />
+        </div>
+        {pot.requiredMonthly !== null && pot.requiredWeekly !== null && (
+          <p>
+            Save{' '}
+            <span className="font-bold text-[var(--color-grey-900)]">
+              {formatCurrency(pot.requiredMonthly)}/month
+            </span>{' '}
+            ({formatCurrency(pot.requiredWeekly)}/week) to get there
+          </p>
+        )}
+        {pot.remaining > 0 && (
+          <p>
+            {pot.projectedDate
+              ? `At your recent rate you'll reach it by ${formatDate(pot.projectedDate, 'long')}`
+              : 'No recent deposits to project from'}
+          </p>
+        )}
       </div>
+
+      {/* Action Buttons (archived pots are read-only) */}
+      {!isArchived && (
+        <div className="flex gap-4">
+          <Button
+            variant="secondary"
+            className="flex-1"
+            onClick={onDeposit}
+            disabled={depositsLocked}
+            title={depositsLocked ? 'Deposits are locked for this completed pot' : undefined}
+          >
+            + Add Money
+          </Button>
+          <Button
+            variant="secondary"
+            className="flex-1"
+            onClick={onWithdraw}
+            disabled={pot.total <= 0}
+          >
+            Withdraw
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
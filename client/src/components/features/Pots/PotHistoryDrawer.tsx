@@ -0,0 +1,192 @@
+/**
+ * Pot History Drawer Component
+ *
+ * CONCEPT: A side drawer showing how a pot's total changed over time.
+ * A sparkline of the pot total sits above the list of deposits,
+ * withdrawals and transfers (newest first).
+ *
+ * Note: Movements are only recorded from the pot activity ledger onwards,
+ * so the line starts at whatever the pot held before its first recorded
+ * movement.
+ *
+ * Usage:
+ *   <PotHistoryDrawer
+ *     open={isOpen}
+ *     onOpenChange={setIsOpen}
+ *     pot={selectedPot}
+ *   />
+ */
+
+import { AreaChart, Area, ResponsiveContainer, Tooltip, YAxis } from 'recharts';
+import { usePotHistory, usePots } from '@/queryHooks';
+import type { Pot, PotMovement } from '@/lib/api';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui';
+import { ErrorState } from '@/components';
+
+interface PotHistoryDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  pot: Pot | null;
+}
+
+const MOVEMENT_LABELS: Record<PotMovement['type'], string> = {
+  deposit: 'Added',
+  withdrawal: 'Withdrawn',
+  transfer_in: 'Transferred in',
+  transfer_out: 'Transferred out',
+  close: 'Returned to balance',
+};
+
+// Deposits made by a savings rule
+const RULE_LABELS: Record<NonNullable<PotMovement['ruleType']>, string> = {
+  scheduled: 'Scheduled transfer',
+  round_up: 'Round-up',
+  income_percentage: 'Share of income',
+};
+
+// Movements that add money to the pot
+const isInflow = (movement: PotMovement) =>
+  movement.type === 'deposit' || movement.type === 'transfer_in';
+
+/**
+ * Sparkline points: the total before the first movement, then the total after each one
+ */
+function toSparklineData(movements: PotMovement[]) {
+  if (movements.length === 0) return [];
+
+  const first = movements[0];
+  const startTotal = isInflow(first)
+    ? first.totalAfter - first.amount
+    : first.totalAfter + first.amount;
+
+  return [
+    { date: first.createdAt, total: startTotal },
+    ...movements.map((movement) => ({ date: movement.createdAt, total: movement.totalAfter })),
+  ];
+}
+
+export function PotHistoryDrawer({ open, onOpenChange, pot }: PotHistoryDrawerProps) {
+  const { data, isLoading, error, refetch } = usePotHistory(pot?._id ?? '', open);
+  const { data: potsData } = usePots('all');
+
+  if (!pot) return null;
+
+  const movements = data?.data.movements ?? [];
+  const sparklineData = toSparklineData(movements);
+
+  // Name the other pot of a transfer (if it still exists, archived or not)
+  const potNames = new Map((potsData?.data.pots ?? []).map((p) => [p._id, p.name]));
+  const describe = (movement: PotMovement) => {
+    if (movement.ruleType) return RULE_LABELS[movement.ruleType];
+    const otherPot = movement.counterpartPotId && potNames.get(movement.counterpartPotId);
+    if (otherPot && movement.type === 'transfer_in') return `Transferred from ${otherPot}`;
+    if (otherPot && movement.type === 'transfer_out') return `Transferred to ${otherPot}`;
+    return MOVEMENT_LABELS[movement.type];
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="left-auto right-0 top-0 h-full max-h-screen w-full max-w-md translate-x-0 translate-y-0 rounded-none rounded-l-xl data-[state=closed]:slide-out-to-right data-[state=open]:slide-in-from-right data-[state=closed]:zoom-out-100 data-[state=open]:zoom-in-100"
+      >
+        <DialogHeader>
+          <DialogTitle>{pot.name} History</DialogTitle>
+          <DialogDescription>
+            {formatCurrency(pot.total)} saved of {formatCurrency(pot.target)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && (
+          <div className="space-y-4 animate-pulse" role="status" aria-busy="true">
+            <span className="sr-only">Loading history...</span>
+            <div className="h-24 bg-[var(--color-beige-100)] rounded-lg" />
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-10 bg-[var(--color-beige-100)] rounded" />
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <ErrorState
+            error={error}
+            title="Error loading history"
+            onRetry={() => refetch()}
+          />
+        )}
+
+        {!isLoading && !error && movements.length === 0 && (
+          <p className="text-sm text-[var(--color-grey-500)] text-center py-8">
+            No deposits or withdrawals yet.
+          </p>
+        )}
+
+        {movements.length > 0 && (
+          <>
+            {/* Sparkline of the pot total */}
+            <div className="h-24 mb-6" aria-hidden="true">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={sparklineData} margin={{ top: 4, right: 0, bottom: 0, left: 0 }}>
+                  <YAxis hide domain={[0, 'dataMax']} />
+                  <Tooltip
+                    formatter={(value) => formatCurrency(Number(value))}
+                    labelFormatter={(_, payload) =>
+                      payload?.[0] ? formatDate(payload[0].payload.date, 'long') : ''
+                    }
+                  />
+                  <Area
+                    type="stepAfter"
+                    dataKey="total"
+                    name="Total"
+                    stroke={pot.theme}
+                    fill={pot.theme}
+                    fillOpacity={0.15}
+                    strokeWidth={2}
+                    isAnimationActive={false}
+                  />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+
+            {/* Movements, newest first */}
+            <ul className="divide-y divide-[var(--color-grey-100)]">
+              {[...movements].reverse().map((movement) => (
+                <li key={movement._id} className="flex items-center justify-between py-3">
+                  <div>
+                    <p className="text-sm font-bold text-[var(--color-grey-900)]">
+                      {describe(movement)}
+                    </p>
+                    <p className="text-xs text-[var(--color-grey-500)]">
+                      {formatDate(movement.createdAt, 'long')}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p
+                      className={`text-sm font-bold ${
+                        isInflow(movement)
+                          ? 'text-[var(--color-green)]'
+                          : 'text-[var(--color-grey-900)]'
+                      }`}
+                    >
+                      {isInflow(movement) ? '+' : '-'}
+                      {formatCurrency(movement.amount)}
+                    </p>
+                    <p className="text-xs text-[var(--color-grey-500)]">
+                      Total {formatCurrency(movement.totalAfter)}
+                    </p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,369 @@
+/**
+ * Pot Rules Dialog Component
+ *
+ * CONCEPT: Manage a pot's automatic savings rules. The server applies them,
+ * so money moves into the pot without a manual deposit:
+ * - Scheduled: A fixed amount on a schedule (e.g. $50 every month)
+ * - Round-up: Each expense rounded up to the next dollar
+ * - Income share: A percentage of each income transaction
+ *
+ * Features:
+ * - List of rules with pause/resume and delete
+ * - Form to add a rule (fields change with the rule type)
+ *
+ * Usage:
+ *   <PotRulesDialog
+ *     open={isOpen}
+ *     onOpenChange={setIsOpen}
+ *     pot={selectedPot}
+ *   />
+ */
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Pause, Play, Trash2 } from 'lucide-react';
+import {
+  usePotRules,
+  useCreatePotRule,
+  useUpdatePotRule,
+  useDeletePotRule,
+} from '@/queryHooks';
+import type { BillFrequency, CreatePotRuleData, Pot, PotRule, PotRuleType } from '@/lib/api';
+import { formatCurrency, formatDate, formatFrequency } from '@/lib/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  Button,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui';
+
+// Rule type options
+const ruleTypes: { value: PotRuleType; label: string }[] = [
+  { value: 'scheduled', label: 'Scheduled transfer' },
+  { value: 'round_up', label: 'Round up expenses' },
+  { value: 'income_percentage', label: 'Share of income' },
+];
+
+// Frequency options (same as bills)
+const frequencies: { value: BillFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Bi-weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+// Today's date in UTC format YYYY-MM-DD
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Validation schema (amount/schedule and percentage depend on the type)
+const addRuleSchema = z
+  .object({
+    type: z.enum(['scheduled', 'round_up', 'income_percentage']),
+    amount: z.number().optional(),
+    frequency: z.enum(['weekly', 'biweekly', 'monthly', 'quarterly', 'yearly', 'custom']),
+    anchorDate: z.string(),
+    percentage: z.number().optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.type === 'scheduled') {
+      if (!data.amount || Number.isNaN(data.amount) || data.amount <= 0) {
+        ctx.addIssue({ code: 'custom', message: 'Amount must be greater than 0', path: ['amount'] });
+      } else if (data.amount > 1000000) {
+        ctx.addIssue({ code: 'custom', message: 'Amount cannot exceed $1,000,000', path: ['amount'] });
+      }
+      if (!data.anchorDate) {
+        ctx.addIssue({ code: 'custom', message: 'Please select the first transfer date', path: ['anchorDate'] });
+      }
+    }
+    if (data.type === 'income_percentage') {
+      const percentage = data.percentage;
+      if (!percentage || Number.isNaN(percentage) || percentage <= 0 || percentage > 100) {
+        ctx.addIssue({ code: 'custom', message: 'Must be between 0 and 100', path: ['percentage'] });
+      }
+    }
+  });
+
+type AddRuleFormData = z.infer<typeof addRuleSchema>;
+
+const defaultValues: AddRuleFormData = {
+  type: 'scheduled',
+  amount: undefined,
+  frequency: 'monthly',
+  anchorDate: today(),
+  percentage: undefined,
+};
+
+/**
+ * Describe a rule in one line (e.g. "$50.00 monthly from Nov 1, 2026")
+ */
+function describeRule(rule: PotRule): string {
+  switch (rule.type) {
+    case 'scheduled':
+      return `${formatCurrency(rule.amount ?? 0)} ${formatFrequency(
+        rule.frequency ?? 'monthly',
+        rule.interval ?? 1
+      ).toLowerCase()} from ${formatDate(rule.anchorDate ?? rule.createdAt, 'long')}`;
+    case 'round_up':
+      return 'Round up every expense to the next dollar';
+    case 'income_percentage':
+      return `${rule.percentage}% of every income`;
+  }
+}
+
+interface PotRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  pot: Pot | null;
+}
+
+export function PotRulesDialog({ open, onOpenChange, pot }: PotRulesDialogProps) {
+  const potId = pot?._id ?? '';
+  const { data, isLoading } = usePotRules(potId, open);
+  const createRule = useCreatePotRule();
+  const updateRule = useUpdatePotRule();
+  const deleteRule = useDeletePotRule();
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<AddRuleFormData>({
+    resolver: zodResolver(addRuleSchema),
+    defaultValues,
+  });
+
+  const selectedType = watch('type');
+  const selectedFrequency = watch('frequency');
+  const rules = data?.data.rules ?? [];
+
+  // Reset form when dialog opens
+  React.useEffect(() => {
+    if (open) {
+      reset({ ...defaultValues, anchorDate: today() });
+    }
+  }, [open, reset]);
+
+  const onSubmit = async (formData: AddRuleFormData) => {
+    let rule: CreatePotRuleData;
+    if (formData.type === 'scheduled') {
+      rule = {
+        type: 'scheduled',
+        amount: formData.amount!,
+        frequency: formData.frequency,
+        anchorDate: formData.anchorDate,
+      };
+    } else if (formData.type === 'income_percentage') {
+      rule = { type: 'income_percentage', percentage: formData.percentage! };
+    } else {
+      rule = { type: 'round_up' };
+    }
+
+    try {
+      await createRule.mutateAsync({ potId, data: rule });
+      reset({ ...defaultValues, anchorDate: today() });
+    } catch (error) {
+      console.error('Failed to create savings rule:', error);
+    }
+  };
+
+  if (!pot) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Savings Rules for '{pot.name}'</DialogTitle>
+          <DialogDescription>
+            Rules move money from your balance into this pot automatically.
+            A transfer is skipped if your balance can't cover it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Existing Rules */}
+        {isLoading ? (
+          <div className="h-12 mb-5 bg-[var(--color-beige-100)] rounded-lg animate-pulse" />
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-[var(--color-grey-500)] mb-5">No rules yet.</p>
+        ) : (
+          <ul className="mb-5 divide-y divide-[var(--color-grey-100)]">
+            {rules.map((rule) => (
+              <li key={rule._id} className="flex items-center justify-between gap-2 py-3">
+                <div className="min-w-0">
+                  <p
+                    className={`text-sm font-bold ${
+                      rule.enabled ? 'text-[var(--color-grey-900)]' : 'text-[var(--color-grey-500)]'
+                    }`}
+                  >
+                    {ruleTypes.find((type) => type.value === rule.type)?.label}
+                    {!rule.enabled && ' (paused)'}
+                  </p>
+                  <p className="text-xs text-[var(--color-grey-500)]">{describeRule(rule)}</p>
+                </div>
+                <div className="flex shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    disabled={updateRule.isPending}
+                    onClick={() =>
+                      updateRule.mutate({
+                        potId,
+                        ruleId: rule._id,
+                        data: { enabled: !rule.enabled },
+                      })
+                    }
+                  >
+                    {rule.enabled ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                    <span className="sr-only">{rule.enabled ? 'Pause rule' : 'Resume rule'}</span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-[var(--color-red)]"
+                    disabled={deleteRule.isPending}
+                    onClick={() => deleteRule.mutate({ potId, ruleId: rule._id })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Delete rule</span>
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Add Rule */}
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="ruleType">New Rule</Label>
+            <Select
+              value={selectedType}
+              onValueChange={(value) => setValue('type', value as PotRuleType)}
+            >
+              <SelectTrigger id="ruleType">
+                <SelectValue placeholder="Select a rule type" />
+              </SelectTrigger>
+              <SelectContent>
+                {ruleTypes.map((type) => (
+                  <SelectItem key={type.value} value={type.value}>
+                    {type.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {selectedType === 'scheduled' && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="ruleAmount">Amount</Label>
+                  <div className="relative">
+                    <span className="absolute left-4 top-1/2 -translate-y-1/2 text-[var(--color-grey-500)]">
+                      $
+                    </span>
+                    <Input
+                      id="ruleAmount"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="e.g. 50"
+                      className="pl-8"
+                      {...register('amount', { valueAsNumber: true })}
+                      error={!!errors.amount}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ruleFrequency">Frequency</Label>
+                  <Select
+                    value={selectedFrequency}
+                    onValueChange={(value) => setValue('frequency', value as BillFrequency)}
+                  >
+                    <SelectTrigger id="ruleFrequency">
+                      <SelectValue placeholder="Select a frequency" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {frequencies.map((frequency) => (
+                        <SelectItem key={frequency.value} value={frequency.value}>
+                          {frequency.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {errors.amount && (
+                <p className="text-xs text-[var(--color-red)]">{errors.amount.message}</p>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="ruleAnchorDate">First Transfer</Label>
+                <Input
+                  id="ruleAnchorDate"
+                  type="date"
+                  {...register('anchorDate')}
+                  error={!!errors.anchorDate}
+                />
+                {errors.anchorDate && (
+                  <p className="text-xs text-[var(--color-red)]">{errors.anchorDate.message}</p>
+                )}
+              </div>
+            </>
+          )}
+
+          {selectedType === 'income_percentage' && (
+            <div className="space-y-2">
+              <Label htmlFor="rulePercentage">Percentage of Each Income</Label>
+              <div className="relative">
+                <Input
+                  id="rulePercentage"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  max="100"
+                  placeholder="e.g. 10"
+                  className="pr-8"
+                  {...register('percentage', { valueAsNumber: true })}
+                  error={!!errors.percentage}
+                />
+                <span className="absolute right-4 top-1/2 -translate-y-1/2 text-[var(--color-grey-500)]">
+                  %
+                </span>
+              </div>
+              {errors.percentage && (
+                <p className="text-xs text-[var(--color-red)]">{errors.percentage.message}</p>
+              )}
+            </div>
+          )}
+
+          {selectedType === 'round_up' && (
+            <p className="text-xs text-[var(--color-grey-500)]">
+              Every new expense is rounded up to the next dollar and the
+              difference goes into this pot (e.g. $4.30 saves $0.70).
+            </p>
+          )}
+
+          <Button type="submit" className="w-full" disabled={isSubmitting}>
+            {isSubmitting ? 'Adding Rule...' : 'Add Rule'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
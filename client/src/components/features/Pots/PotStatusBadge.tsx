@@ -0,0 +1,55 @@
+/**
+ * Pot Status Badge Component
+ *
+ * CONCEPT: A small pill saying whether a pot will reach its target
+ * by its target date ("On track" / "Behind"), or that it's done
+ * ("Reached", or "Completed" / "Archived" once the user closed it).
+ * Renders nothing for active pots without a target date that aren't complete.
+ *
+ * Usage:
+ *   <PotStatusBadge pot={pot} />
+ */
+
+import type { Pot } from '@/lib/api';
+import { cn } from '@/lib/utils';
+
+interface PotStatusBadgeProps {
+  pot: Pot;
+  className?: string;
+}
+
+export function PotStatusBadge({ pot, className }: PotStatusBadgeProps) {
+  let label: string;
+  let colorClass: string;
+
+  if (pot.status === 'archived') {
+    label = 'Archived';
+    colorClass = 'bg-[var(--color-grey-100)] text-[var(--color-grey-500)]';
+  } else if (pot.status === 'completed') {
+    label = 'Completed';
+    colorClass = 'bg-[var(--color-green)]/10 text-[var(--color-green)]';
+  } else if (pot.remaining <= 0) {
+    label = 'Reached';
+    colorClass = 'bg-[var(--color-green)]/10 text-[var(--color-green)]';
+  } else if (pot.onTrack === true) {
+    label = 'On track';
+    colorClass = 'bg-[var(--color-green)]/10 text-[var(--color-green)]';
+  } else if (pot.onTrack === false) {
+    label = 'Behind';
+    colorClass = 'bg-[var(--color-red)]/10 text-[var(--color-red)]';
+  } else {
+    return null;
+  }
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center rounded-full px-2 py-0.5 text-xs font-bold',
+        colorClass,
+        className
+      )}
+    >
+      {label}
+    </span>
+  );
+}
@@ -0,0 +1,230 @@
+/**
+ * Transfer Pot Form Component
+ *
+ * CONCEPT: A modal to move money from one savings pot to another.
+ * Shows both pots' new amounts as the user types.
+ *
+ * Important: A transfer only moves money between the two pots -
+ * the user's current balance doesn't change.
+ *
+ * Features:
+ * - Destination pot selector (other pots that accept deposits)
+ * - Live preview of both pots after the transfer
+ * - Validates against the source pot total
+ *
+ * Usage:
+ *   <TransferPotForm
+ *     open={isOpen}
+ *     onOpenChange={setIsOpen}
+ *     pot={selectedPot}
+ *     pots={allPots}
+ *   />
+ */
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useTransferBetweenPots } from '@/queryHooks';
+import type { Pot } from '@/lib/api';
+import { formatCurrency } from '@/lib/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  Button,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui';
+
+interface TransferPotFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  pot: Pot | null;
+  pots: Pot[];
+}
+
+export function TransferPotForm({
+  open,
+  onOpenChange,
+  pot,
+  pots,
+}: TransferPotFormProps) {
+  const transferBetweenPots = useTransferBetweenPots();
+
+  // Every other pot that still accepts deposits (not archived or locked)
+  const destinations = pots.filter(
+    (p) =>
+      p._id !== pot?._id &&
+      p.status !== 'archived' &&
+      !(p.status === 'completed' && p.lockDeposits)
+  );
+
+  // Dynamic validation schema based on pot
+  const transferSchema = React.useMemo(() => {
+    return z.object({
+      toPotId: z.string().min(1, 'Please select a pot'),
+      amount: z
+        .number({ message: 'Please enter a valid amount' })
+        .positive('Amount must be greater than 0')
+        .max(pot?.total || 0, 'Amount exceeds available funds'),
+    });
+  }, [pot]);
+
+  type TransferFormData = z.infer<typeof transferSchema>;
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<TransferFormData>({
+    resolver: zodResolver(transferSchema),
+    defaultValues: {
+      toPotId: '',
+      amount: undefined,
+    },
+  });
+
+  const toPotId = watch('toPotId');
+  const amountValue = watch('amount') || 0;
+
+  // Reset form when dialog opens
+  React.useEffect(() => {
+    if (open) {
+      reset({ toPotId: '', amount: undefined });
+    }
+  }, [open, reset]);
+
+  const onSubmit = async (data: TransferFormData) => {
+    if (!pot) return;
+
+    try {
+      await transferBetweenPots.mutateAsync({
+        id: pot._id,
+        data: { toPotId: data.toPotId, amount: data.amount },
+      });
+      onOpenChange(false);
+      reset();
+    } catch (error) {
+      console.error('Failed to transfer between pots:', error);
+    }
+  };
+
+  if (!pot) return null;
+
+  const destination = destinations.find((p) => p._id === toPotId);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Transfer from '{pot.name}'</DialogTitle>
+          <DialogDescription>
+            Move money to another pot. Your current balance stays the same.
+          </DialogDescription>
+        </DialogHeader>
+
+        {destinations.length === 0 ? (
+          <p className="text-sm text-[var(--color-grey-500)]">
+            Create another pot to transfer money into.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+            {/* New Amounts Display */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-[var(--color-grey-500)]">{pot.name}</span>
+                <span className="text-xl font-bold text-[var(--color-grey-900)]">
+                  {formatCurrency(Math.max(0, pot.total - amountValue))}
+                </span>
+              </div>
+              {destination && (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-[var(--color-grey-500)]">{destination.name}</span>
+                  <span className="text-xl font-bold text-[var(--color-grey-900)]">
+                    {formatCurrency(destination.total + amountValue)}
+                  </span>
+                </div>
+              )}
+            </div>
+
+            {/* Destination Pot */}
+            <div className="space-y-2">
+              <Label htmlFor="toPotId">Transfer To</Label>
+              <Select
+                value={toPotId}
+                onValueChange={(value) => setValue('toPotId', value, { shouldValidate: true })}
+              >
+                <SelectTrigger id="toPotId">
+                  <SelectValue placeholder="Select a pot" />
+                </SelectTrigger>
+                <SelectContent>
+                  {destinations.map((p) => (
+                    <SelectItem key={p._id} value={p._id}>
+                      <div className="flex items-center gap-2">
+                        <div
+                          className="w-3 h-3 rounded-full"
+                          style={{ backgroundColor: p.theme }}
+                        />
+                        {p.name}
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {errors.toPotId && (
+                <p className="text-xs text-[var(--color-red)]">
+                  {errors.toPotId.message}
+                </p>
+              )}
+            </div>
+
+            {/* Amount to Transfer */}
+            <div className="space-y-2">
+              <Label htmlFor="amount">Amount to Transfer</Label>
+              <div className="relative">
+                <span className="absolute left-4 top-1/2 -translate-y-1/2 text-[var(--color-grey-500)]">
+                  $
+                </span>
+                <Input
+                  id="amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max={pot.total}
+                  placeholder="e.g. 100"
+                  className="pl-8"
+                  {...register('amount', { valueAsNumber: true })}
+                  error={!!errors.amount}
+                />
+              </div>
+              {errors.amount && (
+                <p className="text-xs text-[var(--color-red)]">
+                  {errors.amount.message}
+                </p>
+              )}
+              <p className="text-xs text-[var(--color-grey-500)]">
+                {formatCurrency(pot.total)} available to transfer
+              </p>
+            </div>
+
+            {/* Submit Button */}
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting ? 'Transferring...' : 'Confirm Transfer'}
+            </Button>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
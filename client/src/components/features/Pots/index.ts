@@ -8,5 +8,10 @@ export { PotCard } from './PotCard';
 export { AddPotForm } from './AddPotForm';
 export { EditPotForm } from './EditPotForm';
 export { DeletePotModal } from './DeletePotModal';
+export { CompletePotModal } from './CompletePotModal';
 export { DepositPotForm } from './DepositPotForm';
 export { WithdrawPotForm } from './WithdrawPotForm';
+export { TransferPotForm } from './TransferPotForm';
+export { PotHistoryDrawer } from './PotHistoryDrawer';
+export { PotStatusBadge } from './PotStatusBadge';
+export { PotRulesDialog } from './PotRulesDialog';
@@ -2,14 +2,17 @@
  * Add Bill Form Component
  *
  * CONCEPT: A modal dialog to add a new recurring bill.
- * Creates a recurring transaction that will appear in both
- * the Recurring Bills page and Transactions page.
+ * Creates a bill on the server; it appears as unpaid on the
+ * Recurring Bills page until a payment is recorded.
  *
  * Form Fields:
  * - Vendor/Company name
- * - Monthly amount
+ * - Amount due each cycle
  * - Category (defaults to Bills)
- * - Due day of month
+ * - Frequency (weekly, bi-weekly, monthly, quarterly, yearly, custom)
+ * - Interval (e.g. every 2 months, or every N days for custom)
+ * - First due date and optional end date
+ * - Auto-pay (payment is posted automatically on each due date)
  *
  * Usage:
  *   <AddBillForm
@@ -22,7 +25,8 @@ import * as React from 'react';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { useCreateTransaction } from '@/queryHooks';
+import { useCreateBill, useCategoryOptions } from '@/queryHooks';
+import type { BillFrequency } from '@/lib/api';
 import {
   Dialog,
   DialogContent,
@@ -38,10 +42,20 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui';
-import { categories } from '@/components/features/Transactions/CategoryFilter';
+import { CategoryOptions } from '@/components/features/Transactions/CategoryOptions';
 
-// Available categories (exclude "All Transactions")
-const billCategories = categories.filter((c) => c !== 'All Transactions');
+// Frequency options
+const frequencies: { value: BillFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Bi-weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'yearly', label: 'Yearly' },
+  { value: 'custom', label: 'Custom (every N days)' },
+];
+
+// Today's date in UTC format YYYY-MM-DD
+const today = () => new Date().toISOString().slice(0, 10);
 
 // Validation schema
 const addBillSchema = z.object({
@@ -53,10 +67,18 @@ const addBillSchema = z.object({
     .number({ message: 'Please enter a valid amount' })
     .positive('Amount must be greater than 0'),
   category: z.string().min(1, 'Please select a category'),
-  dueDay: z
-    .number({ message: 'Please enter a valid day' })
-    .min(1, 'Day must be between 1 and 31')
-    .max(31, 'Day must be between 1 and 31'),
+  frequency: z.enum(['weekly', 'biweekly', 'monthly', 'quarterly', 'yearly', 'custom']),
+  interval: z
+    .number({ message: 'Please enter a valid number' })
+    .int('Must be a whole number')
+    .min(1, 'Must be between 1 and 365')
+    .max(365, 'Must be between 1 and 365'),
+  anchorDate: z.string().min(1, 'Please select the first due date'),
+  endDate: z.string().optional(),
+  autoPost: z.boolean(),
+}).refine((data) => !data.endDate || data.endDate >= data.anchorDate, {
+  message: 'End date must be on or after the first due date',
+  path: ['endDate'],
 });
 
 type AddBillFormData = z.infer<typeof addBillSchema>;
@@ -67,7 +89,8 @@ interface AddBillFormProps {
 }
 
 export function AddBillForm({ open, onOpenChange }: AddBillFormProps) {
-  const createTransaction = useCreateTransaction();
+  const createBill = useCreateBill();
+  const { options: categoryOptions } = useCategoryOptions();
 
   const {
     register,
@@ -82,11 +105,16 @@ export function AddBillForm({ open, onOpenChange }: AddBillFormProps) {
       name: '',
       amount: undefined,
       category: 'Bills',
-      dueDay: 1,
+      frequency: 'monthly',
+      interval: 1,
+      anchorDate: today(),
+      endDate: '',
+      autoPost: false,
     },
   });
 
   const selectedCategory = watch('category');
+  const selectedFrequency = watch('frequency');
 
   // Reset form when dialog opens
   React.useEffect(() => {
@@ -95,31 +123,27 @@ export function AddBillForm({ open, onOpenChange }: AddBillFormProps) {
         name: '',
         amount: undefined,
         category: 'Bills',
-        dueDay: 1,
+        frequency: 'monthly',
+        interval: 1,
+        anchorDate: today(),
+        endDate: '',
+        autoPost: false,
       });
     }
   }, [open, reset]);
 
   const onSubmit = async (data: AddBillFormData) => {
     try {
-      // Create bill template in PREVIOUS month so it shows as "unpaid"
-      // The bill will show as upcoming/due-soon until user pays it
-      // When paid, a new transaction in current month will be created
-      const now = new Date();
-      const currentYear = now.getFullYear();
-      const currentMonth = now.getMonth(); // 0-indexed
-      
-      // Set date to previous month with the specified due day
-      const date = new Date(currentYear, currentMonth - 1, data.dueDay);
-
-      await createTransaction.mutateAsync({
+      await createBill.mutateAsync({
         name: data.name,
-        amount: -Math.abs(data.amount), // Bills are expenses (negative)
+        amount: Math.abs(data.amount),
         category: data.category,
-        date: date.toISOString(),
-        recurring: true, // This makes it appear in Recurring Bills
+        frequency: data.frequency,
+        interval: data.interval,
+        anchorDate: data.anchorDate,
+        endDate: data.endDate || null,
+        autoPost: data.autoPost,
         avatar: './assets/images/avatars/default.jpg',
-        isTemplate: true, // Bill template - doesn't affect balance until paid
       });
       onOpenChange(false);
       reset();
@@ -134,8 +158,8 @@ export function AddBillForm({ open, onOpenChange }: AddBillFormProps) {
         <DialogHeader>
           <DialogTitle>Add Recurring Bill</DialogTitle>
           <DialogDescription>
-            Add a new recurring bill to track your monthly expenses. The bill will
-            appear as unpaid until you manually mark it as paid.
+            Add a new recurring bill to track your regular expenses. Each due date
+            appears as unpaid until you manually mark it as paid.
           </DialogDescription>
         </DialogHeader>
 
@@ -156,9 +180,9 @@ export function AddBillForm({ open, onOpenChange }: AddBillFormProps) {
             )}
           </div>
 
-          {/* Monthly Amount */}
+          {/* Amount */}
           <div className="space-y-2">
-            <Label htmlFor="amount">Monthly Amount</Label>
+            <Label htmlFor="amount">Amount</Label>
             <div className="relative">
               <span className="absolute left-4 top-1/2 -translate-y-1/2 text-[var(--color-grey-500)]">
                 $
@@ -192,11 +216,7 @@ export function AddBillForm({ open, onOpenChange }: AddBillFormProps) {
                 <SelectValue placeholder="Select a category" />
               </SelectTrigger>
               <SelectContent>
-                {billCategories.map((category) => (
-                  <SelectItem key={category} value={category}>
-                    {category}
-                  </SelectItem>
-                ))}
+                <CategoryOptions options={categoryOptions} />
               </SelectContent>
             </Select>
             {errors.category && (
@@ -206,28 +226,94 @@ export function AddBillForm({ open, onOpenChange }: AddBillFormProps) {
             )}
           </div>
 
-          {/* Due Day */}
+          {/* Frequency & Interval */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="frequency">Frequency</Label>
+              <Select
+                value={selectedFrequency}
+                onValueChange={(value) => setValue('frequency', value as BillFrequency)}
+              >
+                <SelectTrigger id="frequency">
+                  <SelectValue placeholder="Select a frequency" />
+                </SelectTrigger>
+                <SelectContent>
+                  {frequencies.map((frequency) => (
+                    <SelectItem key={frequency.value} value={frequency.value}>
+                      {frequency.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="interval">
+                {selectedFrequency === 'custom' ? 'Every N Days' : 'Repeat Every'}
+              </Label>
+              <Input
+                id="interval"
+                type="number"
+                min="1"
+                max="365"
+                {...register('interval', { valueAsNumber: true })}
+                error={!!errors.interval}
+              />
+              {errors.interval && (
+                <p className="text-xs text-[var(--color-red)]">
+                  {errors.interval.message}
+                </p>
+              )}
+            </div>
+          </div>
+
+          {/* First Due Date */}
           <div className="space-y-2">
-            <Label htmlFor="dueDay">Due Day of Month</Label>
+            <Label htmlFor="anchorDate">First Due Date</Label>
             <Input
-              id="dueDay"
-              type="number"
-              min="1"
-              max="31"
-              placeholder="e.g. 15"
-              {...register('dueDay', { valueAsNumber: true })}
-              error={!!errors.dueDay}
+              id="anchorDate"
+              type="date"
+              {...register('anchorDate')}
+              error={!!errors.anchorDate}
             />
             <p className="text-xs text-[var(--color-grey-500)]">
-              The day of each month when this bill is due (1-31)
+              All later due dates are calculated from this date
             </p>
-            {errors.dueDay && (
+            {errors.anchorDate && (
               <p className="text-xs text-[var(--color-red)]">
-                {errors.dueDay.message}
+                {errors.anchorDate.message}
               </p>
             )}
           </div>
 
+          {/* End Date */}
+          <div className="space-y-2">
+            <Label htmlFor="endDate">End Date (optional)</Label>
+            <Input
+              id="endDate"
+              type="date"
+              {...register('endDate')}
+              error={!!errors.endDate}
+            />
+            {errors.endDate && (
+              <p className="text-xs text-[var(--color-red)]">
+                {errors.endDate.message}
+              </p>
+            )}
+          </div>
+
+          {/* Auto-pay Checkbox */}
+          <div className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              id="autoPost"
+              {...register('autoPost')}
+              className="w-5 h-5 rounded border-[var(--color-grey-300)] text-[var(--color-green)] focus:ring-[var(--color-green)]"
+            />
+            <Label htmlFor="autoPost" className="cursor-pointer">
+              Pay automatically on each due date
+            </Label>
+          </div>
+
           {/* Submit Button */}
           <Button type="submit" className="w-full" disabled={isSubmitting}>
             {isSubmitting ? 'Adding Bill...' : 'Add Bill'}
@@ -12,7 +12,8 @@
  * Features:
  * - Pay Now button for unpaid bills
  * - Status badge
- * - Due date with ordinal suffix
+ * - Frequency and next due date
+ * - Auto-pay label for bills paid automatically
  *
  * Usage:
  *   <BillItem bill={bill} onPay={() => handlePay(bill)} />
@@ -21,7 +22,7 @@
 import * as React from 'react';
 import { Check, AlertCircle } from 'lucide-react';
 import type { RecurringBill } from '@/lib/api';
-import { formatCurrency, getOrdinalSuffix, cn } from '@/lib/utils';
+import { formatCurrency, formatDate, formatFrequency, cn } from '@/lib/utils';
 import { Avatar, AvatarImage, AvatarFallback, Button } from '@/components/ui';
 
 interface BillItemProps {
@@ -42,10 +43,14 @@ function getInitials(name: string): string {
 }
 
 /**
- * Format due date with ordinal (e.g., "Monthly - 1st")
+ * Format frequency and next due date (e.g., "Monthly - Oct 1")
  */
-function formatDueDate(day: number): string {
-  return `Monthly - ${day}${getOrdinalSuffix(day)}`;
+function formatDueDate(bill: RecurringBill): string {
+  const frequency =
+    formatFrequency(bill.frequency, bill.interval) + (bill.autoPost ? ' (Auto-pay)' : '');
+  return bill.nextDueDate
+    ? `${frequency} - ${formatDate(bill.nextDueDate)}`
+    : `${frequency} - Ended`;
 }
 
 /**
@@ -74,7 +79,7 @@ export function BillItemDesktop({ bill, onPay }: BillItemProps) {
           'text-sm',
           isDueSoon ? 'text-[var(--color-red)]' : 'text-[var(--color-grey-500)]'
         )}>
-          {formatDueDate(bill.dueDay)}
+          {formatDueDate(bill)}
         </span>
         {isDueSoon && (
           <AlertCircle className="w-4 h-4 text-[var(--color-red)]" />
@@ -155,7 +160,7 @@ export function BillItemMobile({ bill, onPay }: BillItemProps) {
                 'text-xs',
                 isDueSoon ? 'text-[var(--color-red)]' : 'text-[var(--color-grey-500)]'
               )}>
-                {formatDueDate(bill.dueDay)}
+                {formatDueDate(bill)}
               </span>
               {isPaid && (
                 <div className="w-4 h-4 rounded-full bg-[var(--color-green)] flex items-center justify-center">
@@ -2,12 +2,13 @@
  * Pay Bill Modal Component
  *
  * CONCEPT: A confirmation modal to mark a bill as paid.
- * Creates a new transaction for the current payment.
+ * The server creates a new transaction for the payment.
  *
  * When a bill is paid:
- * 1. A new transaction is created with the bill amount
+ * 1. A new transaction is created with the bill amount (linked to the bill)
  * 2. The transaction appears in the Transactions page
- * 3. The bill status updates to "paid" in Recurring Bills
+ * 3. The payment covers the bill's next due date, so the bill moves
+ *    on to its following due date (or shows as "paid")
  *
  * Usage:
  *   <PayBillModal
@@ -18,8 +19,8 @@
  */
 
 import * as React from 'react';
-import { useCreateTransaction } from '@/queryHooks';
-import { formatCurrency } from '@/lib/utils';
+import { usePayBill } from '@/queryHooks';
+import { formatCurrency, formatDate } from '@/lib/utils';
 import type { RecurringBill } from '@/lib/api';
 import {
   Dialog,
@@ -40,7 +41,7 @@ interface PayBillModalProps {
 }
 
 export function PayBillModal({ open, onOpenChange, bill }: PayBillModalProps) {
-  const createTransaction = useCreateTransaction();
+  const payBill = usePayBill();
   // Default to today's date when paying bills (UTC format YYYY-MM-DD)
   const [paymentDate, setPaymentDate] = React.useState(() => {
     const now = new Date();
@@ -51,29 +52,14 @@ export function PayBillModal({ open, onOpenChange, bill }: PayBillModalProps) {
   // Use a ref to prevent double-clicks (synchronous check)
   const isPayingRef = React.useRef(false);
 
-  // Reset date when modal opens - use bill's due day in current month
+  // Reset date when modal opens - default to today (UTC format YYYY-MM-DD)
   React.useEffect(() => {
     if (open && bill) {
       // Reset the paying ref when modal opens
       isPayingRef.current = false;
       setIsPaying(false);
-      
-      const now = new Date();
-      const currentYear = now.getUTCFullYear();
-      const currentMonth = now.getUTCMonth();
-      const currentDay = now.getUTCDate();
-      
-      // Use the bill's due day in the current month
-      // If the due day has passed, use that day; otherwise use today
-      let paymentDay = bill.dueDay;
-      if (paymentDay > currentDay) {
-        // Due day hasn't occurred yet, use today's date
-        paymentDay = currentDay;
-      }
-      
-      // Format as YYYY-MM-DD (UTC)
-      const formattedDate = `${currentYear}-${String(currentMonth + 1).padStart(2, '0')}-${String(paymentDay).padStart(2, '0')}`;
-      setPaymentDate(formattedDate);
+
+      setPaymentDate(new Date().toISOString().slice(0, 10));
     }
   }, [open, bill]);
 
@@ -86,13 +72,9 @@ export function PayBillModal({ open, onOpenChange, bill }: PayBillModalProps) {
     setIsPaying(true);
     
     try {
-      await createTransaction.mutateAsync({
-        name: bill.name,
-        amount: bill.amount, // Already negative
-        category: bill.category,
-        date: paymentDate,
-        recurring: true,
-        avatar: bill.avatar,
+      await payBill.mutateAsync({
+        id: bill._id,
+        data: { date: paymentDate },
       });
       onOpenChange(false);
     } catch (error) {
@@ -132,10 +114,16 @@ export function PayBillModal({ open, onOpenChange, bill }: PayBillModalProps) {
                 {formatCurrency(Math.abs(bill.amount))}
               </span>
             </div>
-            <div className="flex items-center justify-between">
+            <div className="flex items-center justify-between mb-2">
               <span className="text-sm text-[var(--color-grey-500)]">Category</span>
               <span className="text-[var(--color-grey-900)]">{bill.category}</span>
             </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-[var(--color-grey-500)]">Covers Due Date</span>
+              <span className="text-[var(--color-grey-900)]">
+                {bill.nextDueDate ? formatDate(bill.nextDueDate, 'long') : 'Nothing due'}
+              </span>
+            </div>
           </div>
 
           {/* Payment Date */}
@@ -153,7 +141,7 @@ export function PayBillModal({ open, onOpenChange, bill }: PayBillModalProps) {
         <DialogFooter className="flex-col gap-2 sm:flex-col">
           <Button
             onClick={handlePay}
-            disabled={isPaying}
+            disabled={isPaying || !bill.nextDueDate}
             className="w-full"
           >
             {isPaying ? 'Processing...' : `Pay ${formatCurrency(Math.abs(bill.amount))}`}
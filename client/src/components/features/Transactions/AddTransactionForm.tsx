@@ -7,9 +7,13 @@
  * Form Fields:
  * - Name (who you paid or received from)
  * - Amount (positive = income, negative = expense)
- * - Category (dropdown)
+ * - Category (dropdown), or split lines across several categories
+ *   (e.g. one supermarket receipt for Groceries and Personal Care).
+ *   Left on Auto, the server uses the first matching rule's category
+ *   (or General). A category used for similar names before is suggested.
  * - Date (date picker)
  * - Recurring (checkbox for recurring transactions)
+ * - Tags (optional, with autocomplete from the user's existing tags)
  *
  * Usage:
  *   <AddTransactionForm
@@ -19,10 +23,18 @@
  */
 
 import * as React from 'react';
-import { useForm } from 'react-hook-form';
+import { useForm, useFieldArray } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { useCreateTransaction, useRecurringBills, useTransactions } from '@/queryHooks';
+import { Plus, X } from 'lucide-react';
+import { formatCurrency } from '@/lib/utils';
+import {
+  useCreateTransaction,
+  useRecurringBills,
+  useTransactions,
+  useCategoryOptions,
+  useCategorySuggestions,
+} from '@/queryHooks';
 import {
   Dialog,
   DialogContent,
@@ -38,24 +50,53 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui';
-import { categories } from './CategoryFilter';
-
-// Available categories (exclude "All Transactions")
-const transactionCategories = categories.filter((c) => c !== 'All Transactions');
-
-// Validation schema
-const addTransactionSchema = z.object({
-  name: z
-    .string()
-    .min(1, 'Please enter a name')
-    .max(100, 'Name cannot exceed 100 characters'),
-  amount: z
-    .number({ message: 'Please enter a valid amount' })
-    .refine((val) => val !== 0, 'Amount cannot be zero'),
-  category: z.string().min(1, 'Please select a category'),
-  date: z.string().min(1, 'Please select a date'),
-  recurring: z.boolean(),
-});
+import { CategoryOptions } from './CategoryOptions';
+import { TagInput } from './TagInput';
+
+// Amounts in cents, so split lines compare exactly with the total
+const toCents = (amount: number) => Math.round(Math.abs(amount) * 100);
+
+// Select value for "let the rules pick" (Radix selects can't use an empty value)
+const AUTO_CATEGORY = '__auto__';
+
+// Suggestions below this confidence aren't shown (0.5 = a single past match)
+const MIN_SUGGESTION_CONFIDENCE = 0.5;
+
+// Validation schema (split lines replace the category, none = Auto)
+const addTransactionSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, 'Please enter a name')
+      .max(100, 'Name cannot exceed 100 characters'),
+    amount: z
+      .number({ message: 'Please enter a valid amount' })
+      .refine((val) => val !== 0, 'Amount cannot be zero'),
+    category: z.string(),
+    splits: z.array(
+      z.object({
+        category: z.string().min(1, 'Select a category'),
+        amount: z.number({ message: 'Enter an amount' }).positive('Enter an amount'),
+        note: z.string().max(100, 'Note cannot exceed 100 characters'),
+      })
+    ),
+    date: z.string().min(1, 'Please select a date'),
+    recurring: z.boolean(),
+    tags: z.array(z.string()).max(10, 'Up to 10 tags'),
+  })
+  .superRefine((data, ctx) => {
+    if (data.splits.length === 0) {
+      return;
+    }
+    const total = data.splits.reduce((sum, line) => sum + toCents(line.amount || 0), 0);
+    if (!Number.isNaN(data.amount) && total !== toCents(data.amount)) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `Split lines add up to ${formatCurrency(total / 100)}, not ${formatCurrency(Math.abs(data.amount))}`,
+        path: ['splits'],
+      });
+    }
+  });
 
 type AddTransactionFormData = z.infer<typeof addTransactionSchema>;
 
@@ -69,6 +110,7 @@ export function AddTransactionForm({
   onOpenChange,
 }: AddTransactionFormProps) {
   const createTransaction = useCreateTransaction();
+  const { options: categoryOptions } = useCategoryOptions();
   const [isExpense, setIsExpense] = React.useState(true);
   const [selectedBillId, setSelectedBillId] = React.useState<string>('');
   const [isAddingNewPerson, setIsAddingNewPerson] = React.useState(false);
@@ -88,6 +130,7 @@ export function AddTransactionForm({
 
   const {
     register,
+    control,
     handleSubmit,
     setValue,
     watch,
@@ -99,14 +142,34 @@ export function AddTransactionForm({
       name: '',
       amount: undefined,
       category: '',
+      splits: [],
       date: new Date().toISOString().split('T')[0], // Default to today's date
       recurring: false,
+      tags: [],
     },
   });
 
+  const { fields: splitFields, append: appendSplit, remove: removeSplit, replace: replaceSplits } =
+    useFieldArray({ control, name: 'splits' });
+  const isSplit = splitFields.length > 0;
+
   const selectedCategory = watch('category');
   const isBillsCategory = selectedCategory === 'Bills';
 
+  // Suggest a category once the name stops changing
+  const watchedName = watch('name');
+  const [suggestionName, setSuggestionName] = React.useState('');
+  React.useEffect(() => {
+    const timer = setTimeout(() => setSuggestionName(watchedName), 300);
+    return () => clearTimeout(timer);
+  }, [watchedName]);
+  const { data: suggestionData } = useCategorySuggestions(suggestionName);
+  const suggestion = suggestionData?.data.suggestions[0];
+  const showSuggestion =
+    !!suggestion &&
+    suggestion.confidence >= MIN_SUGGESTION_CONFIDENCE &&
+    suggestion.category !== selectedCategory;
+
   // Handle bill selection
   const handleBillSelect = (billId: string) => {
     setSelectedBillId(billId);
@@ -135,8 +198,10 @@ export function AddTransactionForm({
         name: '',
         amount: undefined,
         category: '',
+        splits: [],
         date: new Date().toISOString().split('T')[0], // Default to today's date
         recurring: false,
+        tags: [],
       });
       setIsExpense(true);
       setSelectedBillId('');
@@ -171,17 +236,41 @@ export function AddTransactionForm({
     setValue('name', '');
   };
 
+  // Start a split with the selected category and the full amount on the first line
+  const handleStartSplit = () => {
+    replaceSplits([
+      { category: selectedCategory, amount: Math.abs(watch('amount')), note: '' },
+      { category: '', amount: NaN, note: '' },
+    ]);
+    setSelectedBillId('');
+  };
+
+  // Amount not yet assigned to a split line
+  const watchedSplits = watch('splits');
+  const unassignedCents =
+    toCents(watch('amount') || 0) -
+    watchedSplits.reduce((sum, line) => sum + toCents(line.amount || 0), 0);
+
   const onSubmit = async (data: AddTransactionFormData) => {
     try {
       // Convert amount to negative if expense
-      const finalAmount = isExpense ? -Math.abs(data.amount) : Math.abs(data.amount);
-      
+      const sign = isExpense ? -1 : 1;
+      const finalAmount = sign * Math.abs(data.amount);
+      const splits = data.splits.map((line) => ({
+        category: line.category,
+        amount: sign * Math.abs(line.amount),
+        ...(line.note.trim() && { note: line.note.trim() }),
+      }));
+
       await createTransaction.mutateAsync({
         name: data.name,
         amount: finalAmount,
-        category: data.category,
+        // The server uses the largest line's category for split transactions
+        category: splits.length > 0 ? splits[0].category : data.category || undefined,
+        splits,
         date: data.date,
         recurring: data.recurring,
+        tags: data.tags,
         avatar: './assets/images/avatars/default.jpg',
       });
       onOpenChange(false);
@@ -242,37 +331,140 @@ export function AddTransactionForm({
             </div>
           </div>
 
-          {/* Category */}
-          <div className="space-y-2">
-            <Label htmlFor="category">Category</Label>
-            <Select
-              value={selectedCategory}
-              onValueChange={(value) => {
-                setValue('category', value);
-                setSelectedBillId('');
-                setIsAddingNewPerson(false);
-              }}
-            >
-              <SelectTrigger id="category">
-                <SelectValue placeholder="Select a category" />
-              </SelectTrigger>
-              <SelectContent>
-                {transactionCategories.map((category) => (
-                  <SelectItem key={category} value={category}>
-                    {category}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-            {errors.category && (
-              <p className="text-xs text-[var(--color-red)]">
-                {errors.category.message}
-              </p>
-            )}
-          </div>
+          {/* Category (or split lines) */}
+          {!isSplit ? (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="category">Category</Label>
+                <button
+                  type="button"
+                  onClick={handleStartSplit}
+                  className="text-xs font-medium text-[var(--color-grey-500)] hover:text-[var(--color-grey-900)]"
+                >
+                  Split across categories
+                </button>
+              </div>
+              <Select
+                value={selectedCategory || AUTO_CATEGORY}
+                onValueChange={(value) => {
+                  setValue('category', value === AUTO_CATEGORY ? '' : value);
+                  setSelectedBillId('');
+                  setIsAddingNewPerson(false);
+                }}
+              >
+                <SelectTrigger id="category">
+                  <SelectValue placeholder="Select a category" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO_CATEGORY}>Auto (rules, or General)</SelectItem>
+                  <CategoryOptions options={categoryOptions} />
+                </SelectContent>
+              </Select>
+              {showSuggestion && (
+                <button
+                  type="button"
+                  onClick={() => setValue('category', suggestion.category)}
+                  className="text-xs text-[var(--color-grey-500)] hover:text-[var(--color-grey-900)]"
+                  title={`Used for ${suggestion.matches} similar transaction${suggestion.matches === 1 ? '' : 's'}`}
+                >
+                  Suggested: <span className="font-bold">{suggestion.category}</span> (
+                  {Math.round(suggestion.confidence * 100)}% sure)
+                </button>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Split Lines</Label>
+                <button
+                  type="button"
+                  onClick={() => replaceSplits([])}
+                  className="text-xs font-medium text-[var(--color-grey-500)] hover:text-[var(--color-grey-900)]"
+                >
+                  Use one category
+                </button>
+              </div>
+              {splitFields.map((field, index) => (
+                <div key={field.id} className="space-y-1">
+                  <div className="flex gap-2">
+                    <Select
+                      value={watchedSplits[index]?.category ?? ''}
+                      onValueChange={(value) =>
+                        setValue(`splits.${index}.category`, value, { shouldValidate: true })
+                      }
+                    >
+                      <SelectTrigger className="flex-1" aria-label={`Line ${index + 1} category`}>
+                        <SelectValue placeholder="Category" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <CategoryOptions options={categoryOptions} />
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="0.00"
+                      className="w-28"
+                      aria-label={`Line ${index + 1} amount`}
+                      {...register(`splits.${index}.amount`, { valueAsNumber: true })}
+                      error={!!errors.splits?.[index]?.amount}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => (splitFields.length > 2 ? removeSplit(index) : replaceSplits([]))}
+                      aria-label={`Remove line ${index + 1}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <Input
+                    placeholder="Note (optional)"
+                    maxLength={100}
+                    {...register(`splits.${index}.note`)}
+                  />
+                  {(errors.splits?.[index]?.category || errors.splits?.[index]?.amount) && (
+                    <p className="text-xs text-[var(--color-red)]">
+                      {errors.splits?.[index]?.category?.message ?? errors.splits?.[index]?.amount?.message}
+                    </p>
+                  )}
+                </div>
+              ))}
+              <div className="flex items-center justify-between">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => appendSplit({ category: '', amount: NaN, note: '' })}
+                  disabled={splitFields.length >= 20}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Line
+                </Button>
+                <span
+                  className={`text-xs ${
+                    unassignedCents === 0 ? 'text-[var(--color-green)]' : 'text-[var(--color-grey-500)]'
+                  }`}
+                >
+                  {unassignedCents === 0
+                    ? 'Fully assigned'
+                    : unassignedCents > 0
+                      ? `${formatCurrency(unassignedCents / 100)} left to assign`
+                      : `${formatCurrency(-unassignedCents / 100)} over the amount`}
+                </span>
+              </div>
+              {(errors.splits?.root?.message ?? errors.splits?.message) && (
+                <p className="text-xs text-[var(--color-red)]">
+                  {errors.splits?.root?.message ?? errors.splits?.message}
+                </p>
+              )}
+            </div>
+          )}
 
           {/* Bill Selector (only shown when Bills category is selected and is expense) */}
-          {isBillsCategory && isExpense && unpaidBills.length > 0 && (
+          {isBillsCategory && !isSplit && isExpense && unpaidBills.length > 0 && (
             <div className="space-y-2">
               <Label htmlFor="bill-selector">Pay Existing Bill (Optional)</Label>
               <Select value={selectedBillId} onValueChange={handleBillSelect}>
@@ -415,6 +607,21 @@ export function AddTransactionForm({
             )}
           </div>
 
+          {/* Tags */}
+          <div className="space-y-2">
+            <Label htmlFor="tags">Tags (Optional)</Label>
+            <TagInput
+              id="tags"
+              value={watch('tags')}
+              onChange={(tags) => setValue('tags', tags, { shouldValidate: true })}
+            />
+            {errors.tags && (
+              <p className="text-xs text-[var(--color-red)]">
+                {errors.tags.message}
+              </p>
+            )}
+          </div>
+
           {/* Recurring Checkbox */}
           <div className="flex items-center gap-3">
             <input
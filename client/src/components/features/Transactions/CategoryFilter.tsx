@@ -1,84 +1,126 @@
 /**
  * Category Filter Component
  *
- * CONCEPT: A dropdown for filtering transactions by category.
- * Includes "All Transactions" option to clear the filter.
+ * CONCEPT: A multi-select dropdown for filtering transactions by category.
+ * Clicking a category cycles it through three states:
+ *   not selected -> included -> excluded -> not selected
+ * With nothing selected, all transactions are shown.
  *
- * Available Categories:
- * - Entertainment, Bills, Groceries, Dining Out
- * - Transportation, Personal Care, Education
- * - Lifestyle, Shopping, General
+ * Lists the user's categories with subcategories indented; a parent
+ * category also matches its subcategories. Archived categories are listed
+ * too (older transactions still have them).
  *
  * Usage:
- *   <CategoryFilter value={category} onValueChange={setCategory} />
+ *   <CategoryFilter included={included} excluded={excluded} onChange={setCategories} />
  */
 
+import { Ban, Check, ChevronDown } from 'lucide-react';
 import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
+  Button,
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
 } from '@/components/ui';
-
-// Categories matching backend
-export const categories = [
-  'All Transactions',
-  'Entertainment',
-  'Bills',
-  'Groceries',
-  'Dining Out',
-  'Transportation',
-  'Personal Care',
-  'Education',
-  'Lifestyle',
-  'Shopping',
-  'General',
-] as const;
-
-export type Category = (typeof categories)[number];
+import { cn } from '@/lib/utils';
+import { useCategories } from '@/queryHooks';
 
 interface CategoryFilterProps {
-  value: string;
-  onValueChange: (value: string) => void;
+  included: string[];
+  excluded: string[];
+  onChange: (included: string[], excluded: string[]) => void;
   className?: string;
 }
 
-export function CategoryFilter({ value, onValueChange, className }: CategoryFilterProps) {
+/**
+ * Short summary of the selection for the trigger button
+ */
+function getSelectionLabel(included: string[], excluded: string[]): string {
+  if (included.length === 1 && excluded.length === 0) return included[0];
+  if (included.length > 0) return `${included.length} categories`;
+  if (excluded.length > 0) return `All except ${excluded.length}`;
+  return 'All Transactions';
+}
+
+export function CategoryFilter({ included, excluded, onChange, className }: CategoryFilterProps) {
+  const { data } = useCategories();
+  const categories = data?.data.categories ?? [];
+
+  const toggle = (category: string) => {
+    if (included.includes(category)) {
+      onChange(
+        included.filter((c) => c !== category),
+        [...excluded, category]
+      );
+    } else if (excluded.includes(category)) {
+      onChange(included, excluded.filter((c) => c !== category));
+    } else {
+      onChange([...included, category], excluded);
+    }
+  };
+
+  const hasSelection = included.length > 0 || excluded.length > 0;
+
   return (
-    <div className={className}>
-      {/* Mobile: Compact trigger */}
-      <div className="md:hidden">
-        <Select value={value} onValueChange={onValueChange}>
-          <SelectTrigger className="w-[160px]">
-            <SelectValue placeholder="Category" />
-          </SelectTrigger>
-          <SelectContent>
-            {categories.map((category) => (
-              <SelectItem key={category} value={category}>
-                {category}
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
-      </div>
+    <div className={cn('flex items-center gap-2', className)}>
+      <span className="hidden md:inline text-sm text-[var(--color-grey-500)] whitespace-nowrap">
+        Category
+      </span>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="w-[160px] md:w-[180px] justify-between font-normal">
+            <span className="truncate">{getSelectionLabel(included, excluded)}</span>
+            <ChevronDown className="w-4 h-4 opacity-50" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56 max-h-96 overflow-y-auto">
+          <DropdownMenuLabel className="text-xs font-normal text-[var(--color-grey-500)]">
+            Click once to include, twice to exclude
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {categories.map(({ _id, name, depth, status }) => {
+            const state = included.includes(name)
+              ? 'included'
+              : excluded.includes(name)
+                ? 'excluded'
+                : null;
 
-      {/* Desktop: Full width with label */}
-      <div className="hidden md:flex md:items-center md:gap-2">
-        <span className="text-sm text-[var(--color-grey-500)] whitespace-nowrap">Category</span>
-        <Select value={value} onValueChange={onValueChange}>
-          <SelectTrigger className="w-[180px]">
-            <SelectValue placeholder="Category" />
-          </SelectTrigger>
-          <SelectContent>
-            {categories.map((category) => (
-              <SelectItem key={category} value={category}>
-                {category}
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
-      </div>
+            return (
+              <DropdownMenuItem
+                key={_id}
+                // Keep the menu open to select several categories
+                onSelect={(e) => {
+                  e.preventDefault();
+                  toggle(name);
+                }}
+                style={{ paddingLeft: `${0.5 + depth * 0.75}rem` }}
+                className={cn(
+                  status === 'archived' && 'text-[var(--color-grey-500)]',
+                  state === 'excluded' && 'text-[var(--color-red)] line-through'
+                )}
+              >
+                <span className="mr-2 flex h-4 w-4 items-center justify-center">
+                  {state === 'included' && <Check className="h-4 w-4" />}
+                  {state === 'excluded' && <Ban className="h-4 w-4" />}
+                </span>
+                {name}
+                {status === 'archived' && <span className="ml-1 text-xs">(archived)</span>}
+                {state && <span className="sr-only"> ({state})</span>}
+              </DropdownMenuItem>
+            );
+          })}
+          {hasSelection && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => onChange([], [])}>
+                Show all transactions
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
     </div>
   );
 }
@@ -0,0 +1,30 @@
+/**
+ * Category Options Component
+ *
+ * CONCEPT: The items of a category <Select>, with subcategories indented
+ * under their parent (Bills > Utilities > Electricity).
+ *
+ * Usage:
+ *   const { options } = useCategoryOptions();
+ *   <SelectContent>
+ *     <CategoryOptions options={options} />
+ *   </SelectContent>
+ */
+
+import { SelectItem } from '@/components/ui';
+
+interface CategoryOptionsProps {
+  options: Array<{ value: string; depth: number }>;
+}
+
+export function CategoryOptions({ options }: CategoryOptionsProps) {
+  return (
+    <>
+      {options.map((option) => (
+        <SelectItem key={option.value} value={option.value}>
+          <span style={{ paddingLeft: `${option.depth * 0.75}rem` }}>{option.value}</span>
+        </SelectItem>
+      ))}
+    </>
+  );
+}
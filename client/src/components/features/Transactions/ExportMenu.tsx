@@ -0,0 +1,56 @@
+/**
+ * Export Menu Component
+ *
+ * CONCEPT: A dropdown button to download transactions as CSV, JSON or OFX.
+ * Exports use the same filters as the list (search, category, type, ranges),
+ * but include every page.
+ *
+ * Usage:
+ *   <ExportMenu params={{ search, sort, filter }} />
+ */
+
+import { Download } from 'lucide-react';
+import { useExportTransactions } from '@/queryHooks';
+import type { ExportFormat, TransactionParams } from '@/lib/api';
+import {
+  Button,
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuItem,
+} from '@/components/ui';
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV (spreadsheets)' },
+  { value: 'json', label: 'JSON' },
+  { value: 'ofx', label: 'OFX (finance apps)' },
+];
+
+interface ExportMenuProps {
+  params: Omit<TransactionParams, 'page' | 'limit'>;
+}
+
+export function ExportMenu({ params }: ExportMenuProps) {
+  const exportTransactions = useExportTransactions();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={exportTransactions.isPending}>
+          <Download className="w-4 h-4 mr-2" />
+          {exportTransactions.isPending ? 'Exporting...' : 'Export'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {FORMATS.map((format) => (
+          <DropdownMenuItem
+            key={format.value}
+            onClick={() => exportTransactions.mutate({ params, format: format.value })}
+          >
+            {format.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
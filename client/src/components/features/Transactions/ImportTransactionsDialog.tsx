@@ -0,0 +1,584 @@
+/**
+ * Import Transactions Dialog Component
+ *
+ * CONCEPT: A step-by-step wizard to import bank history from a CSV file
+ * or a bank statement (OFX/QFX, QIF).
+ * The server parses and validates the file; this dialog only collects options.
+ *
+ * Steps:
+ * 1. Upload: Pick a file (CSV: delimiter, header row / QIF: date format)
+ * 2. Map (CSV only): Choose which columns hold name/amount/date/category,
+ *    the sign convention and the date format
+ * 3. Preview: Every row with its validation errors, then import in bulk.
+ *    Statement rows that were already imported are shown and skipped.
+ *
+ * Usage:
+ *   <ImportTransactionsDialog
+ *     open={isOpen}
+ *     onOpenChange={setIsOpen}
+ *   />
+ */
+
+import * as React from 'react';
+import { Upload } from 'lucide-react';
+import {
+  usePreviewTransactionImport,
+  useImportTransactions,
+  usePreviewStatementImport,
+  useImportStatement,
+  useCategoryOptions,
+} from '@/queryHooks';
+import { formatCurrency, formatDate, cn } from '@/lib/utils';
+import type {
+  ImportOptions,
+  ImportPreviewResponse,
+  ImportDateFormat,
+  ImportRow,
+} from '@/lib/api';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  Button,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui';
+import { CategoryOptions } from './CategoryOptions';
+
+const DATE_FORMATS: ImportDateFormat[] = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY'];
+
+const DELIMITERS: { value: NonNullable<ImportOptions['delimiter']>; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+];
+
+const DECIMAL_SEPARATORS: { value: NonNullable<ImportOptions['decimalSeparator']>; label: string }[] = [
+  { value: '.', label: 'Point (1,234.56)' },
+  { value: ',', label: 'Comma (1.234,56)' },
+];
+
+// Select value for "no column" (Select items can't have an empty value)
+const NO_COLUMN = 'none';
+
+// Rows shown in the preview table
+const PREVIEW_LIMIT = 100;
+
+type Step = 'upload' | 'map' | 'preview';
+
+// Statements are imported without column mapping
+type FileType = 'csv' | 'ofx' | 'qif';
+
+interface Preview {
+  rows: ImportRow[];
+  valid?: number;
+  invalid?: number;
+  duplicates?: number;
+}
+
+/**
+ * Get the file type from the file name
+ */
+function getFileType(fileName: string): FileType {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'qif') return 'qif';
+  return 'csv';
+}
+
+type Mapping = Required<
+  Pick<ImportOptions, 'signConvention' | 'dateFormat' | 'decimalSeparator' | 'defaultCategory'>
+> & {
+  nameColumn: string;
+  amountColumn: string;
+  dateColumn: string;
+  categoryColumn: string;
+};
+
+/**
+ * Guess the column for a field from the header names
+ */
+function guessColumn(headers: string[], keywords: string[]): string {
+  const index = headers.findIndex((header) =>
+    keywords.some((keyword) => header.toLowerCase().includes(keyword))
+  );
+  return index === -1 ? NO_COLUMN : String(index);
+}
+
+interface ImportTransactionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ImportTransactionsDialog({ open, onOpenChange }: ImportTransactionsDialogProps) {
+  const previewImport = usePreviewTransactionImport();
+  const importTransactions = useImportTransactions();
+  const previewStatement = usePreviewStatementImport();
+  const importStatement = useImportStatement();
+  const { options: categoryOptions } = useCategoryOptions();
+
+  const [step, setStep] = React.useState<Step>('upload');
+  const [content, setContent] = React.useState(''); // Raw file contents
+  const [fileName, setFileName] = React.useState('');
+  const fileType = getFileType(fileName);
+  const [delimiter, setDelimiter] = React.useState<NonNullable<ImportOptions['delimiter']>>(',');
+  const [hasHeader, setHasHeader] = React.useState(true);
+  const [parsedFile, setParsedFile] = React.useState<ImportPreviewResponse | null>(null);
+  const [preview, setPreview] = React.useState<Preview | null>(null);
+  const [mapping, setMapping] = React.useState<Mapping>({
+    nameColumn: NO_COLUMN,
+    amountColumn: NO_COLUMN,
+    dateColumn: NO_COLUMN,
+    categoryColumn: NO_COLUMN,
+    signConvention: 'expenses-negative',
+    dateFormat: 'YYYY-MM-DD',
+    decimalSeparator: '.',
+    defaultCategory: 'General',
+  });
+
+  // Reset wizard when dialog opens
+  React.useEffect(() => {
+    if (open) {
+      setStep('upload');
+      setContent('');
+      setFileName('');
+      setParsedFile(null);
+      setPreview(null);
+    }
+  }, [open]);
+
+  const updateMapping = (updates: Partial<Mapping>) => {
+    setMapping((current) => ({ ...current, ...updates }));
+  };
+
+  // Options sent to the server for the current mapping
+  const toColumn = (value: string) => (value === NO_COLUMN ? undefined : Number(value));
+  const options: ImportOptions = {
+    delimiter,
+    hasHeader,
+    nameColumn: toColumn(mapping.nameColumn),
+    amountColumn: toColumn(mapping.amountColumn),
+    dateColumn: toColumn(mapping.dateColumn),
+    categoryColumn: toColumn(mapping.categoryColumn),
+    signConvention: mapping.signConvention,
+    dateFormat: mapping.dateFormat,
+    decimalSeparator: mapping.decimalSeparator,
+    defaultCategory: mapping.defaultCategory,
+  };
+  const isMapped =
+    mapping.nameColumn !== NO_COLUMN &&
+    mapping.amountColumn !== NO_COLUMN &&
+    mapping.dateColumn !== NO_COLUMN;
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setContent(await file.text());
+  };
+
+  // Options for statement files
+  const statementOptions = {
+    format: fileType === 'csv' ? undefined : fileType,
+    dateFormat: mapping.dateFormat,
+    defaultCategory: mapping.defaultCategory,
+  };
+
+  // Step 1 -> 2: Get headers and sample rows, guess the mapping
+  // (statements go straight to the preview)
+  const handleUpload = async () => {
+    try {
+      if (fileType !== 'csv') {
+        setPreview(await previewStatement.mutateAsync({ statement: content, options: statementOptions }));
+        setStep('preview');
+        return;
+      }
+
+      const result = await previewImport.mutateAsync({ csv: content, options: { delimiter, hasHeader } });
+      setParsedFile(result);
+      updateMapping({
+        nameColumn: guessColumn(result.headers, ['description', 'name', 'payee', 'merchant']),
+        amountColumn: guessColumn(result.headers, ['amount', 'value']),
+        dateColumn: guessColumn(result.headers, ['date']),
+        categoryColumn: guessColumn(result.headers, ['category']),
+        // ;-delimited exports usually write 1.234,56
+        decimalSeparator: delimiter === ';' ? ',' : '.',
+      });
+      setStep('map');
+    } catch (error) {
+      console.error('Failed to read CSV:', error);
+    }
+  };
+
+  // Step 2 -> 3: Validate every row with the chosen mapping
+  const handlePreview = async () => {
+    try {
+      setPreview(await previewImport.mutateAsync({ csv: content, options }));
+      setStep('preview');
+    } catch (error) {
+      console.error('Failed to preview import:', error);
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      if (fileType !== 'csv') {
+        await importStatement.mutateAsync({
+          statement: content,
+          options: { ...statementOptions, skipInvalid: true },
+        });
+        onOpenChange(false);
+        return;
+      }
+      await importTransactions.mutateAsync({
+        csv: content,
+        options: { ...options, skipInvalid: true },
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to import transactions:', error);
+    }
+  };
+
+  const columnSelect = (id: keyof Mapping, label: string, optional = false) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={mapping[id]} onValueChange={(value) => updateMapping({ [id]: value })}>
+        <SelectTrigger id={id}>
+          <SelectValue placeholder="Select a column" />
+        </SelectTrigger>
+        <SelectContent>
+          {optional && <SelectItem value={NO_COLUMN}>None</SelectItem>}
+          {parsedFile?.headers.map((header, index) => (
+            <SelectItem key={index} value={String(index)}>
+              {header || `Column ${index + 1}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const validCount = preview?.valid ?? 0;
+  const invalidCount = preview?.invalid ?? 0;
+  const duplicateCount = preview?.duplicates ?? 0;
+  const isPreviewing = previewImport.isPending || previewStatement.isPending;
+  const isImporting = importTransactions.isPending || importStatement.isPending;
+
+  const defaultCategorySelect = (
+    <div className="space-y-2">
+      <Label htmlFor="defaultCategory">Default Category</Label>
+      <Select
+        value={mapping.defaultCategory}
+        onValueChange={(value) => updateMapping({ defaultCategory: value })}
+      >
+        <SelectTrigger id="defaultCategory">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <CategoryOptions options={categoryOptions} />
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-[var(--color-grey-500)]">
+        Used for rows without a category
+      </p>
+    </div>
+  );
+
+  const dateFormatSelect = (
+    <div className="space-y-2">
+      <Label htmlFor="dateFormat">Date Format</Label>
+      <Select
+        value={mapping.dateFormat}
+        onValueChange={(value) => updateMapping({ dateFormat: value as ImportDateFormat })}
+      >
+        <SelectTrigger id="dateFormat">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {DATE_FORMATS.map((format) => (
+            <SelectItem key={format} value={format}>
+              {format}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Transactions</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Upload a CSV, OFX/QFX or QIF file exported from your bank.'}
+            {step === 'map' && 'Choose which columns hold each transaction field.'}
+            {step === 'preview' && 'Check the transactions before importing them.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Step 1: Upload */}
+        {step === 'upload' && (
+          <div className="space-y-5">
+            <label
+              htmlFor="importFile"
+              className="flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed border-[var(--color-grey-300)] p-8 cursor-pointer hover:border-[var(--color-grey-500)]"
+            >
+              <Upload className="w-6 h-6 text-[var(--color-grey-500)]" />
+              <span className="text-sm text-[var(--color-grey-900)]">
+                {fileName || 'Choose a file'}
+              </span>
+              <input
+                id="importFile"
+                type="file"
+                accept=".csv,.ofx,.qfx,.qif,text/csv"
+                className="sr-only"
+                onChange={handleFileChange}
+              />
+            </label>
+
+            {fileType === 'csv' ? (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="delimiter">Delimiter</Label>
+                  <Select
+                    value={delimiter}
+                    onValueChange={(value) => setDelimiter(value as typeof delimiter)}
+                  >
+                    <SelectTrigger id="delimiter">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DELIMITERS.map((option) => (
+                        <SelectItem key={option.label} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    id="hasHeader"
+                    checked={hasHeader}
+                    onChange={(e) => setHasHeader(e.target.checked)}
+                    className="w-5 h-5 rounded border-[var(--color-grey-300)] text-[var(--color-green)] focus:ring-[var(--color-green)]"
+                  />
+                  <Label htmlFor="hasHeader" className="cursor-pointer">
+                    First row contains column names
+                  </Label>
+                </div>
+              </>
+            ) : (
+              <>
+                {/* QIF dates have no fixed day/month order */}
+                {fileType === 'qif' && dateFormatSelect}
+                {defaultCategorySelect}
+              </>
+            )}
+
+            <Button
+              className="w-full"
+              onClick={handleUpload}
+              disabled={!content || isPreviewing}
+            >
+              {isPreviewing ? 'Reading File...' : 'Continue'}
+            </Button>
+          </div>
+        )}
+
+        {/* Step 2: Map columns */}
+        {step === 'map' && parsedFile && (
+          <div className="space-y-5">
+            {/* Sample rows */}
+            <div className="overflow-x-auto rounded-lg bg-[var(--color-beige-100)] p-3">
+              <table className="w-full text-xs text-left">
+                <thead>
+                  <tr className="text-[var(--color-grey-500)]">
+                    {parsedFile.headers.map((header, index) => (
+                      <th key={index} className="px-2 py-1 font-normal whitespace-nowrap">
+                        {header || `Column ${index + 1}`}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {parsedFile.sample.map((row, rowIndex) => (
+                    <tr key={rowIndex} className="text-[var(--color-grey-900)]">
+                      {parsedFile.headers.map((_, index) => (
+                        <td key={index} className="px-2 py-1 whitespace-nowrap">
+                          {row[index]}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {columnSelect('nameColumn', 'Name')}
+              {columnSelect('amountColumn', 'Amount')}
+              {columnSelect('dateColumn', 'Date')}
+              {columnSelect('categoryColumn', 'Category', true)}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="signConvention">Expenses Are</Label>
+                <Select
+                  value={mapping.signConvention}
+                  onValueChange={(value) =>
+                    updateMapping({ signConvention: value as Mapping['signConvention'] })
+                  }
+                >
+                  <SelectTrigger id="signConvention">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="expenses-negative">Negative (-12.50)</SelectItem>
+                    <SelectItem value="expenses-positive">Positive (12.50)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {dateFormatSelect}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="decimalSeparator">Decimal Separator</Label>
+                <Select
+                  value={mapping.decimalSeparator}
+                  onValueChange={(value) =>
+                    updateMapping({ decimalSeparator: value as Mapping['decimalSeparator'] })
+                  }
+                >
+                  <SelectTrigger id="decimalSeparator">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DECIMAL_SEPARATORS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {defaultCategorySelect}
+            </div>
+
+            <div className="flex gap-3">
+              <Button variant="ghost" className="flex-1" onClick={() => setStep('upload')}>
+                Back
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={handlePreview}
+                disabled={!isMapped || isPreviewing}
+              >
+                {isPreviewing ? 'Checking...' : 'Preview'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Step 3: Preview */}
+        {step === 'preview' && preview && (
+          <div className="space-y-5">
+            <p className="text-sm text-[var(--color-grey-500)]">
+              <span className="font-bold text-[var(--color-green)]">{validCount} valid</span>
+              {duplicateCount > 0 && (
+                <>
+                  {' · '}
+                  <span className="font-bold">{duplicateCount} already imported</span>
+                </>
+              )}
+              {invalidCount > 0 && (
+                <>
+                  {' · '}
+                  <span className="font-bold text-[var(--color-red)]">
+                    {invalidCount} with errors (will be skipped)
+                  </span>
+                </>
+              )}
+            </p>
+
+            <div className="max-h-80 overflow-y-auto divide-y divide-[var(--color-grey-100)]">
+              {preview.rows.slice(0, PREVIEW_LIMIT).map((row) => (
+                <div key={row.row} className="flex items-start justify-between gap-4 py-2 text-sm">
+                  <span className="w-10 shrink-0 text-[var(--color-grey-500)]">#{row.row}</span>
+                  {row.duplicate && row.data ? (
+                    <p className="flex-1 min-w-0 truncate text-[var(--color-grey-500)]">
+                      {row.data.name} · Already imported
+                    </p>
+                  ) : row.data ? (
+                    <>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-bold text-[var(--color-grey-900)] truncate">
+                          {row.data.name}
+                        </p>
+                        <p className="text-xs text-[var(--color-grey-500)]">
+                          {row.data.category} · {formatDate(row.data.date, 'long')}
+                        </p>
+                      </div>
+                      <span
+                        className={cn(
+                          'font-bold shrink-0',
+                          row.data.amount > 0 ? 'text-[var(--color-green)]' : 'text-[var(--color-grey-900)]'
+                        )}
+                      >
+                        {formatCurrency(row.data.amount, true)}
+                      </span>
+                    </>
+                  ) : (
+                    <ul className="flex-1 text-xs text-[var(--color-red)]">
+                      {Object.entries(row.errors ?? {}).map(([field, messages]) => (
+                        <li key={field}>
+                          {field}: {messages.join(', ')}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+            {preview.rows.length > PREVIEW_LIMIT && (
+              <p className="text-xs text-[var(--color-grey-500)]">
+                Showing the first {PREVIEW_LIMIT} of {preview.rows.length} rows
+              </p>
+            )}
+
+            <div className="flex gap-3">
+              <Button
+                variant="ghost"
+                className="flex-1"
+                onClick={() => setStep(fileType === 'csv' ? 'map' : 'upload')}
+              >
+                Back
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={handleImport}
+                disabled={validCount === 0 || isImporting}
+              >
+                {isImporting
+                  ? 'Importing...'
+                  : `Import ${validCount} Transaction${validCount === 1 ? '' : 's'}`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,371 @@
+/**
+ * Manage Categories Dialog Component
+ *
+ * CONCEPT: Lists the user's categories as a tree, with what each one
+ * (subcategories included) spent this month.
+ *
+ * Actions:
+ * - Add a category, optionally under a parent (up to 3 levels)
+ * - Rename: transactions, budgets, bills and saved views follow the new name
+ * - Move under another parent (or to the top level)
+ * - Merge into another category: everything is re-tagged and the merged
+ *   category is removed
+ * - Archive/restore: archived categories can't be picked for new items,
+ *   existing transactions keep them
+ *
+ * General (what transactions and imports without a category get) can
+ * only be moved.
+ *
+ * Usage:
+ *   <ManageCategoriesDialog open={isOpen} onOpenChange={setIsOpen} />
+ */
+
+import * as React from 'react';
+import { MoreHorizontal } from 'lucide-react';
+import type { Category } from '@/lib/api';
+import { cn, formatCurrency } from '@/lib/utils';
+import {
+  useCategories,
+  useCategorySpending,
+  useCreateCategory,
+  useUpdateCategory,
+  useMergeCategory,
+  useArchiveCategory,
+  useRestoreCategory,
+} from '@/queryHooks';
+import {
+  Button,
+  Input,
+  Label,
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuItem,
+} from '@/components/ui';
+
+// Matches the server limit (Bills -> Utilities -> Electricity)
+const MAX_DEPTH = 3;
+
+// Matches the server's fallback category (can't be renamed, merged or archived)
+const FALLBACK_CATEGORY = 'General';
+
+// Select value for "no parent" (Radix selects can't use an empty value)
+const TOP_LEVEL = '__top__';
+
+type Action = { type: 'rename' | 'move' | 'merge'; category: Category };
+
+interface ManageCategoriesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * IDs of a category and everything below it (categories come parents first)
+ */
+function getSubtreeIds(categories: Category[], category: Category): string[] {
+  const start = categories.findIndex((item) => item._id === category._id);
+  const ids = [category._id];
+  for (let i = start + 1; i < categories.length && categories[i].depth > category.depth; i++) {
+    ids.push(categories[i]._id);
+  }
+  return ids;
+}
+
+/**
+ * Number of levels of a category's subtree (1 = no subcategories)
+ */
+function getSubtreeHeight(categories: Category[], category: Category): number {
+  const ids = getSubtreeIds(categories, category);
+  const deepest = Math.max(...categories.filter((item) => ids.includes(item._id)).map((item) => item.depth));
+  return deepest - category.depth + 1;
+}
+
+export function ManageCategoriesDialog({ open, onOpenChange }: ManageCategoriesDialogProps) {
+  const { data } = useCategories();
+  const { data: spendingData } = useCategorySpending();
+  const createCategory = useCreateCategory();
+  const updateCategory = useUpdateCategory();
+  const mergeCategory = useMergeCategory();
+  const archiveCategory = useArchiveCategory();
+  const restoreCategory = useRestoreCategory();
+
+  const [name, setName] = React.useState('');
+  const [parentId, setParentId] = React.useState(TOP_LEVEL);
+  const [action, setAction] = React.useState<Action | null>(null);
+  const [actionValue, setActionValue] = React.useState('');
+
+  const categories = data?.data.categories ?? [];
+  const spentById = new Map(
+    (spendingData?.data.categories ?? []).map((row) => [row._id, row.totalSpent])
+  );
+
+  // Reset when the dialog closes
+  React.useEffect(() => {
+    if (!open) {
+      setName('');
+      setParentId(TOP_LEVEL);
+      setAction(null);
+    }
+  }, [open]);
+
+  const startAction = (type: Action['type'], category: Category) => {
+    setAction({ type, category });
+    setActionValue(
+      type === 'rename' ? category.name : type === 'move' ? (category.parentId ?? TOP_LEVEL) : ''
+    );
+  };
+
+  // Parents a category of `height` levels can go under
+  const getParentOptions = (height: number, exclude: string[] = []) =>
+    categories.filter(
+      (category) =>
+        category.status === 'active' &&
+        category.depth + 1 + height <= MAX_DEPTH &&
+        !exclude.includes(category._id)
+    );
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await createCategory.mutateAsync({
+        name: name.trim(),
+        parentId: parentId === TOP_LEVEL ? null : parentId,
+      });
+      setName('');
+    } catch (error) {
+      console.error('Failed to create category:', error);
+    }
+  };
+
+  const handleAction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!action) return;
+    const { _id } = action.category;
+    try {
+      if (action.type === 'rename') {
+        await updateCategory.mutateAsync({ id: _id, data: { name: actionValue.trim() } });
+      } else if (action.type === 'move') {
+        await updateCategory.mutateAsync({
+          id: _id,
+          data: { parentId: actionValue === TOP_LEVEL ? null : actionValue },
+        });
+      } else {
+        await mergeCategory.mutateAsync({ id: _id, targetId: actionValue });
+      }
+      setAction(null);
+    } catch (error) {
+      console.error(`Failed to ${action.type} category:`, error);
+    }
+  };
+
+  const renderActionForm = (current: Action) => {
+    const subtree = getSubtreeIds(categories, current.category);
+    const isPending = updateCategory.isPending || mergeCategory.isPending;
+
+    return (
+      <form
+        onSubmit={handleAction}
+        className="space-y-3 rounded-lg bg-[var(--color-beige-100)] p-4"
+      >
+        {current.type === 'rename' && (
+          <div className="space-y-2">
+            <Label htmlFor="categoryRename">Rename {current.category.name}</Label>
+            <Input
+              id="categoryRename"
+              value={actionValue}
+              onChange={(e) => setActionValue(e.target.value)}
+              maxLength={30}
+              autoFocus
+            />
+            <p className="text-xs text-[var(--color-grey-500)]">
+              Transactions, budgets and bills in this category are renamed too.
+            </p>
+          </div>
+        )}
+
+        {current.type === 'move' && (
+          <div className="space-y-2">
+            <Label htmlFor="categoryMove">Move {current.category.name} under</Label>
+            <Select value={actionValue} onValueChange={setActionValue}>
+              <SelectTrigger id="categoryMove">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={TOP_LEVEL}>Top level</SelectItem>
+                {getParentOptions(getSubtreeHeight(categories, current.category), subtree).map(
+                  (category) => (
+                    <SelectItem key={category._id} value={category._id}>
+                      <span style={{ paddingLeft: `${category.depth * 0.75}rem` }}>
+                        {category.name}
+                      </span>
+                    </SelectItem>
+                  )
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {current.type === 'merge' && (
+          <div className="space-y-2">
+            <Label htmlFor="categoryMerge">Merge {current.category.name} into</Label>
+            <Select value={actionValue} onValueChange={setActionValue}>
+              <SelectTrigger id="categoryMerge">
+                <SelectValue placeholder="Select a category" />
+              </SelectTrigger>
+              <SelectContent>
+                {categories
+                  .filter((category) => category.status === 'active' && !subtree.includes(category._id))
+                  .map((category) => (
+                    <SelectItem key={category._id} value={category._id}>
+                      <span style={{ paddingLeft: `${category.depth * 0.75}rem` }}>
+                        {category.name}
+                      </span>
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-[var(--color-grey-500)]">
+              Its transactions, bills and subcategories move to the selected category and{' '}
+              {current.category.name} is removed. If both have a budget, only the selected
+              category's budget is kept.
+            </p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={() => setAction(null)}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={!actionValue.trim() || isPending}>
+            {isPending ? 'Saving...' : current.type === 'merge' ? 'Merge' : 'Save'}
+          </Button>
+        </div>
+      </form>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Manage Categories</DialogTitle>
+          <DialogDescription>
+            Add your own categories and nest them (e.g. Bills, then Utilities, then
+            Electricity). Budgets and filters on a category include its subcategories.
+          </DialogDescription>
+        </DialogHeader>
+
+        {action ? (
+          renderActionForm(action)
+        ) : (
+          <form onSubmit={handleAdd} className="flex flex-col gap-3 sm:flex-row sm:items-end">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="categoryName">New Category</Label>
+              <Input
+                id="categoryName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Childcare"
+                maxLength={30}
+              />
+            </div>
+            <div className="space-y-2 sm:w-40">
+              <Label htmlFor="categoryParent">Under</Label>
+              <Select value={parentId} onValueChange={setParentId}>
+                <SelectTrigger id="categoryParent">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={TOP_LEVEL}>Top level</SelectItem>
+                  {getParentOptions(1).map((category) => (
+                    <SelectItem key={category._id} value={category._id}>
+                      <span style={{ paddingLeft: `${category.depth * 0.75}rem` }}>
+                        {category.name}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" disabled={!name.trim() || createCategory.isPending}>
+              {createCategory.isPending ? 'Adding...' : 'Add'}
+            </Button>
+          </form>
+        )}
+
+        <ul className="max-h-80 overflow-y-auto divide-y divide-[var(--color-grey-100)]">
+          {categories.map((category) => {
+            const archived = category.status === 'archived';
+            const isFallback = category.name === FALLBACK_CATEGORY;
+            return (
+              <li
+                key={category._id}
+                className="flex items-center gap-2 py-2"
+                style={{ paddingLeft: `${category.depth * 1.25}rem` }}
+              >
+                <span
+                  className={cn(
+                    'flex-1 truncate text-sm',
+                    archived ? 'text-[var(--color-grey-500)]' : 'text-[var(--color-grey-900)]'
+                  )}
+                >
+                  {category.name}
+                  {archived && <span className="ml-1 text-xs">(archived)</span>}
+                </span>
+                <span className="text-xs text-[var(--color-grey-500)] whitespace-nowrap">
+                  {formatCurrency(spentById.get(category._id) ?? 0)} this month
+                </span>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <button
+                      className="p-1 rounded text-[var(--color-grey-500)] hover:text-[var(--color-grey-900)]"
+                      aria-label={`Actions for ${category.name}`}
+                    >
+                      <MoreHorizontal className="h-4 w-4" />
+                    </button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {!isFallback && (
+                      <DropdownMenuItem onSelect={() => startAction('rename', category)}>
+                        Rename
+                      </DropdownMenuItem>
+                    )}
+                    <DropdownMenuItem onSelect={() => startAction('move', category)}>
+                      Move
+                    </DropdownMenuItem>
+                    {!isFallback && (
+                      <DropdownMenuItem onSelect={() => startAction('merge', category)}>
+                        Merge into...
+                      </DropdownMenuItem>
+                    )}
+                    {archived && (
+                      <DropdownMenuItem onSelect={() => restoreCategory.mutate(category._id)}>
+                        Restore
+                      </DropdownMenuItem>
+                    )}
+                    {!archived && !isFallback && (
+                      <DropdownMenuItem onSelect={() => archiveCategory.mutate(category._id)}>
+                        Archive
+                      </DropdownMenuItem>
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </li>
+            );
+          })}
+        </ul>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,98 @@
+/**
+ * Range Filters Component
+ *
+ * CONCEPT: Date range and amount range inputs for filtering transactions.
+ * Dates apply immediately; amounts are debounced like the search input.
+ * Amounts are compared without sign, so "Min 40" matches a -$45.00 expense.
+ *
+ * Usage:
+ *   <RangeFilters value={{ from, to, minAmount, maxAmount }} onChange={updateParams} />
+ */
+
+import * as React from 'react';
+import { Input } from '@/components/ui';
+import { cn } from '@/lib/utils';
+
+export interface RangeValues {
+  from: string;      // YYYY-MM-DD
+  to: string;        // YYYY-MM-DD
+  minAmount: string;
+  maxAmount: string;
+}
+
+interface RangeFiltersProps {
+  value: RangeValues;
+  onChange: (updates: Partial<RangeValues>) => void;
+  className?: string;
+}
+
+export function RangeFilters({ value, onChange, className }: RangeFiltersProps) {
+  // Local state for immediate UI feedback while typing amounts
+  const [minAmount, setMinAmount] = React.useState(value.minAmount);
+  const [maxAmount, setMaxAmount] = React.useState(value.maxAmount);
+
+  // Sync local state when external values change
+  React.useEffect(() => {
+    setMinAmount(value.minAmount);
+    setMaxAmount(value.maxAmount);
+  }, [value.minAmount, value.maxAmount]);
+
+  // Debounced update
+  React.useEffect(() => {
+    const timer = setTimeout(() => {
+      if (minAmount !== value.minAmount || maxAmount !== value.maxAmount) {
+        onChange({ minAmount, maxAmount });
+      }
+    }, 300); // 300ms debounce
+
+    return () => clearTimeout(timer);
+  }, [minAmount, maxAmount, value.minAmount, value.maxAmount, onChange]);
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-2', className)}>
+      <span className="text-sm text-[var(--color-grey-500)] whitespace-nowrap">Date</span>
+      <Input
+        type="date"
+        value={value.from}
+        max={value.to || undefined}
+        onChange={(e) => onChange({ from: e.target.value })}
+        aria-label="From date"
+        className="w-[150px]"
+      />
+      <span className="text-sm text-[var(--color-grey-500)]">to</span>
+      <Input
+        type="date"
+        value={value.to}
+        min={value.from || undefined}
+        onChange={(e) => onChange({ to: e.target.value })}
+        aria-label="To date"
+        className="w-[150px]"
+      />
+
+      <span className="text-sm text-[var(--color-grey-500)] whitespace-nowrap md:ml-4">Amount</span>
+      <Input
+        type="number"
+        inputMode="decimal"
+        min="0"
+        step="0.01"
+        value={minAmount}
+        onChange={(e) => setMinAmount(e.target.value)}
+        placeholder="Min"
+        aria-label="Minimum amount"
+        className="w-[100px]"
+      />
+      <span className="text-sm text-[var(--color-grey-500)]">to</span>
+      <Input
+        type="number"
+        inputMode="decimal"
+        min="0"
+        step="0.01"
+        value={maxAmount}
+        onChange={(e) => setMaxAmount(e.target.value)}
+        placeholder="Max"
+        aria-label="Maximum amount"
+        className="w-[100px]"
+      />
+    </div>
+  );
+}
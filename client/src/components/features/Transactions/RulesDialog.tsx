@@ -0,0 +1,565 @@
+/**
+ * Rules Dialog Component
+ *
+ * CONCEPT: Manage the rules that fill in transactions automatically
+ * (e.g. names containing "AMZN" go to Shopping, renamed to "Amazon").
+ * The server runs them on every new and imported transaction.
+ *
+ * - Conditions: name contains/is/matches a pattern, amount range, income or expense
+ * - Actions: category (when none was picked), tags, a cleaner name, an avatar
+ * - Rules run top to bottom and the first matching one wins (reorder with the arrows)
+ * - "Apply to existing" previews what would change before saving anything
+ *
+ * Usage:
+ *   <RulesDialog open={isOpen} onOpenChange={setIsOpen} />
+ */
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { ArrowDown, ArrowUp, Pause, Pencil, Play, Trash2 } from 'lucide-react';
+import type { ApplyRulesResult, TransactionRule, TransactionRuleData } from '@/lib/api';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+import {
+  useRules,
+  useCreateRule,
+  useUpdateRule,
+  useDeleteRule,
+  useReorderRules,
+  useApplyRules,
+  useCategoryOptions,
+} from '@/queryHooks';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  Button,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui';
+import { CategoryOptions } from './CategoryOptions';
+import { TagInput } from './TagInput';
+
+// Select values for unused conditions/actions (Radix selects can't use an empty value)
+const ANY = '__any__';
+const NONE = '__none__';
+
+const nameOperators = [
+  { value: ANY, label: 'Any name' },
+  { value: 'contains', label: 'Name contains' },
+  { value: 'exact', label: 'Name is' },
+  { value: 'regex', label: 'Name matches pattern' },
+] as const;
+
+const types = [
+  { value: ANY, label: 'Income or expense' },
+  { value: 'expense', label: 'Expenses only' },
+  { value: 'income', label: 'Income only' },
+] as const;
+
+// Empty amount inputs are "no limit"
+const optionalAmount = (value: string) => (value === '' ? null : Number(value));
+
+// Validation schema (mirrors the server's checks for a complete rule)
+const ruleSchema = z
+  .object({
+    nameOperator: z.enum([ANY, 'contains', 'exact', 'regex']),
+    nameValue: z.string().max(100, 'Value cannot exceed 100 characters'),
+    type: z.enum([ANY, 'income', 'expense']),
+    minAmount: z.number({ message: 'Enter a valid amount' }).min(0, 'Amount must be positive').nullable(),
+    maxAmount: z.number({ message: 'Enter a valid amount' }).min(0, 'Amount must be positive').nullable(),
+    category: z.string(),
+    tags: z.array(z.string()).max(10, 'Up to 10 tags'),
+    rename: z.string().max(100, 'Name cannot exceed 100 characters'),
+    avatar: z.string().max(500, 'Avatar cannot exceed 500 characters'),
+  })
+  .superRefine((data, ctx) => {
+    const hasName = data.nameOperator !== ANY;
+    if (hasName && !data.nameValue.trim()) {
+      ctx.addIssue({ code: 'custom', message: 'Enter a value to match', path: ['nameValue'] });
+    }
+    if (data.nameOperator === 'regex' && data.nameValue.trim()) {
+      try {
+        new RegExp(data.nameValue.trim(), 'i');
+      } catch {
+        ctx.addIssue({ code: 'custom', message: 'Not a valid pattern', path: ['nameValue'] });
+      }
+    }
+    if (data.minAmount !== null && data.maxAmount !== null && data.minAmount > data.maxAmount) {
+      ctx.addIssue({ code: 'custom', message: 'Maximum must be at least the minimum', path: ['maxAmount'] });
+    }
+    if (!hasName && data.type === ANY && data.minAmount === null && data.maxAmount === null) {
+      ctx.addIssue({ code: 'custom', message: 'Add at least one condition', path: ['nameOperator'] });
+    }
+    if (data.category === NONE && data.tags.length === 0 && !data.rename.trim() && !data.avatar.trim()) {
+      ctx.addIssue({ code: 'custom', message: 'Add at least one action', path: ['category'] });
+    }
+  });
+
+type RuleFormData = z.infer<typeof ruleSchema>;
+
+const defaultValues: RuleFormData = {
+  nameOperator: 'contains',
+  nameValue: '',
+  type: ANY,
+  minAmount: null,
+  maxAmount: null,
+  category: NONE,
+  tags: [],
+  rename: '',
+  avatar: '',
+};
+
+/**
+ * Form values of an existing rule
+ */
+function toFormData(rule: TransactionRule): RuleFormData {
+  return {
+    nameOperator: rule.nameOperator ?? ANY,
+    nameValue: rule.nameValue ?? '',
+    type: rule.type ?? ANY,
+    minAmount: rule.minAmount,
+    maxAmount: rule.maxAmount,
+    category: rule.category ?? NONE,
+    tags: rule.tags,
+    rename: rule.rename ?? '',
+    avatar: rule.avatar ?? '',
+  };
+}
+
+/**
+ * Describe a rule in one line
+ * (e.g. 'Name contains "AMZN", expenses -> Shopping, #online, rename to "Amazon"')
+ */
+function describeRule(rule: TransactionRule): string {
+  const conditions: string[] = [];
+  if (rule.nameOperator === 'contains') conditions.push(`Name contains "${rule.nameValue}"`);
+  if (rule.nameOperator === 'exact') conditions.push(`Name is "${rule.nameValue}"`);
+  if (rule.nameOperator === 'regex') conditions.push(`Name matches /${rule.nameValue}/`);
+  if (rule.type) conditions.push(rule.type === 'income' ? 'income' : 'expenses');
+  if (rule.minAmount !== null && rule.maxAmount !== null) {
+    conditions.push(`${formatCurrency(rule.minAmount)} to ${formatCurrency(rule.maxAmount)}`);
+  } else if (rule.minAmount !== null) {
+    conditions.push(`${formatCurrency(rule.minAmount)} or more`);
+  } else if (rule.maxAmount !== null) {
+    conditions.push(`up to ${formatCurrency(rule.maxAmount)}`);
+  }
+
+  const actions: string[] = [];
+  if (rule.category) actions.push(rule.category);
+  if (rule.tags.length > 0) actions.push(rule.tags.map((tag) => `#${tag}`).join(' '));
+  if (rule.rename) actions.push(`rename to "${rule.rename}"`);
+  if (rule.avatar) actions.push('set avatar');
+
+  return `${conditions.join(', ')} -> ${actions.join(', ')}`;
+}
+
+/**
+ * One changed field of a previewed transaction ("Groceries -> Shopping")
+ */
+function describeChange(change: ApplyRulesResult['changes'][number]): string[] {
+  const { before, after } = change;
+  const lines: string[] = [];
+  if (after.name !== undefined) lines.push(`Name: ${before.name} -> ${after.name}`);
+  if (after.category !== undefined) lines.push(`Category: ${before.category} -> ${after.category}`);
+  if (after.tags !== undefined) {
+    const added = after.tags.filter((tag) => !(before.tags ?? []).includes(tag));
+    lines.push(`Tags: + ${added.map((tag) => `#${tag}`).join(' ')}`);
+  }
+  if (after.avatar !== undefined) lines.push('Avatar changed');
+  return lines;
+}
+
+interface RulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function RulesDialog({ open, onOpenChange }: RulesDialogProps) {
+  const { data, isLoading } = useRules();
+  const createRule = useCreateRule();
+  const updateRule = useUpdateRule();
+  const deleteRule = useDeleteRule();
+  const reorderRules = useReorderRules();
+  const applyRules = useApplyRules();
+
+  // null = list, 'new' = add form, a rule = edit form
+  const [editing, setEditing] = React.useState<TransactionRule | 'new' | null>(null);
+  const [preview, setPreview] = React.useState<ApplyRulesResult | null>(null);
+  // An edited rule keeps its category even when it's been archived
+  const { options: categoryOptions } = useCategoryOptions(
+    editing && editing !== 'new' ? (editing.category ?? undefined) : undefined
+  );
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<RuleFormData>({
+    resolver: zodResolver(ruleSchema),
+    defaultValues,
+  });
+
+  const rules = data?.data.rules ?? [];
+  const nameOperator = watch('nameOperator');
+
+  // Back to the list when the dialog closes
+  React.useEffect(() => {
+    if (!open) {
+      setEditing(null);
+      setPreview(null);
+    }
+  }, [open]);
+
+  const startEditing = (rule: TransactionRule | 'new') => {
+    reset(rule === 'new' ? defaultValues : toFormData(rule));
+    setPreview(null);
+    setEditing(rule);
+  };
+
+  const onSubmit = async (formData: RuleFormData) => {
+    const nameOperator = formData.nameOperator === ANY ? null : formData.nameOperator;
+    const rule: Omit<TransactionRuleData, 'enabled'> = {
+      nameOperator,
+      nameValue: nameOperator ? formData.nameValue.trim() : null,
+      type: formData.type === ANY ? null : formData.type,
+      minAmount: formData.minAmount,
+      maxAmount: formData.maxAmount,
+      category: formData.category === NONE ? null : formData.category,
+      tags: formData.tags,
+      rename: formData.rename.trim() || null,
+      avatar: formData.avatar.trim() || null,
+    };
+
+    try {
+      if (editing && editing !== 'new') {
+        await updateRule.mutateAsync({ id: editing._id, data: rule });
+      } else {
+        await createRule.mutateAsync(rule);
+      }
+      setEditing(null);
+    } catch (error) {
+      console.error('Failed to save rule:', error);
+    }
+  };
+
+  // Swap a rule with its neighbour
+  const moveRule = (index: number, offset: -1 | 1) => {
+    const ids = rules.map((rule) => rule._id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    reorderRules.mutate(ids);
+  };
+
+  const handlePreview = async () => {
+    try {
+      const response = await applyRules.mutateAsync({ dryRun: true });
+      setPreview(response.data);
+    } catch (error) {
+      console.error('Failed to preview rules:', error);
+    }
+  };
+
+  const handleApply = async () => {
+    try {
+      await applyRules.mutateAsync({ dryRun: false });
+      setPreview(null);
+    } catch (error) {
+      console.error('Failed to apply rules:', error);
+    }
+  };
+
+  const renderForm = () => (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      {/* Conditions */}
+      <p className="text-xs font-bold uppercase text-[var(--color-grey-500)]">When</p>
+      <div className="grid grid-cols-2 gap-3">
+        <Select
+          value={nameOperator}
+          onValueChange={(value) =>
+            setValue('nameOperator', value as RuleFormData['nameOperator'], { shouldValidate: true })
+          }
+        >
+          <SelectTrigger aria-label="Name condition">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {nameOperators.map((operator) => (
+              <SelectItem key={operator.value} value={operator.value}>
+                {operator.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          aria-label="Name value"
+          placeholder={nameOperator === 'regex' ? 'e.g. ^AMZN\\s' : 'e.g. AMZN'}
+          disabled={nameOperator === ANY}
+          maxLength={100}
+          {...register('nameValue')}
+          error={!!errors.nameValue}
+        />
+      </div>
+      {(errors.nameOperator || errors.nameValue) && (
+        <p className="text-xs text-[var(--color-red)]">
+          {errors.nameOperator?.message ?? errors.nameValue?.message}
+        </p>
+      )}
+
+      <div className="grid grid-cols-3 gap-3">
+        <Select
+          value={watch('type')}
+          onValueChange={(value) => setValue('type', value as RuleFormData['type'])}
+        >
+          <SelectTrigger aria-label="Transaction type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {types.map((type) => (
+              <SelectItem key={type.value} value={type.value}>
+                {type.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="number"
+          step="0.01"
+          min="0"
+          placeholder="Min $"
+          aria-label="Minimum amount"
+          {...register('minAmount', { setValueAs: optionalAmount })}
+          error={!!errors.minAmount}
+        />
+        <Input
+          type="number"
+          step="0.01"
+          min="0"
+          placeholder="Max $"
+          aria-label="Maximum amount"
+          {...register('maxAmount', { setValueAs: optionalAmount })}
+          error={!!errors.maxAmount}
+        />
+      </div>
+      {(errors.minAmount || errors.maxAmount) && (
+        <p className="text-xs text-[var(--color-red)]">
+          {errors.minAmount?.message ?? errors.maxAmount?.message}
+        </p>
+      )}
+
+      {/* Actions */}
+      <p className="text-xs font-bold uppercase text-[var(--color-grey-500)]">Then</p>
+      <div className="space-y-2">
+        <Label htmlFor="ruleCategory">Category</Label>
+        <Select
+          value={watch('category')}
+          onValueChange={(value) => setValue('category', value, { shouldValidate: true })}
+        >
+          <SelectTrigger id="ruleCategory">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>Don't change</SelectItem>
+            <CategoryOptions options={categoryOptions} />
+          </SelectContent>
+        </Select>
+        {errors.category && (
+          <p className="text-xs text-[var(--color-red)]">{errors.category.message}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="ruleTags">Add Tags</Label>
+        <TagInput
+          id="ruleTags"
+          value={watch('tags')}
+          onChange={(tags) => setValue('tags', tags, { shouldValidate: true })}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="ruleRename">Rename To</Label>
+          <Input
+            id="ruleRename"
+            placeholder="e.g. Amazon"
+            maxLength={100}
+            {...register('rename')}
+            error={!!errors.rename}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="ruleAvatar">Avatar URL</Label>
+          <Input
+            id="ruleAvatar"
+            placeholder="Keep default"
+            maxLength={500}
+            {...register('avatar')}
+            error={!!errors.avatar}
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? 'Saving...' : editing === 'new' ? 'Add Rule' : 'Save'}
+        </Button>
+      </div>
+    </form>
+  );
+
+  const renderPreview = (result: ApplyRulesResult) => (
+    <div className="space-y-4">
+      {result.total === 0 ? (
+        <p className="text-sm text-[var(--color-grey-500)]">
+          Your rules wouldn't change any existing transaction.
+        </p>
+      ) : (
+        <>
+          <p className="text-sm text-[var(--color-grey-900)]">
+            {result.total} transaction{result.total === 1 ? '' : 's'} would change
+            {result.changes.length < result.total && ` (showing the latest ${result.changes.length})`}.
+            Split transactions keep their categories.
+          </p>
+          <ul className="max-h-72 overflow-y-auto divide-y divide-[var(--color-grey-100)]">
+            {result.changes.map((change) => (
+              <li key={change.transactionId} className="py-2 text-xs">
+                <div className="flex justify-between text-[var(--color-grey-500)]">
+                  <span>{formatDate(change.date)}</span>
+                  <span>{formatCurrency(change.amount, true)}</span>
+                </div>
+                {describeChange(change).map((line) => (
+                  <p key={line} className="text-[var(--color-grey-900)]">
+                    {line}
+                  </p>
+                ))}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={() => setPreview(null)}>
+          Back
+        </Button>
+        {result.total > 0 && (
+          <Button onClick={handleApply} disabled={applyRules.isPending}>
+            {applyRules.isPending ? 'Applying...' : `Apply ${result.total} change${result.total === 1 ? '' : 's'}`}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+
+  const renderList = () => (
+    <>
+      {isLoading ? (
+        <div className="h-12 bg-[var(--color-beige-100)] rounded-lg animate-pulse" />
+      ) : rules.length === 0 ? (
+        <p className="text-sm text-[var(--color-grey-500)]">No rules yet.</p>
+      ) : (
+        <ol className="max-h-80 overflow-y-auto divide-y divide-[var(--color-grey-100)]">
+          {rules.map((rule, index) => (
+            <li key={rule._id} className="flex items-center gap-2 py-2">
+              <p
+                className={cn(
+                  'flex-1 min-w-0 text-sm',
+                  rule.enabled ? 'text-[var(--color-grey-900)]' : 'text-[var(--color-grey-500)]'
+                )}
+              >
+                {describeRule(rule)}
+                {!rule.enabled && ' (paused)'}
+              </p>
+              <div className="flex shrink-0">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  disabled={index === 0 || reorderRules.isPending}
+                  onClick={() => moveRule(index, -1)}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                  <span className="sr-only">Move up</span>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  disabled={index === rules.length - 1 || reorderRules.isPending}
+                  onClick={() => moveRule(index, 1)}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                  <span className="sr-only">Move down</span>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  disabled={updateRule.isPending}
+                  onClick={() => updateRule.mutate({ id: rule._id, data: { enabled: !rule.enabled } })}
+                >
+                  {rule.enabled ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                  <span className="sr-only">{rule.enabled ? 'Pause rule' : 'Resume rule'}</span>
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => startEditing(rule)}>
+                  <Pencil className="h-4 w-4" />
+                  <span className="sr-only">Edit rule</span>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-[var(--color-red)]"
+                  disabled={deleteRule.isPending}
+                  onClick={() => deleteRule.mutate(rule._id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Delete rule</span>
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="outline"
+          onClick={handlePreview}
+          disabled={!rules.some((rule) => rule.enabled) || applyRules.isPending}
+        >
+          {applyRules.isPending ? 'Checking...' : 'Apply to existing'}
+        </Button>
+        <Button onClick={() => startEditing('new')}>Add Rule</Button>
+      </div>
+    </>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Rules</DialogTitle>
+          <DialogDescription>
+            Rules fill in new and imported transactions. They run top to bottom
+            and the first matching rule wins. Its category is only used when you
+            didn't pick one.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editing ? renderForm() : preview ? renderPreview(preview) : renderList()}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,168 @@
+/**
+ * Saved Views Menu Component
+ *
+ * CONCEPT: A dropdown of saved filter combinations ("views").
+ * - Picking a view applies its filters (they go in the URL, so the
+ *   result can be shared like any other filtered page)
+ * - "Save current filters" stores the current filters under a name
+ * - "Copy link" copies the URL of the current filters
+ *
+ * Usage:
+ *   <SavedViewsMenu
+ *     filters={currentFilters}
+ *     activeViewId={viewId}
+ *     onApply={applyView}
+ *   />
+ */
+
+import * as React from 'react';
+import toast from 'react-hot-toast';
+import { Bookmark, Link, Plus, Trash2 } from 'lucide-react';
+import { useSavedViews, useCreateSavedView, useDeleteSavedView } from '@/queryHooks';
+import type { SavedView, SavedViewFilters } from '@/lib/api';
+import {
+  Button,
+  Input,
+  Label,
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+} from '@/components/ui';
+
+interface SavedViewsMenuProps {
+  filters: SavedViewFilters;
+  activeViewId?: string;
+  onApply: (view: SavedView) => void;
+}
+
+export function SavedViewsMenu({ filters, activeViewId, onApply }: SavedViewsMenuProps) {
+  const [isSaveOpen, setIsSaveOpen] = React.useState(false);
+  const [name, setName] = React.useState('');
+
+  const { data } = useSavedViews();
+  const createView = useCreateSavedView();
+  const deleteView = useDeleteSavedView();
+
+  const views = data?.data.views ?? [];
+  const activeView = views.find((view) => view._id === activeViewId);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const result = await createView.mutateAsync({ name: name.trim(), filters });
+      onApply(result.data.view);
+      setIsSaveOpen(false);
+      setName('');
+    } catch (error) {
+      console.error('Failed to save view:', error);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success('Link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="max-w-[200px]">
+            <Bookmark className="w-4 h-4 mr-2" />
+            <span className="truncate">{activeView?.name ?? 'Views'}</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          {views.length > 0 && (
+            <>
+              <DropdownMenuLabel className="text-xs font-normal text-[var(--color-grey-500)]">
+                Saved views
+              </DropdownMenuLabel>
+              {views.map((view) => (
+                <DropdownMenuItem
+                  key={view._id}
+                  onSelect={() => onApply(view)}
+                  className="justify-between gap-2"
+                >
+                  <span className={view._id === activeViewId ? 'truncate font-bold' : 'truncate'}>
+                    {view.name}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deleteView.mutate(view._id);
+                    }}
+                    onPointerDown={(e) => e.stopPropagation()}
+                    className="text-[var(--color-grey-500)] hover:text-[var(--color-red)]"
+                    aria-label={`Delete view ${view.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+            </>
+          )}
+          <DropdownMenuItem onSelect={() => setIsSaveOpen(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Save current filters
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={handleCopyLink}>
+            <Link className="w-4 h-4 mr-2" />
+            Copy link
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <DialogContent className="sm:max-w-md">
+          <form onSubmit={handleSave}>
+            <DialogHeader>
+              <DialogTitle>Save View</DialogTitle>
+              <DialogDescription>
+                Save the current search, categories, date range and sort so you can
+                come back to them in one click.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2 py-4">
+              <Label htmlFor="viewName">View Name</Label>
+              <Input
+                id="viewName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Dining out this spring"
+                maxLength={50}
+                autoFocus
+              />
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={!name.trim() || createView.isPending}
+              >
+                {createView.isPending ? 'Saving...' : 'Save View'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
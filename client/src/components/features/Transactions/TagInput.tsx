@@ -0,0 +1,149 @@
+/**
+ * Tag Input Component
+ *
+ * CONCEPT: Free-form tags (e.g. #vacation-2026) shown as chips, with
+ * suggestions from the tags the user already has (most used first).
+ *
+ * - Enter, comma or space adds the typed tag
+ * - Backspace in an empty input removes the last tag
+ * - Tags are stored like the server does: lowercase, without the #
+ *
+ * Usage:
+ *   <TagInput value={tags} onChange={setTags} />
+ */
+
+import * as React from 'react';
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useTags } from '@/queryHooks';
+
+// Matches the server limits
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 30;
+const TAG_PATTERN = /^[\p{Ll}\p{Lo}\p{N}][\p{Ll}\p{Lo}\p{N}_-]*$/u;
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  id?: string;
+  placeholder?: string;
+  max?: number;
+  className?: string;
+}
+
+/**
+ * "#Vacation-2026 " -> "vacation-2026"
+ */
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').toLowerCase();
+}
+
+export function TagInput({
+  value,
+  onChange,
+  id,
+  placeholder = 'Add tags, e.g. #vacation-2026',
+  max = MAX_TAGS,
+  className,
+}: TagInputProps) {
+  const [input, setInput] = React.useState('');
+  const [isFocused, setIsFocused] = React.useState(false);
+  const [error, setError] = React.useState('');
+
+  const search = normalizeTag(input);
+  const { data } = useTags(search);
+  const suggestions = (data?.data.tags ?? []).filter(({ tag }) => !value.includes(tag));
+  const isFull = value.length >= max;
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    setInput('');
+    if (!tag || value.includes(tag)) return;
+    if (tag.length > MAX_TAG_LENGTH || !TAG_PATTERN.test(tag)) {
+      setError('Tags can use letters, numbers, - and _ (up to 30 characters)');
+      return;
+    }
+    setError('');
+    onChange([...value, tag]);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter((t) => t !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',' || e.key === ' ') {
+      // Don't submit the surrounding form
+      e.preventDefault();
+      if (input.trim()) addTag(input);
+    } else if (e.key === 'Backspace' && !input && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  return (
+    <div className={cn('relative', className)}>
+      <div className="flex min-h-11 flex-wrap items-center gap-2 rounded-lg border border-[var(--color-beige-500)] bg-white px-3 py-2 focus-within:border-[var(--color-grey-900)]">
+        {value.map((tag) => (
+          <span
+            key={tag}
+            className="inline-flex items-center gap-1 rounded-full bg-[var(--color-beige-100)] px-2 py-0.5 text-xs text-[var(--color-grey-900)]"
+          >
+            #{tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="text-[var(--color-grey-500)] hover:text-[var(--color-grey-900)]"
+              aria-label={`Remove tag ${tag}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        {!isFull && (
+          <input
+            id={id}
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value);
+              setError('');
+            }}
+            onKeyDown={handleKeyDown}
+            onFocus={() => setIsFocused(true)}
+            onBlur={() => {
+              setIsFocused(false);
+              if (input.trim()) addTag(input);
+            }}
+            placeholder={value.length === 0 ? placeholder : ''}
+            maxLength={MAX_TAG_LENGTH + 1}
+            className="min-w-[8rem] flex-1 bg-transparent text-sm outline-none placeholder:text-[var(--color-grey-500)]"
+            autoComplete="off"
+          />
+        )}
+      </div>
+
+      {/* Suggestions (mousedown so the click lands before the input blurs) */}
+      {isFocused && !isFull && suggestions.length > 0 && (
+        <ul className="absolute z-50 mt-1 max-h-48 w-full overflow-y-auto rounded-lg bg-white py-1 shadow-lg">
+          {suggestions.map(({ tag, count }) => (
+            <li key={tag}>
+              <button
+                type="button"
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  addTag(tag);
+                }}
+                className="flex w-full items-center justify-between px-3 py-1.5 text-left text-sm hover:bg-[var(--color-beige-100)]"
+              >
+                <span>#{tag}</span>
+                <span className="text-xs text-[var(--color-grey-500)]">{count}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="mt-1 text-xs text-[var(--color-red)]">{error}</p>}
+    </div>
+  );
+}
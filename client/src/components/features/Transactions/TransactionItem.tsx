@@ -7,7 +7,7 @@
  * Features:
  * - Avatar with fallback
  * - Color-coded amounts (green for income, default for expense)
- * - Category and date display
+ * - Category (or split lines), tags and date display
  * - Responsive design
  * - Delete action via dropdown menu
  *
@@ -44,6 +44,39 @@ function getInitials(name: string): string {
     .slice(0, 2);
 }
 
+/**
+ * Category text: the categories of a split transaction's lines, with each
+ * line's amount in the tooltip
+ */
+function TransactionCategory({ transaction, className }: TransactionItemProps & { className: string }) {
+  const splits = transaction.splits ?? [];
+  if (splits.length === 0) {
+    return <span className={className}>{transaction.category}</span>;
+  }
+  return (
+    <span
+      className={cn(className, 'block truncate')}
+      title={splits
+        .map((line) => `${line.category}: ${formatCurrency(line.amount)}${line.note ? ` (${line.note})` : ''}`)
+        .join('\n')}
+    >
+      Split: {[...new Set(splits.map((line) => line.category))].join(', ')}
+    </span>
+  );
+}
+
+/**
+ * Tags of a transaction ("#vacation-2026 #wedding")
+ */
+function TransactionTags({ tags }: { tags?: string[] }) {
+  if (!tags?.length) return null;
+  return (
+    <p className="text-xs text-[var(--color-grey-500)] truncate" title={tags.map((tag) => `#${tag}`).join(' ')}>
+      {tags.map((tag) => `#${tag}`).join(' ')}
+    </p>
+  );
+}
+
 /**
  * Desktop Transaction Row
  * Displays transaction as a table row with columns
@@ -80,10 +113,14 @@ export function TransactionItemDesktop({ transaction }: TransactionItemProps) {
         </span>
       </div>
 
-      {/* Category */}
-      <span className="text-sm text-[var(--color-grey-500)]">
-        {transaction.category}
-      </span>
+      {/* Category & Tags */}
+      <div className="min-w-0">
+        <TransactionCategory
+          transaction={transaction}
+          className="text-sm text-[var(--color-grey-500)]"
+        />
+        <TransactionTags tags={transaction.tags} />
+      </div>
 
       {/* Date */}
       <span className="text-sm text-[var(--color-grey-500)]">
@@ -164,9 +201,11 @@ export function TransactionItemMobile({ transaction }: TransactionItemProps) {
           <p className="font-bold text-[var(--color-grey-900)] truncate">
             {transaction.name}
           </p>
-          <p className="text-xs text-[var(--color-grey-500)]">
-            {transaction.category}
-          </p>
+          <TransactionCategory
+            transaction={transaction}
+            className="text-xs text-[var(--color-grey-500)]"
+          />
+          <TransactionTags tags={transaction.tags} />
         </div>
       </div>
 
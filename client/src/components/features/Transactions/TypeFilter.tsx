@@ -0,0 +1,54 @@
+/**
+ * Type Filter Component
+ *
+ * CONCEPT: A dropdown for showing only income or only expenses.
+ *
+ * Usage:
+ *   <TypeFilter value={type} onValueChange={setType} />
+ */
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui';
+
+export type TypeOption = 'all' | 'income' | 'expense';
+
+const typeOptions: { value: TypeOption; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'income', label: 'Income' },
+  { value: 'expense', label: 'Expenses' },
+];
+
+interface TypeFilterProps {
+  value: TypeOption;
+  onValueChange: (value: TypeOption) => void;
+  className?: string;
+}
+
+export function TypeFilter({ value, onValueChange, className }: TypeFilterProps) {
+  return (
+    <div className={className}>
+      <div className="flex items-center gap-2">
+        <span className="hidden md:inline text-sm text-[var(--color-grey-500)] whitespace-nowrap">
+          Type
+        </span>
+        <Select value={value} onValueChange={onValueChange}>
+          <SelectTrigger className="w-[120px]" aria-label="Transaction type">
+            <SelectValue placeholder="Type" />
+          </SelectTrigger>
+          <SelectContent>
+            {typeOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
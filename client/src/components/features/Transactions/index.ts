@@ -6,7 +6,16 @@
 
 export { SearchInput } from './SearchInput';
 export { SortSelect, type SortOption } from './SortSelect';
-export { CategoryFilter, categories, type Category } from './CategoryFilter';
+export { CategoryFilter } from './CategoryFilter';
+export { CategoryOptions } from './CategoryOptions';
+export { TagInput } from './TagInput';
+export { ManageCategoriesDialog } from './ManageCategoriesDialog';
+export { RulesDialog } from './RulesDialog';
+export { TypeFilter, type TypeOption } from './TypeFilter';
+export { RangeFilters, type RangeValues } from './RangeFilters';
 export { Pagination } from './Pagination';
 export { TransactionItem, TransactionItemDesktop, TransactionItemMobile } from './TransactionItem';
 export { AddTransactionForm } from './AddTransactionForm';
+export { ImportTransactionsDialog } from './ImportTransactionsDialog';
+export { ExportMenu } from './ExportMenu';
+export { SavedViewsMenu } from './SavedViewsMenu';
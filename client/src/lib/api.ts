@@ -244,15 +244,27 @@ export async function refreshToken(): Promise<{ success: boolean; message: strin
 // =============================================================================
 
 // Transaction types
+
+/**
+ * Part of a transaction's amount in a category (same sign as the transaction)
+ */
+export interface TransactionSplit {
+  category: string;
+  amount: number;
+  note?: string;
+}
+
 export interface Transaction {
   _id: string;
   userId: string;
   avatar: string;
   name: string;
-  category: string;
+  category: string;           // The largest split line's when split
+  splits: TransactionSplit[];  // Empty unless split - lines add up to amount
   date: string;
   amount: number;
   recurring: boolean;
+  tags: string[];       // Lowercase, without the leading #
   isTemplate?: boolean; // Bill templates don't affect balance until paid
   createdAt: string;
   updatedAt: string;
@@ -275,22 +287,142 @@ export interface TransactionParams {
   search?: string;
   sort?: 'Latest' | 'Oldest' | 'A to Z' | 'Z to A' | 'Highest' | 'Lowest';
   filter?: string;
+  categories?: string[];        // Any of these
+  excludeCategories?: string[]; // None of these
+  tags?: string[];              // Any of these
+  from?: string; // ISO date (inclusive)
+  to?: string;   // ISO date (inclusive)
+  minAmount?: number; // Absolute amount (inclusive)
+  maxAmount?: number; // Absolute amount (inclusive)
+  type?: TransactionType;
+}
+
+export type TransactionType = 'income' | 'expense';
+
+/**
+ * A category suggested for a payee from the user's past transactions
+ */
+export interface CategorySuggestion {
+  category: string;
+  confidence: number;  // 0-1 (low with little history)
+  matches: number;     // Past transactions with a similar name in this category
+}
+
+export type ExportFormat = 'csv' | 'json' | 'ofx';
+
+// Transaction import types (CSV)
+export type ImportDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+export interface ImportOptions {
+  // Column indexes (0-based) - leave out to get headers for mapping
+  nameColumn?: number;
+  amountColumn?: number;
+  dateColumn?: number;
+  categoryColumn?: number;
+  defaultCategory?: string;
+  signConvention?: 'expenses-negative' | 'expenses-positive';
+  dateFormat?: ImportDateFormat;
+  decimalSeparator?: '.' | ','; // Amounts in another format are invalid rows
+  delimiter?: ',' | ';' | '\t';
+  hasHeader?: boolean;
+  dryRun?: boolean;
+  skipInvalid?: boolean;
+}
+
+export interface ImportRow {
+  row: number; // Row number in the file
+  data: Pick<Transaction, 'name' | 'amount' | 'category' | 'date'> | null; // null = invalid
+  errors?: Record<string, string[]>;
+  duplicate?: boolean; // Statement row that was already imported
+}
+
+export interface ImportPreviewResponse {
+  headers: string[];
+  sample: string[][];
+  totalRows: number;
+  rows: ImportRow[];
+  valid?: number;
+  invalid?: number;
+}
+
+export interface ImportResult {
+  imported: number;
+  skipped: number;
+  duplicates?: number; // Statement imports only
+}
+
+// Statement import types (OFX/QFX, QIF)
+export interface StatementImportOptions {
+  format?: 'ofx' | 'qif'; // Detected from the file if omitted
+  dateFormat?: ImportDateFormat; // QIF only
+  defaultCategory?: string;
+  skipInvalid?: boolean;
+}
+
+export interface StatementPreviewResponse {
+  format: 'ofx' | 'qif';
+  totalRows: number;
+  rows: ImportRow[];
+  valid: number;
+  duplicates: number;
+  invalid: number;
 }
 
 // Budget types
+export type BudgetPeriod = 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export type RolloverMode = 'none' | 'surplus' | 'surplus_and_deficit';
+
 export interface Budget {
   _id: string;
   userId: string;
   category: string;
   maximum: number;
   theme: string;
+  period: BudgetPeriod;
+  periodAnchor: string | null;  // null = calendar periods
+  rolloverMode: RolloverMode;
+  rolloverCap: number | null;
+  rolloverSince: string | null;  // Start of the first period carried from
+  alertThresholds: number[];    // % of the limit that sends a notification
+  periodStart: string;          // Current period
+  periodEnd: string;
   spent: number;
+  carriedOver: number;       // From earlier months (negative after overspending)
+  effectiveMaximum: number;  // maximum + carriedOver
   remaining: number;
   latestTransactions: Transaction[];
   createdAt: string;
   updatedAt: string;
 }
 
+// How a budget did in one period
+export interface BudgetPeriodStatus {
+  periodStart: string;
+  periodEnd: string;
+  limit: number;        // maximum + carriedOver
+  carriedOver: number;
+  spent: number;
+  difference: number;   // limit - spent (negative = over budget)
+  isCurrent: boolean;   // The period in progress
+}
+
+export interface BudgetHistory {
+  budgetId: string;
+  category: string;
+  theme: string;
+  period: BudgetPeriod;
+  history: BudgetPeriodStatus[];  // Oldest first
+}
+
+export interface BudgetsHistoryResponse {
+  success: boolean;
+  data: {
+    months: number;
+    budgets: BudgetHistory[];
+  };
+}
+
 export interface BudgetsResponse {
   success: boolean;
   data: {
@@ -302,9 +434,17 @@ export interface CreateBudgetData {
   category: string;
   maximum: number;
   theme: string;
+  period?: BudgetPeriod;
+  periodAnchor?: string | null;  // e.g. last payday, null = calendar periods
+  rolloverMode?: RolloverMode;
+  rolloverCap?: number | null;  // null = no cap
+  rolloverSince?: string;       // A day in the first period carried from
+  alertThresholds?: number[];   // [] = no alerts
 }
 
 // Pot types
+export type PotStatus = 'active' | 'completed' | 'archived';
+
 export interface Pot {
   _id: string;
   userId: string;
@@ -312,8 +452,17 @@ export interface Pot {
   target: number;
   total: number;
   theme: string;
+  targetDate: string | null;
+  status: PotStatus;
+  lockDeposits: boolean;           // Completed pot refuses deposits
+  completedAt: string | null;
+  archivedAt: string | null;
   percentage: number;
   remaining: number;
+  requiredWeekly: number | null;   // Needed per week to hit the target date
+  requiredMonthly: number | null;
+  projectedDate: string | null;    // At the recent saving rate
+  onTrack: boolean | null;         // null without a target date
   createdAt: string;
   updatedAt: string;
 }
@@ -329,12 +478,80 @@ export interface CreatePotData {
   name: string;
   target: number;
   theme: string;
+  targetDate?: string | null;  // YYYY-MM-DD, null removes it
 }
 
 export interface PotTransactionData {
   amount: number;
 }
 
+export interface PotTransferData {
+  toPotId: string;
+  amount: number;
+}
+
+export type PotMovementType = 'deposit' | 'withdrawal' | 'transfer_in' | 'transfer_out' | 'close';
+
+export interface PotMovement {
+  _id: string;
+  potId: string;
+  type: PotMovementType;
+  amount: number;
+  totalAfter: number;
+  ruleType?: PotRuleType;  // Set for deposits made by a savings rule
+  counterpartPotId?: string;  // The other pot of a transfer
+  createdAt: string;
+}
+
+// Automatic savings rule types
+export type PotRuleType = 'scheduled' | 'round_up' | 'income_percentage';
+
+export interface PotRule {
+  _id: string;
+  potId: string;
+  type: PotRuleType;
+  enabled: boolean;
+  amount: number | null;            // scheduled
+  frequency: BillFrequency | null;  // scheduled
+  interval: number | null;          // scheduled
+  anchorDate: string | null;        // scheduled: first transfer
+  endDate: string | null;           // scheduled
+  percentage: number | null;        // income_percentage
+  lastRunDate: string | null;
+  createdAt: string;
+}
+
+export type CreatePotRuleData =
+  | {
+      type: 'scheduled';
+      amount: number;
+      frequency?: BillFrequency;
+      interval?: number;
+      anchorDate: string;
+      endDate?: string | null;
+    }
+  | { type: 'round_up' }
+  | { type: 'income_percentage'; percentage: number };
+
+export interface UpdatePotRuleData {
+  enabled?: boolean;
+  amount?: number;
+  frequency?: BillFrequency;
+  interval?: number;
+  anchorDate?: string;
+  endDate?: string | null;
+  percentage?: number;
+}
+
+export interface PotHistoryResponse {
+  success: boolean;
+  data: {
+    potId: string;
+    total: number;
+    movements: PotMovement[];
+  };
+}
+
 // Overview types
 export interface OverviewResponse {
   success: boolean;
@@ -368,11 +585,28 @@ export interface OverviewResponse {
 // TRANSACTION API
 // =============================================================================
 
+/**
+ * Serialize transaction filters for the query string
+ * (category and tag lists are sent comma-separated)
+ */
+function toTransactionQuery(params?: Partial<TransactionParams>) {
+  if (!params) return params;
+  const { categories, excludeCategories, tags, ...rest } = params;
+  return {
+    ...rest,
+    ...(categories?.length && { categories: categories.join(',') }),
+    ...(excludeCategories?.length && { excludeCategories: excludeCategories.join(',') }),
+    ...(tags?.length && { tags: tags.join(',') }),
+  };
+}
+
 /**
  * Get transactions with pagination, search, sort, and filter
  */
 export async function getTransactions(params?: TransactionParams): Promise<TransactionsResponse> {
-  const response = await apiClient.get<TransactionsResponse>('/transactions', { params });
+  const response = await apiClient.get<TransactionsResponse>('/transactions', {
+    params: toTransactionQuery(params),
+  });
   return response.data;
 }
 
@@ -384,6 +618,14 @@ export async function getTransaction(id: string): Promise<{ success: boolean; da
   return response.data;
 }
 
+/**
+ * Suggest categories for a payee (best first, empty without history)
+ */
+export async function suggestCategory(name: string): Promise<{ success: boolean; data: { suggestions: CategorySuggestion[] } }> {
+  const response = await apiClient.get('/transactions/suggest-category', { params: { name } });
+  return response.data;
+}
+
 /**
  * Create a new transaction
  */
@@ -408,6 +650,81 @@ export async function deleteTransaction(id: string): Promise<{ success: boolean;
   return response.data;
 }
 
+/**
+ * Export transactions matching the given filters (all pages)
+ * Returns the file contents for download.
+ */
+export async function exportTransactions(
+  params: Omit<TransactionParams, 'page' | 'limit'>,
+  format: ExportFormat
+): Promise<Blob> {
+  const response = await apiClient.get<Blob>('/transactions/export', {
+    params: { ...toTransactionQuery(params), format },
+    responseType: 'blob',
+    timeout: 0, // Large exports can take a while
+  });
+  return response.data;
+}
+
+/**
+ * Preview a CSV import (nothing is saved)
+ *
+ * The CSV is sent as the raw request body; options go in the query string.
+ */
+export async function previewTransactionImport(
+  csv: string,
+  options: ImportOptions
+): Promise<ImportPreviewResponse> {
+  const response = await apiClient.post('/transactions/import', csv, {
+    params: { ...options, dryRun: true },
+    headers: { 'Content-Type': 'text/csv' },
+  });
+  return response.data.data;
+}
+
+/**
+ * Import transactions from a CSV file
+ */
+export async function importTransactions(
+  csv: string,
+  options: ImportOptions
+): Promise<ImportResult> {
+  const response = await apiClient.post('/transactions/import', csv, {
+    params: { ...options, dryRun: false },
+    headers: { 'Content-Type': 'text/csv' },
+  });
+  return response.data.data;
+}
+
+/**
+ * Preview a bank statement import (OFX/QFX or QIF - nothing is saved)
+ */
+export async function previewStatementImport(
+  statement: string,
+  options: StatementImportOptions
+): Promise<StatementPreviewResponse> {
+  const response = await apiClient.post('/transactions/import/statement', statement, {
+    params: { ...options, dryRun: true },
+    headers: { 'Content-Type': 'text/plain' },
+  });
+  return response.data.data;
+}
+
+/**
+ * Import transactions from a bank statement
+ * Transactions that were already imported are skipped.
+ */
+export async function importStatement(
+  statement: string,
+  options: StatementImportOptions
+): Promise<ImportResult> {
+  const response = await apiClient.post('/transactions/import/statement', statement, {
+    params: { ...options, dryRun: false },
+    headers: { 'Content-Type': 'text/plain' },
+  });
+  return response.data.data;
+}
+
 // =============================================================================
 // BUDGET API
 // =============================================================================
@@ -420,6 +737,24 @@ export async function getBudgets(): Promise<BudgetsResponse> {
   return response.data;
 }
 
+/**
+ * Get how every budget did in each period of the last N months
+ */
+export async function getBudgetsHistory(months = 12): Promise<BudgetsHistoryResponse> {
+  const response = await apiClient.get<BudgetsHistoryResponse>('/budgets/history', {
+    params: { months },
+  });
+  return response.data;
+}
+
+/**
+ * Get how one budget did in each period of the last N months
+ */
+export async function getBudgetHistory(id: string, months = 12): Promise<{ success: boolean; data: BudgetHistory & { months: number } }> {
+  const response = await apiClient.get(`/budgets/${id}/history`, { params: { months } });
+  return response.data;
+}
+
 /**
  * Get a single budget by ID
  */
@@ -457,10 +792,12 @@ export async function deleteBudget(id: string): Promise<{ success: boolean; mess
 // =============================================================================
 
 /**
- * Get all pots
+ * Get pots (archived pots only when asked for)
  */
-export async function getPots(): Promise<PotsResponse> {
-  const response = await apiClient.get<PotsResponse>('/pots');
+export async function getPots(status?: PotStatus | 'all'): Promise<PotsResponse> {
+  const response = await apiClient.get<PotsResponse>('/pots', {
+    params: status ? { status } : undefined,
+  });
   return response.data;
 }
 
@@ -472,6 +809,14 @@ export async function getPot(id: string): Promise<{ success: boolean; data: { po
   return response.data;
 }
 
+/**
+ * Get a pot's deposits and withdrawals (oldest first)
+ */
+export async function getPotHistory(id: string): Promise<PotHistoryResponse> {
+  const response = await apiClient.get<PotHistoryResponse>(`/pots/${id}/history`);
+  return response.data;
+}
+
 /**
  * Create a new pot
  */
@@ -512,6 +857,70 @@ export async function withdrawFromPot(id: string, data: PotTransactionData): Pro
   return response.data;
 }
 
+/**
+ * Move money from one pot to another (balance unchanged)
+ */
+export async function transferBetweenPots(id: string, data: PotTransferData): Promise<{ success: boolean; data: { from: Pot; to: Pot } }> {
+  const response = await apiClient.post(`/pots/${id}/transfer`, data);
+  return response.data;
+}
+
+/**
+ * Mark a pot that reached its target as completed
+ */
+export async function completePot(id: string, data: { lockDeposits: boolean }): Promise<{ success: boolean; data: { pot: Pot } }> {
+  const response = await apiClient.post(`/pots/${id}/complete`, data);
+  return response.data;
+}
+
+/**
+ * Archive a pot (hidden from lists, money and history kept)
+ */
+export async function archivePot(id: string): Promise<{ success: boolean; data: { pot: Pot } }> {
+  const response = await apiClient.post(`/pots/${id}/archive`);
+  return response.data;
+}
+
+/**
+ * Make a completed or archived pot active again
+ */
+export async function restorePot(id: string): Promise<{ success: boolean; data: { pot: Pot } }> {
+  const response = await apiClient.post(`/pots/${id}/restore`);
+  return response.data;
+}
+
+/**
+ * Get a pot's automatic savings rules
+ */
+export async function getPotRules(potId: string): Promise<{ success: boolean; data: { rules: PotRule[] } }> {
+  const response = await apiClient.get(`/pots/${potId}/rules`);
+  return response.data;
+}
+
+/**
+ * Create a savings rule for a pot
+ */
+export async function createPotRule(potId: string, data: CreatePotRuleData): Promise<{ success: boolean; data: { rule: PotRule } }> {
+  const response = await apiClient.post(`/pots/${potId}/rules`, data);
+  return response.data;
+}
+
+/**
+ * Update (or pause/resume) a savings rule
+ */
+export async function updatePotRule(potId: string, ruleId: string, data: UpdatePotRuleData): Promise<{ success: boolean; data: { rule: PotRule } }> {
+  const response = await apiClient.put(`/pots/${potId}/rules/${ruleId}`, data);
+  return response.data;
+}
+
+/**
+ * Delete a savings rule
+ */
+export async function deletePotRule(potId: string, ruleId: string): Promise<{ success: boolean; message: string }> {
+  const response = await apiClient.delete(`/pots/${potId}/rules/${ruleId}`);
+  return response.data;
+}
+
 // =============================================================================
 // OVERVIEW API
 // =============================================================================
@@ -525,9 +934,9 @@ export async function getOverview(): Promise<OverviewResponse> {
 }
 
 /**
- * Get current balance
+ * Get current balance (opening balance + all transactions - money in pots)
  */
-export async function getBalance(): Promise<{ success: boolean; data: { currentBalance: number; income: number; expenses: number } }> {
+export async function getBalance(): Promise<{ success: boolean; data: { currentBalance: number; income: number; expenses: number; openingBalance: number; pots: number } }> {
   const response = await apiClient.get('/overview/balance');
   return response.data;
 }
@@ -537,12 +946,32 @@ export async function getBalance(): Promise<{ success: boolean; data: { currentB
 // =============================================================================
 
 /**
- * Recurring Bill type (derived from Transaction)
+ * How often a bill comes due ('custom' = every `interval` days)
  */
-export interface RecurringBill extends Transaction {
-  // Status is calculated client-side based on date
+export type BillFrequency = 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly' | 'custom';
+
+/**
+ * Recurring Bill type
+ */
+export interface RecurringBill {
+  _id: string;
+  userId: string;
+  name: string;
+  avatar: string;
+  amount: number; // Amount due each cycle (positive)
+  category: string;
+  frequency: BillFrequency;
+  interval: number; // Multiplier for the frequency (days for 'custom')
+  anchorDate: string; // First due date
+  endDate: string | null;
+  autoPost: boolean; // Paid automatically on each due date
+  // Calculated server-side from the recurrence rule and payments
   status: 'paid' | 'upcoming' | 'due-soon';
-  dueDay: number; // Day of month the bill is due
+  nextDueDate: string | null; // null when the bill has ended
+  paidThrough: string | null;
+  lastPaidAt: string | null;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface RecurringBillsParams {
@@ -563,144 +992,444 @@ export interface RecurringBillsResponse {
   summary: RecurringBillsSummary;
 }
 
+export interface CreateBillData {
+  name: string;
+  amount: number;
+  category: string;
+  frequency: BillFrequency;
+  interval?: number;
+  anchorDate: string;
+  endDate?: string | null;
+  autoPost?: boolean;
+  avatar?: string;
+}
+
+export interface PayBillData {
+  date?: string; // Defaults to today on the server
+}
+
 /**
  * Get recurring bills with summary stats
  * 
- * CONCEPT: Fetches all recurring transactions and processes them client-side
- * to calculate paid/upcoming/due-soon status based on current month.
+ * CONCEPT: Status (paid/upcoming/due-soon), next due date and summary
+ * totals are calculated by the server from each bill's recurrence rule
+ * and payments.
  */
 export async function getRecurringBills(params?: RecurringBillsParams): Promise<RecurringBillsResponse> {
-  // Fetch all transactions (recurring ones will be filtered)
-  const response = await apiClient.get<TransactionsResponse>('/transactions', {
-    params: { limit: 500 }, // Get all transactions
+  const response = await apiClient.get<{ success: boolean; data: RecurringBillsResponse }>('/bills', {
+    params,
   });
+  return response.data.data;
+}
 
-  const allTransactions = response.data.data.transactions;
-
-  // Filter for recurring expense transactions only
-  const recurringTransactions = allTransactions.filter(
-    (tx) => tx.recurring && tx.amount < 0
-  );
-
-  // Calculate status for each bill (based on current month)
-  // Use actual current date for dynamic monthly reset
-  const now = new Date();
-  const CURRENT_DATE = now.getDate();
-  const CURRENT_MONTH = now.getMonth();
-  const CURRENT_YEAR = now.getFullYear();
-  
-  // Helper function to get year and month from a date string (handles timezone consistently)
-  // This extracts the date parts from ISO strings to avoid timezone issues
-  const getYearMonthDay = (dateString: string): { year: number; month: number; day: number } => {
-    // Parse the ISO date string to extract year, month, day in UTC
-    const date = new Date(dateString);
-    return {
-      year: date.getUTCFullYear(),
-      month: date.getUTCMonth(),
-      day: date.getUTCDate(),
-    };
-  };
-  
-  // Check if a transaction date is in the current month (using UTC comparison)
-  const isInCurrentMonth = (dateString: string): boolean => {
-    const { year, month } = getYearMonthDay(dateString);
-    return year === CURRENT_YEAR && month === CURRENT_MONTH;
+/**
+ * Create a new recurring bill
+ */
+export async function createBill(data: CreateBillData): Promise<{ success: boolean; data: { bill: RecurringBill } }> {
+  const response = await apiClient.post('/bills', data);
+  return response.data;
+}
+
+/**
+ * Update a recurring bill
+ */
+export async function updateBill(id: string, data: Partial<CreateBillData>): Promise<{ success: boolean; data: { bill: RecurringBill } }> {
+  const response = await apiClient.put(`/bills/${id}`, data);
+  return response.data;
+}
+
+/**
+ * Delete a recurring bill (past payments are kept)
+ */
+export async function deleteBill(id: string): Promise<{ success: boolean; message: string }> {
+  const response = await apiClient.delete(`/bills/${id}`);
+  return response.data;
+}
+
+/**
+ * Pay a bill (creates an expense transaction)
+ */
+export async function payBill(id: string, data: PayBillData): Promise<{ success: boolean; data: { transaction: Transaction } }> {
+  const response = await apiClient.post(`/bills/${id}/pay`, data);
+  return response.data;
+}
+
+// =============================================================================
+// SAVED VIEWS API
+// =============================================================================
+
+/**
+ * Filters stored in a saved view (same meaning as TransactionParams)
+ */
+export interface SavedViewFilters {
+  search?: string;
+  categories: string[];
+  excludeCategories: string[];
+  tags: string[];
+  from?: string;
+  to?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  type?: TransactionType;
+  sort: NonNullable<TransactionParams['sort']>;
+}
+
+/**
+ * Saved View type (a named set of transaction filters)
+ */
+export interface SavedView {
+  _id: string;
+  name: string;
+  filters: SavedViewFilters;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SaveViewData {
+  name: string;
+  filters: Partial<SavedViewFilters>;
+}
+
+/**
+ * Get all saved views (sorted by name)
+ */
+export async function getSavedViews(): Promise<{ success: boolean; data: { views: SavedView[] } }> {
+  const response = await apiClient.get('/views');
+  return response.data;
+}
+
+/**
+ * Save the current filters as a view
+ */
+export async function createSavedView(data: SaveViewData): Promise<{ success: boolean; data: { view: SavedView } }> {
+  const response = await apiClient.post('/views', data);
+  return response.data;
+}
+
+/**
+ * Rename a view or replace its filters
+ */
+export async function updateSavedView(id: string, data: Partial<SaveViewData>): Promise<{ success: boolean; data: { view: SavedView } }> {
+  const response = await apiClient.put(`/views/${id}`, data);
+  return response.data;
+}
+
+/**
+ * Delete a saved view
+ */
+export async function deleteSavedView(id: string): Promise<{ success: boolean; message: string }> {
+  const response = await apiClient.delete(`/views/${id}`);
+  return response.data;
+}
+
+// =============================================================================
+// NOTIFICATIONS API
+// =============================================================================
+
+export type NotificationType = 'budget_threshold';
+
+/**
+ * Notification type (created by the server, e.g. budget alerts)
+ */
+export interface Notification {
+  _id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  budgetId?: string;
+  threshold?: number;
+  periodStart?: string;
+  readAt: string | null;  // null = unread
+  createdAt: string;
+}
+
+export interface NotificationsResponse {
+  success: boolean;
+  data: {
+    notifications: Notification[];
+    unreadCount: number;
   };
+}
 
-  // Group all transactions by vendor name
-  const transactionsByVendor = new Map<string, Transaction[]>();
-  recurringTransactions.forEach((tx) => {
-    const existing = transactionsByVendor.get(tx.name) || [];
-    existing.push(tx);
-    transactionsByVendor.set(tx.name, existing);
-  });
+/**
+ * Get the latest notifications (newest first) and the unread count
+ */
+export async function getNotifications(): Promise<NotificationsResponse> {
+  const response = await apiClient.get('/notifications');
+  return response.data;
+}
 
-  // For each vendor, find the bill template (oldest) and check for payments (current month)
-  const bills: RecurringBill[] = [];
-  
-  transactionsByVendor.forEach((transactions) => {
-    // Sort by date ascending to find the oldest (bill template)
-    const sorted = [...transactions].sort(
-      (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
-    );
-    
-    // The bill template is the OLDEST transaction (first created)
-    const billTemplate = sorted[0];
-    const dueDay = getYearMonthDay(billTemplate.date).day;
-    
-    // Check if ANY transaction for this vendor is in the current month (paid)
-    const hasPaidThisMonth = transactions.some((tx) => isInCurrentMonth(tx.date));
-
-    let status: 'paid' | 'upcoming' | 'due-soon';
-
-    if (hasPaidThisMonth) {
-      status = 'paid';
-    } else if (dueDay > CURRENT_DATE && dueDay <= CURRENT_DATE + 5) {
-      // Due within next 5 days
-      status = 'due-soon';
-    } else {
-      status = 'upcoming';
-    }
+/**
+ * Mark a notification as read
+ */
+export async function markNotificationRead(id: string): Promise<{ success: boolean; data: { notification: Notification } }> {
+  const response = await apiClient.post(`/notifications/${id}/read`);
+  return response.data;
+}
 
-    bills.push({
-      ...billTemplate,
-      status,
-      dueDay,
-    });
-  });
+/**
+ * Mark every notification as read
+ */
+export async function markAllNotificationsRead(): Promise<{ success: boolean; data: { updated: number } }> {
+  const response = await apiClient.post('/notifications/read-all');
+  return response.data;
+}
 
-  // Apply search filter if provided
-  let filteredBills = bills;
-  if (params?.search) {
-    const searchLower = params.search.toLowerCase();
-    filteredBills = bills.filter((bill) =>
-      bill.name.toLowerCase().includes(searchLower)
-    );
-  }
+/**
+ * Dismiss a notification (removes it from the list)
+ */
+export async function dismissNotification(id: string): Promise<{ success: boolean; message: string }> {
+  const response = await apiClient.post(`/notifications/${id}/dismiss`);
+  return response.data;
+}
 
-  // Apply sort
-  const sortOption = params?.sort || 'Latest';
-  filteredBills.sort((a, b) => {
-    switch (sortOption) {
-      case 'Latest':
-        return a.dueDay - b.dueDay; // Earliest in month first
-      case 'Oldest':
-        return b.dueDay - a.dueDay;
-      case 'A to Z':
-        return a.name.localeCompare(b.name);
-      case 'Z to A':
-        return b.name.localeCompare(a.name);
-      case 'Highest':
-        return Math.abs(b.amount) - Math.abs(a.amount);
-      case 'Lowest':
-        return Math.abs(a.amount) - Math.abs(b.amount);
-      default:
-        return 0;
-    }
+// =============================================================================
+// CATEGORIES API
+// =============================================================================
+
+export type CategoryStatus = 'active' | 'archived';
+
+/**
+ * Category type (per user; parentId nests it under another category)
+ */
+export interface Category {
+  _id: string;
+  name: string;
+  parentId: string | null;
+  status: CategoryStatus;  // Archived categories stay on existing transactions
+  archivedAt: string | null;
+  depth: number;           // 0 = top level
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CategoryData {
+  name: string;
+  parentId?: string | null;  // null = top level
+}
+
+/**
+ * What a rename or merge re-tagged
+ */
+export interface CategoryRetagResult {
+  transactions: number;
+  budgets: number;
+  bills: number;
+  views: number;
+  rules: number;
+}
+
+/**
+ * Income and expenses of a category (totals include subcategories)
+ */
+export interface CategorySpending {
+  _id: string | null;
+  name: string;
+  parentId: string | null;
+  status: CategoryStatus;
+  depth: number;
+  spent: number;
+  income: number;
+  totalSpent: number;
+  totalIncome: number;
+}
+
+/**
+ * Get the user's categories, parents first (all statuses unless one is given)
+ */
+export async function getCategories(status?: CategoryStatus): Promise<{ success: boolean; data: { categories: Category[] } }> {
+  const response = await apiClient.get('/categories', { params: status ? { status } : {} });
+  return response.data;
+}
+
+/**
+ * Get income and expenses per category (defaults to the current month)
+ */
+export async function getCategorySpending(params: { from?: string; to?: string } = {}): Promise<{ success: boolean; data: { from: string; to: string; categories: CategorySpending[] } }> {
+  const response = await apiClient.get('/categories/spending', { params });
+  return response.data;
+}
+
+/**
+ * Create a category
+ */
+export async function createCategory(data: CategoryData): Promise<{ success: boolean; data: { category: Category } }> {
+  const response = await apiClient.post('/categories', data);
+  return response.data;
+}
+
+/**
+ * Rename and/or move a category (a rename re-tags its transactions, budgets and bills)
+ */
+export async function updateCategory(id: string, data: Partial<CategoryData>): Promise<{ success: boolean; data: { category: Category; retagged: CategoryRetagResult | null } }> {
+  const response = await apiClient.put(`/categories/${id}`, data);
+  return response.data;
+}
+
+/**
+ * Merge a category into another one (the merged category is removed)
+ */
+export async function mergeCategory(id: string, targetId: string): Promise<{ success: boolean; message: string; data: { category: Category; retagged: CategoryRetagResult } }> {
+  const response = await apiClient.post(`/categories/${id}/merge`, { targetId });
+  return response.data;
+}
+
+/**
+ * Archive a category and its subcategories
+ */
+export async function archiveCategory(id: string): Promise<{ success: boolean; data: { category: Category } }> {
+  const response = await apiClient.post(`/categories/${id}/archive`);
+  return response.data;
+}
+
+/**
+ * Restore an archived category and its subcategories
+ */
+export async function restoreCategory(id: string): Promise<{ success: boolean; data: { category: Category } }> {
+  const response = await apiClient.post(`/categories/${id}/restore`);
+  return response.data;
+}
+
+// =============================================================================
+// TAGS API
+// =============================================================================
+
+/**
+ * A tag and how many transactions use it
+ */
+export interface TagUsage {
+  tag: string;
+  count: number;
+  lastUsed: string;
+}
+
+/**
+ * Income and expenses of a tag (a transaction counts towards each of its tags)
+ */
+export interface TagSummary {
+  tag: string;
+  spent: number;
+  income: number;
+  net: number;
+  count: number;
+  firstDate: string;
+  lastDate: string;
+}
+
+/**
+ * Get the user's tags, most used first (`search` matches the start of a tag)
+ */
+export async function getTags(params: { search?: string; limit?: number } = {}): Promise<{ success: boolean; data: { tags: TagUsage[] } }> {
+  const response = await apiClient.get('/tags', { params });
+  return response.data;
+}
+
+/**
+ * Get income and expenses per tag (all time unless from/to are given)
+ */
+export async function getTagSummary(params: { from?: string; to?: string; tags?: string[] } = {}): Promise<{ success: boolean; data: { from: string | null; to: string | null; tags: TagSummary[] } }> {
+  const { tags, ...rest } = params;
+  const response = await apiClient.get('/tags/summary', {
+    params: { ...rest, ...(tags?.length && { tags: tags.join(',') }) },
   });
+  return response.data;
+}
 
-  // Calculate summary
-  const paidBills = bills.filter((b) => b.status === 'paid');
-  const upcomingBills = bills.filter((b) => b.status === 'upcoming' || b.status === 'due-soon');
-  const dueSoonBills = bills.filter((b) => b.status === 'due-soon');
-
-  const summary: RecurringBillsSummary = {
-    // Total shows only UNPAID bills (upcoming + due soon)
-    total: upcomingBills.length,
-    totalAmount: upcomingBills.reduce((sum, b) => sum + Math.abs(b.amount), 0),
-    paid: {
-      count: paidBills.length,
-      amount: paidBills.reduce((sum, b) => sum + Math.abs(b.amount), 0),
-    },
-    upcoming: {
-      count: upcomingBills.length,
-      amount: upcomingBills.reduce((sum, b) => sum + Math.abs(b.amount), 0),
-    },
-    dueSoon: {
-      count: dueSoonBills.length,
-      amount: dueSoonBills.reduce((sum, b) => sum + Math.abs(b.amount), 0),
-    },
-  };
+// =============================================================================
+// TRANSACTION RULES API
+// =============================================================================
+
+export type RuleNameOperator = 'contains' | 'exact' | 'regex';
+
+/**
+ * Transaction Rule type (fills in new and imported transactions)
+ *
+ * Conditions and actions that aren't used are null. Rules run in order
+ * and the first matching one wins.
+ */
+export interface TransactionRule {
+  _id: string;
+  enabled: boolean;
+  priority: number;
+  nameOperator: RuleNameOperator | null;
+  nameValue: string | null;
+  minAmount: number | null;   // Absolute amount
+  maxAmount: number | null;
+  type: TransactionType | null;
+  category: string | null;
+  tags: string[];
+  rename: string | null;
+  avatar: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TransactionRuleData = Omit<TransactionRule, '_id' | 'priority' | 'createdAt' | 'updatedAt'>;
+
+type RuleFields = Pick<Transaction, 'name' | 'category' | 'tags' | 'avatar'>;
+
+/**
+ * A transaction a rule changes (or would change in a preview)
+ */
+export interface RuleChange {
+  transactionId: string;
+  ruleId: string;
+  date: string;
+  amount: number;
+  before: Partial<RuleFields>;
+  after: Partial<RuleFields>;
+}
+
+export interface ApplyRulesResult {
+  dryRun: boolean;
+  total: number;         // Transactions changed (or that would be)
+  changes: RuleChange[]; // The first 200
+}
+
+/**
+ * Get the user's rules in the order they run
+ */
+export async function getRules(): Promise<{ success: boolean; data: { rules: TransactionRule[] } }> {
+  const response = await apiClient.get('/rules');
+  return response.data;
+}
+
+/**
+ * Create a rule (runs after the existing ones)
+ */
+export async function createRule(data: Partial<TransactionRuleData>): Promise<{ success: boolean; data: { rule: TransactionRule } }> {
+  const response = await apiClient.post('/rules', data);
+  return response.data;
+}
 
-  return { bills: filteredBills, summary };
+/**
+ * Update a rule (null clears a condition or action)
+ */
+export async function updateRule(id: string, data: Partial<TransactionRuleData>): Promise<{ success: boolean; data: { rule: TransactionRule } }> {
+  const response = await apiClient.put(`/rules/${id}`, data);
+  return response.data;
+}
+
+/**
+ * Delete a rule
+ */
+export async function deleteRule(id: string): Promise<{ success: boolean; message: string }> {
+  const response = await apiClient.delete(`/rules/${id}`);
+  return response.data;
+}
+
+/**
+ * Reorder rules (every rule ID, first runs first)
+ */
+export async function reorderRules(ids: string[]): Promise<{ success: boolean; data: { rules: TransactionRule[] } }> {
+  const response = await apiClient.put('/rules/order', { ids });
+  return response.data;
+}
+
+/**
+ * Apply rules to existing transactions (dryRun lists the changes without saving)
+ */
+export async function applyRules(data: { dryRun: boolean; ruleIds?: string[] }): Promise<{ success: boolean; message?: string; data: ApplyRulesResult }> {
+  const response = await apiClient.post('/rules/apply', data);
+  return response.data;
 }
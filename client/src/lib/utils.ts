@@ -99,3 +99,58 @@ export function formatDayWithOrdinal(date: string | Date): string {
   const day = d.getDate();
   return `${day}${getOrdinalSuffix(day)}`;
 }
+
+/**
+ * Format a bill frequency for display (e.g. "Monthly", "Every 2 weeks")
+ */
+export function formatFrequency(frequency: string, interval = 1): string {
+  const units: Record<string, [string, number]> = {
+    weekly: ['week', 1],
+    biweekly: ['week', 2],
+    monthly: ['month', 1],
+    quarterly: ['month', 3],
+    yearly: ['year', 1],
+    custom: ['day', 1],
+  };
+  const labels: Record<string, string> = {
+    weekly: 'Weekly',
+    biweekly: 'Bi-weekly',
+    monthly: 'Monthly',
+    quarterly: 'Quarterly',
+    yearly: 'Yearly',
+  };
+
+  if (interval <= 1 && labels[frequency]) {
+    return labels[frequency];
+  }
+
+  const [unit, step] = units[frequency] ?? ['day', 1];
+  const count = step * Math.max(1, interval);
+  return `Every ${count} ${unit}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Format a budget period (e.g. "Sep 25 - Oct 24, 2026")
+ * Periods are UTC days, so they're shown in UTC to keep the same boundaries
+ * in every timezone.
+ */
+export function formatPeriod(start: string | Date, end: string | Date): string {
+  const options = { timeZone: 'UTC', month: 'short', day: 'numeric' } as const;
+  const startLabel = new Date(start).toLocaleDateString('en-US', options);
+  const endLabel = new Date(end).toLocaleDateString('en-US', { ...options, year: 'numeric' });
+  return `${startLabel} - ${endLabel}`;
+}
+
+/**
+ * Save a file returned by the API (e.g. an export) to the user's device
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -9,6 +9,8 @@
  * - Summary donut chart showing all spending (desktop sidebar)
  * - Budget cards with individual donut charts
  * - Latest 3 transactions per budget category
+ * - Spending history chart per budget (last 12 months)
+ * - Month picker to review how every budget did in a past month
  * - "See All" links to filtered transactions page
  * - Add/Edit/Delete budget modals
  * - Empty state when no budgets exist
@@ -19,20 +21,57 @@
  */
 
 import * as React from 'react';
-import { useBudgets } from '@/queryHooks';
+import { useBudgets, useBudgetsHistory } from '@/queryHooks';
 import type { Budget } from '@/lib/api';
-import { Button } from '@/components/ui';
+import {
+  Button,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui';
 import { ErrorState } from '@/components';
 import {
   BudgetCard,
+  BudgetMonthReview,
   BudgetSpendingSummary,
   AddBudgetForm,
   EditBudgetForm,
   DeleteBudgetModal,
 } from '@/components/features/Budgets';
 
+// Months of history shown in the charts and the month picker
+const HISTORY_MONTHS = 12;
+
+// Value of the month picker for the current periods
+const CURRENT_PERIOD = 'current';
+
+/**
+ * Past months for the month picker, most recent first (value YYYY-MM)
+ */
+function getPastMonths(count: number): { value: string; label: string }[] {
+  const now = new Date();
+  return Array.from({ length: count }, (_, i) => {
+    const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i - 1, 1));
+    return {
+      value: month.toISOString().slice(0, 7),
+      label: month.toLocaleDateString('en-US', {
+        timeZone: 'UTC',
+        month: 'long',
+        year: 'numeric',
+      }),
+    };
+  });
+}
+
 export function BudgetsPage() {
   const { data, isLoading, error, refetch } = useBudgets();
+  const { data: historyData } = useBudgetsHistory(HISTORY_MONTHS);
+
+  // Month picker: the current periods or a past month (YYYY-MM)
+  const [selectedMonth, setSelectedMonth] = React.useState(CURRENT_PERIOD);
+  const pastMonths = React.useMemo(() => getPastMonths(HISTORY_MONTHS), []);
 
   // Modal states
   const [isAddOpen, setIsAddOpen] = React.useState(false);
@@ -46,6 +85,10 @@ export function BudgetsPage() {
   const usedCategories = budgets.map((b) => b.category);
   const usedThemes = budgets.map((b) => b.theme);
 
+  // History of each budget by id
+  const histories = historyData?.data.budgets ?? [];
+  const historyById = new Map(histories.map((h) => [h.budgetId, h.history]));
+
   // Handlers
   const handleEdit = (budget: Budget) => {
     setSelectedBudget(budget);
@@ -167,7 +210,22 @@ export function BudgetsPage() {
         <h1 className="text-[var(--font-size-3xl)] font-bold text-[var(--color-grey-900)]">
           Budgets
         </h1>
-        <Button onClick={() => setIsAddOpen(true)}>+ Add New Budget</Button>
+        <div className="flex items-center gap-3">
+          <Select value={selectedMonth} onValueChange={setSelectedMonth}>
+            <SelectTrigger className="w-[180px]" aria-label="Budget month">
+              <SelectValue placeholder="Select a month" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={CURRENT_PERIOD}>Current period</SelectItem>
+              {pastMonths.map((month) => (
+                <SelectItem key={month.value} value={month.value}>
+                  {month.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => setIsAddOpen(true)}>+ Add New Budget</Button>
+        </div>
       </div>
 
       {/* Main Content */}
@@ -179,16 +237,21 @@ export function BudgetsPage() {
           </div>
         </div>
 
-        {/* Right Column: Budget Cards */}
+        {/* Right Column: Budget Cards, or the selected past month */}
         <div className="flex-1 space-y-6">
-          {budgets.map((budget) => (
-            <BudgetCard
-              key={budget._id}
-              budget={budget}
-              onEdit={() => handleEdit(budget)}
-              onDelete={() => handleDelete(budget)}
-            />
-          ))}
+          {selectedMonth !== CURRENT_PERIOD ? (
+            <BudgetMonthReview month={selectedMonth} budgets={histories} />
+          ) : (
+            budgets.map((budget) => (
+              <BudgetCard
+                key={budget._id}
+                budget={budget}
+                history={historyById.get(budget._id)}
+                onEdit={() => handleEdit(budget)}
+                onDelete={() => handleDelete(budget)}
+              />
+            ))
+          )}
         </div>
       </div>
 
@@ -7,7 +7,10 @@
  * Features:
  * - Grid of pot cards with progress bars
  * - Add/Edit/Delete pot modals
- * - Deposit/Withdraw modals with live preview
+ * - Deposit/Withdraw/Transfer modals with live preview
+ * - History drawer with a sparkline of the pot total
+ * - Automatic savings rules (scheduled, round-up, income share)
+ * - Complete/Archive/Restore actions with an Archived tab
  * - Loading, error, and empty states
  * - Responsive 2-column grid on desktop
  *
@@ -15,24 +18,37 @@
  * - Adding money to pot: Deducts from current balance
  * - Withdrawing from pot: Adds to current balance
  * - Deleting pot: Returns all money to balance
+ * - Transferring between pots: Balance unchanged
+ * - Completing or archiving a pot: Balance unchanged (money stays in the pot)
  */
 
 import * as React from 'react';
-import { usePots } from '@/queryHooks';
+import { usePots, useArchivePot, useRestorePot } from '@/queryHooks';
 import type { Pot } from '@/lib/api';
 import { Button } from '@/components/ui';
+import { cn } from '@/lib/utils';
 import { ErrorState } from '@/components';
 import {
   PotCard,
   AddPotForm,
   EditPotForm,
   DeletePotModal,
+  CompletePotModal,
   DepositPotForm,
   WithdrawPotForm,
+  TransferPotForm,
+  PotHistoryDrawer,
+  PotRulesDialog,
 } from '@/components/features/Pots';
 
+type PotsView = 'active' | 'archived';
+
 export function PotsPage() {
-  const { data, isLoading, error, refetch } = usePots();
+  // Archived pots are fetched too - their themes stay taken
+  const { data, isLoading, error, refetch } = usePots('all');
+  const archivePot = useArchivePot();
+  const restorePot = useRestorePot();
+  const [view, setView] = React.useState<PotsView>('active');
 
   // Modal states
   const [isAddOpen, setIsAddOpen] = React.useState(false);
@@ -40,12 +56,19 @@ export function PotsPage() {
   const [isDeleteOpen, setIsDeleteOpen] = React.useState(false);
   const [isDepositOpen, setIsDepositOpen] = React.useState(false);
   const [isWithdrawOpen, setIsWithdrawOpen] = React.useState(false);
+  const [isTransferOpen, setIsTransferOpen] = React.useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = React.useState(false);
+  const [isRulesOpen, setIsRulesOpen] = React.useState(false);
+  const [isCompleteOpen, setIsCompleteOpen] = React.useState(false);
   const [selectedPot, setSelectedPot] = React.useState<Pot | null>(null);
 
-  const pots = data?.data.pots ?? [];
+  const allPots = data?.data.pots ?? [];
+  const activePots = allPots.filter((p) => p.status !== 'archived');
+  const archivedPots = allPots.filter((p) => p.status === 'archived');
+  const pots = view === 'archived' ? archivedPots : activePots;
 
   // Get used themes to prevent duplicates
-  const usedThemes = pots.map((p) => p.theme);
+  const usedThemes = allPots.map((p) => p.theme);
 
   // Handlers
   const handleEdit = (pot: Pot) => {
@@ -68,6 +91,26 @@ export function PotsPage() {
     setIsWithdrawOpen(true);
   };
 
+  const handleTransfer = (pot: Pot) => {
+    setSelectedPot(pot);
+    setIsTransferOpen(true);
+  };
+
+  const handleHistory = (pot: Pot) => {
+    setSelectedPot(pot);
+    setIsHistoryOpen(true);
+  };
+
+  const handleRules = (pot: Pot) => {
+    setSelectedPot(pot);
+    setIsRulesOpen(true);
+  };
+
+  const handleComplete = (pot: Pot) => {
+    setSelectedPot(pot);
+    setIsCompleteOpen(true);
+  };
+
   // Loading state
   if (isLoading) {
     return (
@@ -119,7 +162,7 @@ export function PotsPage() {
   }
 
   // Empty state
-  if (pots.length === 0) {
+  if (allPots.length === 0) {
     return (
       <div className="space-y-6 pb-20 lg:pb-0">
         <div className="flex items-center justify-between">
@@ -175,6 +218,35 @@ export function PotsPage() {
         <Button onClick={() => setIsAddOpen(true)}>+ Add New Pot</Button>
       </div>
 
+      {/* Active / Archived Tabs */}
+      <div className="flex gap-2" role="tablist" aria-label="Pot status">
+        {(['active', 'archived'] as const).map((tab) => (
+          <button
+            key={tab}
+            type="button"
+            role="tab"
+            aria-selected={view === tab}
+            onClick={() => setView(tab)}
+            className={cn(
+              'rounded-lg px-4 py-2 text-sm font-bold transition-colors',
+              view === tab
+                ? 'bg-[var(--color-grey-900)] text-white'
+                : 'bg-white text-[var(--color-grey-500)] hover:text-[var(--color-grey-900)]'
+            )}
+          >
+            {tab === 'active' ? 'Active' : `Archived (${archivedPots.length})`}
+          </button>
+        ))}
+      </div>
+
+      {pots.length === 0 && (
+        <div className="rounded-xl bg-white p-12 shadow-sm text-center text-[var(--color-grey-500)]">
+          {view === 'archived'
+            ? 'No archived pots. Archive a pot to keep its history without it cluttering this page.'
+            : 'All your pots are archived. Create a new pot or restore one from the Archived tab.'}
+        </div>
+      )}
+
       {/* Pot Cards Grid */}
       <div className="grid gap-6 md:grid-cols-2">
         {pots.map((pot) => (
@@ -185,6 +257,12 @@ export function PotsPage() {
             onDelete={() => handleDelete(pot)}
             onDeposit={() => handleDeposit(pot)}
             onWithdraw={() => handleWithdraw(pot)}
+            onTransfer={() => handleTransfer(pot)}
+            onHistory={() => handleHistory(pot)}
+            onRules={() => handleRules(pot)}
+            onComplete={() => handleComplete(pot)}
+            onArchive={() => archivePot.mutate(pot._id)}
+            onRestore={() => restorePot.mutate(pot._id)}
           />
         ))}
       </div>
@@ -209,6 +287,12 @@ export function PotsPage() {
         pot={selectedPot}
       />
 
+      <CompletePotModal
+        open={isCompleteOpen}
+        onOpenChange={setIsCompleteOpen}
+        pot={selectedPot}
+      />
+
       <DepositPotForm
         open={isDepositOpen}
         onOpenChange={setIsDepositOpen}
@@ -220,6 +304,25 @@ export function PotsPage() {
         onOpenChange={setIsWithdrawOpen}
         pot={selectedPot}
       />
+
+      <TransferPotForm
+        open={isTransferOpen}
+        onOpenChange={setIsTransferOpen}
+        pot={selectedPot}
+        pots={activePots}
+      />
+
+      <PotHistoryDrawer
+        open={isHistoryOpen}
+        onOpenChange={setIsHistoryOpen}
+        pot={selectedPot}
+      />
+
+      <PotRulesDialog
+        open={isRulesOpen}
+        onOpenChange={setIsRulesOpen}
+        pot={selectedPot}
+      />
     </div>
   );
 }
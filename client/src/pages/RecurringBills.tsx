@@ -14,9 +14,9 @@
  * - Add new recurring bills
  * - Pay bills (creates transaction)
  *
- * Data Processing:
- * - Bills are deduplicated by vendor name
- * - Status calculated dynamically based on current month
+ * Data Processing (server-side, see /api/bills):
+ * - One bill per vendor name
+ * - Status calculated from payments in the current month
  * - "Due Soon" = within 5 days from current date
  */
 
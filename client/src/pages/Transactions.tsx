@@ -7,39 +7,67 @@
  * Features:
  * - Search by transaction name (debounced)
  * - Sort by: Latest, Oldest, A-Z, Z-A, Highest, Lowest
- * - Filter by category
+ * - Filter by categories (include/exclude several), tags, type
+ *   (income/expense), date range and amount range
+ * - Spend per tag for the selected tags and date range
+ * - Saved views (named filter combinations stored on the server)
  * - Pagination (10 items per page)
  * - Desktop table / Mobile card layouts
+ * - CSV import wizard
+ * - Export (CSV/JSON/OFX) of the current filters
+ * - Category management (custom and nested categories, rename, merge, archive)
+ * - Rules that categorize and rename new and imported transactions
  *
  * State Management:
- * - Uses React state for filters (search, sort, category, page)
+ * - Uses React state for filters (search, sort, category, type, ranges, page)
  * - React Query for data fetching with automatic caching
  * - URL search params for shareable filter state
  */
 
 import * as React from 'react';
 import { useSearchParams } from 'react-router-dom';
-import { Plus } from 'lucide-react';
-import { useTransactions } from '@/queryHooks';
+import { Plus, Tags, Upload, Wand2 } from 'lucide-react';
+import { useTransactions, useTagSummary } from '@/queryHooks';
 import { ErrorState } from '@/components';
 import { Button } from '@/components/ui';
+import { formatCurrency } from '@/lib/utils';
 import {
   SearchInput,
   SortSelect,
   CategoryFilter,
+  TagInput,
   Pagination,
   TransactionItem,
   AddTransactionForm,
+  ImportTransactionsDialog,
+  ManageCategoriesDialog,
+  RulesDialog,
+  ExportMenu,
+  SavedViewsMenu,
+  TypeFilter,
+  RangeFilters,
   type SortOption,
+  type TypeOption,
+  type RangeValues,
 } from '@/components/features/Transactions';
-import type { TransactionParams } from '@/lib/api';
+import type { SavedView, SavedViewFilters, TransactionParams } from '@/lib/api';
 
 // Number of transactions per page
 const PAGE_SIZE = 10;
 
+/**
+ * Split a comma-separated URL param ("Bills,Groceries") into a list
+ */
+function splitList(value: string | null): string[] {
+  return value ? value.split(',').filter(Boolean) : [];
+}
+
 export function TransactionsPage() {
   // Modal state
   const [isAddOpen, setIsAddOpen] = React.useState(false);
+  const [isImportOpen, setIsImportOpen] = React.useState(false);
+  const [isCategoriesOpen, setIsCategoriesOpen] = React.useState(false);
+  const [isRulesOpen, setIsRulesOpen] = React.useState(false);
 
   // URL search params for shareable state
   const [searchParams, setSearchParams] = useSearchParams();
@@ -48,7 +76,26 @@ export function TransactionsPage() {
   const currentPage = parseInt(searchParams.get('page') || '1', 10);
   const searchTerm = searchParams.get('search') || '';
   const sortBy = (searchParams.get('sort') as SortOption) || 'Latest';
-  const category = searchParams.get('filter') || 'All Transactions';
+  const type = (searchParams.get('type') as TypeOption) || 'all';
+  const from = searchParams.get('from') || '';
+  const to = searchParams.get('to') || '';
+  const minAmount = searchParams.get('minAmount') || '';
+  const maxAmount = searchParams.get('maxAmount') || '';
+  const activeViewId = searchParams.get('view') || undefined;
+
+  // Categories are comma-separated; "filter" (a single category) is kept for older links
+  const categoriesParam = searchParams.get('categories');
+  const legacyCategory = searchParams.get('filter');
+  const excludeParam = searchParams.get('exclude');
+  const includedCategories = React.useMemo(() => {
+    const list = splitList(categoriesParam);
+    return legacyCategory && legacyCategory !== 'All Transactions' && !list.includes(legacyCategory)
+      ? [...list, legacyCategory]
+      : list;
+  }, [categoriesParam, legacyCategory]);
+  const excludedCategories = React.useMemo(() => splitList(excludeParam), [excludeParam]);
+  const tagsParam = searchParams.get('tags');
+  const tags = React.useMemo(() => splitList(tagsParam), [tagsParam]);
 
   /**
    * Update URL search params
@@ -58,6 +105,11 @@ export function TransactionsPage() {
     (updates: Partial<Record<string, string>>) => {
       const newParams = new URLSearchParams(searchParams);
 
+      // Changing a filter by hand means the page no longer shows a saved view
+      if (!('view' in updates) && Object.keys(updates).some((key) => key !== 'page')) {
+        newParams.delete('view');
+      }
+
       Object.entries(updates).forEach(([key, value]) => {
         if (value && value !== getDefaultValue(key)) {
           newParams.set(key, value);
@@ -80,8 +132,8 @@ export function TransactionsPage() {
         return '1';
       case 'sort':
         return 'Latest';
-      case 'filter':
-        return 'All Transactions';
+      case 'type':
+        return 'all';
       default:
         return '';
     }
@@ -99,16 +151,92 @@ export function TransactionsPage() {
       params.search = searchTerm;
     }
 
-    if (category && category !== 'All Transactions') {
-      params.filter = category;
+    if (includedCategories.length > 0) {
+      params.categories = includedCategories;
     }
 
+    if (excludedCategories.length > 0) {
+      params.excludeCategories = excludedCategories;
+    }
+
+    if (tags.length > 0) {
+      params.tags = tags;
+    }
+
+    if (type !== 'all') {
+      params.type = type;
+    }
+
+    if (from) params.from = from;
+    if (to) params.to = to;
+
+    // Ignore amounts that aren't valid numbers (e.g. a lone "-")
+    const min = parseFloat(minAmount);
+    const max = parseFloat(maxAmount);
+    if (min >= 0) params.minAmount = min;
+    if (max >= 0) params.maxAmount = max;
+
     return params;
-  }, [currentPage, searchTerm, sortBy, category]);
+  }, [
+    currentPage,
+    searchTerm,
+    sortBy,
+    includedCategories,
+    excludedCategories,
+    tags,
+    type,
+    from,
+    to,
+    minAmount,
+    maxAmount,
+  ]);
+
+  // Export uses the same filters, without pagination
+  const exportParams = {
+    sort: queryParams.sort,
+    search: queryParams.search,
+    categories: queryParams.categories,
+    excludeCategories: queryParams.excludeCategories,
+    tags: queryParams.tags,
+    type: queryParams.type,
+    from: queryParams.from,
+    to: queryParams.to,
+    minAmount: queryParams.minAmount,
+    maxAmount: queryParams.maxAmount,
+  };
+
+  // Current filters in the shape a saved view stores them
+  const viewFilters: SavedViewFilters = {
+    search: queryParams.search,
+    categories: includedCategories,
+    excludeCategories: excludedCategories,
+    tags,
+    from: queryParams.from,
+    to: queryParams.to,
+    minAmount: queryParams.minAmount,
+    maxAmount: queryParams.maxAmount,
+    type: queryParams.type,
+    sort: sortBy,
+  };
+
+  const hasFilters =
+    !!searchTerm ||
+    includedCategories.length > 0 ||
+    excludedCategories.length > 0 ||
+    tags.length > 0 ||
+    type !== 'all' ||
+    !!(from || to || minAmount || maxAmount);
 
   // Fetch transactions with React Query
   const { data, isLoading, error, isFetching, refetch } = useTransactions(queryParams);
 
+  // Totals for the filtered tags over the same date range
+  const { data: tagSummaryData } = useTagSummary(
+    { from: queryParams.from, to: queryParams.to, tags },
+    tags.length > 0
+  );
+  const tagSummary = tags.length > 0 ? (tagSummaryData?.data.tags ?? []) : [];
+
   // Handlers for filter changes
   const handleSearchChange = React.useCallback(
     (value: string) => {
@@ -125,8 +253,57 @@ export function TransactionsPage() {
   );
 
   const handleCategoryChange = React.useCallback(
-    (value: string) => {
-      updateParams({ filter: value, page: '1' });
+    (included: string[], excluded: string[]) => {
+      updateParams({
+        categories: included.join(','),
+        exclude: excluded.join(','),
+        filter: '', // Replaced by "categories"
+        page: '1',
+      });
+    },
+    [updateParams]
+  );
+
+  const handleTagsChange = React.useCallback(
+    (value: string[]) => {
+      updateParams({ tags: value.join(','), page: '1' });
+    },
+    [updateParams]
+  );
+
+  // Applying a view replaces every filter with the view's filters
+  const handleApplyView = React.useCallback(
+    (view: SavedView) => {
+      const { filters } = view;
+      updateParams({
+        search: filters.search ?? '',
+        sort: filters.sort,
+        categories: filters.categories.join(','),
+        exclude: filters.excludeCategories.join(','),
+        tags: filters.tags.join(','),
+        filter: '',
+        type: filters.type ?? '',
+        from: filters.from?.slice(0, 10) ?? '',
+        to: filters.to?.slice(0, 10) ?? '',
+        minAmount: filters.minAmount?.toString() ?? '',
+        maxAmount: filters.maxAmount?.toString() ?? '',
+        view: view._id,
+        page: '1',
+      });
+    },
+    [updateParams]
+  );
+
+  const handleTypeChange = React.useCallback(
+    (value: TypeOption) => {
+      updateParams({ type: value, page: '1' });
+    },
+    [updateParams]
+  );
+
+  const handleRangeChange = React.useCallback(
+    (updates: Partial<RangeValues>) => {
+      updateParams({ ...updates, page: '1' });
     },
     [updateParams]
   );
@@ -152,15 +329,44 @@ export function TransactionsPage() {
         <h1 className="text-[var(--font-size-3xl)] font-bold text-[var(--color-grey-900)]">
           Transactions
         </h1>
-        <Button onClick={() => setIsAddOpen(true)}>
-          <Plus className="w-4 h-4 mr-2" />
-          Add Transaction
-        </Button>
+        <div className="flex items-center gap-2">
+          <SavedViewsMenu
+            filters={viewFilters}
+            activeViewId={activeViewId}
+            onApply={handleApplyView}
+          />
+          <ExportMenu params={exportParams} />
+          <Button variant="outline" onClick={() => setIsCategoriesOpen(true)}>
+            <Tags className="w-4 h-4 mr-2" />
+            Categories
+          </Button>
+          <Button variant="outline" onClick={() => setIsRulesOpen(true)}>
+            <Wand2 className="w-4 h-4 mr-2" />
+            Rules
+          </Button>
+          <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import CSV
+          </Button>
+          <Button onClick={() => setIsAddOpen(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Transaction
+          </Button>
+        </div>
       </div>
 
       {/* Add Transaction Modal */}
       <AddTransactionForm open={isAddOpen} onOpenChange={setIsAddOpen} />
 
+      {/* Import Transactions Modal */}
+      <ImportTransactionsDialog open={isImportOpen} onOpenChange={setIsImportOpen} />
+
+      {/* Manage Categories Modal */}
+      <ManageCategoriesDialog open={isCategoriesOpen} onOpenChange={setIsCategoriesOpen} />
+
+      {/* Rules Modal */}
+      <RulesDialog open={isRulesOpen} onOpenChange={setIsRulesOpen} />
+
       {/* Main Content Card */}
       <div className="rounded-xl bg-white p-5 md:p-8 shadow-sm">
         {/* Filters Bar */}
@@ -173,13 +379,48 @@ export function TransactionsPage() {
             className="w-full md:w-80"
           />
 
-          {/* Sort & Category Filters */}
-          <div className="flex items-center gap-4">
+          {/* Sort, Category & Type Filters */}
+          <div className="flex flex-wrap items-center gap-4">
             <SortSelect value={sortBy} onValueChange={handleSortChange} />
-            <CategoryFilter value={category} onValueChange={handleCategoryChange} />
+            <CategoryFilter
+              included={includedCategories}
+              excluded={excludedCategories}
+              onChange={handleCategoryChange}
+            />
+            <TypeFilter value={type} onValueChange={handleTypeChange} />
           </div>
         </div>
 
+        {/* Date & Amount Ranges */}
+        <RangeFilters
+          value={{ from, to, minAmount, maxAmount }}
+          onChange={handleRangeChange}
+          className="mb-6"
+        />
+
+        {/* Tag Filter & Spend per Tag */}
+        <div className="mb-6 space-y-3">
+          <TagInput
+            value={tags}
+            onChange={handleTagsChange}
+            placeholder="Filter by tags, e.g. #vacation-2026"
+            max={20}
+            className="w-full md:w-96"
+          />
+          {tagSummary.length > 0 && (
+            <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-[var(--color-grey-500)]">
+              {tagSummary.map((row) => (
+                <span key={row.tag}>
+                  <span className="font-bold text-[var(--color-grey-900)]">#{row.tag}</span>{' '}
+                  spent {formatCurrency(row.spent)}
+                  {row.income > 0 && <>, received {formatCurrency(row.income)}</>}
+                  {' '}({row.count} {row.count === 1 ? 'transaction' : 'transactions'})
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
         {/* Loading State */}
         {isLoading ? (
           <div className="py-12 text-center" role="status" aria-live="polite">
@@ -204,7 +445,7 @@ export function TransactionsPage() {
               No transactions found
             </p>
             <p className="mt-2 text-sm text-[var(--color-grey-500)]">
-              {searchTerm || category !== 'All Transactions'
+              {hasFilters
                 ? 'Try adjusting your search or filters.'
                 : 'Your transactions will appear here.'}
             </p>
@@ -12,3 +12,8 @@ export * from './useBudgets';
 export * from './usePots';
 export * from './useOverview';
 export * from './useRecurringBills';
+export * from './useSavedViews';
+export * from './useNotifications';
+export * from './useCategories';
+export * from './useTags';
+export * from './useRules';
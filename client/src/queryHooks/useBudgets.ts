@@ -10,6 +10,8 @@ import toast from 'react-hot-toast';
 import {
   getBudgets,
   getBudget,
+  getBudgetsHistory,
+  getBudgetHistory,
   createBudget,
   updateBudget,
   deleteBudget,
@@ -24,6 +26,10 @@ export const budgetKeys = {
   list: () => [...budgetKeys.lists()] as const,
   details: () => [...budgetKeys.all, 'detail'] as const,
   detail: (id: string) => [...budgetKeys.details(), id] as const,
+  histories: () => [...budgetKeys.all, 'history'] as const,
+  history: (months: number) => [...budgetKeys.histories(), months] as const,
+  detailHistory: (id: string, months: number) =>
+    [...budgetKeys.histories(), id, months] as const,
 };
 
 /**
@@ -47,6 +53,27 @@ export function useBudget(id: string) {
   });
 }
 
+/**
+ * Hook to fetch every budget's per-period history
+ */
+export function useBudgetsHistory(months = 12) {
+  return useQuery({
+    queryKey: budgetKeys.history(months),
+    queryFn: () => getBudgetsHistory(months),
+  });
+}
+
+/**
+ * Hook to fetch one budget's per-period history
+ */
+export function useBudgetHistory(id: string, months = 12) {
+  return useQuery({
+    queryKey: budgetKeys.detailHistory(id, months),
+    queryFn: () => getBudgetHistory(id, months),
+    enabled: !!id,
+  });
+}
+
 /**
  * Hook to create a budget
  */
@@ -57,6 +84,7 @@ export function useCreateBudget() {
     mutationFn: (data: CreateBudgetData) => createBudget(data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: budgetKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: budgetKeys.histories() });
       toast.success('Budget created successfully');
     },
     onError: (error) => {
@@ -77,6 +105,8 @@ export function useUpdateBudget() {
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: budgetKeys.detail(variables.id) });
       queryClient.invalidateQueries({ queryKey: budgetKeys.lists() });
+      // Period, maximum and rollover changes rewrite past periods too
+      queryClient.invalidateQueries({ queryKey: budgetKeys.histories() });
       toast.success('Budget updated successfully');
     },
     onError: (error) => {
@@ -95,6 +125,7 @@ export function useDeleteBudget() {
     mutationFn: (id: string) => deleteBudget(id),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: budgetKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: budgetKeys.histories() });
       toast.success('Budget deleted successfully');
     },
     onError: (error) => {
@@ -0,0 +1,167 @@
+/**
+ * Category Query Hooks
+ *
+ * React Query hooks for the user's categories.
+ * Renaming or merging a category re-tags transactions, budgets, bills and
+ * saved views on the server, so those queries are refetched too.
+ * Includes toast notifications for user feedback.
+ */
+
+import { useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import {
+  getCategories,
+  getCategorySpending,
+  createCategory,
+  updateCategory,
+  mergeCategory,
+  archiveCategory,
+  restoreCategory,
+  type CategoryData,
+} from '@/lib/api';
+import { getErrorMessage } from '@/lib/errorUtils';
+
+// Query keys
+export const categoryKeys = {
+  all: ['categories'] as const,
+  list: () => [...categoryKeys.all, 'list'] as const,
+  spending: (from?: string, to?: string) => [...categoryKeys.all, 'spending', from, to] as const,
+};
+
+/**
+ * Refetch everything that shows category names
+ */
+function invalidateCategoryUsers(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: categoryKeys.all });
+  queryClient.invalidateQueries({ queryKey: ['transactions'] });
+  queryClient.invalidateQueries({ queryKey: ['budgets'] });
+  queryClient.invalidateQueries({ queryKey: ['recurringBills'] });
+  queryClient.invalidateQueries({ queryKey: ['savedViews'] });
+  queryClient.invalidateQueries({ queryKey: ['rules'] });
+  queryClient.invalidateQueries({ queryKey: ['overview'] });
+}
+
+/**
+ * Hook to fetch all categories (parents first, archived ones included)
+ */
+export function useCategories() {
+  return useQuery({
+    queryKey: categoryKeys.list(),
+    queryFn: () => getCategories(),
+    staleTime: 5 * 60 * 1000, // Categories rarely change
+  });
+}
+
+/**
+ * Category names for pickers: active categories, indented under their parents
+ *
+ * `keep` is added when archived (the category an item already has).
+ */
+export function useCategoryOptions(keep?: string) {
+  const { data, ...query } = useCategories();
+  const options = (data?.data.categories ?? [])
+    .filter((category) => category.status === 'active' || category.name === keep)
+    .map((category) => ({ value: category.name, depth: category.depth }));
+  return { options, ...query };
+}
+
+/**
+ * Hook to fetch income and expenses per category (current month by default)
+ */
+export function useCategorySpending(from?: string, to?: string) {
+  return useQuery({
+    queryKey: categoryKeys.spending(from, to),
+    queryFn: () => getCategorySpending({ from, to }),
+  });
+}
+
+/**
+ * Hook to create a category
+ */
+export function useCreateCategory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CategoryData) => createCategory(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: categoryKeys.all });
+      toast.success('Category created successfully');
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Hook to rename and/or move a category
+ */
+export function useUpdateCategory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<CategoryData> }) =>
+      updateCategory(id, data),
+    onSuccess: () => {
+      invalidateCategoryUsers(queryClient);
+      toast.success('Category updated successfully');
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Hook to merge a category into another one
+ */
+export function useMergeCategory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, targetId }: { id: string; targetId: string }) => mergeCategory(id, targetId),
+    onSuccess: (response) => {
+      invalidateCategoryUsers(queryClient);
+      toast.success(response.message);
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Hook to archive a category (and its subcategories)
+ */
+export function useArchiveCategory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => archiveCategory(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: categoryKeys.all });
+      toast.success('Category archived');
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Hook to restore an archived category (and its subcategories)
+ */
+export function useRestoreCategory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => restoreCategory(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: categoryKeys.all });
+      toast.success('Category restored');
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
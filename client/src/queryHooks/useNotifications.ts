@@ -0,0 +1,89 @@
+/**
+ * Notification Query Hooks
+ *
+ * React Query hooks for the notification center (budget alerts).
+ * Notifications are created by the server, so the list is refreshed
+ * after transaction changes and polled while the app is open.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+  dismissNotification,
+} from '@/lib/api';
+import { getErrorMessage } from '@/lib/errorUtils';
+
+// Query keys
+export const notificationKeys = {
+  all: ['notifications'] as const,
+  list: () => [...notificationKeys.all, 'list'] as const,
+};
+
+// Check for new notifications every minute
+const POLL_INTERVAL = 60 * 1000;
+
+/**
+ * Hook to fetch the latest notifications and the unread count
+ */
+export function useNotifications() {
+  return useQuery({
+    queryKey: notificationKeys.list(),
+    queryFn: getNotifications,
+    staleTime: POLL_INTERVAL,
+    refetchInterval: POLL_INTERVAL,
+  });
+}
+
+/**
+ * Hook to mark a notification as read
+ */
+export function useMarkNotificationRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => markNotificationRead(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: notificationKeys.all });
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Hook to mark every notification as read
+ */
+export function useMarkAllNotificationsRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: markAllNotificationsRead,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: notificationKeys.all });
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Hook to dismiss a notification
+ */
+export function useDismissNotification() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => dismissNotification(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: notificationKeys.all });
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
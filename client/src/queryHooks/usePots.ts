@@ -10,13 +10,26 @@ import toast from 'react-hot-toast';
 import {
   getPots,
   getPot,
+  getPotHistory,
   createPot,
   updatePot,
   deletePot,
   depositToPot,
   withdrawFromPot,
+  transferBetweenPots,
+  completePot,
+  archivePot,
+  restorePot,
+  getPotRules,
+  createPotRule,
+  updatePotRule,
+  deletePotRule,
   type CreatePotData,
   type PotTransactionData,
+  type PotTransferData,
+  type CreatePotRuleData,
+  type UpdatePotRuleData,
+  type PotStatus,
 } from '@/lib/api';
 import { formatCurrency } from '@/lib/utils';
 import { getErrorMessage } from '@/lib/errorUtils';
@@ -25,18 +38,20 @@ import { getErrorMessage } from '@/lib/errorUtils';
 export const potKeys = {
   all: ['pots'] as const,
   lists: () => [...potKeys.all, 'list'] as const,
-  list: () => [...potKeys.lists()] as const,
+  list: (status?: PotStatus | 'all') => [...potKeys.lists(), status] as const,
   details: () => [...potKeys.all, 'detail'] as const,
   detail: (id: string) => [...potKeys.details(), id] as const,
+  history: (id: string) => [...potKeys.detail(id), 'history'] as const,
+  rules: (id: string) => [...potKeys.detail(id), 'rules'] as const,
 };
 
 /**
- * Hook to fetch all pots
+ * Hook to fetch pots (default: everything not archived)
  */
-export function usePots() {
+export function usePots(status?: PotStatus | 'all') {
   return useQuery({
-    queryKey: potKeys.list(),
-    queryFn: getPots,
+    queryKey: potKeys.list(status),
+    queryFn: () => getPots(status),
   });
 }
 
@@ -51,6 +66,17 @@ export function usePot(id: string) {
   });
 }
 
+/**
+ * Hook to fetch a pot's deposit/withdrawal history
+ */
+export function usePotHistory(id: string, enabled = true) {
+  return useQuery({
+    queryKey: potKeys.history(id),
+    queryFn: () => getPotHistory(id),
+    enabled: !!id && enabled,
+  });
+}
+
 /**
  * Hook to create a pot
  */
@@ -150,3 +176,156 @@ export function useWithdrawFromPot() {
     },
   });
 }
+
+/**
+ * Hook to move money between two pots
+ *
+ * The balance doesn't change, so only pots are refreshed (overview shows pot totals).
+ */
+export function useTransferBetweenPots() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: PotTransferData }) =>
+      transferBetweenPots(id, data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: potKeys.detail(variables.id) });
+      queryClient.invalidateQueries({ queryKey: potKeys.detail(variables.data.toPotId) });
+      queryClient.invalidateQueries({ queryKey: potKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: ['overview'] });
+      toast.success(`${formatCurrency(variables.data.amount)} transferred`);
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Hook to mark a pot as completed
+ */
+export function useCompletePot() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, lockDeposits }: { id: string; lockDeposits: boolean }) =>
+      completePot(id, { lockDeposits }),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: potKeys.detail(variables.id) });
+      queryClient.invalidateQueries({ queryKey: potKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: ['overview'] });
+      toast.success('Pot completed');
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Hook to archive a pot
+ */
+export function useArchivePot() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => archivePot(id),
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: potKeys.detail(id) });
+      queryClient.invalidateQueries({ queryKey: potKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: ['overview'] });
+      toast.success('Pot archived');
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Hook to restore a completed or archived pot
+ */
+export function useRestorePot() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => restorePot(id),
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: potKeys.detail(id) });
+      queryClient.invalidateQueries({ queryKey: potKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: ['overview'] });
+      toast.success('Pot restored');
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Hook to fetch a pot's automatic savings rules
+ */
+export function usePotRules(potId: string, enabled = true) {
+  return useQuery({
+    queryKey: potKeys.rules(potId),
+    queryFn: () => getPotRules(potId),
+    enabled: !!potId && enabled,
+  });
+}
+
+/**
+ * Hook to create a savings rule
+ */
+export function useCreatePotRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ potId, data }: { potId: string; data: CreatePotRuleData }) =>
+      createPotRule(potId, data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: potKeys.rules(variables.potId) });
+      toast.success('Savings rule created');
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Hook to update (or pause/resume) a savings rule
+ */
+export function useUpdatePotRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ potId, ruleId, data }: { potId: string; ruleId: string; data: UpdatePotRuleData }) =>
+      updatePotRule(potId, ruleId, data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: potKeys.rules(variables.potId) });
+      toast.success('Savings rule updated');
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Hook to delete a savings rule
+ */
+export function useDeletePotRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ potId, ruleId }: { potId: string; ruleId: string }) =>
+      deletePotRule(potId, ruleId),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: potKeys.rules(variables.potId) });
+      toast.success('Savings rule deleted');
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
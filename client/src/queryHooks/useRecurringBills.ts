@@ -1,12 +1,24 @@
 /**
  * Recurring Bills Query Hooks
  *
- * CONCEPT: React Query hook for fetching recurring bills with
- * calculated status (paid, upcoming, due-soon).
+ * CONCEPT: React Query hooks for fetching and mutating recurring bills.
+ * Status (paid, upcoming, due-soon) is calculated by the server.
+ * Includes toast notifications for user feedback.
  */
 
-import { useQuery } from '@tanstack/react-query';
-import { getRecurringBills, type RecurringBillsParams } from '@/lib/api';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import {
+  getRecurringBills,
+  createBill,
+  updateBill,
+  deleteBill,
+  payBill,
+  type RecurringBillsParams,
+  type CreateBillData,
+  type PayBillData,
+} from '@/lib/api';
+import { getErrorMessage } from '@/lib/errorUtils';
 
 // Query keys
 export const recurringBillsKeys = {
@@ -23,3 +35,86 @@ export function useRecurringBills(params?: RecurringBillsParams) {
     queryFn: () => getRecurringBills(params),
   });
 }
+
+/**
+ * Hook to create a recurring bill
+ */
+export function useCreateBill() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateBillData) => createBill(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: recurringBillsKeys.all });
+      queryClient.invalidateQueries({ queryKey: ['overview'] });
+      toast.success('Bill added successfully');
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Hook to update a recurring bill
+ */
+export function useUpdateBill() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<CreateBillData> }) =>
+      updateBill(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: recurringBillsKeys.all });
+      queryClient.invalidateQueries({ queryKey: ['overview'] });
+      toast.success('Bill updated successfully');
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Hook to delete a recurring bill
+ */
+export function useDeleteBill() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteBill(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: recurringBillsKeys.all });
+      queryClient.invalidateQueries({ queryKey: ['overview'] });
+      toast.success('Bill deleted successfully');
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Hook to pay a recurring bill
+ *
+ * Paying creates a transaction, so transaction lists are refreshed too.
+ */
+export function usePayBill() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: PayBillData }) =>
+      payBill(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: recurringBillsKeys.all });
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['overview'] });
+      queryClient.invalidateQueries({ queryKey: ['pots'] }); // Round-up rules
+      queryClient.invalidateQueries({ queryKey: ['notifications'] }); // Budget alerts
+      toast.success('Payment recorded successfully');
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
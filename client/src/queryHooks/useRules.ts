@@ -0,0 +1,135 @@
+/**
+ * Transaction Rule Query Hooks
+ *
+ * React Query hooks for the rules that categorize and rename
+ * new and imported transactions.
+ * Includes toast notifications for user feedback.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import {
+  getRules,
+  createRule,
+  updateRule,
+  deleteRule,
+  reorderRules,
+  applyRules,
+  type TransactionRuleData,
+} from '@/lib/api';
+import { getErrorMessage } from '@/lib/errorUtils';
+
+// Query keys
+export const ruleKeys = {
+  all: ['rules'] as const,
+  list: () => [...ruleKeys.all, 'list'] as const,
+};
+
+/**
+ * Hook to fetch the user's rules (in the order they run)
+ */
+export function useRules() {
+  return useQuery({
+    queryKey: ruleKeys.list(),
+    queryFn: getRules,
+  });
+}
+
+/**
+ * Hook to create a rule
+ */
+export function useCreateRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: Partial<TransactionRuleData>) => createRule(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ruleKeys.all });
+      toast.success('Rule created successfully');
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Hook to update a rule (also used to enable/disable it)
+ */
+export function useUpdateRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<TransactionRuleData> }) =>
+      updateRule(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ruleKeys.all });
+      toast.success('Rule updated successfully');
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Hook to delete a rule
+ */
+export function useDeleteRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteRule(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ruleKeys.all });
+      toast.success('Rule deleted successfully');
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Hook to change the order rules run in (no toast - reordering is instant)
+ */
+export function useReorderRules() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (ids: string[]) => reorderRules(ids),
+    onSuccess: (response) => {
+      queryClient.setQueryData(ruleKeys.list(), response);
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ruleKeys.all });
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Hook to apply rules to existing transactions
+ *
+ * With dryRun the changes are only returned (nothing is saved or refetched).
+ */
+export function useApplyRules() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: { dryRun: boolean; ruleIds?: string[] }) => applyRules(data),
+    onSuccess: (response) => {
+      if (response.data.dryRun) return;
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      queryClient.invalidateQueries({ queryKey: ['categories'] }); // Spending per category
+      queryClient.invalidateQueries({ queryKey: ['overview'] });
+      queryClient.invalidateQueries({ queryKey: ['notifications'] }); // Budget alerts
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
+      toast.success(response.message ?? 'Rules applied');
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
@@ -0,0 +1,89 @@
+/**
+ * Saved View Query Hooks
+ *
+ * React Query hooks for the named transaction filters ("views")
+ * shown on the Transactions page.
+ * Includes toast notifications for user feedback.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import {
+  getSavedViews,
+  createSavedView,
+  updateSavedView,
+  deleteSavedView,
+  type SaveViewData,
+} from '@/lib/api';
+import { getErrorMessage } from '@/lib/errorUtils';
+
+// Query keys
+export const savedViewKeys = {
+  all: ['savedViews'] as const,
+  list: () => [...savedViewKeys.all, 'list'] as const,
+};
+
+/**
+ * Hook to fetch all saved views
+ */
+export function useSavedViews() {
+  return useQuery({
+    queryKey: savedViewKeys.list(),
+    queryFn: getSavedViews,
+  });
+}
+
+/**
+ * Hook to save the current filters as a view
+ */
+export function useCreateSavedView() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: SaveViewData) => createSavedView(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: savedViewKeys.all });
+      toast.success('View saved successfully');
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Hook to rename a view or replace its filters
+ */
+export function useUpdateSavedView() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<SaveViewData> }) =>
+      updateSavedView(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: savedViewKeys.all });
+      toast.success('View updated successfully');
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Hook to delete a saved view
+ */
+export function useDeleteSavedView() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteSavedView(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: savedViewKeys.all });
+      toast.success('View deleted successfully');
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
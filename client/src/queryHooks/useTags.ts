@@ -0,0 +1,40 @@
+/**
+ * Tag Query Hooks
+ *
+ * React Query hooks for transaction tags. Tags are read-only here - they
+ * change through the transactions that carry them (see useTransactions).
+ */
+
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { getTags, getTagSummary } from '@/lib/api';
+
+// Query keys
+export const tagKeys = {
+  all: ['tags'] as const,
+  list: (search: string) => [...tagKeys.all, 'list', search] as const,
+  summary: (params: { from?: string; to?: string; tags?: string[] }) =>
+    [...tagKeys.all, 'summary', params] as const,
+};
+
+/**
+ * Hook to fetch the user's tags starting with `search` (most used first)
+ */
+export function useTags(search = '', limit = 8) {
+  return useQuery({
+    queryKey: tagKeys.list(search),
+    queryFn: () => getTags({ search: search || undefined, limit }),
+    placeholderData: keepPreviousData, // Keep suggestions while typing
+    staleTime: 60 * 1000,
+  });
+}
+
+/**
+ * Hook to fetch income and expenses per tag
+ */
+export function useTagSummary(params: { from?: string; to?: string; tags?: string[] } = {}, enabled = true) {
+  return useQuery({
+    queryKey: tagKeys.summary(params),
+    queryFn: () => getTagSummary(params),
+    enabled,
+  });
+}
@@ -16,13 +16,23 @@ import toast from 'react-hot-toast';
 import {
   getTransactions,
   getTransaction,
+  suggestCategory,
   createTransaction,
   updateTransaction,
   deleteTransaction,
+  previewTransactionImport,
+  importTransactions,
+  previewStatementImport,
+  importStatement,
+  exportTransactions,
   type TransactionParams,
+  type ExportFormat,
   type Transaction,
+  type ImportOptions,
+  type StatementImportOptions,
 } from '@/lib/api';
 import { getErrorMessage } from '@/lib/errorUtils';
+import { downloadBlob } from '@/lib/utils';
 
 // Query keys for cache management
 export const transactionKeys = {
@@ -31,6 +41,7 @@ export const transactionKeys = {
   list: (params: TransactionParams) => [...transactionKeys.lists(), params] as const,
   details: () => [...transactionKeys.all, 'detail'] as const,
   detail: (id: string) => [...transactionKeys.details(), id] as const,
+  suggestions: (name: string) => [...transactionKeys.all, 'suggestions', name] as const,
 };
 
 /**
@@ -57,6 +68,21 @@ export function useTransaction(id: string) {
   });
 }
 
+/**
+ * Hook to suggest categories for a payee from the user's history
+ *
+ * Pass a debounced name - each new name is a request.
+ */
+export function useCategorySuggestions(name: string) {
+  const trimmed = name.trim();
+  return useQuery({
+    queryKey: transactionKeys.suggestions(trimmed),
+    queryFn: () => suggestCategory(trimmed),
+    enabled: trimmed.length >= 2,
+    staleTime: 5 * 60 * 1000, // History changes slowly
+  });
+}
+
 /**
  * Hook to create a transaction
  */
@@ -72,6 +98,12 @@ export function useCreateTransaction() {
       queryClient.invalidateQueries({ queryKey: ['recurringBills'] });
       // Invalidate overview since balance may have changed
       queryClient.invalidateQueries({ queryKey: ['overview'] });
+      // Savings rules (round-ups, income share) may have moved money into pots
+      queryClient.invalidateQueries({ queryKey: ['pots'] });
+      // Budget alerts may have been sent
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+      // New tags show up in autocomplete
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
       toast.success('Transaction created successfully');
     },
     onError: (error) => {
@@ -95,6 +127,8 @@ export function useUpdateTransaction() {
       queryClient.invalidateQueries({ queryKey: transactionKeys.lists() });
       queryClient.invalidateQueries({ queryKey: ['recurringBills'] });
       queryClient.invalidateQueries({ queryKey: ['overview'] });
+      queryClient.invalidateQueries({ queryKey: ['notifications'] }); // Budget alerts
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
       toast.success('Transaction updated successfully');
     },
     onError: (error) => {
@@ -115,6 +149,7 @@ export function useDeleteTransaction() {
       queryClient.invalidateQueries({ queryKey: transactionKeys.lists() });
       queryClient.invalidateQueries({ queryKey: ['recurringBills'] });
       queryClient.invalidateQueries({ queryKey: ['overview'] });
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
       toast.success('Transaction deleted successfully');
     },
     onError: (error) => {
@@ -122,3 +157,109 @@ export function useDeleteTransaction() {
     },
   });
 }
+
+/**
+ * Hook to preview a CSV import
+ *
+ * A mutation (not a query) because the CSV is sent in the request body.
+ * Nothing is saved, so no caches are invalidated.
+ */
+export function usePreviewTransactionImport() {
+  return useMutation({
+    mutationFn: ({ csv, options }: { csv: string; options: ImportOptions }) =>
+      previewTransactionImport(csv, options),
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Hook to import transactions from a CSV file
+ */
+export function useImportTransactions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ csv, options }: { csv: string; options: ImportOptions }) =>
+      importTransactions(csv, options),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: transactionKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: ['recurringBills'] });
+      queryClient.invalidateQueries({ queryKey: ['overview'] });
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      queryClient.invalidateQueries({ queryKey: ['pots'] });
+      queryClient.invalidateQueries({ queryKey: ['notifications'] }); // Budget alerts
+      toast.success(`Imported ${result.imported} transaction(s)`);
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Hook to preview a bank statement import (OFX/QFX, QIF)
+ */
+export function usePreviewStatementImport() {
+  return useMutation({
+    mutationFn: ({ statement, options }: { statement: string; options: StatementImportOptions }) =>
+      previewStatementImport(statement, options),
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Hook to import transactions from a bank statement
+ */
+export function useImportStatement() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ statement, options }: { statement: string; options: StatementImportOptions }) =>
+      importStatement(statement, options),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: transactionKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: ['recurringBills'] });
+      queryClient.invalidateQueries({ queryKey: ['overview'] });
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      queryClient.invalidateQueries({ queryKey: ['pots'] });
+      queryClient.invalidateQueries({ queryKey: ['notifications'] }); // Budget alerts
+      const duplicates = result.duplicates
+        ? ` (${result.duplicates} already imported)`
+        : '';
+      toast.success(`Imported ${result.imported} transaction(s)${duplicates}`);
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Hook to export transactions and download the file
+ *
+ * Uses the same filters as the list (without pagination).
+ */
+export function useExportTransactions() {
+  return useMutation({
+    mutationFn: async ({
+      params,
+      format,
+    }: {
+      params: Omit<TransactionParams, 'page' | 'limit'>;
+      format: ExportFormat;
+    }) => {
+      const blob = await exportTransactions(params, format);
+      downloadBlob(blob, `transactions-${new Date().toISOString().slice(0, 10)}.${format}`);
+    },
+    onSuccess: () => {
+      toast.success('Export downloaded');
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
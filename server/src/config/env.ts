@@ -48,6 +48,7 @@ const getInt = (key: string, defaultValue: number): number => {
 
 const NODE_ENV = getOptional('NODE_ENV', 'development');
 const isDevelopment = NODE_ENV === 'development';
+const isTest = NODE_ENV === 'test';
 const isProduction = NODE_ENV === 'production';
 
 // =============================================================================
@@ -155,6 +156,7 @@ export const env = {
   // Helper properties
   isDevelopment,
   isProduction,
+  isTest,
 };
 
 // =============================================================================
@@ -1,11 +1,12 @@
 /**
  * Transaction Categories
- * 
- * These are the predefined categories for transactions and budgets.
- * They come from the design specification.
+ *
+ * Categories belong to each user (see models/category.model.ts).
+ * Every user starts with these default categories from the design
+ * specification, and can rename, merge and archive them or add their own.
  */
 
-export const CATEGORIES = [
+export const DEFAULT_CATEGORIES = [
   'Entertainment',
   'Bills',
   'Groceries',
@@ -18,10 +19,15 @@ export const CATEGORIES = [
   'General',
 ] as const;
 
-// TypeScript type for categories
-export type Category = typeof CATEGORIES[number];
+// Category used when none is given and no rule sets one (new transactions, imports)
+export const FALLBACK_CATEGORY = 'General';
 
-// Check if a string is a valid category
-export const isValidCategory = (value: string): value is Category => {
-  return CATEGORIES.includes(value as Category);
-};
+// Limits
+export const MAX_CATEGORIES_PER_USER = 100;
+export const MAX_CATEGORY_DEPTH = 3;  // e.g. Bills -> Utilities -> Electricity
+
+// Names with a meaning of their own in the app
+export const RESERVED_CATEGORY_NAMES = ['All Transactions'];
+
+// Letters, numbers, spaces and - ' / ( ) . (commas separate categories in filters)
+export const CATEGORY_NAME_PATTERN = /^[\p{L}\p{N} '()/.-]+$/u;
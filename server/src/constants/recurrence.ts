@@ -0,0 +1,31 @@
+/**
+ * Recurrence Frequencies
+ *
+ * How often a recurring item (like a bill) comes due.
+ * Each frequency is a fixed step from the anchor date, multiplied by the
+ * item's interval (e.g. monthly with interval 2 = every 2 months).
+ *
+ * 'custom' counts the interval in days (e.g. every 10 days).
+ */
+
+export const FREQUENCIES = [
+  'weekly',
+  'biweekly',
+  'monthly',
+  'quarterly',
+  'yearly',
+  'custom',
+] as const;
+
+// TypeScript type for frequencies
+export type Frequency = typeof FREQUENCIES[number];
+
+// Step size for each frequency (before applying the interval)
+export const FREQUENCY_STEPS: Record<Frequency, { unit: 'day' | 'month'; count: number }> = {
+  weekly: { unit: 'day', count: 7 },
+  biweekly: { unit: 'day', count: 14 },
+  monthly: { unit: 'month', count: 1 },
+  quarterly: { unit: 'month', count: 3 },
+  yearly: { unit: 'month', count: 12 },
+  custom: { unit: 'day', count: 1 },
+};
@@ -0,0 +1,15 @@
+/**
+ * Transaction Tags
+ *
+ * Tags are free-form labels on transactions (e.g. "vacation-2026",
+ * "reimbursable"). Unlike categories, a transaction can have several and
+ * they don't need to be created first.
+ *
+ * Tags are stored lowercase without the leading "#" the user may type.
+ */
+
+export const MAX_TAGS_PER_TRANSACTION = 10;
+export const MAX_TAG_LENGTH = 30;
+
+// Letters, numbers, - and _ (starting with a letter or number)
+export const TAG_PATTERN = /^[\p{Ll}\p{Lo}\p{N}][\p{Ll}\p{Lo}\p{N}_-]*$/u;
@@ -221,18 +221,6 @@ export const login = catchErrors(async (req: Request, res: Response) => {
     throw new AppError('Invalid email or password', 401);
   }
 
-  // SECURITY FIX: Verify balance consistency
-  // If user has no transactions but has a non-zero balance, reset it to 0
-  if (user.balance !== 0) {
-    const { Transaction } = await import('../models/index.js');
-    const transactionCount = await Transaction.countDocuments({ userId: user._id });
-    
-    if (transactionCount === 0) {
-      user.balance = 0;
-      await user.save();
-    }
-  }
-
   // Generate token and set cookie
   const token = generateToken(user._id.toString());
   setAuthCookie(res, token);
@@ -271,7 +259,6 @@ export const googleAuth = catchErrors(async (req: Request, res: Response) => {
 
   // Check if user exists with this Google ID
   let user = await User.findOne({ googleId: payload.sub });
-  let isNewUser = false;
 
   if (!user) {
     // Check if user exists with this email (registered locally)
@@ -298,21 +285,6 @@ export const googleAuth = catchErrors(async (req: Request, res: Response) => {
         verified: true,
         balance: 0, // Start with 0 balance for new accounts
       });
-      isNewUser = true;
-    }
-  }
-
-  // SECURITY FIX: For existing users, verify balance consistency
-  // If user has no transactions but has a non-zero balance, reset it to 0
-  // This prevents stale/incorrect balance data from showing
-  if (!isNewUser && user.balance !== 0) {
-    const { Transaction } = await import('../models/index.js');
-    const transactionCount = await Transaction.countDocuments({ userId: user._id });
-    
-    if (transactionCount === 0) {
-      // User has no transactions but has a balance - reset to 0
-      user.balance = 0;
-      await user.save();
     }
   }
 
@@ -346,18 +318,6 @@ export const getMe = catchErrors(async (req: Request, res: Response) => {
     throw new AppError('User not found', 404);
   }
 
-  // SECURITY FIX: Verify balance consistency on every session check
-  // If user has no transactions but has a non-zero balance, reset it to 0
-  if (user.balance !== 0) {
-    const { Transaction } = await import('../models/index.js');
-    const transactionCount = await Transaction.countDocuments({ userId: user._id });
-    
-    if (transactionCount === 0) {
-      user.balance = 0;
-      await user.save();
-    }
-  }
-
   res.json({
     success: true,
     data: {
@@ -0,0 +1,304 @@
+/**
+ * Bill Controller
+ *
+ * SECURITY: Input validation handled by middleware.
+ *
+ * Key calculations:
+ * - "status": paid / upcoming / due-soon (see services/bill.service.ts)
+ * - "nextDueDate": First unpaid due date from the bill's recurrence rule
+ * - "summary": Totals by status across ALL bills (ignores search)
+ *
+ * Paying a bill posts a real expense transaction linked to the bill's
+ * next due date, which is what marks that due date as paid.
+ * Bills with autoPost enabled are paid by the scheduler (see jobs/) instead.
+ */
+
+import { Request, Response } from 'express';
+import { Bill } from '../models/index.js';
+import { catchErrors } from '../utils/catchErrors.js';
+import { AppError } from '../utils/AppError.js';
+import { HTTP_STATUS } from '../constants/http.js';
+import { escapeRegex } from '../middleware/validation.js';
+import { withBillStatus, summarizeBills } from '../services/bill.service.js';
+import { postTransaction } from '../services/transaction.service.js';
+import { resolveCategory } from '../services/category.service.js';
+
+// Note: Input validation is handled by middleware/validation.ts
+
+// Sort comparators (whitelisted values only)
+// Bills without a next due date (ended) sort last
+type SortableBill = { name: string; amount: number; nextDueDate: Date | null };
+const dueTime = (bill: SortableBill) => bill.nextDueDate?.getTime() ?? Number.MAX_SAFE_INTEGER;
+const SORT_COMPARATORS: Record<string, (a: SortableBill, b: SortableBill) => number> = {
+  Latest: (a, b) => dueTime(a) - dueTime(b), // Soonest due first
+  Oldest: (a, b) => dueTime(b) - dueTime(a),
+  'A to Z': (a, b) => a.name.localeCompare(b.name),
+  'Z to A': (a, b) => b.name.localeCompare(a.name),
+  Highest: (a, b) => b.amount - a.amount,
+  Lowest: (a, b) => a.amount - b.amount,
+};
+
+// =============================================================================
+// GET ALL BILLS
+// =============================================================================
+
+/**
+ * Get Bills with Status and Summary
+ *
+ * GET /api/bills
+ *
+ * SECURITY: Query params are pre-validated by middleware
+ * - search is sanitized and regex-escaped
+ * - sort is whitelisted
+ */
+export const getBills = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId!;
+  const { search, sort } = (req as Request & { validatedQuery: unknown }).validatedQuery as {
+    search?: string;
+    sort: string;
+  };
+
+  // Status is calculated for every bill so the summary covers all of them
+  const bills = await withBillStatus(userId, await Bill.find({ userId }).lean());
+
+  // Apply search filter (SECURITY: escaped regex prevents ReDoS)
+  const searchPattern = search ? new RegExp(escapeRegex(search), 'i') : null;
+  const filteredBills = searchPattern
+    ? bills.filter((bill) => searchPattern.test(bill.name))
+    : bills;
+
+  filteredBills.sort(SORT_COMPARATORS[sort] || SORT_COMPARATORS['Latest']);
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    data: {
+      bills: filteredBills,
+      summary: summarizeBills(bills),
+    },
+  });
+});
+
+// =============================================================================
+// GET BILLS SUMMARY
+// =============================================================================
+
+/**
+ * Get Bills Summary
+ *
+ * GET /api/bills/summary
+ */
+export const getBillsSummary = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId!;
+
+  const bills = await withBillStatus(userId, await Bill.find({ userId }).lean());
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    data: { summary: summarizeBills(bills) },
+  });
+});
+
+// =============================================================================
+// GET SINGLE BILL
+// =============================================================================
+
+export const getBill = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId!;
+  const { id } = req.params;
+
+  const bill = await Bill.findOne({ _id: id, userId }).lean();
+
+  if (!bill) {
+    throw new AppError('Bill not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+  }
+
+  const [billWithStatus] = await withBillStatus(userId, [bill]);
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    data: { bill: billWithStatus },
+  });
+});
+
+// =============================================================================
+// CREATE BILL
+// =============================================================================
+
+/**
+ * Create Bill
+ *
+ * SECURITY: Input is pre-validated by middleware
+ */
+export const createBill = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+  // Input is pre-validated by middleware (name sanitized)
+  const { name, amount, frequency, interval, anchorDate, endDate, autoPost, avatar } = req.body;
+  const category = await resolveCategory(userId!, req.body.category);
+
+  // Check if a bill for this vendor already exists
+  const existing = await Bill.findOne({ userId, name });
+  if (existing) {
+    throw new AppError(
+      'A bill for this vendor already exists',
+      HTTP_STATUS.CONFLICT,
+      'DUPLICATE_ERROR'
+    );
+  }
+
+  const bill = await Bill.create({
+    userId,
+    name,
+    amount,
+    category,
+    frequency,
+    interval,
+    anchorDate: new Date(anchorDate),
+    endDate: endDate ? new Date(endDate) : null,
+    autoPost,
+    autoPostSince: autoPost ? new Date() : null,
+    avatar,
+  });
+
+  res.status(HTTP_STATUS.CREATED).json({
+    success: true,
+    message: 'Bill created successfully',
+    data: { bill },
+  });
+});
+
+// =============================================================================
+// UPDATE BILL
+// =============================================================================
+
+export const updateBill = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { id } = req.params;
+  const { name, amount, category, frequency, interval, anchorDate, endDate, autoPost, avatar } =
+    req.body;
+
+  const bill = await Bill.findOne({ _id: id, userId });
+
+  if (!bill) {
+    throw new AppError('Bill not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+  }
+
+  if (name) bill.name = name;
+  if (amount) bill.amount = amount;
+  if (category) bill.category = await resolveCategory(userId!, category, bill.category);
+  if (frequency) bill.frequency = frequency;
+  if (interval) bill.interval = interval;
+  if (anchorDate) bill.anchorDate = new Date(anchorDate);
+  if (endDate !== undefined) bill.endDate = endDate ? new Date(endDate) : null;
+  if (avatar) bill.avatar = avatar;
+
+  // Due dates before auto-post was turned on are never auto-posted
+  if (autoPost !== undefined && autoPost !== bill.autoPost) {
+    bill.autoPost = autoPost;
+    bill.autoPostSince = autoPost ? new Date() : null;
+  }
+
+  // The end date can't come before the first due date
+  if (bill.endDate && bill.endDate < bill.anchorDate) {
+    throw new AppError(
+      'End date must be on or after the first due date',
+      HTTP_STATUS.BAD_REQUEST,
+      'VALIDATION_ERROR'
+    );
+  }
+
+  await bill.save();
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    message: 'Bill updated successfully',
+    data: { bill },
+  });
+});
+
+// =============================================================================
+// DELETE BILL
+// =============================================================================
+
+/**
+ * Delete Bill
+ *
+ * Past payments stay in the transaction history.
+ */
+export const deleteBill = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { id } = req.params;
+
+  const bill = await Bill.findOneAndDelete({ _id: id, userId });
+
+  if (!bill) {
+    throw new AppError('Bill not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+  }
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    message: 'Bill deleted successfully',
+  });
+});
+
+// =============================================================================
+// PAY BILL
+// =============================================================================
+
+/**
+ * Pay Bill
+ *
+ * POST /api/bills/:id/pay
+ *
+ * Creates an expense transaction for the bill amount and links it to the bill's
+ * next due date. Balance is updated through the same path as POST /api/transactions.
+ */
+export const payBill = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId!;
+  const { id } = req.params;
+  const { date } = req.body;
+
+  const bill = await Bill.findOne({ _id: id, userId }).lean();
+  if (!bill) {
+    throw new AppError('Bill not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+  }
+
+  // The payment covers the next unpaid due date
+  const [{ nextDueDate }] = await withBillStatus(userId, [bill]);
+  if (!nextDueDate) {
+    throw new AppError(
+      'This bill has ended and has no payments due',
+      HTTP_STATUS.BAD_REQUEST,
+      'NOTHING_DUE'
+    );
+  }
+
+  let transaction;
+  try {
+    transaction = await postTransaction(userId, {
+      name: bill.name,
+      amount: -Math.abs(bill.amount), // Bills are expenses (negative)
+      category: bill.category,
+      date: date || new Date(),
+      avatar: bill.avatar,
+      recurring: true,
+      billId: bill._id,
+      billDueDate: nextDueDate,
+    });
+  } catch (error) {
+    // Unique index on (billId, billDueDate): paid concurrently or by the auto-post job
+    if ((error as { code?: number }).code === 11000) {
+      throw new AppError(
+        'This due date has already been paid',
+        HTTP_STATUS.CONFLICT,
+        'ALREADY_PAID'
+      );
+    }
+    throw error;
+  }
+
+  res.status(HTTP_STATUS.CREATED).json({
+    success: true,
+    message: 'Bill paid successfully',
+    data: { transaction },
+  });
+});
@@ -3,34 +3,46 @@
  *
  * SECURITY: Input validation handled by middleware.
  *
- * Key calculations:
- * - "spent": Sum of expenses in category for current month (dynamic)
- * - "latest 3 transactions": Most recent transactions in category (any month)
+ * Key calculations (see services/budget.service.ts):
+ * - "periodStart"/"periodEnd": The budget's current period (monthly by default)
+ * - "spent": Sum of expenses in category for the current period (dynamic)
+ * - "carriedOver": Leftover from earlier periods for budgets with rollover
+ * - "remaining": maximum + carriedOver - spent
+ * - "latest 3 transactions": Most recent transactions in category (any period)
+ * - "history": Limit, spent and difference for each period of the last N months
  */
 
 import { Request, Response } from 'express';
-import { Budget, Transaction } from '../models/index.js';
+import { Budget, type IBudget } from '../models/index.js';
+import {
+  withBudgetDetails,
+  getBudgetPeriodHistory,
+  getPeriodRange,
+} from '../services/budget.service.js';
+import { resolveCategory } from '../services/category.service.js';
 import { catchErrors } from '../utils/catchErrors.js';
 import { AppError } from '../utils/AppError.js';
 import { HTTP_STATUS } from '../constants/http.js';
 
 // Note: Input validation is handled by middleware/validation.ts
 
+type RolloverSettings = Pick<IBudget, 'period' | 'periodAnchor' | 'rolloverMode'>;
+
 /**
- * Get current month date range in UTC
- * Returns start and end of current month dynamically
+ * First period counted by a rollover: the one containing `since`
+ *
+ * The carry into the current period is replayed from the transactions of
+ * every period since then (see services/budget.service.ts).
  */
-function getCurrentMonthRange() {
-  const now = new Date();
-  const year = now.getUTCFullYear();
-  const month = now.getUTCMonth();
-  
-  // Start of month: 1st day at midnight UTC
-  const start = new Date(Date.UTC(year, month, 1, 0, 0, 0, 0));
-  // End of month: last day at 23:59:59.999 UTC
-  const end = new Date(Date.UTC(year, month + 1, 0, 23, 59, 59, 999));
-  
-  return { start, end };
+function getRolloverStart(settings: RolloverSettings, since: Date | string) {
+  return settings.rolloverMode === 'none' ? null : getPeriodRange(settings, new Date(since)).start;
+}
+
+/**
+ * Compare two optional dates
+ */
+function isSameDate(a: Date | string | null | undefined, b: Date | string | null | undefined) {
+  return (a ? new Date(a).getTime() : null) === (b ? new Date(b).getTime() : null);
 }
 
 // =============================================================================
@@ -41,71 +53,21 @@ function getCurrentMonthRange() {
  * Get Budgets with Spent Amount and Latest Transactions
  * 
  * For each budget, we calculate:
- * 1. spent: Total expenses in category for current month
- * 2. latestTransactions: 3 most recent transactions (any month)
+ * 1. spent: Total expenses in category for the current period
+ * 2. latestTransactions: 3 most recent transactions (any period)
+ *
+ * Each comes from one aggregation for all budgets (two queries in total,
+ * run in parallel), whatever the number of budgets.
  */
 export const getBudgets = catchErrors(async (req: Request, res: Response) => {
   const userId = req.userId;
   
-  // Get current month range (dynamic)
-  const { start: CURRENT_MONTH_START, end: CURRENT_MONTH_END } = getCurrentMonthRange();
-  
-  // Get all budgets for user
-  const budgets = await Budget.find({ userId }).lean();
-  
-  // Enrich each budget with spent amount and latest transactions
-  const enrichedBudgets = await Promise.all(
-    budgets.map(async (budget) => {
-      // Calculate spent (sum of expenses in category for current month)
-      // Exclude template transactions (bill templates that haven't been paid)
-      const spentResult = await Transaction.aggregate([
-        {
-          $match: {
-            userId,
-            category: budget.category,
-            amount: { $lt: 0 },  // Only expenses (negative amounts)
-            isTemplate: { $ne: true },  // Exclude templates
-            date: {
-              $gte: CURRENT_MONTH_START,
-              $lte: CURRENT_MONTH_END,
-            },
-          },
-        },
-        {
-          $group: {
-            _id: null,
-            total: { $sum: '$amount' },
-          },
-        },
-      ]);
-      
-      // spent is absolute value (positive number)
-      const spent = spentResult.length > 0 ? Math.abs(spentResult[0].total) : 0;
-      
-      // Get latest 3 transactions for this category (regardless of month)
-      // Exclude templates
-      const latestTransactions = await Transaction.find({
-        userId,
-        category: budget.category,
-        amount: { $lt: 0 },  // Only expenses
-        isTemplate: { $ne: true },  // Exclude templates
-      })
-        .sort({ date: -1 })
-        .limit(3)
-        .lean();
-      
-      return {
-        ...budget,
-        spent,
-        remaining: budget.maximum - spent,
-        latestTransactions,
-      };
-    })
-  );
+  // Spent/carried over/remaining for this period and latest transactions
+  const budgets = await withBudgetDetails(userId!, await Budget.find({ userId }).lean());
   
   res.status(HTTP_STATUS.OK).json({
     success: true,
-    data: { budgets: enrichedBudgets },
+    data: { budgets },
   });
 });
 
@@ -117,9 +79,6 @@ export const getBudget = catchErrors(async (req: Request, res: Response) => {
   const userId = req.userId;
   const { id } = req.params;
   
-  // Get current month range (dynamic)
-  const { start: CURRENT_MONTH_START, end: CURRENT_MONTH_END } = getCurrentMonthRange();
-  
   const budget = await Budget.findOne({ _id: id, userId }).lean();
   
   if (!budget) {
@@ -127,44 +86,79 @@ export const getBudget = catchErrors(async (req: Request, res: Response) => {
   }
   
   // Calculate spent and get latest transactions (same as above)
-  // Exclude template transactions
-  const spentResult = await Transaction.aggregate([
-    {
-      $match: {
-        userId,
+  const [withDetails] = await withBudgetDetails(userId!, [budget]);
+  
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    data: { budget: withDetails },
+  });
+});
+
+// =============================================================================
+// BUDGET HISTORY
+// =============================================================================
+
+/**
+ * Get Budgets History
+ *
+ * GET /api/budgets/history?months=12
+ * How every budget did in each period of the last N months (oldest first).
+ */
+export const getBudgetsHistory = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+  // Query params are pre-validated by middleware and stored in validatedQuery
+  const { months } = (req as Request & { validatedQuery: unknown }).validatedQuery as {
+    months: number;
+  };
+
+  const budgets = await Budget.find({ userId }).lean();
+  const history = await getBudgetPeriodHistory(userId!, budgets, months);
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    data: {
+      months,
+      budgets: budgets.map((budget) => ({
+        budgetId: budget._id,
         category: budget.category,
-        amount: { $lt: 0 },
-        isTemplate: { $ne: true },  // Exclude templates
-        date: { $gte: CURRENT_MONTH_START, $lte: CURRENT_MONTH_END },
-      },
+        theme: budget.theme,
+        period: budget.period ?? 'monthly',
+        history: history.get(budget._id.toString()) ?? [],
+      })),
     },
-    {
-      $group: { _id: null, total: { $sum: '$amount' } },
-    },
-  ]);
-  
-  const spent = spentResult.length > 0 ? Math.abs(spentResult[0].total) : 0;
-  
-  // Exclude templates from latest transactions
-  const latestTransactions = await Transaction.find({
-    userId,
-    category: budget.category,
-    amount: { $lt: 0 },
-    isTemplate: { $ne: true },  // Exclude templates
-  })
-    .sort({ date: -1 })
-    .limit(3)
-    .lean();
-  
+  });
+});
+
+/**
+ * Get Budget History
+ *
+ * GET /api/budgets/:id/history?months=12
+ * How one budget did in each period of the last N months (oldest first).
+ */
+export const getBudgetHistory = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { id } = req.params as { id: string }; // Validated by idParamSchema
+  const { months } = (req as Request & { validatedQuery: unknown }).validatedQuery as {
+    months: number;
+  };
+
+  const budget = await Budget.findOne({ _id: id, userId }).lean();
+
+  if (!budget) {
+    throw new AppError('Budget not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+  }
+
+  const history = await getBudgetPeriodHistory(userId!, [budget], months);
+
   res.status(HTTP_STATUS.OK).json({
     success: true,
     data: {
-      budget: {
-        ...budget,
-        spent,
-        remaining: budget.maximum - spent,
-        latestTransactions,
-      },
+      months,
+      budgetId: budget._id,
+      category: budget.category,
+      theme: budget.theme,
+      period: budget.period ?? 'monthly',
+      history: history.get(budget._id.toString()) ?? [],
     },
   });
 });
@@ -180,8 +174,18 @@ export const getBudget = catchErrors(async (req: Request, res: Response) => {
  */
 export const createBudget = catchErrors(async (req: Request, res: Response) => {
   const userId = req.userId;
-  // Input is pre-validated by middleware (category and theme are whitelisted)
-  const { category, maximum, theme } = req.body;
+  // Input is pre-validated by middleware (theme is whitelisted)
+  const {
+    maximum,
+    theme,
+    period,
+    periodAnchor,
+    rolloverMode,
+    rolloverCap,
+    rolloverSince,
+    alertThresholds,
+  } = req.body;
+  const category = await resolveCategory(userId!, req.body.category);
 
   // Check if category already has a budget
   const existing = await Budget.findOne({ userId, category });
@@ -199,6 +203,15 @@ export const createBudget = catchErrors(async (req: Request, res: Response) => {
     category,
     maximum,
     theme,
+    period,
+    periodAnchor,
+    rolloverMode,
+    rolloverCap,
+    rolloverSince: getRolloverStart(
+      { period, periodAnchor, rolloverMode },
+      rolloverSince ?? new Date()
+    ),
+    alertThresholds,
   });
   
   res.status(HTTP_STATUS.CREATED).json({
@@ -215,7 +228,53 @@ export const createBudget = catchErrors(async (req: Request, res: Response) => {
 export const updateBudget = catchErrors(async (req: Request, res: Response) => {
   const userId = req.userId;
   const { id } = req.params;
-  const { category, maximum, theme } = req.body;
+  const {
+    maximum,
+    theme,
+    period,
+    periodAnchor,
+    rolloverMode,
+    rolloverCap,
+    rolloverSince,
+    alertThresholds,
+  } = req.body;
+
+  // Keeping an archived category is fine, switching to one isn't
+  let category: string | undefined;
+  if (req.body.category) {
+    const existing = await Budget.findOne({ _id: id, userId }).select('category').lean();
+    category = await resolveCategory(userId!, req.body.category, existing?.category);
+  }
+  
+  // A new period, rollover mode or start replays the rollover from the
+  // given period - by default the one the budget was created in
+  let rollover = {};
+  if (period || periodAnchor !== undefined || rolloverMode || rolloverSince) {
+    const existing = await Budget.findOne({ _id: id, userId }).lean();
+    if (existing) {
+      const current: RolloverSettings = {
+        period: existing.period ?? 'monthly',
+        periodAnchor: existing.periodAnchor ?? null,
+        rolloverMode: existing.rolloverMode ?? 'none',
+      };
+      const next: RolloverSettings = {
+        period: period ?? current.period,
+        periodAnchor: periodAnchor !== undefined ? periodAnchor : current.periodAnchor,
+        rolloverMode: rolloverMode ?? current.rolloverMode,
+      };
+      if (
+        rolloverSince ||
+        next.period !== current.period ||
+        !isSameDate(next.periodAnchor, current.periodAnchor) ||
+        next.rolloverMode !== current.rolloverMode
+      ) {
+        rollover = {
+          ...next,
+          rolloverSince: getRolloverStart(next, rolloverSince ?? existing.createdAt),
+        };
+      }
+    }
+  }
   
   const budget = await Budget.findOneAndUpdate(
     { _id: id, userId },
@@ -223,6 +282,9 @@ export const updateBudget = catchErrors(async (req: Request, res: Response) => {
       ...(category && { category }),
       ...(maximum && { maximum }),
       ...(theme && { theme }),
+      ...rollover,
+      ...(rolloverCap !== undefined && { rolloverCap }),  // null removes the cap
+      ...(alertThresholds && { alertThresholds }),  // [] turns alerts off
     },
     { new: true, runValidators: true }
   );
@@ -0,0 +1,180 @@
+/**
+ * Category Controller
+ *
+ * SECURITY: Input validation handled by middleware.
+ *
+ * Categories are per user and nested (see services/category.service.ts).
+ * Renaming or merging a category re-tags the transactions, budgets, bills
+ * and saved views that use it; archiving only hides it from the pickers.
+ */
+
+import { Request, Response } from 'express';
+import { catchErrors } from '../utils/catchErrors.js';
+import { HTTP_STATUS } from '../constants/http.js';
+import type { CategoryStatus } from '../models/index.js';
+import * as categoryService from '../services/category.service.js';
+
+// Note: Input validation is handled by middleware/validation.ts
+
+// =============================================================================
+// GET ALL CATEGORIES
+// =============================================================================
+
+/**
+ * Get Categories (parents first, each with its depth)
+ *
+ * GET /api/categories?status=active|archived
+ */
+export const getCategories = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId!;
+  const { status } = (req as Request & { validatedQuery: unknown }).validatedQuery as {
+    status?: CategoryStatus;
+  };
+
+  const categories = await categoryService.listCategories(userId, status);
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    data: { categories },
+  });
+});
+
+// =============================================================================
+// SPENDING PER CATEGORY
+// =============================================================================
+
+/**
+ * Get Income and Expenses per Category (parents include their subcategories)
+ *
+ * GET /api/categories/spending?from=&to=
+ * Defaults to the current month.
+ */
+export const getCategorySpending = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId!;
+  const query = (req as Request & { validatedQuery: unknown }).validatedQuery as {
+    from?: string;
+    to?: string;
+  };
+
+  const now = new Date();
+  const from = query.from
+    ? new Date(query.from)
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const to = query.to
+    ? new Date(query.to)
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1) - 1);
+
+  const categories = await categoryService.getCategorySpending(userId, from, to);
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    data: { from, to, categories },
+  });
+});
+
+// =============================================================================
+// CREATE CATEGORY
+// =============================================================================
+
+export const createCategory = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId!;
+  const { name, parentId } = req.body;
+
+  const category = await categoryService.createCategory(userId, { name, parentId });
+
+  res.status(HTTP_STATUS.CREATED).json({
+    success: true,
+    message: 'Category created successfully',
+    data: { category },
+  });
+});
+
+// =============================================================================
+// UPDATE CATEGORY
+// =============================================================================
+
+/**
+ * Rename and/or move a category
+ *
+ * PUT /api/categories/:id
+ *
+ * A rename re-tags everything that used the old name.
+ */
+export const updateCategory = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId!;
+  const { id } = req.params as { id: string };
+  const { name, parentId } = req.body;
+
+  const { category, retagged } = await categoryService.updateCategory(userId, id, { name, parentId });
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    message: 'Category updated successfully',
+    data: { category, retagged },
+  });
+});
+
+// =============================================================================
+// MERGE CATEGORY
+// =============================================================================
+
+/**
+ * Merge a category into another one
+ *
+ * POST /api/categories/:id/merge { targetId }
+ *
+ * The category is removed. When both had a budget, the target's is kept.
+ */
+export const mergeCategory = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId!;
+  const { id } = req.params as { id: string };
+  const { targetId } = req.body;
+
+  const { category, retagged } = await categoryService.mergeCategory(userId, id, targetId);
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    message: `Merged into ${category.name}`,
+    data: { category, retagged },
+  });
+});
+
+// =============================================================================
+// ARCHIVE / RESTORE CATEGORY
+// =============================================================================
+
+/**
+ * Archive a category and its subcategories
+ *
+ * POST /api/categories/:id/archive
+ */
+export const archiveCategory = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId!;
+  const { id } = req.params as { id: string };
+
+  const category = await categoryService.archiveCategory(userId, id);
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    message: 'Category archived',
+    data: { category },
+  });
+});
+
+/**
+ * Restore an archived category and its subcategories
+ *
+ * POST /api/categories/:id/restore
+ */
+export const restoreCategory = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId!;
+  const { id } = req.params as { id: string };
+
+  const category = await categoryService.restoreCategory(userId, id);
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    message: 'Category restored',
+    data: { category },
+  });
+});
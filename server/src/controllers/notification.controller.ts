@@ -0,0 +1,124 @@
+/**
+ * Notification Controller
+ *
+ * SECURITY: Input validation handled by middleware.
+ *
+ * Notifications are created by the server (see services/notification.service.ts);
+ * users can only list them, mark them as read and dismiss them.
+ * Dismissed notifications are hidden but kept.
+ */
+
+import { Request, Response } from 'express';
+import { Notification } from '../models/index.js';
+import { catchErrors } from '../utils/catchErrors.js';
+import { AppError } from '../utils/AppError.js';
+import { HTTP_STATUS } from '../constants/http.js';
+
+// Note: Input validation is handled by middleware/validation.ts
+
+// =============================================================================
+// GET NOTIFICATIONS
+// =============================================================================
+
+/**
+ * Get Notifications (newest first) and the unread count
+ *
+ * GET /api/notifications
+ */
+export const getNotifications = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { unread, limit } = (req as Request & { validatedQuery: unknown }).validatedQuery as {
+    unread: boolean;
+    limit: number;
+  };
+
+  const visible = { userId, dismissedAt: null };
+  const [notifications, unreadCount] = await Promise.all([
+    Notification.find({ ...visible, ...(unread && { readAt: null }) })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .lean(),
+    Notification.countDocuments({ ...visible, readAt: null }),
+  ]);
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    data: { notifications, unreadCount },
+  });
+});
+
+// =============================================================================
+// MARK AS READ
+// =============================================================================
+
+export const markNotificationRead = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { id } = req.params as { id: string };
+
+  const notification = await Notification.findOne({ _id: id, userId, dismissedAt: null });
+
+  if (!notification) {
+    throw new AppError('Notification not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+  }
+
+  // Keep the time it was first read
+  if (!notification.readAt) {
+    notification.readAt = new Date();
+    await notification.save();
+  }
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    data: { notification },
+  });
+});
+
+/**
+ * Mark every unread notification as read
+ *
+ * POST /api/notifications/read-all
+ */
+export const markAllNotificationsRead = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+
+  const result = await Notification.updateMany(
+    { userId, dismissedAt: null, readAt: null },
+    { readAt: new Date() }
+  );
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    message: 'Notifications marked as read',
+    data: { updated: result.modifiedCount },
+  });
+});
+
+// =============================================================================
+// DISMISS
+// =============================================================================
+
+/**
+ * Dismiss a notification (hidden from the list, counts as read)
+ *
+ * POST /api/notifications/:id/dismiss
+ */
+export const dismissNotification = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { id } = req.params as { id: string };
+
+  const notification = await Notification.findOne({ _id: id, userId, dismissedAt: null });
+
+  if (!notification) {
+    throw new AppError('Notification not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+  }
+
+  const now = new Date();
+  notification.dismissedAt = now;
+  notification.readAt = notification.readAt ?? now;
+  await notification.save();
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    message: 'Notification dismissed',
+  });
+});
@@ -4,35 +4,21 @@
  * CONCEPT: Overview aggregates data from all resources.
  * 
  * Returns:
- * - Balance (current, income, expenses)
- * - Pots summary (total saved, count)
+ * - Balance (current, income, expenses) from the ledger
+ * - Pots summary (total saved, first pots with progress)
  * - Budgets summary
  * - Recent transactions
  * - Recurring bills summary
  */
 
 import { Request, Response } from 'express';
-import { Transaction, Budget, Pot } from '../models/index.js';
+import { Transaction, Budget, Pot, Bill } from '../models/index.js';
 import { catchErrors } from '../utils/catchErrors.js';
 import { HTTP_STATUS } from '../constants/http.js';
-
-/**
- * Get current month date range in UTC
- * Returns start and end of current month dynamically
- * Uses UTC to ensure consistent date handling across timezones
- */
-function getCurrentMonthRange() {
-  const now = new Date();
-  const year = now.getUTCFullYear();
-  const month = now.getUTCMonth();
-  
-  // Start of month: 1st day at midnight UTC
-  const start = new Date(Date.UTC(year, month, 1, 0, 0, 0, 0));
-  // End of month: last day at 23:59:59.999 UTC
-  const end = new Date(Date.UTC(year, month + 1, 0, 23, 59, 59, 999));
-  
-  return { start, end };
-}
+import { withBillStatus, summarizeBills } from '../services/bill.service.js';
+import * as ledgerService from '../services/ledger.service.js';
+import { withPotProgress } from '../services/pot.service.js';
+import { withBudgetStatus } from '../services/budget.service.js';
 
 // =============================================================================
 // GET OVERVIEW
@@ -41,109 +27,50 @@ function getCurrentMonthRange() {
 export const getOverview = catchErrors(async (req: Request, res: Response) => {
   const userId = req.userId;
   
-  // Get current month range for all calculations (using UTC)
-  const { start: CURRENT_MONTH_START, end: CURRENT_MONTH_END } = getCurrentMonthRange();
-  const currentDate = new Date().getUTCDate();
-  
-  // Calculate income and expenses from transactions
-  // IMPORTANT: Exclude template transactions (bill templates that haven't been paid)
-  const [incomeResult, expenseResult] = await Promise.all([
-    // Sum of positive amounts (income)
-    Transaction.aggregate([
-      { $match: { userId, amount: { $gt: 0 }, isTemplate: { $ne: true } } },
-      { $group: { _id: null, total: { $sum: '$amount' } } },
-    ]),
-    // Sum of negative amounts (expenses) - we'll take absolute value
-    // Exclude templates - they don't affect balance until paid
-    Transaction.aggregate([
-      { $match: { userId, amount: { $lt: 0 }, isTemplate: { $ne: true } } },
-      { $group: { _id: null, total: { $sum: '$amount' } } },
-    ]),
+  // Independent reads run in parallel
+  const [ledger, pots, budgets, recentTransactions, bills] = await Promise.all([
+    // Balance, income and expenses from the ledger (templates excluded)
+    ledgerService.getLedgerBalance(userId!),
+    Pot.find({ userId }).lean(),
+    Budget.find({ userId }).lean(),
+    // Get recent transactions (latest 5)
+    // Exclude template transactions (bill templates)
+    Transaction.find({ userId, isTemplate: { $ne: true } })
+      .sort({ date: -1 })
+      .limit(5)
+      .lean(),
+    Bill.find({ userId }).lean(),
   ]);
   
-  const income = incomeResult.length > 0 ? incomeResult[0].total : 0;
-  const expenses = expenseResult.length > 0 ? Math.abs(expenseResult[0].total) : 0;
-  
   // Get pots summary
-  const pots = await Pot.find({ userId }).lean();
+  // Total saved counts archived pots too (their money is still set aside),
+  // but only pots that aren't archived are listed
   const totalSaved = pots.reduce((sum, pot) => sum + pot.total, 0);
+  const visiblePots = pots.filter((pot) => pot.status !== 'archived');
+  
+  // Budgets with spent amounts for their current period (one aggregation for
+  // all budgets, templates excluded, carried over amounts included), pot
+  // progress and bill status
+  const [potItems, budgetsWithSpent, billsWithStatus] = await Promise.all([
+    withPotProgress(userId!, visiblePots.slice(0, 4)),
+    withBudgetStatus(userId!, budgets),
+    withBillStatus(userId!, bills),
+  ]);
   
-  // Get budgets with spent amounts
-  // Exclude template transactions from budget spent calculation
-  const budgets = await Budget.find({ userId }).lean();
-  const budgetsWithSpent = await Promise.all(
-    budgets.map(async (budget) => {
-      const spentResult = await Transaction.aggregate([
-        {
-          $match: {
-            userId,
-            category: budget.category,
-            amount: { $lt: 0 },
-            date: { $gte: CURRENT_MONTH_START, $lte: CURRENT_MONTH_END },
-            isTemplate: { $ne: true },
-          },
-        },
-        { $group: { _id: null, total: { $sum: '$amount' } } },
-      ]);
-      const spent = spentResult.length > 0 ? Math.abs(spentResult[0].total) : 0;
-      return { ...budget, spent };
-    })
-  );
-  
-  // Get recent transactions (latest 5)
-  // Exclude template transactions (bill templates)
-  const recentTransactions = await Transaction.find({ userId, isTemplate: { $ne: true } })
-    .sort({ date: -1 })
-    .limit(5)
-    .lean();
-  
-  // Get recurring bills summary
-  const recurringBills = await Transaction.find({ 
-    userId, 
-    recurring: true,
-    amount: { $lt: 0 },  // Only expenses
-  }).lean();
-  
-  // Deduplicate by name (one per vendor)
-  const uniqueBills = Array.from(
-    new Map(recurringBills.map((bill) => [bill.name, bill])).values()
-  );
-  
-  // Calculate bills summary for current month
-  const paidBills = uniqueBills.filter((bill) => {
-    const billDate = new Date(bill.date);
-    return billDate >= CURRENT_MONTH_START && billDate <= CURRENT_MONTH_END;
-  });
-  
-  // Unpaid bills (not paid this month)
-  const unpaidBills = uniqueBills.filter((bill) => {
-    const billDate = new Date(bill.date);
-    return !(billDate >= CURRENT_MONTH_START && billDate <= CURRENT_MONTH_END);
-  });
-  
-  // Due soon = within 5 days from today (using UTC for consistency)
-  const dueSoonBills = unpaidBills.filter((bill) => {
-    const dayOfMonth = new Date(bill.date).getUTCDate();
-    return dayOfMonth > currentDate && dayOfMonth <= currentDate + 5;
-  });
-  
-  const totalBillsAmount = unpaidBills.reduce((sum, bill) => sum + Math.abs(bill.amount), 0);
-  const paidBillsAmount = paidBills.reduce((sum, bill) => sum + Math.abs(bill.amount), 0);
-  
-  // Calculate current balance dynamically (income - expenses)
-  const currentBalance = income - expenses;
+  // Get recurring bills summary (status calculated by the bill service)
+  const billsSummary = summarizeBills(billsWithStatus);
   
   res.status(HTTP_STATUS.OK).json({
     success: true,
     data: {
       balance: {
-        current: currentBalance,
-        income,
-        expenses,
+        current: ledger.balance,
+        income: ledger.income,
+        expenses: ledger.expenses,
       },
       pots: {
         totalSaved,
-        items: pots.slice(0, 4),  // Show first 4 pots
+        items: potItems,  // First 4 pots
       },
       budgets: {
         items: budgetsWithSpent,
@@ -151,23 +78,7 @@ export const getOverview = catchErrors(async (req: Request, res: Response) => {
       transactions: {
         recent: recentTransactions,
       },
-      recurringBills: {
-        // Total shows only UNPAID bills
-        total: unpaidBills.length,
-        totalAmount: totalBillsAmount,
-        paid: {
-          count: paidBills.length,
-          amount: paidBillsAmount,
-        },
-        upcoming: {
-          count: unpaidBills.length,
-          amount: totalBillsAmount,
-        },
-        dueSoon: {
-          count: dueSoonBills.length,
-          amount: dueSoonBills.reduce((sum, bill) => sum + Math.abs(bill.amount), 0),
-        },
-      },
+      recurringBills: billsSummary,
     },
   });
 });
@@ -179,31 +90,70 @@ export const getOverview = catchErrors(async (req: Request, res: Response) => {
 export const getBalance = catchErrors(async (req: Request, res: Response) => {
   const userId = req.userId;
   
-  // Calculate from transactions
-  // Exclude template transactions (bill templates that haven't been paid)
-  const [incomeResult, expenseResult] = await Promise.all([
-    Transaction.aggregate([
-      { $match: { userId, amount: { $gt: 0 }, isTemplate: { $ne: true } } },
-      { $group: { _id: null, total: { $sum: '$amount' } } },
-    ]),
-    Transaction.aggregate([
-      { $match: { userId, amount: { $lt: 0 }, isTemplate: { $ne: true } } },
-      { $group: { _id: null, total: { $sum: '$amount' } } },
-    ]),
-  ]);
-  
-  const income = incomeResult.length > 0 ? incomeResult[0].total : 0;
-  const expenses = expenseResult.length > 0 ? Math.abs(expenseResult[0].total) : 0;
-  
-  // Calculate current balance dynamically (income - expenses)
-  const currentBalance = income - expenses;
+  // Calculated from the ledger (opening balance + transactions - pots)
+  const ledger = await ledgerService.getLedgerBalance(userId!);
   
   res.status(HTTP_STATUS.OK).json({
     success: true,
     data: {
-      currentBalance,
-      income,
-      expenses,
+      currentBalance: ledger.balance,
+      income: ledger.income,
+      expenses: ledger.expenses,
+      openingBalance: ledger.openingBalance,
+      pots: ledger.pots,
     },
   });
 });
+
+// =============================================================================
+// BALANCE CONSISTENCY
+// =============================================================================
+
+/**
+ * Check Balance
+ *
+ * GET /api/overview/balance/check
+ * Reports drift between the stored balance and the ledger.
+ */
+export const checkBalance = catchErrors(async (req: Request, res: Response) => {
+  const check = await ledgerService.checkBalance(req.userId!);
+  
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    data: check,
+  });
+});
+
+/**
+ * Reconcile Balance
+ *
+ * POST /api/overview/balance/reconcile
+ * Sets the stored balance back to the ledger balance.
+ */
+export const reconcileBalance = catchErrors(async (req: Request, res: Response) => {
+  const result = await ledgerService.reconcileBalance(req.userId!);
+  
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    message: result.corrected === 0 ? 'Balance is already consistent' : 'Balance reconciled',
+    data: result,
+  });
+});
+
+/**
+ * Update Opening Balance
+ *
+ * PUT /api/overview/balance/opening
+ *
+ * SECURITY: Input is pre-validated by middleware
+ */
+export const updateOpeningBalance = catchErrors(async (req: Request, res: Response) => {
+  const { openingBalance } = req.body;
+  const ledger = await ledgerService.setOpeningBalance(req.userId!, openingBalance);
+  
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    message: 'Opening balance updated successfully',
+    data: { currentBalance: ledger.balance, openingBalance: ledger.openingBalance },
+  });
+});
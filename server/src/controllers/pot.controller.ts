@@ -7,13 +7,21 @@
  * - Deposit: Takes money FROM balance, adds to pot
  * - Withdraw: Takes money FROM pot, adds to balance
  * - Delete: Returns ALL pot money back to balance
+ * - Transfer: Moves money between two pots, balance unchanged
+ *
+ * Lifecycle: Pots can be completed, archived and restored instead of
+ * deleted. Archived pots keep their money and history but are only
+ * listed with ?status=archived (or all).
+ *
+ * Money movements run in MongoDB transactions (see services/pot.service.ts).
  */
 
 import { Request, Response } from 'express';
-import { Pot, User } from '../models/index.js';
+import { Pot, type PotStatus } from '../models/index.js';
 import { catchErrors } from '../utils/catchErrors.js';
 import { AppError } from '../utils/AppError.js';
 import { HTTP_STATUS } from '../constants/http.js';
+import * as potService from '../services/pot.service.js';
 
 // Note: Input validation is handled by middleware/validation.ts
 
@@ -23,15 +31,25 @@ import { HTTP_STATUS } from '../constants/http.js';
 
 export const getPots = catchErrors(async (req: Request, res: Response) => {
   const userId = req.userId;
+  // Query params are pre-validated by middleware and stored in validatedQuery
+  const { status } = (req as Request & { validatedQuery: unknown }).validatedQuery as {
+    status?: PotStatus | 'all';
+  };
+  
+  // Pots from before lifecycles have no status field - they're active
+  let statusFilter = {};
+  if (!status) {
+    statusFilter = { status: { $ne: 'archived' } };
+  } else if (status === 'active') {
+    statusFilter = { status: { $nin: ['completed', 'archived'] } };
+  } else if (status !== 'all') {
+    statusFilter = { status };
+  }
   
-  const pots = await Pot.find({ userId }).lean();
+  const pots = await Pot.find({ userId, ...statusFilter }).lean();
   
-  // Calculate percentage for each pot
-  const enrichedPots = pots.map((pot) => ({
-    ...pot,
-    percentage: pot.target > 0 ? (pot.total / pot.target) * 100 : 0,
-    remaining: pot.target - pot.total,
-  }));
+  // Percentage, required contributions and projection for each pot
+  const enrichedPots = await potService.withPotProgress(userId!, pots);
   
   res.status(HTTP_STATUS.OK).json({
     success: true,
@@ -53,14 +71,36 @@ export const getPot = catchErrors(async (req: Request, res: Response) => {
     throw new AppError('Pot not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
   }
   
+  const [enrichedPot] = await potService.withPotProgress(userId!, [pot]);
+  
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    data: { pot: enrichedPot },
+  });
+});
+
+// =============================================================================
+// GET POT HISTORY
+// =============================================================================
+
+/**
+ * Get Pot History
+ *
+ * GET /api/pots/:id/history
+ * Deposits and withdrawals (oldest first) with the pot total after each one.
+ */
+export const getPotHistory = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { id } = req.params as { id: string }; // Validated by idParamSchema
+
+  const { pot, movements } = await potService.getPotHistory(userId!, id);
+
   res.status(HTTP_STATUS.OK).json({
     success: true,
     data: {
-      pot: {
-        ...pot,
-        percentage: pot.target > 0 ? (pot.total / pot.target) * 100 : 0,
-        remaining: pot.target - pot.total,
-      },
+      potId: pot._id,
+      total: pot.total,
+      movements,
     },
   });
 });
@@ -77,7 +117,7 @@ export const getPot = catchErrors(async (req: Request, res: Response) => {
 export const createPot = catchErrors(async (req: Request, res: Response) => {
   const userId = req.userId;
   // Input is pre-validated by middleware (name sanitized, theme whitelisted)
-  const { name, target, theme } = req.body;
+  const { name, target, theme, targetDate } = req.body;
 
   // Create pot (starts with 0 total)
   const pot = await Pot.create({
@@ -85,6 +125,7 @@ export const createPot = catchErrors(async (req: Request, res: Response) => {
     name,
     target,
     theme,
+    targetDate: targetDate ?? null,
     total: 0,
   });
   
@@ -102,7 +143,7 @@ export const createPot = catchErrors(async (req: Request, res: Response) => {
 export const updatePot = catchErrors(async (req: Request, res: Response) => {
   const userId = req.userId;
   const { id } = req.params;
-  const { name, target, theme } = req.body;
+  const { name, target, theme, targetDate } = req.body;
   
   const pot = await Pot.findOneAndUpdate(
     { _id: id, userId },
@@ -110,6 +151,7 @@ export const updatePot = catchErrors(async (req: Request, res: Response) => {
       ...(name && { name }),
       ...(target && { target }),
       ...(theme && { theme }),
+      ...(targetDate !== undefined && { targetDate }), // null removes the target date
     },
     { new: true, runValidators: true }
   );
@@ -136,23 +178,10 @@ export const updatePot = catchErrors(async (req: Request, res: Response) => {
  */
 export const deletePot = catchErrors(async (req: Request, res: Response) => {
   const userId = req.userId;
-  const { id } = req.params;
-  
-  const pot = await Pot.findOne({ _id: id, userId });
-  
-  if (!pot) {
-    throw new AppError('Pot not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
-  }
-  
-  // Return pot money to user's balance
-  if (pot.total > 0) {
-    await User.findByIdAndUpdate(userId, {
-      $inc: { balance: pot.total },  // Add pot total to balance
-    });
-  }
+  const { id } = req.params as { id: string }; // Validated by idParamSchema
   
-  // Delete the pot
-  await pot.deleteOne();
+  // Delete and refund together (one MongoDB transaction)
+  await potService.deletePot(userId!, id);
   
   res.status(HTTP_STATUS.OK).json({
     success: true,
@@ -172,52 +201,19 @@ export const deletePot = catchErrors(async (req: Request, res: Response) => {
  */
 export const depositToPot = catchErrors(async (req: Request, res: Response) => {
   const userId = req.userId;
-  const { id } = req.params;
+  const { id } = req.params as { id: string }; // Validated by idParamSchema
+  // Amount is pre-validated by middleware
   const { amount } = req.body;
   
-  // Validation
-  if (!amount || amount <= 0) {
-    throw new AppError(
-      'Amount must be a positive number',
-      HTTP_STATUS.BAD_REQUEST,
-      'VALIDATION_ERROR'
-    );
-  }
-  
-  // Check user has enough balance
-  const user = await User.findById(userId);
-  if (!user) {
-    throw new AppError('User not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
-  }
-  
-  if (user.balance < amount) {
-    throw new AppError(
-      'Insufficient balance',
-      HTTP_STATUS.BAD_REQUEST,
-      'INSUFFICIENT_BALANCE'
-    );
-  }
-  
-  // Find pot
-  const pot = await Pot.findOne({ _id: id, userId });
-  if (!pot) {
-    throw new AppError('Pot not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
-  }
-  
-  // Update pot total
-  pot.total += amount;
-  await pot.save();
-  
-  // Decrease user balance
-  user.balance -= amount;
-  await user.save();
+  // Balance check, balance debit and pot credit commit together
+  const { pot, newBalance } = await potService.depositToPot(userId!, id, amount);
   
   res.status(HTTP_STATUS.OK).json({
     success: true,
     message: 'Deposit successful',
     data: {
       pot,
-      newBalance: user.balance,
+      newBalance,
     },
   });
 });
@@ -236,42 +232,108 @@ export const depositToPot = catchErrors(async (req: Request, res: Response) => {
  */
 export const withdrawFromPot = catchErrors(async (req: Request, res: Response) => {
   const userId = req.userId;
-  const { id } = req.params;
+  const { id } = req.params as { id: string }; // Validated by idParamSchema
   // Amount is pre-validated by middleware
   const { amount } = req.body;
 
-  // Find pot
-  const pot = await Pot.findOne({ _id: id, userId });
-  if (!pot) {
-    throw new AppError('Pot not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
-  }
-  
-  // Check pot has enough money
-  if (pot.total < amount) {
-    throw new AppError(
-      'Insufficient pot balance',
-      HTTP_STATUS.BAD_REQUEST,
-      'INSUFFICIENT_POT_BALANCE'
-    );
-  }
-  
-  // Update pot total
-  pot.total -= amount;
-  await pot.save();
-  
-  // Increase user balance
-  const user = await User.findByIdAndUpdate(
-    userId,
-    { $inc: { balance: amount } },
-    { new: true }
-  );
+  // Pot check, pot debit and balance credit commit together
+  const { pot, newBalance } = await potService.withdrawFromPot(userId!, id, amount);
   
   res.status(HTTP_STATUS.OK).json({
     success: true,
     message: 'Withdrawal successful',
     data: {
       pot,
-      newBalance: user?.balance || 0,
+      newBalance,
     },
   });
 });
+
+// =============================================================================
+// TRANSFER BETWEEN POTS
+// =============================================================================
+
+/**
+ * Transfer Between Pots
+ *
+ * Takes money FROM this pot and adds it TO another pot.
+ * The balance doesn't change.
+ *
+ * SECURITY: Destination ID and amount are pre-validated by middleware
+ */
+export const transferBetweenPots = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { id } = req.params as { id: string }; // Validated by idParamSchema
+  const { toPotId, amount } = req.body;
+
+  // Both pot updates commit together
+  const { from, to } = await potService.transferBetweenPots(userId!, id, toPotId, amount);
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    message: 'Transfer successful',
+    data: { from, to },
+  });
+});
+
+// =============================================================================
+// LIFECYCLE
+// =============================================================================
+
+/**
+ * Complete Pot
+ *
+ * POST /api/pots/:id/complete
+ * Marks a pot that reached its target as completed, optionally locking deposits.
+ */
+export const completePot = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { id } = req.params as { id: string }; // Validated by idParamSchema
+  const { lockDeposits } = req.body;
+
+  const pot = await potService.completePot(userId!, id, lockDeposits);
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    message: 'Pot completed',
+    data: { pot },
+  });
+});
+
+/**
+ * Archive Pot
+ *
+ * POST /api/pots/:id/archive
+ * Hides the pot from lists; its money and history are kept.
+ */
+export const archivePot = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { id } = req.params as { id: string }; // Validated by idParamSchema
+
+  const pot = await potService.archivePot(userId!, id);
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    message: 'Pot archived',
+    data: { pot },
+  });
+});
+
+/**
+ * Restore Pot
+ *
+ * POST /api/pots/:id/restore
+ * Makes a completed or archived pot active again.
+ */
+export const restorePot = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { id } = req.params as { id: string }; // Validated by idParamSchema
+
+  const pot = await potService.restorePot(userId!, id);
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    message: 'Pot restored',
+    data: { pot },
+  });
+});
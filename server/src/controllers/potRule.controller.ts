@@ -0,0 +1,169 @@
+/**
+ * Pot Rule Controller
+ *
+ * SECURITY: Input validation handled by middleware.
+ *
+ * CRUD for a pot's automatic savings rules. The rules themselves are
+ * applied by the rule engine (services/potRule.service.ts).
+ *
+ * Re-enabling a rule or changing its schedule starts it afresh: transfers
+ * and transactions from before that moment are never applied.
+ */
+
+import { Request, Response } from 'express';
+import { Pot, PotRule, type IPotRule } from '../models/index.js';
+import { catchErrors } from '../utils/catchErrors.js';
+import { AppError } from '../utils/AppError.js';
+import { HTTP_STATUS } from '../constants/http.js';
+
+// Note: Input validation is handled by middleware/validation.ts
+
+// Limit rules per pot (prevents unbounded storage)
+const MAX_RULES_PER_POT = 5;
+
+// Fields each rule type accepts in updates (besides `enabled`)
+const RULE_FIELDS: Record<IPotRule['type'], string[]> = {
+  scheduled: ['amount', 'frequency', 'interval', 'anchorDate', 'endDate'],
+  round_up: [],
+  income_percentage: ['percentage'],
+};
+
+// Changing any of these moves the schedule
+const SCHEDULE_FIELDS = ['frequency', 'interval', 'anchorDate'];
+
+/**
+ * Throw NOT_FOUND unless the pot exists and belongs to the user
+ */
+async function assertOwnPot(userId: Request['userId'], potId: string): Promise<void> {
+  const exists = await Pot.exists({ _id: potId, userId });
+  if (!exists) {
+    throw new AppError('Pot not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+  }
+}
+
+// =============================================================================
+// GET POT RULES
+// =============================================================================
+
+export const getPotRules = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { id } = req.params as { id: string }; // Validated by idParamSchema
+
+  await assertOwnPot(userId, id);
+  const rules = await PotRule.find({ userId, potId: id }).sort({ createdAt: 1 }).lean();
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    data: { rules },
+  });
+});
+
+// =============================================================================
+// CREATE POT RULE
+// =============================================================================
+
+/**
+ * Create Pot Rule
+ *
+ * SECURITY: Input is pre-validated by middleware (fields depend on the type)
+ */
+export const createPotRule = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { id } = req.params as { id: string }; // Validated by idParamSchema
+
+  await assertOwnPot(userId, id);
+
+  const count = await PotRule.countDocuments({ userId, potId: id });
+  if (count >= MAX_RULES_PER_POT) {
+    throw new AppError(
+      `A pot can have at most ${MAX_RULES_PER_POT} rules`,
+      HTTP_STATUS.BAD_REQUEST,
+      'RULE_LIMIT_REACHED'
+    );
+  }
+
+  const rule = await PotRule.create({
+    ...req.body,
+    userId,
+    potId: id,
+    activeSince: new Date(),
+  });
+
+  res.status(HTTP_STATUS.CREATED).json({
+    success: true,
+    message: 'Savings rule created successfully',
+    data: { rule },
+  });
+});
+
+// =============================================================================
+// UPDATE POT RULE
+// =============================================================================
+
+export const updatePotRule = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { id, ruleId } = req.params as { id: string; ruleId: string }; // Validated by potRuleParamSchema
+  const updates = req.body as Partial<IPotRule>;
+
+  const rule = await PotRule.findOne({ _id: ruleId, userId, potId: id });
+  if (!rule) {
+    throw new AppError('Rule not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+  }
+
+  const invalidField = Object.keys(updates).find(
+    (field) => field !== 'enabled' && !RULE_FIELDS[rule.type].includes(field)
+  );
+  if (invalidField) {
+    throw new AppError(
+      `${invalidField} can't be set on a ${rule.type} rule`,
+      HTTP_STATUS.BAD_REQUEST,
+      'INVALID_RULE_FIELD'
+    );
+  }
+
+  const wasEnabled = rule.enabled;
+  rule.set(updates);
+
+  if (rule.endDate && rule.anchorDate && rule.endDate < rule.anchorDate) {
+    throw new AppError(
+      'End date must be on or after the first transfer',
+      HTTP_STATUS.BAD_REQUEST,
+      'VALIDATION_ERROR'
+    );
+  }
+
+  // Start afresh when re-enabled or rescheduled
+  const rescheduled = SCHEDULE_FIELDS.some((field) => field in updates);
+  if ((rule.enabled && !wasEnabled) || rescheduled) {
+    rule.activeSince = new Date();
+    rule.lastRunDate = null;
+  }
+
+  await rule.save();
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    message: 'Savings rule updated successfully',
+    data: { rule },
+  });
+});
+
+// =============================================================================
+// DELETE POT RULE
+// =============================================================================
+
+export const deletePotRule = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { id, ruleId } = req.params as { id: string; ruleId: string }; // Validated by potRuleParamSchema
+
+  // Deposits the rule already made stay in the pot (and its history)
+  const rule = await PotRule.findOneAndDelete({ _id: ruleId, userId, potId: id });
+  if (!rule) {
+    throw new AppError('Rule not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+  }
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    message: 'Savings rule deleted successfully',
+  });
+});
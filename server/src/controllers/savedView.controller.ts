@@ -0,0 +1,149 @@
+/**
+ * Saved View Controller
+ *
+ * SECURITY: Input validation handled by middleware.
+ *
+ * A view is a named set of transaction filters. Applying a view is done
+ * by the client (it passes the filters to GET /api/transactions), so
+ * this controller only stores them.
+ */
+
+import { Request, Response } from 'express';
+import { SavedView } from '../models/index.js';
+import { catchErrors } from '../utils/catchErrors.js';
+import { AppError } from '../utils/AppError.js';
+import { HTTP_STATUS } from '../constants/http.js';
+
+// Note: Input validation is handled by middleware/validation.ts
+
+// Limit views per user (prevents unbounded storage)
+const MAX_VIEWS_PER_USER = 50;
+
+// =============================================================================
+// GET ALL VIEWS
+// =============================================================================
+
+export const getSavedViews = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+
+  const views = await SavedView.find({ userId }).sort({ name: 1 }).lean();
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    data: { views },
+  });
+});
+
+// =============================================================================
+// GET SINGLE VIEW
+// =============================================================================
+
+export const getSavedView = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { id } = req.params;
+
+  const view = await SavedView.findOne({ _id: id, userId }).lean();
+
+  if (!view) {
+    throw new AppError('View not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+  }
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    data: { view },
+  });
+});
+
+// =============================================================================
+// CREATE VIEW
+// =============================================================================
+
+/**
+ * Create Saved View
+ *
+ * SECURITY: Input is pre-validated by middleware (name sanitized, category names format-checked)
+ */
+export const createSavedView = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { name, filters } = req.body;
+
+  // Check if a view with this name already exists
+  const existing = await SavedView.findOne({ userId, name });
+  if (existing) {
+    throw new AppError('A view with this name already exists', HTTP_STATUS.CONFLICT, 'DUPLICATE_ERROR');
+  }
+
+  const count = await SavedView.countDocuments({ userId });
+  if (count >= MAX_VIEWS_PER_USER) {
+    throw new AppError(
+      `You can save at most ${MAX_VIEWS_PER_USER} views`,
+      HTTP_STATUS.BAD_REQUEST,
+      'LIMIT_REACHED'
+    );
+  }
+
+  const view = await SavedView.create({ userId, name, filters });
+
+  res.status(HTTP_STATUS.CREATED).json({
+    success: true,
+    message: 'View saved successfully',
+    data: { view },
+  });
+});
+
+// =============================================================================
+// UPDATE VIEW
+// =============================================================================
+
+export const updateSavedView = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { id } = req.params;
+  const { name, filters } = req.body;
+
+  if (name) {
+    const existing = await SavedView.findOne({ userId, name, _id: { $ne: id } });
+    if (existing) {
+      throw new AppError('A view with this name already exists', HTTP_STATUS.CONFLICT, 'DUPLICATE_ERROR');
+    }
+  }
+
+  const view = await SavedView.findOneAndUpdate(
+    { _id: id, userId },
+    {
+      ...(name && { name }),
+      // Filters are replaced as a whole (a cleared filter must be removed)
+      ...(filters && { filters }),
+    },
+    { new: true, runValidators: true }
+  );
+
+  if (!view) {
+    throw new AppError('View not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+  }
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    message: 'View updated successfully',
+    data: { view },
+  });
+});
+
+// =============================================================================
+// DELETE VIEW
+// =============================================================================
+
+export const deleteSavedView = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { id } = req.params;
+
+  const view = await SavedView.findOneAndDelete({ _id: id, userId });
+
+  if (!view) {
+    throw new AppError('View not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+  }
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    message: 'View deleted successfully',
+  });
+});
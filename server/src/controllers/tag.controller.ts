@@ -0,0 +1,66 @@
+/**
+ * Tag Controller
+ *
+ * SECURITY: Input validation handled by middleware.
+ *
+ * Tags live on transactions (see services/tag.service.ts); these endpoints
+ * only read them.
+ */
+
+import { Request, Response } from 'express';
+import { catchErrors } from '../utils/catchErrors.js';
+import { HTTP_STATUS } from '../constants/http.js';
+import * as tagService from '../services/tag.service.js';
+
+// Note: Input validation is handled by middleware/validation.ts
+
+// =============================================================================
+// GET TAGS
+// =============================================================================
+
+/**
+ * Get the User's Tags (most used first)
+ *
+ * GET /api/tags?search=vac&limit=10
+ * `search` matches the start of a tag - used for autocomplete.
+ */
+export const getTags = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId!;
+  const { search, limit } = (req as Request & { validatedQuery: unknown }).validatedQuery as {
+    search?: string;
+    limit: number;
+  };
+
+  const tags = await tagService.listTags(userId, search, limit);
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    data: { tags },
+  });
+});
+
+// =============================================================================
+// TAG SUMMARY
+// =============================================================================
+
+/**
+ * Get Income and Expenses per Tag
+ *
+ * GET /api/tags/summary?from=&to=&tags=vacation-2026,wedding
+ * Without from/to, covers all transactions.
+ */
+export const getTagSummary = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId!;
+  const query = (req as Request & { validatedQuery: unknown }).validatedQuery as {
+    from?: string;
+    to?: string;
+    tags?: string[];
+  };
+
+  const tags = await tagService.getTagSummary(userId, query);
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    data: { from: query.from ?? null, to: query.to ?? null, tags },
+  });
+});
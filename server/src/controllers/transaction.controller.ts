@@ -15,40 +15,37 @@ import { Transaction } from '../models/index.js';
 import { catchErrors } from '../utils/catchErrors.js';
 import { AppError } from '../utils/AppError.js';
 import { HTTP_STATUS } from '../constants/http.js';
-import { CATEGORIES } from '../constants/categories.js';
-import { escapeRegex } from '../middleware/validation.js';
-
-// =============================================================================
-// TYPES
-// =============================================================================
-
-// Sort options mapping (whitelisted values only)
-const SORT_OPTIONS: Record<string, Record<string, 1 | -1>> = {
-  Latest: { date: -1 },
-  Oldest: { date: 1 },
-  'A to Z': { name: 1 },
-  'Z to A': { name: -1 },
-  Highest: { amount: -1 },
-  Lowest: { amount: 1 },
-};
-
-/**
- * Get current month date range in UTC
- * Returns start and end of current month dynamically
- * Uses UTC to ensure consistent date handling across timezones
- */
-function getCurrentMonthRange() {
-  const now = new Date();
-  const year = now.getUTCFullYear();
-  const month = now.getUTCMonth();
-  
-  // Start of month: 1st day at midnight UTC
-  const start = new Date(Date.UTC(year, month, 1, 0, 0, 0, 0));
-  // End of month: last day at 23:59:59.999 UTC
-  const end = new Date(Date.UTC(year, month + 1, 0, 23, 59, 59, 999));
-  
-  return { start, end };
-}
+import {
+  postTransaction,
+  postTransactions,
+  applyBalanceChange,
+  buildTransactionFilter,
+  resolveSplits,
+  getSplitCategory,
+  TRANSACTION_SORT_OPTIONS,
+  type TransactionFilters,
+} from '../services/transaction.service.js';
+import { streamTransactions, type ExportFormat } from '../services/export.service.js';
+import { checkBudgetAlerts } from '../services/notification.service.js';
+import { listCategories, resolveCategory } from '../services/category.service.js';
+import { loadRules, applyRules } from '../services/transactionRule.service.js';
+import { getCategorySuggestions } from '../services/categorySuggestion.service.js';
+import { FALLBACK_CATEGORY } from '../constants/categories.js';
+import {
+  parseCsvImport,
+  validateImportRows,
+  validateStatementEntries,
+  markDuplicateRows,
+  IMPORT_MAX_ROWS,
+  type ImportMapping,
+} from '../services/import.service.js';
+import {
+  detectStatementFormat,
+  parseOfx,
+  parseQif,
+  type StatementFormat,
+} from '../utils/statement.js';
+import type { DateFormat } from '../utils/csv.js';
 
 // =============================================================================
 // GET ALL TRANSACTIONS
@@ -63,7 +60,8 @@ function getCurrentMonthRange() {
  * - page/limit are bounded to safe ranges
  * - search is sanitized and regex-escaped
  * - sort is whitelisted
- * - category is whitelisted
+ * - categories are matched against the user's categories (a parent
+ *   category includes its subcategories)
  */
 export const getTransactions = catchErrors(async (req: Request, res: Response) => {
   // #region agent log
@@ -72,37 +70,18 @@ export const getTransactions = catchErrors(async (req: Request, res: Response) =
   const userId = req.userId;
 
   // Query params are pre-validated by middleware and stored in validatedQuery
-  const query = (req as Request & { validatedQuery: unknown }).validatedQuery as {
+  const query = (req as Request & { validatedQuery: unknown }).validatedQuery as TransactionFilters & {
     page: number;
     limit: number;
-    search?: string;
     sort: string;
-    filter?: string;
-    category?: string;
   };
-  const { page, limit, search, sort, filter, category } = query;
+  const { page, limit, sort } = query;
 
-  // Build query filter
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const queryFilter: any = { userId };
-
-  // Add search filter with escaped regex (SECURITY: prevents ReDoS)
-  if (search) {
-    queryFilter.name = { $regex: escapeRegex(search), $options: 'i' };
-  }
-
-  // Add category filter (pre-validated by middleware)
-  const categoryValue = filter || category;
-  if (
-    categoryValue &&
-    categoryValue !== 'All Transactions' &&
-    CATEGORIES.includes(categoryValue as (typeof CATEGORIES)[number])
-  ) {
-    queryFilter.category = categoryValue;
-  }
+  // Build query filter (search, category, date and amount ranges, type)
+  const queryFilter = await buildTransactionFilter(userId!, query);
 
   // Get sort configuration (sort value is pre-validated)
-  const sortConfig = SORT_OPTIONS[sort] || SORT_OPTIONS['Latest'];
+  const sortConfig = TRANSACTION_SORT_OPTIONS[sort] || TRANSACTION_SORT_OPTIONS['Latest'];
 
   // Calculate skip for pagination
   const skip = (page - 1) * limit;
@@ -133,6 +112,64 @@ export const getTransactions = catchErrors(async (req: Request, res: Response) =
   });
 });
 
+// =============================================================================
+// EXPORT TRANSACTIONS
+// =============================================================================
+
+/**
+ * Export Transactions
+ *
+ * GET /api/transactions/export?format=csv|json|ofx
+ *
+ * Uses the same filters and sort as GET /api/transactions (plus from/to),
+ * but returns every matching transaction as a file download.
+ * Transactions are streamed from a cursor instead of paginated.
+ */
+export const exportTransactions = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId!;
+  const query = (req as Request & { validatedQuery: unknown }).validatedQuery as TransactionFilters & {
+    sort: string;
+    format: ExportFormat;
+  };
+
+  const sortConfig = TRANSACTION_SORT_OPTIONS[query.sort] || TRANSACTION_SORT_OPTIONS['Latest'];
+  const cursor = Transaction.find(await buildTransactionFilter(userId, query))
+    .sort(sortConfig)
+    .select('name amount category splits tags date recurring')
+    .lean()
+    .cursor();
+
+  await streamTransactions(res, cursor, query.format, {
+    from: query.from ? new Date(query.from) : new Date(0),
+    to: query.to ? new Date(query.to) : new Date(),
+  });
+});
+
+// =============================================================================
+// SUGGEST CATEGORY
+// =============================================================================
+
+/**
+ * Suggest Categories for a Payee
+ *
+ * GET /api/transactions/suggest-category?name=
+ *
+ * Learned from the user's own past transactions with a similar name
+ * (services/categorySuggestion.service.ts). Best suggestion first; empty
+ * when there's no history for the payee.
+ */
+export const suggestCategory = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId!;
+  const { name } = (req as Request & { validatedQuery: unknown }).validatedQuery as { name: string };
+
+  const suggestions = await getCategorySuggestions(userId, name);
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    data: { suggestions },
+  });
+});
+
 // =============================================================================
 // GET SINGLE TRANSACTION
 // =============================================================================
@@ -168,37 +205,41 @@ export const getTransaction = catchErrors(async (req: Request, res: Response) =>
  * POST /api/transactions
  *
  * SECURITY: Input is pre-validated and sanitized by middleware
+ *
+ * Category: the split's largest line, else the one given, else the first
+ * matching rule's, else General. Rules also rename, tag and set the avatar.
  */
 export const createTransaction = catchErrors(async (req: Request, res: Response) => {
   const userId = req.userId;
   // Body is pre-validated by middleware - safe to use directly
-  const { name, amount, category, date, avatar, recurring, isTemplate } = req.body;
+  const { amount, date, recurring, isTemplate } = req.body;
+  const splits = await resolveSplits(userId!, amount, req.body.splits);
+  const explicitCategory = splits.length > 0
+    ? getSplitCategory(splits)
+    : req.body.category && (await resolveCategory(userId!, req.body.category));
 
-  // Create transaction with validated data
-  const transaction = await Transaction.create({
-    userId,
+  const { name, category: ruleCategory, tags, avatar } = applyRules(await loadRules(userId!), {
+    name: req.body.name,
+    amount,
+    category: explicitCategory,
+    tags: req.body.tags,
+    avatar: req.body.avatar,
+  });
+  const category = ruleCategory ?? (await resolveCategory(userId!, FALLBACK_CATEGORY));
+
+  // Create transaction and update balance (templates don't affect balance)
+  const transaction = await postTransaction(userId!, {
     name,
     amount,
     category,
-    date: new Date(date),
-    avatar: avatar || '/assets/images/avatars/default.jpg',
-    recurring: recurring || false,
-    isTemplate: isTemplate || false, // Bill templates don't affect balance
+    splits,
+    tags,
+    date,
+    avatar,
+    recurring,
+    isTemplate,
   });
   
-  // Update user balance (only for transactions in current month)
-  // This ensures historical/future transactions don't immediately affect current balance
-  // IMPORTANT: Templates (bill definitions) do NOT affect balance - only actual payments do
-  const transactionDate = new Date(date);
-  const { start: currentMonthStart, end: currentMonthEnd } = getCurrentMonthRange();
-  
-  if (!isTemplate && transactionDate >= currentMonthStart && transactionDate <= currentMonthEnd) {
-    const { User } = await import('../models/index.js');
-    await User.findByIdAndUpdate(userId, {
-      $inc: { balance: amount }, // Positive for income, negative for expenses
-    });
-  }
-  
   res.status(HTTP_STATUS.CREATED).json({
     success: true,
     message: 'Transaction created successfully',
@@ -206,6 +247,229 @@ export const createTransaction = catchErrors(async (req: Request, res: Response)
   });
 });
 
+// =============================================================================
+// IMPORT TRANSACTIONS (CSV)
+// =============================================================================
+
+/**
+ * Import Transactions from CSV
+ *
+ * POST /api/transactions/import
+ *
+ * Body: Raw CSV text (Content-Type: text/csv)
+ * Options: Query params (pre-validated by middleware)
+ *
+ * Flow:
+ * 1. Without a column mapping: returns headers + sample rows (for mapping)
+ * 2. dryRun=true (default): returns every row with its validation errors
+ * 3. dryRun=false: saves the rows in bulk and adjusts the balance once
+ *
+ * Saving is all-or-nothing unless skipInvalid=true.
+ */
+export const importTransactions = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId!;
+  const options = (req as Request & { validatedQuery: unknown }).validatedQuery as Omit<
+    ImportMapping,
+    'nameColumn' | 'amountColumn' | 'dateColumn'
+  > & {
+    nameColumn?: number;
+    amountColumn?: number;
+    dateColumn?: number;
+    delimiter: string;
+    hasHeader: boolean;
+    dryRun: boolean;
+    skipInvalid: boolean;
+  };
+
+  // Body is only parsed for text/csv requests
+  if (typeof req.body !== 'string' || req.body.trim() === '') {
+    throw new AppError(
+      'Please upload a CSV file (Content-Type: text/csv)',
+      HTTP_STATUS.BAD_REQUEST,
+      'VALIDATION_ERROR'
+    );
+  }
+
+  const parsed = parseCsvImport(req.body, options.delimiter, options.hasHeader);
+
+  if (parsed.rows.length > IMPORT_MAX_ROWS) {
+    throw new AppError(
+      `CSV files can contain at most ${IMPORT_MAX_ROWS} transactions`,
+      HTTP_STATUS.BAD_REQUEST,
+      'TOO_MANY_ROWS'
+    );
+  }
+
+  const { nameColumn, amountColumn, dateColumn } = options;
+  const preview = { headers: parsed.headers, sample: parsed.sample, totalRows: parsed.rows.length };
+
+  // No mapping yet - return what's needed to map columns
+  if (nameColumn === undefined || amountColumn === undefined || dateColumn === undefined) {
+    if (!options.dryRun) {
+      throw new AppError(
+        'Name, amount and date columns are required',
+        HTTP_STATUS.BAD_REQUEST,
+        'VALIDATION_ERROR'
+      );
+    }
+    res.status(HTTP_STATUS.OK).json({ success: true, data: { ...preview, rows: [] } });
+    return;
+  }
+
+  const [defaultCategory, categories, rules] = await Promise.all([
+    resolveCategory(userId, options.defaultCategory),
+    listCategories(userId, 'active'),
+    loadRules(userId),
+  ]);
+  const rows = validateImportRows(
+    parsed,
+    { ...options, nameColumn, amountColumn, dateColumn, defaultCategory },
+    categories.map((category) => category.name),
+    rules
+  );
+  const validRows = rows.filter((row) => row.data);
+  const invalidRows = rows.filter((row) => !row.data);
+
+  if (options.dryRun) {
+    res.status(HTTP_STATUS.OK).json({
+      success: true,
+      data: { ...preview, rows, valid: validRows.length, invalid: invalidRows.length },
+    });
+    return;
+  }
+
+  if (invalidRows.length > 0 && !options.skipInvalid) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({
+      success: false,
+      message: `${invalidRows.length} row(s) failed validation`,
+      code: 'VALIDATION_ERROR',
+      data: { rows: invalidRows },
+    });
+    return;
+  }
+
+  const transactions = await postTransactions(
+    userId,
+    validRows.map((row) => row.data!)
+  );
+
+  res.status(HTTP_STATUS.CREATED).json({
+    success: true,
+    message: `Imported ${transactions.length} transaction(s)`,
+    data: { imported: transactions.length, skipped: invalidRows.length },
+  });
+});
+
+// =============================================================================
+// IMPORT STATEMENT (OFX/QFX, QIF)
+// =============================================================================
+
+/**
+ * Import Transactions from a Bank Statement
+ *
+ * POST /api/transactions/import/statement
+ *
+ * Body: Raw statement file (OFX/QFX or QIF)
+ * Options: Query params (pre-validated by middleware)
+ *
+ * Rows already imported (same FITID, or same content hash for QIF) are
+ * returned as duplicates and never saved again, so overlapping statements
+ * can be imported safely.
+ */
+export const importStatement = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId!;
+  const options = (req as Request & { validatedQuery: unknown }).validatedQuery as {
+    format?: StatementFormat;
+    dateFormat: DateFormat;
+    defaultCategory: string;
+    dryRun: boolean;
+    skipInvalid: boolean;
+  };
+
+  if (typeof req.body !== 'string' || req.body.trim() === '') {
+    throw new AppError('Please upload a statement file', HTTP_STATUS.BAD_REQUEST, 'VALIDATION_ERROR');
+  }
+
+  const format = options.format ?? detectStatementFormat(req.body);
+  if (!format) {
+    throw new AppError(
+      'Unrecognized statement format (expected OFX, QFX or QIF)',
+      HTTP_STATUS.BAD_REQUEST,
+      'UNSUPPORTED_FORMAT'
+    );
+  }
+
+  const entries = format === 'ofx' ? parseOfx(req.body) : parseQif(req.body, options.dateFormat);
+
+  if (entries.length > IMPORT_MAX_ROWS) {
+    throw new AppError(
+      `Statements can contain at most ${IMPORT_MAX_ROWS} transactions`,
+      HTTP_STATUS.BAD_REQUEST,
+      'TOO_MANY_ROWS'
+    );
+  }
+
+  const [defaultCategory, categories, rules] = await Promise.all([
+    resolveCategory(userId, options.defaultCategory),
+    listCategories(userId, 'active'),
+    loadRules(userId),
+  ]);
+  const rows = await markDuplicateRows(
+    userId,
+    validateStatementEntries(
+      entries,
+      defaultCategory,
+      categories.map((category) => category.name),
+      rules
+    )
+  );
+  const newRows = rows.filter((row) => row.data && !row.duplicate);
+  const duplicateRows = rows.filter((row) => row.duplicate);
+  const invalidRows = rows.filter((row) => !row.data);
+
+  if (options.dryRun) {
+    res.status(HTTP_STATUS.OK).json({
+      success: true,
+      data: {
+        format,
+        totalRows: rows.length,
+        rows,
+        valid: newRows.length,
+        duplicates: duplicateRows.length,
+        invalid: invalidRows.length,
+      },
+    });
+    return;
+  }
+
+  if (invalidRows.length > 0 && !options.skipInvalid) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({
+      success: false,
+      message: `${invalidRows.length} row(s) failed validation`,
+      code: 'VALIDATION_ERROR',
+      data: { rows: invalidRows },
+    });
+    return;
+  }
+
+  // Same creation path as createTransaction, balance adjusted once
+  const transactions = await postTransactions(
+    userId,
+    newRows.map((row) => row.data!)
+  );
+
+  res.status(HTTP_STATUS.CREATED).json({
+    success: true,
+    message: `Imported ${transactions.length} transaction(s)`,
+    data: {
+      imported: transactions.length,
+      // Rows inserted concurrently by another import count as duplicates too
+      duplicates: duplicateRows.length + (newRows.length - transactions.length),
+      skipped: invalidRows.length,
+    },
+  });
+});
+
 // =============================================================================
 // UPDATE TRANSACTION
 // =============================================================================
@@ -218,7 +482,7 @@ export const createTransaction = catchErrors(async (req: Request, res: Response)
 export const updateTransaction = catchErrors(async (req: Request, res: Response) => {
   const userId = req.userId;
   const { id } = req.params;
-  const { name, amount, category, date, avatar, recurring } = req.body;
+  const { name, amount, tags, date, avatar, recurring } = req.body;
   
   // Get original transaction first
   const oldTransaction = await Transaction.findOne({ _id: id, userId });
@@ -226,6 +490,30 @@ export const updateTransaction = catchErrors(async (req: Request, res: Response)
   if (!oldTransaction) {
     throw new AppError('Transaction not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
   }
+
+  // Keeping an archived category is fine, switching to one isn't
+  const oldCategories = [
+    oldTransaction.category,
+    ...oldTransaction.splits.map((line) => line.category),
+  ];
+
+  // New split lines ([] removes the split), or the current ones checked
+  // against a new amount
+  const splits = req.body.splits
+    ? await resolveSplits(userId!, amount ?? oldTransaction.amount, req.body.splits, oldCategories)
+    : undefined;
+  if (!splits && amount !== undefined && oldTransaction.splits.length > 0) {
+    await resolveSplits(userId!, amount, oldTransaction.splits, oldCategories);
+  }
+
+  // A split transaction takes the category of its largest line
+  const isSplit = splits ? splits.length > 0 : oldTransaction.splits.length > 0;
+  let category: string | undefined;
+  if (splits && isSplit) {
+    category = getSplitCategory(splits);
+  } else if (req.body.category && !isSplit) {
+    category = await resolveCategory(userId!, req.body.category, oldCategories);
+  }
   
   // Find and update
   const transaction = await Transaction.findOneAndUpdate(
@@ -234,45 +522,28 @@ export const updateTransaction = catchErrors(async (req: Request, res: Response)
       ...(name && { name }),
       ...(amount !== undefined && { amount }),
       ...(category && { category }),
+      ...(splits && { splits }),
+      ...(tags && { tags }),
       ...(date && { date: new Date(date) }),
       ...(avatar && { avatar }),
       ...(recurring !== undefined && { recurring }),
     },
     { new: true, runValidators: true }
   );
-  
-  // Update balance if amount or date changed and affects current month
-  const { start: currentMonthStart, end: currentMonthEnd } = getCurrentMonthRange();
-  
-  const oldDate = oldTransaction.date;
-  const newDate = transaction!.date;
-  const oldAmount = oldTransaction.amount;
-  const newAmount = transaction!.amount;
-  
-  const oldInCurrentMonth = oldDate >= currentMonthStart && oldDate <= currentMonthEnd;
-  const newInCurrentMonth = newDate >= currentMonthStart && newDate <= currentMonthEnd;
-  
-  if (oldInCurrentMonth || newInCurrentMonth) {
-    const { User } = await import('../models/index.js');
-    let balanceChange = 0;
-    
-    // If old was in current month, reverse it
-    if (oldInCurrentMonth) {
-      balanceChange -= oldAmount;
-    }
-    
-    // If new is in current month, apply it
-    if (newInCurrentMonth) {
-      balanceChange += newAmount;
-    }
-    
-    if (balanceChange !== 0) {
-      await User.findByIdAndUpdate(userId, {
-        $inc: { balance: balanceChange },
-      });
-    }
+
+  // Deleted since it was read above
+  if (!transaction) {
+    throw new AppError('Transaction not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
   }
   
+  // Move the balance by the difference (templates don't affect balance)
+  const oldAmount = oldTransaction.isTemplate ? 0 : oldTransaction.amount;
+  const newAmount = transaction.isTemplate ? 0 : transaction.amount;
+  await applyBalanceChange(userId!, Math.round((newAmount - oldAmount) * 100) / 100);
+
+  // A bigger expense or a new category can cross a budget alert
+  await checkBudgetAlerts(userId!, [transaction]);
+  
   res.status(HTTP_STATUS.OK).json({
     success: true,
     message: 'Transaction updated successfully',
@@ -299,15 +570,9 @@ export const deleteTransaction = catchErrors(async (req: Request, res: Response)
     throw new AppError('Transaction not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
   }
   
-  // Update user balance (reverse the transaction if it was in current month)
-  const transactionDate = transaction.date;
-  const { start: currentMonthStart, end: currentMonthEnd } = getCurrentMonthRange();
-  
-  if (transactionDate >= currentMonthStart && transactionDate <= currentMonthEnd) {
-    const { User } = await import('../models/index.js');
-    await User.findByIdAndUpdate(userId, {
-      $inc: { balance: -transaction.amount }, // Reverse the transaction
-    });
+  // Reverse the transaction (templates never affected the balance)
+  if (!transaction.isTemplate) {
+    await applyBalanceChange(userId!, -transaction.amount);
   }
   
   res.status(HTTP_STATUS.OK).json({
@@ -0,0 +1,193 @@
+/**
+ * Transaction Rule Controller
+ *
+ * SECURITY: Input validation handled by middleware.
+ *
+ * CRUD for the user's categorization rules, plus running them over
+ * existing transactions. The rule engine lives in
+ * services/transactionRule.service.ts.
+ */
+
+import { Request, Response } from 'express';
+import { TransactionRule, type ITransactionRule } from '../models/index.js';
+import { catchErrors } from '../utils/catchErrors.js';
+import { AppError } from '../utils/AppError.js';
+import { HTTP_STATUS } from '../constants/http.js';
+import { resolveCategory } from '../services/category.service.js';
+import {
+  assertValidRule,
+  applyRulesToTransactions,
+  MAX_RULES_PER_USER,
+} from '../services/transactionRule.service.js';
+
+// Note: Input validation is handled by middleware/validation.ts
+
+// =============================================================================
+// GET RULES
+// =============================================================================
+
+export const getRules = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+
+  const rules = await TransactionRule.find({ userId }).sort({ priority: 1, createdAt: 1 }).lean();
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    data: { rules },
+  });
+});
+
+// =============================================================================
+// CREATE RULE
+// =============================================================================
+
+/**
+ * Create Rule
+ *
+ * New rules run after the existing ones.
+ *
+ * SECURITY: Input is pre-validated by middleware, the regex is checked here
+ */
+export const createRule = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+
+  const count = await TransactionRule.countDocuments({ userId });
+  if (count >= MAX_RULES_PER_USER) {
+    throw new AppError(
+      `You can have at most ${MAX_RULES_PER_USER} rules`,
+      HTTP_STATUS.BAD_REQUEST,
+      'RULE_LIMIT_REACHED'
+    );
+  }
+
+  await assertValidRule(req.body);
+  const category = req.body.category && (await resolveCategory(userId!, req.body.category));
+
+  const last = await TransactionRule.findOne({ userId }).sort({ priority: -1 }).select('priority').lean();
+
+  const rule = await TransactionRule.create({
+    ...req.body,
+    category,
+    userId,
+    priority: (last?.priority ?? -1) + 1,
+  });
+
+  res.status(HTTP_STATUS.CREATED).json({
+    success: true,
+    message: 'Rule created successfully',
+    data: { rule },
+  });
+});
+
+// =============================================================================
+// REORDER RULES
+// =============================================================================
+
+/**
+ * Reorder Rules
+ *
+ * PUT /api/rules/order
+ *
+ * Body: every rule ID, in the order they should run
+ */
+export const reorderRules = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { ids } = req.body as { ids: string[] };
+
+  const rules = await TransactionRule.find({ userId }).select('_id').lean();
+  const ownIds = new Map(rules.map((rule) => [rule._id.toString(), rule._id]));
+  if (new Set(ids).size !== ids.length || ids.length !== ownIds.size || !ids.every((id) => ownIds.has(id))) {
+    throw new AppError(
+      'The new order must list each of your rules once',
+      HTTP_STATUS.BAD_REQUEST,
+      'VALIDATION_ERROR'
+    );
+  }
+
+  await TransactionRule.bulkWrite(
+    ids.map((id, priority) => ({
+      updateOne: { filter: { _id: ownIds.get(id), userId }, update: { $set: { priority } } },
+    }))
+  );
+  const reordered = await TransactionRule.find({ userId }).sort({ priority: 1 }).lean();
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    message: 'Rules reordered successfully',
+    data: { rules: reordered },
+  });
+});
+
+// =============================================================================
+// APPLY RULES
+// =============================================================================
+
+/**
+ * Apply Rules to Existing Transactions
+ *
+ * POST /api/rules/apply
+ *
+ * dryRun=true (default) only lists what would change.
+ */
+export const applyRules = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { dryRun, ruleIds } = req.body as { dryRun: boolean; ruleIds?: string[] };
+
+  const { total, changes } = await applyRulesToTransactions(userId!, { dryRun, ruleIds });
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    ...(!dryRun && { message: `Updated ${total} transaction(s)` }),
+    data: { dryRun, total, changes },
+  });
+});
+
+// =============================================================================
+// UPDATE RULE
+// =============================================================================
+
+export const updateRule = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { id } = req.params as { id: string }; // Validated by idParamSchema
+  const updates = req.body as Partial<ITransactionRule>;
+
+  const rule = await TransactionRule.findOne({ _id: id, userId });
+  if (!rule) {
+    throw new AppError('Rule not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+  }
+
+  // An archived category the rule already uses can be kept
+  if (updates.category) {
+    updates.category = await resolveCategory(userId!, updates.category, rule.category ?? undefined);
+  }
+
+  rule.set(updates);
+  await assertValidRule(rule);
+  await rule.save();
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    message: 'Rule updated successfully',
+    data: { rule },
+  });
+});
+
+// =============================================================================
+// DELETE RULE
+// =============================================================================
+
+export const deleteRule = catchErrors(async (req: Request, res: Response) => {
+  const userId = req.userId;
+  const { id } = req.params as { id: string }; // Validated by idParamSchema
+
+  // Transactions the rule already changed keep those changes
+  const rule = await TransactionRule.findOneAndDelete({ _id: id, userId });
+  if (!rule) {
+    throw new AppError('Rule not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+  }
+
+  res.status(HTTP_STATUS.OK).json({
+    success: true,
+    message: 'Rule deleted successfully',
+  });
+});
@@ -8,13 +8,15 @@
 import app from './app.js';
 import { connectDB } from './config/db.js';
 import { env } from './config/env.js';
+import { jobs, startScheduler, stopScheduler } from './jobs/index.js';
 
 /**
  * Start Server
  * 
  * 1. Connect to MongoDB
  * 2. Start Express server
- * 3. Handle graceful shutdown
+ * 3. Start background jobs (e.g. auto-posting bills, scheduled pot rules)
+ * 4. Handle graceful shutdown
  */
 const startServer = async (): Promise<void> => {
   try {
@@ -31,10 +33,16 @@ const startServer = async (): Promise<void> => {
       console.log(`💚 Health: http://localhost:${env.PORT}/health`);
       console.log('');
     });
+
+    // Start background jobs
+    startScheduler(jobs);
     
     // Graceful shutdown handlers
     const shutdown = async (signal: string): Promise<void> => {
       console.log(`\n📤 ${signal} received. Shutting down gracefully...`);
+
+      // Stop scheduling new job runs
+      stopScheduler();
       
       server.close(async () => {
         console.log('✅ HTTP server closed');
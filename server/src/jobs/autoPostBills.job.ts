@@ -0,0 +1,23 @@
+/**
+ * Auto-Post Bills Job
+ *
+ * Posts the payment for bills with autoPost enabled once they come due.
+ * See autoPostDueBills in services/bill.service.ts for the rules.
+ *
+ * Due dates are calculated at midnight UTC, so running hourly posts a
+ * payment within an hour of it coming due.
+ */
+
+import type { Job } from './scheduler.js';
+import { autoPostDueBills } from '../services/bill.service.js';
+
+export const autoPostBillsJob: Job = {
+  name: 'auto-post-bills',
+  intervalMs: 60 * 60 * 1000, // Hourly
+  run: async () => {
+    const posted = await autoPostDueBills();
+    if (posted > 0) {
+      console.log(`💸 Auto-posted ${posted} bill payment(s)`);
+    }
+  },
+};
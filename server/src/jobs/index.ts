@@ -0,0 +1,14 @@
+/**
+ * Jobs Index
+ *
+ * Central list of background jobs started with the server.
+ */
+
+import type { Job } from './scheduler.js';
+import { autoPostBillsJob } from './autoPostBills.job.js';
+import { potRulesJob } from './potRules.job.js';
+
+export { startScheduler, stopScheduler } from './scheduler.js';
+export type { Job } from './scheduler.js';
+
+export const jobs: Job[] = [autoPostBillsJob, potRulesJob];
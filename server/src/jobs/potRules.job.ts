@@ -0,0 +1,23 @@
+/**
+ * Pot Rules Job
+ *
+ * Makes the transfers of scheduled pot rules once they come due.
+ * See applyScheduledRules in services/potRule.service.ts for the rules.
+ *
+ * Like bill due dates, transfer dates are calculated from the rule's
+ * anchor date, so running hourly moves the money within an hour.
+ */
+
+import type { Job } from './scheduler.js';
+import { applyScheduledRules } from '../services/potRule.service.js';
+
+export const potRulesJob: Job = {
+  name: 'pot-rules',
+  intervalMs: 60 * 60 * 1000, // Hourly
+  run: async () => {
+    const deposits = await applyScheduledRules();
+    if (deposits > 0) {
+      console.log(`🐷 Made ${deposits} scheduled pot deposit(s)`);
+    }
+  },
+};
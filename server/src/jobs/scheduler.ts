@@ -0,0 +1,64 @@
+/**
+ * Job Scheduler
+ *
+ * CONCEPT: A minimal in-process job runner. Each job runs once at startup
+ * and then on a fixed interval while the server is up.
+ *
+ * - A job never overlaps with itself (a slow run delays the next one)
+ * - Errors are logged and the job keeps its schedule
+ * - Timers are unref'd so they never keep the process alive on their own
+ *
+ * Jobs must be idempotent: they can run on several server instances and
+ * are re-run after every restart.
+ */
+
+export interface Job {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+}
+
+const timers: NodeJS.Timeout[] = [];
+
+/**
+ * Run a job, skipping the run if the previous one is still in progress
+ */
+function createRunner(job: Job): () => Promise<void> {
+  let running = false;
+
+  return async () => {
+    if (running) return;
+    running = true;
+    try {
+      await job.run();
+    } catch (error) {
+      console.error(`❌ Job "${job.name}" failed:`, error);
+    } finally {
+      running = false;
+    }
+  };
+}
+
+/**
+ * Start running jobs on their intervals
+ */
+export function startScheduler(jobs: Job[]): void {
+  jobs.forEach((job) => {
+    const runner = createRunner(job);
+    void runner();
+
+    const timer = setInterval(runner, job.intervalMs);
+    timer.unref();
+    timers.push(timer);
+  });
+
+  console.log(`⏰ Scheduler started (${jobs.map((job) => job.name).join(', ')})`);
+}
+
+/**
+ * Stop all scheduled jobs (used on shutdown)
+ */
+export function stopScheduler(): void {
+  timers.forEach((timer) => clearInterval(timer));
+  timers.length = 0;
+}
@@ -24,6 +24,7 @@
 import rateLimit, { type RateLimitRequestHandler, type Options } from 'express-rate-limit';
 import { Request, Response } from 'express';
 import { HTTP_STATUS } from '../constants/http.js';
+import { env } from '../config/env.js';
 
 // =============================================================================
 // RATE LIMIT RESPONSE HANDLER
@@ -52,9 +53,10 @@ function createRateLimitHandler(limitType: string) {
  * Skip rate limiting in certain conditions
  * - Health check endpoint
  * - OPTIONS requests (CORS preflight)
+ * - Tests (NODE_ENV=test), which fire many requests from one IP
  */
 function skipHandler(req: Request): boolean {
-  return req.path === '/health' || req.method === 'OPTIONS';
+  return env.isTest || req.path === '/health' || req.method === 'OPTIONS';
 }
 
 // =============================================================================
@@ -19,8 +19,26 @@
 import { Request, Response, NextFunction } from 'express';
 import { z, ZodError, ZodSchema } from 'zod';
 import { HTTP_STATUS } from '../constants/http.js';
-import { CATEGORIES } from '../constants/categories.js';
+import {
+  FALLBACK_CATEGORY,
+  MAX_CATEGORIES_PER_USER,
+  RESERVED_CATEGORY_NAMES,
+  CATEGORY_NAME_PATTERN,
+} from '../constants/categories.js';
+import { MAX_TAGS_PER_TRANSACTION, MAX_TAG_LENGTH, TAG_PATTERN } from '../constants/tags.js';
 import { THEME_COLORS } from '../constants/themes.js';
+import { FREQUENCIES } from '../constants/recurrence.js';
+import { DATE_FORMATS, DECIMAL_SEPARATORS } from '../utils/csv.js';
+import { STATEMENT_FORMATS } from '../utils/statement.js';
+import { EXPORT_FORMATS } from '../services/export.service.js';
+import {
+  BUDGET_PERIODS,
+  ROLLOVER_MODES,
+  DEFAULT_ALERT_THRESHOLDS,
+  CATEGORY_STATUSES,
+  RULE_NAME_OPERATORS,
+  RULE_TRANSACTION_TYPES,
+} from '../models/index.js';
 
 // =============================================================================
 // SANITIZATION UTILITIES
@@ -168,11 +186,54 @@ export const dateSchema = z
   }, 'Invalid date format')
   .transform((dateStr) => new Date(dateStr).toISOString());
 
+/**
+ * End of a date range (inclusive)
+ * A date at midnight (e.g. "2024-03-31") covers the whole day
+ */
+export const dateRangeEndSchema = dateSchema.transform((iso) =>
+  iso.endsWith('T00:00:00.000Z')
+    ? new Date(new Date(iso).getTime() + 24 * 60 * 60 * 1000 - 1).toISOString()
+    : iso
+);
+
 /**
  * Category validation schema
- * SECURITY: Whitelist validation - only allows predefined categories
+ * SECURITY: Letters, numbers, spaces and - ' / ( ) . only, so there's no HTML
+ * to escape and names are stored as typed. Controllers check that the user
+ * has the category (services/category.service.ts).
+ */
+export const categorySchema = z
+  .string({ message: 'Category is required' })
+  .trim()
+  .min(1, 'Category is required')
+  .max(30, 'Category cannot exceed 30 characters')
+  .regex(CATEGORY_NAME_PATTERN, "Category can only contain letters, numbers, spaces and - ' / ( ) .");
+
+/**
+ * Tag validation schema
+ * Normalized to lowercase without a leading "#" ("#Vacation-2026" -> "vacation-2026")
+ * SECURITY: Letters, numbers, - and _ only (nothing to escape)
+ */
+const normalizeTag = (tag: string) => tag.trim().replace(/^#+/, '').toLowerCase();
+
+export const tagSchema = z
+  .string({ message: 'Tag must be text' })
+  .transform(normalizeTag)
+  .pipe(
+    z
+      .string()
+      .min(1, 'Tag cannot be empty')
+      .max(MAX_TAG_LENGTH, `Tags cannot exceed ${MAX_TAG_LENGTH} characters`)
+      .regex(TAG_PATTERN, 'Tags can only contain letters, numbers, - and _')
+  );
+
+/**
+ * Tags of a transaction (duplicates removed)
  */
-export const categorySchema = z.enum(CATEGORIES, { message: 'Invalid category' });
+export const tagsSchema = z
+  .array(tagSchema)
+  .max(MAX_TAGS_PER_TRANSACTION, `A transaction can have at most ${MAX_TAGS_PER_TRANSACTION} tags`)
+  .transform((tags) => [...new Set(tags)]);
 
 /**
  * Theme validation schema
@@ -223,11 +284,32 @@ export const googleAuthSchema = z
 // TRANSACTION VALIDATION SCHEMAS
 // =============================================================================
 
+/**
+ * Split lines of a transaction (at least 2; [] removes the split)
+ * Controllers check that they add up to the amount (services/transaction.service.ts).
+ */
+const transactionSplitsSchema = z
+  .array(
+    z
+      .object({
+        category: categorySchema,
+        amount: amountSchema.refine((n) => n !== 0, 'Split amount cannot be zero'),
+        note: sanitizedString(0, 100, 'Note').optional(),
+      })
+      .strict()
+  )
+  .max(20, 'A transaction can have at most 20 split lines')
+  .refine((splits) => splits.length !== 1, 'A split needs at least 2 lines');
+
 export const createTransactionSchema = z
   .object({
     name: sanitizedString(1, 100, 'Name'),
     amount: amountSchema.refine((n) => n !== 0, 'Amount cannot be zero'),
-    category: categorySchema,
+    // Optional: set by the first matching rule, else General. Replaced by the
+    // largest split line's category when split.
+    category: categorySchema.optional(),
+    splits: transactionSplitsSchema.optional().default([]),
+    tags: tagsSchema.optional().default([]),
     date: dateSchema,
     avatar: sanitizedString(0, 500, 'Avatar').optional().default('/assets/images/avatars/default.jpg'),
     recurring: z.boolean().optional().default(false),
@@ -240,6 +322,8 @@ export const updateTransactionSchema = z
     name: sanitizedString(1, 100, 'Name').optional(),
     amount: amountSchema.refine((n) => n !== 0, 'Amount cannot be zero').optional(),
     category: categorySchema.optional(),
+    splits: transactionSplitsSchema.optional(), // [] removes the split
+    tags: tagsSchema.optional(), // [] removes every tag
     date: dateSchema.optional(),
     avatar: sanitizedString(0, 500, 'Avatar').optional(),
     recurring: z.boolean().optional(),
@@ -248,9 +332,37 @@ export const updateTransactionSchema = z
   .strict()
   .refine((data) => Object.keys(data).length > 0, 'At least one field is required');
 
-export const transactionQuerySchema = z.object({
-  page: z.coerce.number().int().positive().max(10000).optional().default(1),
-  limit: z.coerce.number().int().min(1).max(500).optional().default(10), // Max 500 for recurring bills
+/**
+ * Comma-separated list of categories (e.g. "Groceries,Dining Out")
+ * SECURITY: Every entry is validated like a category name
+ */
+const categoryListSchema = z
+  .string()
+  .max(500, 'Too many categories')
+  .transform((value) =>
+    value
+      .split(',')
+      .map((category) => category.trim())
+      .filter(Boolean)
+  )
+  .pipe(z.array(categorySchema));
+
+/**
+ * Comma-separated list of tags (e.g. "vacation-2026,reimbursable")
+ */
+const tagListSchema = z
+  .string()
+  .max(500, 'Too many tags')
+  .transform((value) => value.split(',').filter((tag) => tag.trim()))
+  .pipe(z.array(tagSchema));
+
+/**
+ * Transaction list filters (shared by the list and export)
+ *
+ * minAmount/maxAmount compare the absolute amount, so "over $40" matches
+ * both a $45 expense and a $45 income. Use type to pick one side.
+ */
+const transactionFilterFields = {
   search: z
     .string()
     .max(100, 'Search query too long')
@@ -259,17 +371,175 @@ export const transactionQuerySchema = z.object({
   sort: sortSchema.optional().default('Latest'),
   filter: z.string().max(50).optional(),
   category: z.string().max(50).optional(),
+  categories: categoryListSchema.optional(), // Any of these
+  excludeCategories: categoryListSchema.optional(), // None of these
+  tags: tagListSchema.optional(), // Any of these
+  from: dateSchema.optional(), // Inclusive
+  to: dateRangeEndSchema.optional(), // Inclusive
+  minAmount: z.coerce.number().min(0, 'Amount must be positive').max(1000000000).optional(),
+  maxAmount: z.coerce.number().min(0, 'Amount must be positive').max(1000000000).optional(),
+  type: z.enum(['income', 'expense'], { message: 'Type must be income or expense' }).optional(),
+};
+
+/**
+ * Reject empty ranges (from after to, minAmount above maxAmount)
+ */
+function validateTransactionRanges(
+  data: { from?: string; to?: string; minAmount?: number; maxAmount?: number },
+  ctx: z.RefinementCtx
+) {
+  if (data.from && data.to && data.from > data.to) {
+    ctx.addIssue({ code: 'custom', path: ['to'], message: 'End date must be on or after start date' });
+  }
+  if (
+    data.minAmount !== undefined &&
+    data.maxAmount !== undefined &&
+    data.minAmount > data.maxAmount
+  ) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['maxAmount'],
+      message: 'Maximum amount must be greater than or equal to minimum amount',
+    });
+  }
+}
+
+export const transactionQuerySchema = z
+  .object({
+    page: z.coerce.number().int().positive().max(10000).optional().default(1),
+    limit: z.coerce.number().int().min(1).max(500).optional().default(10), // Max 500 for recurring bills
+    ...transactionFilterFields,
+  })
+  .superRefine(validateTransactionRanges);
+
+/**
+ * Export uses the same filters as the list, without pagination
+ */
+export const exportTransactionsQuerySchema = z
+  .object({
+    ...transactionFilterFields,
+    format: z.enum(EXPORT_FORMATS, { message: 'Invalid export format' }).optional().default('csv'),
+  })
+  .superRefine(validateTransactionRanges);
+
+/**
+ * Category suggestion for a payee (?name=, sanitized like stored names)
+ */
+export const suggestCategoryQuerySchema = z.object({
+  name: z
+    .string({ message: 'Name is required' })
+    .trim()
+    .min(1, 'Name is required')
+    .max(100, 'Name cannot exceed 100 characters')
+    .transform(sanitizeString),
 });
 
+/**
+ * Query string boolean ("true" / "false")
+ */
+const queryBooleanSchema = z
+  .enum(['true', 'false'], { message: 'Must be true or false' })
+  .transform((value) => value === 'true');
+
+/**
+ * Column index in the uploaded CSV (0-based)
+ */
+const csvColumnSchema = z.coerce.number().int().min(0).max(99);
+
+/**
+ * CSV import options (sent as query params - the body is the CSV file itself)
+ *
+ * SECURITY: Whitelisted formats, bounded column indexes
+ */
+export const importTransactionsQuerySchema = z
+  .object({
+    // Column mapping (preview without a mapping returns the headers only)
+    nameColumn: csvColumnSchema.optional(),
+    amountColumn: csvColumnSchema.optional(),
+    dateColumn: csvColumnSchema.optional(),
+    categoryColumn: csvColumnSchema.optional(),
+    // Category used when the file has no category column (or the cell is empty)
+    defaultCategory: categorySchema.optional().default(FALLBACK_CATEGORY),
+    // expenses-negative: -12.50 is an expense (app convention)
+    // expenses-positive: 12.50 is an expense (amounts are flipped)
+    signConvention: z
+      .enum(['expenses-negative', 'expenses-positive'], { message: 'Invalid sign convention' })
+      .optional()
+      .default('expenses-negative'),
+    dateFormat: z.enum(DATE_FORMATS, { message: 'Invalid date format' }).optional().default('YYYY-MM-DD'),
+    decimalSeparator: z
+      .enum(DECIMAL_SEPARATORS, { message: 'Invalid decimal separator' })
+      .optional()
+      .default('.'),
+    delimiter: z.enum([',', ';', '\t'], { message: 'Invalid delimiter' }).optional().default(','),
+    hasHeader: queryBooleanSchema.optional().default(true),
+    dryRun: queryBooleanSchema.optional().default(true), // Preview only (nothing is saved)
+    skipInvalid: queryBooleanSchema.optional().default(false), // Import valid rows, skip the rest
+  })
+  .strict();
+
+/**
+ * Statement import options (OFX/QFX, QIF - the body is the statement file)
+ */
+export const importStatementQuerySchema = z
+  .object({
+    format: z.enum(STATEMENT_FORMATS, { message: 'Invalid statement format' }).optional(), // Detected if omitted
+    dateFormat: z.enum(DATE_FORMATS, { message: 'Invalid date format' }).optional().default('MM/DD/YYYY'), // QIF only
+    defaultCategory: categorySchema.optional().default(FALLBACK_CATEGORY),
+    dryRun: queryBooleanSchema.optional().default(true), // Preview only (nothing is saved)
+    skipInvalid: queryBooleanSchema.optional().default(false), // Import valid rows, skip the rest
+  })
+  .strict();
+
 // =============================================================================
 // BUDGET VALIDATION SCHEMAS
 // =============================================================================
 
+export const budgetPeriodSchema = z.enum(BUDGET_PERIODS, { message: 'Invalid budget period' });
+
+/**
+ * Start of any budget period (e.g. last payday) - stored at midnight UTC
+ */
+export const periodAnchorSchema = dateSchema
+  .refine((iso) => new Date(iso) <= new Date(), 'Period start cannot be in the future')
+  .transform((iso) => `${iso.slice(0, 10)}T00:00:00.000Z`);
+
+export const rolloverModeSchema = z.enum(ROLLOVER_MODES, { message: 'Invalid rollover mode' });
+
+/**
+ * A day in the first period the rollover counts (its whole period counts)
+ */
+export const rolloverSinceSchema = dateSchema.refine(
+  (iso) => new Date(iso) <= new Date(),
+  'Rollover start cannot be in the future'
+);
+
+/**
+ * Spending alerts as percentages of the period's limit (stored ascending, no duplicates)
+ */
+export const alertThresholdsSchema = z
+  .array(
+    z
+      .number({ message: 'Threshold must be a number' })
+      .int('Threshold must be a whole percentage')
+      .min(1, 'Threshold must be at least 1%')
+      .max(200, 'Threshold cannot exceed 200%'),
+    { message: 'Alert thresholds must be a list' }
+  )
+  .max(5, 'At most 5 alert thresholds')
+  .transform((thresholds) => [...new Set(thresholds)].sort((a, b) => a - b));
+
 export const createBudgetSchema = z
   .object({
     category: categorySchema,
     maximum: positiveAmountSchema,
     theme: themeSchema,
+    period: budgetPeriodSchema.optional().default('monthly'),
+    periodAnchor: periodAnchorSchema.nullable().optional().default(null), // null = calendar periods
+    rolloverMode: rolloverModeSchema.optional().default('none'),
+    rolloverCap: positiveAmountSchema.nullable().optional().default(null),
+    rolloverSince: rolloverSinceSchema.optional(), // Default: the current period
+    alertThresholds: alertThresholdsSchema.optional().default([...DEFAULT_ALERT_THRESHOLDS]),
   })
   .strict();
 
@@ -278,10 +548,29 @@ export const updateBudgetSchema = z
     category: categorySchema.optional(),
     maximum: positiveAmountSchema.optional(),
     theme: themeSchema.optional(),
+    period: budgetPeriodSchema.optional(),
+    periodAnchor: periodAnchorSchema.nullable().optional(), // null = calendar periods
+    rolloverMode: rolloverModeSchema.optional(),
+    rolloverCap: positiveAmountSchema.nullable().optional(), // null removes the cap
+    rolloverSince: rolloverSinceSchema.optional(), // Default: the period the budget was created in
+    alertThresholds: alertThresholdsSchema.optional(), // [] turns alerts off
   })
   .strict()
   .refine((data) => Object.keys(data).length > 0, 'At least one field is required');
 
+/**
+ * Budget history window (?months=12)
+ */
+export const budgetHistoryQuerySchema = z.object({
+  months: z.coerce
+    .number()
+    .int()
+    .min(1, 'Months must be at least 1')
+    .max(36, 'Months cannot exceed 36')
+    .optional()
+    .default(12),
+});
+
 // =============================================================================
 // POT VALIDATION SCHEMAS
 // =============================================================================
@@ -291,6 +580,7 @@ export const createPotSchema = z
     name: sanitizedString(1, 30, 'Pot name'),
     target: positiveAmountSchema,
     theme: themeSchema,
+    targetDate: dateSchema.nullable().optional(),
   })
   .strict();
 
@@ -299,6 +589,7 @@ export const updatePotSchema = z
     name: sanitizedString(1, 30, 'Pot name').optional(),
     target: positiveAmountSchema.optional(),
     theme: themeSchema.optional(),
+    targetDate: dateSchema.nullable().optional(), // null removes the target date
   })
   .strict()
   .refine((data) => Object.keys(data).length > 0, 'At least one field is required');
@@ -309,6 +600,380 @@ export const potTransactionSchema = z
   })
   .strict();
 
+/**
+ * Pot list filter - archived pots are only listed when asked for
+ * (default: active and completed)
+ */
+export const potQuerySchema = z.object({
+  status: z
+    .enum(['active', 'completed', 'archived', 'all'], {
+      message: 'Status must be active, completed, archived or all',
+    })
+    .optional(),
+});
+
+export const completePotSchema = z
+  .object({
+    lockDeposits: z.boolean().optional().default(false), // Refuse further deposits
+  })
+  .strict();
+
+export const potTransferSchema = z
+  .object({
+    toPotId: objectIdSchema, // Destination pot
+    amount: positiveAmountSchema,
+  })
+  .strict();
+
+// =============================================================================
+// BILL VALIDATION SCHEMAS
+// =============================================================================
+
+/**
+ * Recurrence validation schemas
+ * SECURITY: Whitelist validation for frequency, bounded interval
+ */
+export const frequencySchema = z.enum(FREQUENCIES, { message: 'Invalid frequency' });
+
+const intervalSchema = z
+  .number({ message: 'Interval must be a number' })
+  .int('Interval must be a whole number')
+  .min(1, 'Interval must be at least 1')
+  .max(365, 'Interval cannot exceed 365');
+
+export const createBillSchema = z
+  .object({
+    name: sanitizedString(1, 100, 'Name'),
+    amount: positiveAmountSchema,
+    category: categorySchema,
+    frequency: frequencySchema.optional().default('monthly'),
+    interval: intervalSchema.optional().default(1),
+    anchorDate: dateSchema, // First due date
+    endDate: dateSchema.nullable().optional(),
+    autoPost: z.boolean().optional().default(false), // Pay automatically on due dates
+    avatar: sanitizedString(0, 500, 'Avatar').optional().default('/assets/images/avatars/default.jpg'),
+  })
+  .strict()
+  .refine(
+    (data) => !data.endDate || new Date(data.endDate) >= new Date(data.anchorDate),
+    { message: 'End date must be on or after the first due date', path: ['endDate'] }
+  );
+
+export const updateBillSchema = z
+  .object({
+    name: sanitizedString(1, 100, 'Name').optional(),
+    amount: positiveAmountSchema.optional(),
+    category: categorySchema.optional(),
+    frequency: frequencySchema.optional(),
+    interval: intervalSchema.optional(),
+    anchorDate: dateSchema.optional(),
+    endDate: dateSchema.nullable().optional(), // null removes the end date
+    autoPost: z.boolean().optional(),
+    avatar: sanitizedString(0, 500, 'Avatar').optional(),
+  })
+  .strict()
+  .refine((data) => Object.keys(data).length > 0, 'At least one field is required');
+
+export const billQuerySchema = z.object({
+  search: z
+    .string()
+    .max(100, 'Search query too long')
+    .optional()
+    .transform((s) => (s ? sanitizeString(s) : undefined)),
+  sort: sortSchema.optional().default('Latest'),
+});
+
+export const payBillSchema = z
+  .object({
+    date: dateSchema.optional(), // Defaults to today
+  })
+  .strict();
+
+// =============================================================================
+// BALANCE VALIDATION SCHEMAS
+// =============================================================================
+
+export const openingBalanceSchema = z
+  .object({
+    openingBalance: amountSchema,
+  })
+  .strict();
+
+// =============================================================================
+// POT RULE VALIDATION SCHEMAS
+// =============================================================================
+
+const percentageSchema = z
+  .number({ message: 'Percentage must be a number' })
+  .positive('Percentage must be greater than 0')
+  .max(100, 'Percentage cannot exceed 100');
+
+/**
+ * Automatic savings rule - the fields depend on the rule type
+ */
+export const createPotRuleSchema = z.discriminatedUnion(
+  'type',
+  [
+    z
+      .object({
+        type: z.literal('scheduled'),
+        amount: positiveAmountSchema,
+        frequency: frequencySchema.optional().default('monthly'),
+        interval: intervalSchema.optional().default(1),
+        anchorDate: dateSchema, // First transfer
+        endDate: dateSchema.nullable().optional(),
+        enabled: z.boolean().optional().default(true),
+      })
+      .strict()
+      .refine(
+        (data) => !data.endDate || new Date(data.endDate) >= new Date(data.anchorDate),
+        { message: 'End date must be on or after the first transfer', path: ['endDate'] }
+      ),
+    z
+      .object({
+        type: z.literal('round_up'),
+        enabled: z.boolean().optional().default(true),
+      })
+      .strict(),
+    z
+      .object({
+        type: z.literal('income_percentage'),
+        percentage: percentageSchema,
+        enabled: z.boolean().optional().default(true),
+      })
+      .strict(),
+  ],
+  { message: 'Rule type must be scheduled, round_up or income_percentage' }
+);
+
+/**
+ * Rule updates (the type can't change; fields must match the rule's type)
+ */
+export const updatePotRuleSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    amount: positiveAmountSchema.optional(),
+    frequency: frequencySchema.optional(),
+    interval: intervalSchema.optional(),
+    anchorDate: dateSchema.optional(),
+    endDate: dateSchema.nullable().optional(), // null removes the end date
+    percentage: percentageSchema.optional(),
+  })
+  .strict()
+  .refine((data) => Object.keys(data).length > 0, 'At least one field is required');
+
+// =============================================================================
+// TRANSACTION RULE VALIDATION SCHEMAS
+// =============================================================================
+
+const ruleAmountSchema = z
+  .number({ message: 'Amount must be a number' })
+  .min(0, 'Amount must be positive')
+  .max(1000000000);
+
+/**
+ * Conditions and actions of a categorization rule (null = not used)
+ * Whether the rule is complete (and its regex safe) is checked by the
+ * controller on the merged rule (services/transactionRule.service.ts).
+ */
+const transactionRuleFields = {
+  enabled: z.boolean(),
+  nameOperator: z.enum(RULE_NAME_OPERATORS, { message: 'Operator must be contains, exact or regex' }).nullable(),
+  // Stored as typed (sanitized when compared, see compileRule)
+  nameValue: z
+    .string({ message: 'Value must be a string' })
+    .trim()
+    .min(1, 'Value is required')
+    .max(100, 'Value cannot exceed 100 characters')
+    .nullable(),
+  minAmount: ruleAmountSchema.nullable(), // Absolute amount, inclusive
+  maxAmount: ruleAmountSchema.nullable(),
+  type: z.enum(RULE_TRANSACTION_TYPES, { message: 'Type must be income or expense' }).nullable(),
+  category: categorySchema.nullable(),
+  tags: tagsSchema,
+  rename: sanitizedString(1, 100, 'Name').nullable(),
+  avatar: sanitizedString(1, 500, 'Avatar').nullable(),
+};
+
+export const createTransactionRuleSchema = z
+  .object({
+    enabled: transactionRuleFields.enabled.optional().default(true),
+    nameOperator: transactionRuleFields.nameOperator.optional().default(null),
+    nameValue: transactionRuleFields.nameValue.optional().default(null),
+    minAmount: transactionRuleFields.minAmount.optional().default(null),
+    maxAmount: transactionRuleFields.maxAmount.optional().default(null),
+    type: transactionRuleFields.type.optional().default(null),
+    category: transactionRuleFields.category.optional().default(null),
+    tags: transactionRuleFields.tags.optional().default([]),
+    rename: transactionRuleFields.rename.optional().default(null),
+    avatar: transactionRuleFields.avatar.optional().default(null),
+  })
+  .strict();
+
+export const updateTransactionRuleSchema = z
+  .object(transactionRuleFields)
+  .partial()
+  .strict()
+  .refine((data) => Object.keys(data).length > 0, 'At least one field is required');
+
+/**
+ * New order of the user's rules (every rule, first runs first)
+ */
+export const reorderTransactionRulesSchema = z
+  .object({
+    ids: z.array(objectIdSchema).min(1, 'At least one rule is required').max(100),
+  })
+  .strict();
+
+/**
+ * Run rules over existing transactions (a preview unless dryRun is false)
+ */
+export const applyTransactionRulesSchema = z
+  .object({
+    dryRun: z.boolean().optional().default(true),
+    ruleIds: z.array(objectIdSchema).min(1).max(100).optional(), // Only these rules
+  })
+  .strict();
+
+// =============================================================================
+// SAVED VIEW VALIDATION SCHEMAS
+// =============================================================================
+
+/**
+ * Filters stored in a saved view (same meaning as the transaction query params)
+ */
+const savedViewFiltersSchema = z
+  .object({
+    search: sanitizedString(0, 100, 'Search').optional(),
+    categories: z.array(categorySchema).max(MAX_CATEGORIES_PER_USER).optional().default([]),
+    excludeCategories: z.array(categorySchema).max(MAX_CATEGORIES_PER_USER).optional().default([]),
+    tags: z.array(tagSchema).max(50).optional().default([]),
+    from: dateSchema.optional(),
+    to: dateSchema.optional(),
+    minAmount: z.number().min(0, 'Amount must be positive').max(1000000000).optional(),
+    maxAmount: z.number().min(0, 'Amount must be positive').max(1000000000).optional(),
+    type: z.enum(['income', 'expense'], { message: 'Type must be income or expense' }).optional(),
+    sort: sortSchema.optional().default('Latest'),
+  })
+  .strict()
+  .superRefine(validateTransactionRanges);
+
+export const createSavedViewSchema = z
+  .object({
+    name: sanitizedString(1, 50, 'View name'),
+    filters: savedViewFiltersSchema,
+  })
+  .strict();
+
+export const updateSavedViewSchema = z
+  .object({
+    name: sanitizedString(1, 50, 'View name').optional(),
+    filters: savedViewFiltersSchema.optional(),
+  })
+  .strict()
+  .refine((data) => Object.keys(data).length > 0, 'At least one field is required');
+
+// =============================================================================
+// TAG VALIDATION SCHEMAS
+// =============================================================================
+
+/**
+ * Tag autocomplete (?search= matches the start of a tag)
+ */
+export const tagQuerySchema = z.object({
+  search: z
+    .string()
+    .max(MAX_TAG_LENGTH + 1, 'Search query too long')
+    .optional()
+    .transform((search) => (search ? normalizeTag(search) : undefined)),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be at least 1')
+    .max(50, 'Limit cannot exceed 50')
+    .optional()
+    .default(10),
+});
+
+/**
+ * Spending per tag (all time unless from/to are given)
+ */
+export const tagSummaryQuerySchema = z
+  .object({
+    from: dateSchema.optional(), // Inclusive
+    to: dateRangeEndSchema.optional(), // Inclusive
+    tags: tagListSchema.optional(), // Only these tags
+  })
+  .superRefine(validateTransactionRanges);
+
+// =============================================================================
+// CATEGORY VALIDATION SCHEMAS
+// =============================================================================
+
+/**
+ * Name of a new or renamed category (reserved names are refused)
+ */
+const categoryNameSchema = categorySchema.refine(
+  (name) => !RESERVED_CATEGORY_NAMES.some((reserved) => reserved.toLowerCase() === name.toLowerCase()),
+  'This category name is reserved'
+);
+
+export const createCategorySchema = z
+  .object({
+    name: categoryNameSchema,
+    parentId: objectIdSchema.nullable().optional(), // null/omitted = top level
+  })
+  .strict();
+
+export const updateCategorySchema = z
+  .object({
+    name: categoryNameSchema.optional(),
+    parentId: objectIdSchema.nullable().optional(), // null moves it to the top level
+  })
+  .strict()
+  .refine((data) => Object.keys(data).length > 0, 'At least one field is required');
+
+export const mergeCategorySchema = z
+  .object({
+    targetId: objectIdSchema,
+  })
+  .strict();
+
+/**
+ * Category list (?status=active|archived, all when omitted)
+ */
+export const categoryQuerySchema = z.object({
+  status: z.enum(CATEGORY_STATUSES, { message: 'Invalid category status' }).optional(),
+});
+
+/**
+ * Spending per category (defaults to the current month)
+ */
+export const categorySpendingQuerySchema = z
+  .object({
+    from: dateSchema.optional(), // Inclusive
+    to: dateRangeEndSchema.optional(), // Inclusive
+  })
+  .superRefine(validateTransactionRanges);
+
+// =============================================================================
+// NOTIFICATION VALIDATION SCHEMAS
+// =============================================================================
+
+/**
+ * Notification list (?unread=true for unread only)
+ */
+export const notificationQuerySchema = z.object({
+  unread: queryBooleanSchema.optional().default(false),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be at least 1')
+    .max(50, 'Limit cannot exceed 50')
+    .optional()
+    .default(20),
+});
+
 // =============================================================================
 // VALIDATION MIDDLEWARE FACTORY
 // =============================================================================
@@ -432,6 +1097,14 @@ export const idParamSchema = z.object({
   id: objectIdSchema,
 });
 
+/**
+ * Pot rule parameter schema - pot ID and rule ID
+ */
+export const potRuleParamSchema = z.object({
+  id: objectIdSchema,
+  ruleId: objectIdSchema,
+});
+
 export default {
   validateBody,
   validateQuery,
@@ -0,0 +1,122 @@
+/**
+ * Bill Model
+ *
+ * CONCEPT: A bill is a recurring expense the user expects to pay
+ * (rent, subscriptions, utilities, ...).
+ *
+ * Key fields:
+ * - name: Vendor/company the bill is paid to
+ * - amount: Amount due each cycle (positive - payments are posted as expenses)
+ * - category: Category used for the payment transactions
+ * - frequency/interval: How often the bill comes due (e.g. every 2 weeks)
+ * - anchorDate: First due date - all other due dates are calculated from it
+ * - endDate: Optional last date the bill can come due
+ * - autoPost: Post the payment automatically on each due date (see jobs/)
+ *
+ * Note: Paid/upcoming/due-soon status and the next due date are NOT stored here -
+ * they're calculated from the payment transactions that reference this bill
+ * (Transaction.billId / Transaction.billDueDate).
+ */
+
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { FREQUENCIES, type Frequency } from '../constants/recurrence.js';
+
+// TypeScript interface for Bill document
+export interface IBill extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  name: string;
+  avatar: string;
+  amount: number;   // Amount due each cycle (positive)
+  category: string;
+  frequency: Frequency;
+  interval: number;      // Multiplier for the frequency (days for 'custom')
+  anchorDate: Date;      // First due date
+  endDate?: Date | null; // Optional end of the series
+  autoPost: boolean;           // Pay automatically on each due date
+  autoPostSince?: Date | null; // When auto-post was turned on
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Mongoose Schema
+const billSchema = new Schema<IBill>(
+  {
+    // Reference to the user who owns this bill
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    // Vendor/company name
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    // Avatar image path for the vendor
+    avatar: {
+      type: String,
+      required: true,
+    },
+    // Amount due each cycle
+    amount: {
+      type: Number,
+      required: true,
+      min: [0, 'Amount must be a positive number'],
+    },
+    // Category for payment transactions
+    category: {
+      type: String,
+      required: true,
+    },
+    // How often the bill comes due
+    frequency: {
+      type: String,
+      enum: FREQUENCIES,
+      default: 'monthly',
+    },
+    // Multiplier for the frequency (e.g. monthly + 2 = every 2 months)
+    // For 'custom' this is the number of days between due dates
+    interval: {
+      type: Number,
+      default: 1,
+      min: [1, 'Interval must be at least 1'],
+    },
+    // First due date (all due dates are calculated from this)
+    anchorDate: {
+      type: Date,
+      required: true,
+    },
+    // Optional last date the bill can come due
+    endDate: {
+      type: Date,
+      default: null,
+    },
+    // Post the payment automatically when the bill comes due
+    autoPost: {
+      type: Boolean,
+      default: false,
+    },
+    // When auto-post was turned on (earlier due dates are never auto-posted)
+    autoPostSince: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Ensure each user can only have one bill per vendor name
+billSchema.index({ userId: 1, name: 1 }, { unique: true });
+
+// Index for the auto-post job
+billSchema.index({ autoPost: 1 });
+
+// Create and export the model
+export const Bill = mongoose.model<IBill>('Bill', billSchema);
+
+export default Bill;
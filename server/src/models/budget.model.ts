@@ -8,20 +8,50 @@
  * - category: What type of spending (e.g., "Groceries")
  * - maximum: The spending limit for this category
  * - theme: Color theme for UI display
+ * - period: How long the maximum lasts (weekly ... yearly, default monthly)
+ * - periodAnchor: A date a period started on (e.g. payday the 25th);
+ *   null = calendar periods (1st of the month, Mondays, Jan 1, ...)
+ * - rolloverMode: What carries into the next period (envelope budgeting)
+ *   - none: Every period starts from the maximum
+ *   - surplus: Unspent money is added to the next period's limit
+ *   - surplus_and_deficit: Overspending is also taken off the next period's limit
+ * - rolloverCap: Largest amount carried either way (null = no cap)
+ * - rolloverSince: First period whose leftover counts (picked by the user;
+ *   by default the current period for new budgets, the period the budget
+ *   was created in when rollover is turned on later)
+ * - alertThresholds: Percentages of the period's limit that send a
+ *   notification when spending crosses them (e.g. [50, 80, 100])
  * 
  * Note: "spent" is NOT stored here - it's calculated from transactions.
+ * So is the carried amount (see services/budget.service.ts).
  */
 
 import mongoose, { Schema, Document, Types } from 'mongoose';
-import { CATEGORIES, type Category } from '../constants/categories.js';
+import type { Frequency } from '../constants/recurrence.js';
+
+// Budget periods use the recurrence frequencies (no custom day counts)
+export const BUDGET_PERIODS = ['weekly', 'biweekly', 'monthly', 'quarterly', 'yearly'] as const;
+export type BudgetPeriod = Exclude<Frequency, 'custom'>;
+
+export const ROLLOVER_MODES = ['none', 'surplus', 'surplus_and_deficit'] as const;
+export type RolloverMode = (typeof ROLLOVER_MODES)[number];
+
+// Alerts for budgets that don't set their own
+export const DEFAULT_ALERT_THRESHOLDS = [80, 100];
 
 // TypeScript interface for Budget document
 export interface IBudget extends Document {
   _id: Types.ObjectId;
   userId: Types.ObjectId;
-  category: Category;
+  category: string;
   maximum: number;  // Maximum spending limit
   theme: string;    // Hex color code
+  period: BudgetPeriod;
+  periodAnchor: Date | null;   // Start of any period, null = calendar periods
+  rolloverMode: RolloverMode;
+  rolloverCap: number | null;
+  rolloverSince: Date | null;  // Start of a period, null without rollover
+  alertThresholds: number[];   // Percentages of the limit, ascending
   createdAt: Date;
   updatedAt: Date;
 }
@@ -40,7 +70,6 @@ const budgetSchema = new Schema<IBudget>(
     category: {
       type: String,
       required: true,
-      enum: CATEGORIES,
     },
     // Maximum spending limit
     maximum: {
@@ -53,6 +82,39 @@ const budgetSchema = new Schema<IBudget>(
       type: String,
       required: true,
     },
+    // Length of a budget period
+    period: {
+      type: String,
+      enum: BUDGET_PERIODS,
+      default: 'monthly',
+    },
+    // Where periods start (e.g. monthly from the 25th)
+    periodAnchor: {
+      type: Date,
+      default: null,
+    },
+    // Carry leftover money between periods
+    rolloverMode: {
+      type: String,
+      enum: ROLLOVER_MODES,
+      default: 'none',
+    },
+    // Optional cap on the carried amount
+    rolloverCap: {
+      type: Number,
+      default: null,
+      min: [0, 'Rollover cap must be a positive number'],
+    },
+    // First period included in the rollover
+    rolloverSince: {
+      type: Date,
+      default: null,
+    },
+    // Spending alerts (percentages of this period's limit)
+    alertThresholds: {
+      type: [Number],
+      default: () => [...DEFAULT_ALERT_THRESHOLDS],
+    },
   },
   {
     timestamps: true,
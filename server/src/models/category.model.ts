@@ -0,0 +1,88 @@
+/**
+ * Category Model
+ *
+ * CONCEPT: A user's spending/income category, optionally nested under
+ * another one (Bills -> Utilities -> Electricity).
+ *
+ * Key fields:
+ * - name: Display name, unique per user (case-insensitive)
+ * - parentId: Parent category (null = top level)
+ * - status: active, or archived (kept on existing transactions and
+ *   budgets, but not offered for new ones)
+ *
+ * Transactions, budgets and bills store the category NAME, so renaming or
+ * merging a category re-tags them (see services/category.service.ts).
+ * Budgets and reports on a parent include its subcategories.
+ *
+ * Every user starts with the default categories (constants/categories.ts),
+ * created the first time their categories are read.
+ */
+
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export const CATEGORY_STATUSES = ['active', 'archived'] as const;
+export type CategoryStatus = (typeof CATEGORY_STATUSES)[number];
+
+// Names are compared case-insensitively ("groceries" finds "Groceries")
+export const CATEGORY_NAME_COLLATION = { locale: 'en', strength: 2 };
+
+// TypeScript interface for Category document
+export interface ICategory extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  name: string;
+  parentId: Types.ObjectId | null;
+  status: CategoryStatus;
+  archivedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Mongoose Schema
+const categorySchema = new Schema<ICategory>(
+  {
+    // Reference to the user who owns this category
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    // Display name (also stored on transactions, budgets and bills)
+    name: {
+      type: String,
+      required: [true, 'Category name is required'],
+      trim: true,
+      maxlength: [30, 'Category name cannot exceed 30 characters'],
+    },
+    // Parent category (null = top level)
+    parentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Category',
+      default: null,
+    },
+    status: {
+      type: String,
+      enum: CATEGORY_STATUSES,
+      default: 'active',
+    },
+    archivedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Each user can only have one category with a given name (any letter case)
+// Queries by name use the same collation so they can use this index
+categorySchema.index(
+  { userId: 1, name: 1 },
+  { unique: true, collation: CATEGORY_NAME_COLLATION }
+);
+
+// Create and export the model
+export const Category = mongoose.model<ICategory>('Category', categorySchema);
+
+export default Category;
@@ -6,6 +6,44 @@
  */
 
 export { User, type IUser } from './user.model.js';
-export { Transaction, type ITransaction } from './transaction.model.js';
-export { Budget, type IBudget } from './budget.model.js';
-export { Pot, type IPot } from './pot.model.js';
+export {
+  Transaction,
+  CATEGORY_LINE_STAGES,
+  type ITransaction,
+  type ITransactionSplit,
+} from './transaction.model.js';
+export {
+  Budget,
+  BUDGET_PERIODS,
+  ROLLOVER_MODES,
+  DEFAULT_ALERT_THRESHOLDS,
+  type IBudget,
+  type BudgetPeriod,
+  type RolloverMode,
+} from './budget.model.js';
+export { Pot, POT_STATUSES, type IPot, type PotStatus } from './pot.model.js';
+export { Bill, type IBill } from './bill.model.js';
+export {
+  Category,
+  CATEGORY_STATUSES,
+  CATEGORY_NAME_COLLATION,
+  type ICategory,
+  type CategoryStatus,
+} from './category.model.js';
+export { SavedView, type ISavedView, type SavedViewFilters } from './savedView.model.js';
+export { PotMovement, type IPotMovement, type PotMovementType } from './potMovement.model.js';
+export { PotRule, type IPotRule, type PotRuleType } from './potRule.model.js';
+export {
+  Notification,
+  NOTIFICATION_TYPES,
+  type INotification,
+  type NotificationType,
+} from './notification.model.js';
+export {
+  TransactionRule,
+  RULE_NAME_OPERATORS,
+  RULE_TRANSACTION_TYPES,
+  type ITransactionRule,
+  type RuleNameOperator,
+  type RuleTransactionType,
+} from './transactionRule.model.js';
@@ -0,0 +1,102 @@
+/**
+ * Notification Model
+ *
+ * CONCEPT: A message for the in-app notification center (the bell).
+ * Notifications are created by the server when something needs the
+ * user's attention, e.g. a budget crossing one of its alert thresholds.
+ *
+ * Key fields:
+ * - type: What triggered it (budget_threshold)
+ * - title/message: Text shown in the notification panel
+ * - budgetId/threshold/periodStart: The alert (budget_threshold)
+ * - readAt: When the user opened it (null = unread)
+ * - dismissedAt: When the user removed it from the panel
+ *
+ * A budget alerts at most once per threshold and period (unique index
+ * below). Dismissed notifications are kept so the alert doesn't come
+ * back with the next transaction.
+ */
+
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export const NOTIFICATION_TYPES = ['budget_threshold'] as const;
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+// TypeScript interface for Notification document
+export interface INotification extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  type: NotificationType;
+  title: string;
+  message: string;
+  budgetId?: Types.ObjectId;
+  threshold?: number;     // Percentage of the limit
+  periodStart?: Date;     // Budget period the alert is for
+  readAt: Date | null;
+  dismissedAt: Date | null;
+  createdAt: Date;
+}
+
+// Mongoose Schema
+const notificationSchema = new Schema<INotification>(
+  {
+    // Reference to the user who receives the notification
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: NOTIFICATION_TYPES,
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      maxlength: 100,
+    },
+    message: {
+      type: String,
+      required: true,
+      maxlength: 300,
+    },
+    // Budget that crossed a threshold (kept if the budget is deleted)
+    budgetId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Budget',
+    },
+    threshold: {
+      type: Number,
+    },
+    periodStart: {
+      type: Date,
+    },
+    readAt: {
+      type: Date,
+      default: null,
+    },
+    dismissedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    // Only read/dismissed change after creation
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// Notification panel: newest first
+notificationSchema.index({ userId: 1, dismissedAt: 1, createdAt: -1 });
+
+// One alert per budget, threshold and period
+notificationSchema.index(
+  { budgetId: 1, threshold: 1, periodStart: 1 },
+  { unique: true, partialFilterExpression: { type: 'budget_threshold' } }
+);
+
+// Create and export the model
+export const Notification = mongoose.model<INotification>('Notification', notificationSchema);
+
+export default Notification;
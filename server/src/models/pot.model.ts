@@ -9,12 +9,18 @@
  * - target: Goal amount they want to reach
  * - total: Current amount saved in this pot
  * - theme: Color theme for UI display
+ * - targetDate: Optional deadline for reaching the target
+ * - status: active -> completed (target reached) -> archived (hidden, kept for history)
+ * - lockDeposits: A completed pot can refuse further deposits
  * 
  * Important: Adding/withdrawing from pots affects the main balance!
  */
 
 import mongoose, { Schema, Document, Types } from 'mongoose';
 
+export const POT_STATUSES = ['active', 'completed', 'archived'] as const;
+export type PotStatus = (typeof POT_STATUSES)[number];
+
 // TypeScript interface for Pot document
 export interface IPot extends Document {
   _id: Types.ObjectId;
@@ -23,6 +29,11 @@ export interface IPot extends Document {
   target: number;  // Goal amount
   total: number;   // Current saved amount
   theme: string;   // Hex color code
+  targetDate?: Date | null;  // Optional savings deadline
+  status: PotStatus;
+  lockDeposits: boolean;     // Completed pots only
+  completedAt?: Date | null;
+  archivedAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -60,6 +71,30 @@ const potSchema = new Schema<IPot>(
       type: String,
       required: true,
     },
+    // Date the target should be reached by (optional)
+    targetDate: {
+      type: Date,
+      default: null,
+    },
+    // Lifecycle (pots created before lifecycles existed read as active)
+    status: {
+      type: String,
+      enum: POT_STATUSES,
+      default: 'active',
+    },
+    // Refuse deposits once completed
+    lockDeposits: {
+      type: Boolean,
+      default: false,
+    },
+    completedAt: {
+      type: Date,
+      default: null,
+    },
+    archivedAt: {
+      type: Date,
+      default: null,
+    },
   },
   {
     timestamps: true,
@@ -0,0 +1,129 @@
+/**
+ * Pot Movement Model
+ *
+ * CONCEPT: One record per money movement in or out of a pot.
+ * A pot only stores its running total; movements record when money moved,
+ * how much, and what the pot held afterwards (for the history chart).
+ *
+ * Key fields:
+ * - type: deposit (balance -> pot), withdrawal (pot -> balance),
+ *         transfer_in/transfer_out (pot -> pot, the balance doesn't change),
+ *         close (pot deleted, everything returned to balance)
+ * - amount: Money moved (always positive)
+ * - totalAfter: Pot total after the movement
+ * - ruleId/ruleType: Set when an automatic savings rule made the deposit
+ * - transactionId: Transaction that triggered a round-up/income rule
+ * - scheduledFor: Occurrence a scheduled rule deposited for
+ * - counterpartPotId: The other pot of a transfer
+ *
+ * A rule deposits at most once per transaction and once per occurrence
+ * (unique indexes below), so the rule engine can safely re-run.
+ *
+ * Movements are written in the same MongoDB transaction as the pot update
+ * (see services/pot.service.ts) and are kept after a pot is deleted.
+ */
+
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { POT_RULE_TYPES, type PotRuleType } from './potRule.model.js';
+
+export const POT_MOVEMENT_TYPES = [
+  'deposit',
+  'withdrawal',
+  'transfer_in',
+  'transfer_out',
+  'close',
+] as const;
+export type PotMovementType = (typeof POT_MOVEMENT_TYPES)[number];
+
+// TypeScript interface for PotMovement document
+export interface IPotMovement extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  potId: Types.ObjectId;
+  type: PotMovementType;
+  amount: number;
+  totalAfter: number;
+  ruleId?: Types.ObjectId;
+  ruleType?: PotRuleType;
+  transactionId?: Types.ObjectId;
+  scheduledFor?: Date;
+  counterpartPotId?: Types.ObjectId;
+  createdAt: Date;
+}
+
+// Mongoose Schema
+const potMovementSchema = new Schema<IPotMovement>(
+  {
+    // Reference to the user who owns the pot
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    // Reference to the pot (may no longer exist for 'close')
+    potId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Pot',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: POT_MOVEMENT_TYPES,
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: [0, 'Amount must be a positive number'],
+    },
+    totalAfter: {
+      type: Number,
+      required: true,
+    },
+    // Automatic savings rule that made the deposit (kept if the rule is deleted)
+    ruleId: {
+      type: Schema.Types.ObjectId,
+      ref: 'PotRule',
+    },
+    ruleType: {
+      type: String,
+      enum: POT_RULE_TYPES,
+    },
+    // Transaction that triggered the rule (round_up, income_percentage)
+    transactionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Transaction',
+    },
+    // Occurrence the deposit was made for (scheduled)
+    scheduledFor: {
+      type: Date,
+    },
+    // Pot the money came from / went to (transfers)
+    counterpartPotId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Pot',
+    },
+  },
+  {
+    // Movements are never edited
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// History of one pot, oldest first
+potMovementSchema.index({ userId: 1, potId: 1, createdAt: 1 });
+
+// One rule deposit per transaction / per scheduled occurrence
+potMovementSchema.index(
+  { ruleId: 1, transactionId: 1 },
+  { unique: true, partialFilterExpression: { transactionId: { $exists: true } } }
+);
+potMovementSchema.index(
+  { ruleId: 1, scheduledFor: 1 },
+  { unique: true, partialFilterExpression: { scheduledFor: { $exists: true } } }
+);
+
+// Create and export the model
+export const PotMovement = mongoose.model<IPotMovement>('PotMovement', potMovementSchema);
+
+export default PotMovement;
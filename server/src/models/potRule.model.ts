@@ -0,0 +1,131 @@
+/**
+ * Pot Rule Model
+ *
+ * CONCEPT: An automatic savings rule that moves money from the balance
+ * into a pot without a manual deposit.
+ *
+ * Rule types:
+ * - scheduled: A fixed amount on a recurring schedule (e.g. $50 every 1st of the month)
+ * - round_up: Each expense rounded up to the next dollar, the difference is saved
+ * - income_percentage: A percentage of each income transaction
+ *
+ * Key fields:
+ * - amount: Amount per occurrence (scheduled only)
+ * - frequency/interval/anchorDate/endDate: Schedule (scheduled only, same as bills)
+ * - percentage: Share of each income saved (income_percentage only)
+ * - activeSince: When the rule was last enabled - nothing earlier is applied
+ * - lastRunDate: Latest scheduled occurrence already handled (scheduled only)
+ *
+ * The rule engine lives in services/potRule.service.ts. Every deposit it makes
+ * is recorded as a PotMovement that references the rule.
+ */
+
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { FREQUENCIES, type Frequency } from '../constants/recurrence.js';
+
+export const POT_RULE_TYPES = ['scheduled', 'round_up', 'income_percentage'] as const;
+export type PotRuleType = (typeof POT_RULE_TYPES)[number];
+
+// TypeScript interface for PotRule document
+export interface IPotRule extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  potId: Types.ObjectId;
+  type: PotRuleType;
+  enabled: boolean;
+  amount?: number | null;        // scheduled
+  frequency?: Frequency | null;  // scheduled
+  interval?: number | null;      // scheduled
+  anchorDate?: Date | null;      // scheduled: first transfer
+  endDate?: Date | null;         // scheduled: optional end of the series
+  percentage?: number | null;    // income_percentage
+  activeSince: Date;
+  lastRunDate?: Date | null;     // scheduled
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Mongoose Schema
+const potRuleSchema = new Schema<IPotRule>(
+  {
+    // Reference to the user who owns the pot
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    // Pot the rule saves into
+    potId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Pot',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: POT_RULE_TYPES,
+      required: true,
+    },
+    // Paused rules are skipped by the engine
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    // Amount per scheduled transfer
+    amount: {
+      type: Number,
+      default: null,
+      min: [0, 'Amount must be a positive number'],
+    },
+    // Schedule (same meaning as on bills)
+    frequency: {
+      type: String,
+      enum: FREQUENCIES,
+      default: null,
+    },
+    interval: {
+      type: Number,
+      default: null,
+      min: [1, 'Interval must be at least 1'],
+    },
+    anchorDate: {
+      type: Date,
+      default: null,
+    },
+    endDate: {
+      type: Date,
+      default: null,
+    },
+    // Share of each income transaction (1-100)
+    percentage: {
+      type: Number,
+      default: null,
+      min: [0, 'Percentage must be a positive number'],
+      max: [100, 'Percentage cannot exceed 100'],
+    },
+    // When the rule was created or last re-enabled
+    activeSince: {
+      type: Date,
+      required: true,
+    },
+    // Latest scheduled transfer handled (made or skipped)
+    lastRunDate: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Rules of a pot / rules of a user by type
+potRuleSchema.index({ userId: 1, potId: 1 });
+potRuleSchema.index({ userId: 1, type: 1, enabled: 1 });
+
+// Index for the scheduled rules job
+potRuleSchema.index({ type: 1, enabled: 1 });
+
+// Create and export the model
+export const PotRule = mongoose.model<IPotRule>('PotRule', potRuleSchema);
+
+export default PotRule;
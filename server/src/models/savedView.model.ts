@@ -0,0 +1,94 @@
+/**
+ * Saved View Model
+ *
+ * CONCEPT: A named combination of transaction filters (a "view").
+ * Users save the filters they use often (e.g. "Eating out this spring")
+ * and pick them from a dropdown on the Transactions page.
+ *
+ * Key fields:
+ * - name: Display name, unique per user
+ * - filters: The same filters GET /api/transactions accepts
+ *
+ * Note: Views only store filters - the transactions are always queried live.
+ */
+
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// Sort options match GET /api/transactions
+export const VIEW_SORT_OPTIONS = ['Latest', 'Oldest', 'A to Z', 'Z to A', 'Highest', 'Lowest'] as const;
+
+export interface SavedViewFilters {
+  search?: string;
+  categories: string[];        // Only these categories (empty = all)
+  excludeCategories: string[]; // Never these categories
+  tags: string[];              // Any of these tags (empty = all)
+  from?: Date;
+  to?: Date;
+  minAmount?: number;
+  maxAmount?: number;
+  type?: 'income' | 'expense';
+  sort: (typeof VIEW_SORT_OPTIONS)[number];
+}
+
+// TypeScript interface for SavedView document
+export interface ISavedView extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  name: string;
+  filters: SavedViewFilters;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const filtersSchema = new Schema<SavedViewFilters>(
+  {
+    search: { type: String, maxlength: 100 },
+    categories: { type: [String], default: [] },
+    excludeCategories: { type: [String], default: [] },
+    tags: { type: [String], default: [] },
+    from: { type: Date },
+    to: { type: Date },
+    minAmount: { type: Number, min: 0 },
+    maxAmount: { type: Number, min: 0 },
+    type: { type: String, enum: ['income', 'expense'] },
+    sort: { type: String, enum: VIEW_SORT_OPTIONS, default: 'Latest' },
+  },
+  { _id: false }
+);
+
+// Mongoose Schema
+const savedViewSchema = new Schema<ISavedView>(
+  {
+    // Reference to the user who owns this view
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    // Display name
+    name: {
+      type: String,
+      required: [true, 'View name is required'],
+      trim: true,
+      maxlength: [50, 'View name cannot exceed 50 characters'],
+    },
+    // Transaction filters
+    filters: {
+      type: filtersSchema,
+      required: true,
+      default: () => ({}),
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Each user can only have one view with a given name
+savedViewSchema.index({ userId: 1, name: 1 }, { unique: true });
+
+// Create and export the model
+export const SavedView = mongoose.model<ISavedView>('SavedView', savedViewSchema);
+
+export default SavedView;
@@ -12,8 +12,15 @@
  * - Negative amount = expense (money spent)
  */
 
-import mongoose, { Schema, Document, Types } from 'mongoose';
-import { CATEGORIES, type Category } from '../constants/categories.js';
+import mongoose, { Schema, Document, Types, type PipelineStage } from 'mongoose';
+
+// Part of a transaction's amount in a category (e.g. the groceries on a
+// supermarket receipt that also covers shopping)
+export interface ITransactionSplit {
+  category: string;  // Name of one of the user's categories
+  amount: number;    // Same sign as the transaction
+  note?: string;
+}
 
 // TypeScript interface for Transaction document
 export interface ITransaction extends Document {
@@ -21,15 +28,39 @@ export interface ITransaction extends Document {
   userId: Types.ObjectId;
   avatar: string;
   name: string;
-  category: Category;
+  category: string;  // Name of one of the user's categories (largest split line when split)
+  splits: ITransactionSplit[];  // Empty unless split - lines add up to amount
+  tags: string[];    // Free-form labels, lowercase (see constants/tags.ts)
   date: Date;
   amount: number;  // Positive = income, Negative = expense
   recurring: boolean;
   isTemplate: boolean; // Bill templates don't affect balance until paid
+  billId?: Types.ObjectId; // Set when this transaction is a bill payment
+  billDueDate?: Date; // Bill due date this payment covers
+  externalId?: string; // Bank id for imported statements (FITID or content hash)
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Split lines are stored inside the transaction (no _id of their own)
+const transactionSplitSchema = new Schema<ITransactionSplit>(
+  {
+    category: {
+      type: String,
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+    },
+    note: {
+      type: String,
+      trim: true,
+    },
+  },
+  { _id: false }
+);
+
 // Mongoose Schema
 const transactionSchema = new Schema<ITransaction>(
   {
@@ -55,9 +86,18 @@ const transactionSchema = new Schema<ITransaction>(
     category: {
       type: String,
       required: true,
-      enum: CATEGORIES,  // Only allow values from our categories list
       index: true,  // Index for filtering by category
     },
+    // Category lines of a split transaction (see ITransactionSplit)
+    splits: {
+      type: [transactionSplitSchema],
+      default: [],
+    },
+    // Free-form labels (e.g. "vacation-2026")
+    tags: {
+      type: [String],
+      default: [],
+    },
     // Transaction date
     date: {
       type: Date,
@@ -79,6 +119,19 @@ const transactionSchema = new Schema<ITransaction>(
       type: Boolean,
       default: false,
     },
+    // Bill this transaction pays (used to calculate bill status)
+    billId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Bill',
+    },
+    // Bill due date (occurrence) this payment covers
+    billDueDate: {
+      type: Date,
+    },
+    // Bank id for transactions imported from a statement (OFX FITID or QIF hash)
+    externalId: {
+      type: String,
+    },
   },
   {
     // Automatically add createdAt and updatedAt fields
@@ -90,10 +143,52 @@ const transactionSchema = new Schema<ITransaction>(
 // This makes queries like "get user's transactions sorted by date" faster
 transactionSchema.index({ userId: 1, date: -1 });
 transactionSchema.index({ userId: 1, category: 1 });
+transactionSchema.index({ userId: 1, 'splits.category': 1 });  // Budgets and reports on split lines
+transactionSchema.index({ userId: 1, tags: 1 });  // Tag filter and summary
+transactionSchema.index({ billId: 1, date: -1 }, { sparse: true });
+
+// Each bill due date can only be paid once
+// (makes auto-posting idempotent and blocks double-submitted payments)
+transactionSchema.index(
+  { billId: 1, billDueDate: 1 },
+  { unique: true, partialFilterExpression: { billDueDate: { $type: 'date' } } }
+);
+
+// Each statement transaction can only be imported once per user
+transactionSchema.index(
+  { userId: 1, externalId: 1 },
+  { unique: true, partialFilterExpression: { externalId: { $type: 'string' } } }
+);
 
 // Text index for search functionality
 transactionSchema.index({ name: 'text' });
 
+/**
+ * Aggregation stages turning transactions into category lines
+ *
+ * A split transaction becomes one document per split line; any other
+ * transaction stays a single line. Afterwards `category` and `amount` are
+ * the line's, so grouping by category counts each line in its own category.
+ * Match on `category` again after these stages to drop the other lines.
+ * Also usable in sub-pipelines ($facet, $lookup, $unionWith).
+ */
+export const CATEGORY_LINE_STAGES: PipelineStage.FacetPipelineStage[] = [
+  {
+    $set: {
+      line: {
+        $cond: [
+          { $gt: [{ $size: { $ifNull: ['$splits', []] } }, 0] },
+          '$splits',
+          [{ category: '$category', amount: '$amount' }],
+        ],
+      },
+    },
+  },
+  { $unwind: '$line' },
+  { $set: { category: '$line.category', amount: '$line.amount' } },
+  { $unset: 'line' },
+];
+
 // Create and export the model
 export const Transaction = mongoose.model<ITransaction>('Transaction', transactionSchema);
 
@@ -0,0 +1,127 @@
+/**
+ * Transaction Rule Model
+ *
+ * CONCEPT: A user-defined rule that fills in transactions automatically
+ * (e.g. names containing "AMZN" -> Shopping, renamed to "Amazon").
+ *
+ * Conditions (all set ones must match):
+ * - nameOperator/nameValue: Name contains, equals or matches a regex
+ *   (case-insensitive)
+ * - minAmount/maxAmount: Absolute amount range (inclusive)
+ * - type: income or expense only
+ *
+ * Actions (at least one):
+ * - category: Category to use (when the transaction doesn't have one yet)
+ * - tags: Tags to add
+ * - rename: Cleaned-up display name
+ * - avatar: Avatar to use instead of the default one
+ *
+ * Rules run in priority order and the first matching one wins. The rule
+ * engine lives in services/transactionRule.service.ts.
+ */
+
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export const RULE_NAME_OPERATORS = ['contains', 'exact', 'regex'] as const;
+export type RuleNameOperator = (typeof RULE_NAME_OPERATORS)[number];
+
+export const RULE_TRANSACTION_TYPES = ['income', 'expense'] as const;
+export type RuleTransactionType = (typeof RULE_TRANSACTION_TYPES)[number];
+
+// TypeScript interface for TransactionRule document
+export interface ITransactionRule extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  enabled: boolean;
+  priority: number;                        // Lower runs first
+  nameOperator: RuleNameOperator | null;
+  nameValue: string | null;
+  minAmount: number | null;                // Absolute amount
+  maxAmount: number | null;
+  type: RuleTransactionType | null;
+  category: string | null;                 // Name of one of the user's categories
+  tags: string[];
+  rename: string | null;
+  avatar: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Mongoose Schema
+const transactionRuleSchema = new Schema<ITransactionRule>(
+  {
+    // Reference to the user who owns this rule
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    // Disabled rules are skipped
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    // Position in the user's list (the first matching rule wins)
+    priority: {
+      type: Number,
+      required: true,
+    },
+    // Conditions
+    nameOperator: {
+      type: String,
+      enum: RULE_NAME_OPERATORS,
+      default: null,
+    },
+    nameValue: {
+      type: String,
+      default: null,
+    },
+    minAmount: {
+      type: Number,
+      default: null,
+      min: [0, 'Amount must be a positive number'],
+    },
+    maxAmount: {
+      type: Number,
+      default: null,
+      min: [0, 'Amount must be a positive number'],
+    },
+    type: {
+      type: String,
+      enum: RULE_TRANSACTION_TYPES,
+      default: null,
+    },
+    // Actions
+    category: {
+      type: String,
+      default: null,
+    },
+    tags: {
+      type: [String],
+      default: [],
+    },
+    rename: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    avatar: {
+      type: String,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A user's rules in the order they run
+transactionRuleSchema.index({ userId: 1, priority: 1 });
+
+// Create and export the model
+export const TransactionRule = mongoose.model<ITransactionRule>(
+  'TransactionRule',
+  transactionRuleSchema
+);
+
+export default TransactionRule;
@@ -8,7 +8,9 @@
  * - email: Unique identifier for login
  * - password: Hashed password (optional for OAuth users)
  * - fullName: Display name
- * - balance: Current account balance (affected by pots)
+ * - openingBalance: Balance before the first recorded transaction
+ * - balance: Current account balance, derived from the ledger
+ *   (see services/ledger.service.ts)
  * - googleId: Google OAuth identifier (optional)
  * - authProvider: How the user registered ('local' or 'google')
  */
@@ -25,7 +27,8 @@ export interface IUser extends Document {
   email: string;
   password?: string; // Optional for OAuth users
   fullName: string;
-  balance: number; // Current account balance
+  openingBalance: number; // Balance before the first recorded transaction
+  balance: number; // Current account balance (openingBalance + transactions - pots)
   avatarUrl?: string;
   verified: boolean;
   // OAuth fields
@@ -61,11 +64,18 @@ const userSchema = new Schema<IUser>(
       required: true,
       trim: true,
     },
-    // Current account balance
+    // Balance the account had before the first recorded transaction
+    openingBalance: {
+      type: Number,
+      default: 0,
+    },
+    // Current account balance (stored result of the ledger)
     // This is updated when:
-    // 1. Money is added to a pot (decreases)
-    // 2. Money is withdrawn from a pot (increases)
-    // 3. A pot is deleted (increases by pot total)
+    // 1. A transaction is created, updated or deleted (any date)
+    // 2. Money is added to a pot (decreases)
+    // 3. Money is withdrawn from a pot (increases)
+    // 4. A pot is deleted (increases by pot total)
+    // 5. The opening balance changes
     balance: {
       type: Number,
       default: 0,
@@ -0,0 +1,134 @@
+/**
+ * Bill Routes
+ *
+ * SECURITY: All routes include input validation and rate limiting.
+ *
+ * Features:
+ * - Schema-based validation for all inputs
+ * - Whitelist validation for sort (category must be one of the user's)
+ * - Rate limiting for write operations (especially pay)
+ *
+ * OWASP References:
+ * - A03:2021 Injection - Input validation
+ * - A04:2021 Insecure Design - Validated schemas
+ */
+
+import { Router } from 'express';
+import * as billController from '../controllers/bill.controller.js';
+import { writeLimiter, userLimiter } from '../middleware/rateLimiter.js';
+import {
+  validateBody,
+  validateQuery,
+  validateParams,
+  createBillSchema,
+  updateBillSchema,
+  billQuerySchema,
+  payBillSchema,
+  idParamSchema,
+} from '../middleware/validation.js';
+
+const router = Router();
+
+// Apply user-based rate limiting to all bill routes
+router.use(userLimiter);
+
+// =============================================================================
+// ROUTES
+// =============================================================================
+
+/**
+ * GET /api/bills
+ * List bills with status, plus summary totals
+ *
+ * Query Parameters:
+ * - search: Search by vendor name (sanitized, max 100 chars)
+ * - sort: Sort order (whitelisted values only)
+ */
+router.get(
+  '/',
+  validateQuery(billQuerySchema),
+  billController.getBills
+);
+
+/**
+ * GET /api/bills/summary
+ * Summary totals only (paid, upcoming, due soon)
+ */
+router.get('/summary', billController.getBillsSummary);
+
+/**
+ * GET /api/bills/:id
+ * Get single bill with status
+ *
+ * SECURITY: ID format validated
+ */
+router.get(
+  '/:id',
+  validateParams(idParamSchema),
+  billController.getBill
+);
+
+/**
+ * POST /api/bills
+ * Create bill
+ *
+ * SECURITY:
+ * - Rate limited
+ * - Strict schema validation
+ * - Category must be one of the user's active categories
+ */
+router.post(
+  '/',
+  writeLimiter,
+  validateBody(createBillSchema),
+  billController.createBill
+);
+
+/**
+ * PUT /api/bills/:id
+ * Update bill
+ *
+ * SECURITY:
+ * - Rate limited
+ * - ID and body validation
+ */
+router.put(
+  '/:id',
+  writeLimiter,
+  validateParams(idParamSchema),
+  validateBody(updateBillSchema),
+  billController.updateBill
+);
+
+/**
+ * DELETE /api/bills/:id
+ * Delete bill (payment transactions are kept)
+ *
+ * SECURITY:
+ * - Rate limited
+ * - ID validation
+ */
+router.delete(
+  '/:id',
+  writeLimiter,
+  validateParams(idParamSchema),
+  billController.deleteBill
+);
+
+/**
+ * POST /api/bills/:id/pay
+ * Record a payment (creates an expense transaction)
+ *
+ * SECURITY:
+ * - Rate limited (financial operation)
+ * - ID and date validation
+ */
+router.post(
+  '/:id/pay',
+  writeLimiter,
+  validateParams(idParamSchema),
+  validateBody(payBillSchema),
+  billController.payBill
+);
+
+export default router;
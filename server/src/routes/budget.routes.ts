@@ -5,7 +5,7 @@
  *
  * Features:
  * - Schema-based validation for all inputs
- * - Whitelist validation for category and theme
+ * - Whitelist validation for theme (category must be one of the user's)
  * - Rate limiting for write operations
  *
  * OWASP References:
@@ -18,10 +18,12 @@ import * as budgetController from '../controllers/budget.controller.js';
 import { writeLimiter, userLimiter } from '../middleware/rateLimiter.js';
 import {
   validateBody,
+  validateQuery,
   validateParams,
   createBudgetSchema,
   updateBudgetSchema,
   idParamSchema,
+  budgetHistoryQuerySchema,
 } from '../middleware/validation.js';
 
 const router = Router();
@@ -39,6 +41,31 @@ router.use(userLimiter);
  */
 router.get('/', budgetController.getBudgets);
 
+/**
+ * GET /api/budgets/history
+ * Limit, spent and over/under per period for all budgets (?months=12)
+ *
+ * Registered before /:id so "history" isn't treated as an ID.
+ */
+router.get(
+  '/history',
+  validateQuery(budgetHistoryQuerySchema),
+  budgetController.getBudgetsHistory
+);
+
+/**
+ * GET /api/budgets/:id/history
+ * Limit, spent and over/under per period for one budget (?months=12)
+ *
+ * SECURITY: ID format validated
+ */
+router.get(
+  '/:id/history',
+  validateParams(idParamSchema),
+  validateQuery(budgetHistoryQuerySchema),
+  budgetController.getBudgetHistory
+);
+
 /**
  * GET /api/budgets/:id
  * Get single budget
@@ -58,7 +85,7 @@ router.get(
  * SECURITY:
  * - Rate limited
  * - Strict schema validation
- * - Category and theme are whitelisted
+ * - Theme is whitelisted, category must be one of the user's active categories
  */
 router.post(
   '/',
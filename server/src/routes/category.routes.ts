@@ -0,0 +1,133 @@
+/**
+ * Category Routes
+ *
+ * SECURITY: All routes include input validation and rate limiting.
+ *
+ * Features:
+ * - Schema-based validation for all inputs
+ * - Category names restricted to a safe character set
+ * - Rate limiting for write operations
+ *
+ * There is no DELETE - a category is removed by merging it into another one
+ * (so no transaction is left without a category).
+ */
+
+import { Router } from 'express';
+import * as categoryController from '../controllers/category.controller.js';
+import { writeLimiter, userLimiter } from '../middleware/rateLimiter.js';
+import {
+  validateBody,
+  validateQuery,
+  validateParams,
+  createCategorySchema,
+  updateCategorySchema,
+  mergeCategorySchema,
+  categoryQuerySchema,
+  categorySpendingQuerySchema,
+  idParamSchema,
+} from '../middleware/validation.js';
+
+const router = Router();
+
+// Apply user-based rate limiting to all category routes
+router.use(userLimiter);
+
+// =============================================================================
+// ROUTES
+// =============================================================================
+
+/**
+ * GET /api/categories
+ * List categories (parents first)
+ *
+ * SECURITY: Status whitelisted
+ */
+router.get(
+  '/',
+  validateQuery(categoryQuerySchema),
+  categoryController.getCategories
+);
+
+/**
+ * GET /api/categories/spending
+ * Income and expenses per category, rolled up to parent categories
+ *
+ * NOTE: Must be defined before /:id routes
+ */
+router.get(
+  '/spending',
+  validateQuery(categorySpendingQuerySchema),
+  categoryController.getCategorySpending
+);
+
+/**
+ * POST /api/categories
+ * Create a category (optionally under a parent)
+ *
+ * SECURITY:
+ * - Rate limited
+ * - Strict schema validation
+ */
+router.post(
+  '/',
+  writeLimiter,
+  validateBody(createCategorySchema),
+  categoryController.createCategory
+);
+
+/**
+ * PUT /api/categories/:id
+ * Rename and/or move a category
+ *
+ * SECURITY:
+ * - Rate limited
+ * - ID validation
+ * - Strict schema validation
+ */
+router.put(
+  '/:id',
+  writeLimiter,
+  validateParams(idParamSchema),
+  validateBody(updateCategorySchema),
+  categoryController.updateCategory
+);
+
+/**
+ * POST /api/categories/:id/merge
+ * Merge a category into another one
+ *
+ * SECURITY:
+ * - Rate limited
+ * - ID validation (both categories)
+ */
+router.post(
+  '/:id/merge',
+  writeLimiter,
+  validateParams(idParamSchema),
+  validateBody(mergeCategorySchema),
+  categoryController.mergeCategory
+);
+
+/**
+ * POST /api/categories/:id/archive
+ * Archive a category and its subcategories
+ */
+router.post(
+  '/:id/archive',
+  writeLimiter,
+  validateParams(idParamSchema),
+  categoryController.archiveCategory
+);
+
+/**
+ * POST /api/categories/:id/restore
+ * Restore an archived category and its subcategories
+ */
+router.post(
+  '/:id/restore',
+  writeLimiter,
+  validateParams(idParamSchema),
+  categoryController.restoreCategory
+);
+
+export default router;
@@ -19,6 +19,12 @@ import transactionRoutes from './transaction.routes.js';
 import budgetRoutes from './budget.routes.js';
 import potRoutes from './pot.routes.js';
 import overviewRoutes from './overview.routes.js';
+import billRoutes from './bill.routes.js';
+import savedViewRoutes from './savedView.routes.js';
+import notificationRoutes from './notification.routes.js';
+import categoryRoutes from './category.routes.js';
+import tagRoutes from './tag.routes.js';
+import transactionRuleRoutes from './transactionRule.routes.js';
 
 // Import auth middleware
 import { authenticate } from '../middleware/auth.middleware.js';
@@ -47,6 +53,7 @@ router.use('/auth', authRoutes);
 /**
  * Transaction Routes
  * GET    /api/transactions     - List transactions (paginated, filtered, sorted)
+ * GET    /api/transactions/suggest-category - Suggest categories for a payee
  * GET    /api/transactions/:id - Get single transaction
  * POST   /api/transactions     - Create transaction
  * PUT    /api/transactions/:id - Update transaction
@@ -57,7 +64,9 @@ router.use('/transactions', authenticate, transactionRoutes);
 /**
  * Budget Routes
  * GET    /api/budgets          - List all budgets
+ * GET    /api/budgets/history  - Per-period history of all budgets
  * GET    /api/budgets/:id      - Get single budget
+ * GET    /api/budgets/:id/history - Per-period history of one budget
  * POST   /api/budgets          - Create budget
  * PUT    /api/budgets/:id      - Update budget
  * DELETE /api/budgets/:id      - Delete budget
@@ -66,20 +75,93 @@ router.use('/budgets', authenticate, budgetRoutes);
 
 /**
  * Pot Routes
- * GET    /api/pots             - List all pots
+ * GET    /api/pots             - List pots (?status=archived for archived)
  * GET    /api/pots/:id         - Get single pot
+ * GET    /api/pots/:id/history - Pot deposits/withdrawals
  * POST   /api/pots             - Create pot
  * PUT    /api/pots/:id         - Update pot
  * DELETE /api/pots/:id         - Delete pot
  * POST   /api/pots/:id/deposit - Add money to pot
  * POST   /api/pots/:id/withdraw - Withdraw from pot
+ * POST   /api/pots/:id/transfer - Move money to another pot
+ * POST   /api/pots/:id/complete - Mark pot as completed
+ * POST   /api/pots/:id/archive  - Archive pot
+ * POST   /api/pots/:id/restore  - Restore pot to active
+ * GET    /api/pots/:id/rules   - List savings rules
+ * POST   /api/pots/:id/rules   - Create savings rule
+ * PUT    /api/pots/:id/rules/:ruleId - Update savings rule
+ * DELETE /api/pots/:id/rules/:ruleId - Delete savings rule
  */
 router.use('/pots', authenticate, potRoutes);
 
+/**
+ * Bill Routes
+ * GET    /api/bills            - List bills with status and summary
+ * GET    /api/bills/summary    - Get bills summary
+ * GET    /api/bills/:id        - Get single bill
+ * POST   /api/bills            - Create bill
+ * PUT    /api/bills/:id        - Update bill
+ * DELETE /api/bills/:id        - Delete bill
+ * POST   /api/bills/:id/pay    - Pay bill (creates transaction)
+ */
+router.use('/bills', authenticate, billRoutes);
+
+/**
+ * Saved View Routes (named transaction filters)
+ * GET    /api/views            - List saved views
+ * GET    /api/views/:id        - Get single view
+ * POST   /api/views            - Save view
+ * PUT    /api/views/:id        - Update view
+ * DELETE /api/views/:id        - Delete view
+ */
+router.use('/views', authenticate, savedViewRoutes);
+
+/**
+ * Notification Routes (budget alerts)
+ * GET    /api/notifications    - List notifications and unread count
+ * POST   /api/notifications/read-all    - Mark all as read
+ * POST   /api/notifications/:id/read    - Mark as read
+ * POST   /api/notifications/:id/dismiss - Dismiss notification
+ */
+router.use('/notifications', authenticate, notificationRoutes);
+
+/**
+ * Category Routes (per user, nested)
+ * GET    /api/categories               - List categories
+ * GET    /api/categories/spending      - Spending per category (rolled up)
+ * POST   /api/categories               - Create category
+ * PUT    /api/categories/:id           - Rename/move category
+ * POST   /api/categories/:id/merge     - Merge into another category
+ * POST   /api/categories/:id/archive   - Archive category
+ * POST   /api/categories/:id/restore   - Restore category
+ */
+router.use('/categories', authenticate, categoryRoutes);
+
+/**
+ * Tag Routes (tags live on transactions)
+ * GET    /api/tags             - List tags (autocomplete)
+ * GET    /api/tags/summary     - Income/expenses per tag
+ */
+router.use('/tags', authenticate, tagRoutes);
+
+/**
+ * Transaction Rule Routes (automatic categorization and renaming)
+ * GET    /api/rules            - List rules
+ * POST   /api/rules            - Create rule
+ * PUT    /api/rules/order      - Reorder rules
+ * POST   /api/rules/apply      - Apply rules to existing transactions (or preview)
+ * PUT    /api/rules/:id        - Update rule
+ * DELETE /api/rules/:id        - Delete rule
+ */
+router.use('/rules', authenticate, transactionRuleRoutes);
+
 /**
  * Overview Routes
  * GET    /api/overview         - Get overview data
  * GET    /api/overview/balance - Get current balance
+ * GET    /api/overview/balance/check     - Compare stored balance with the ledger
+ * POST   /api/overview/balance/reconcile - Repair balance drift
+ * PUT    /api/overview/balance/opening   - Set opening balance
  */
 router.use('/overview', authenticate, overviewRoutes);
 
@@ -0,0 +1,86 @@
+/**
+ * Notification Routes
+ *
+ * SECURITY: All routes include input validation and rate limiting.
+ *
+ * Features:
+ * - Query and ID validation
+ * - Rate limiting for write operations
+ *
+ * Notifications are only created by the server - there is no POST /.
+ */
+
+import { Router } from 'express';
+import * as notificationController from '../controllers/notification.controller.js';
+import { writeLimiter, userLimiter } from '../middleware/rateLimiter.js';
+import {
+  validateQuery,
+  validateParams,
+  notificationQuerySchema,
+  idParamSchema,
+} from '../middleware/validation.js';
+
+const router = Router();
+
+// Apply user-based rate limiting to all notification routes
+router.use(userLimiter);
+
+// =============================================================================
+// ROUTES
+// =============================================================================
+
+/**
+ * GET /api/notifications
+ * List notifications (newest first) with the unread count
+ *
+ * SECURITY: Query params validated (limit bounded)
+ */
+router.get(
+  '/',
+  validateQuery(notificationQuerySchema),
+  notificationController.getNotifications
+);
+
+/**
+ * POST /api/notifications/read-all
+ * Mark every notification as read
+ *
+ * NOTE: Must be defined before /:id routes
+ */
+router.post(
+  '/read-all',
+  writeLimiter,
+  notificationController.markAllNotificationsRead
+);
+
+/**
+ * POST /api/notifications/:id/read
+ * Mark one notification as read
+ *
+ * SECURITY:
+ * - Rate limited
+ * - ID validation
+ */
+router.post(
+  '/:id/read',
+  writeLimiter,
+  validateParams(idParamSchema),
+  notificationController.markNotificationRead
+);
+
+/**
+ * POST /api/notifications/:id/dismiss
+ * Remove a notification from the list
+ *
+ * SECURITY:
+ * - Rate limited
+ * - ID validation
+ */
+router.post(
+  '/:id/dismiss',
+  writeLimiter,
+  validateParams(idParamSchema),
+  notificationController.dismissNotification
+);
+
+export default router;
@@ -4,6 +4,8 @@
 
 import { Router } from 'express';
 import * as overviewController from '../controllers/overview.controller.js';
+import { writeLimiter } from '../middleware/rateLimiter.js';
+import { validateBody, openingBalanceSchema } from '../middleware/validation.js';
 
 const router = Router();
 
@@ -13,4 +15,18 @@ router.get('/', overviewController.getOverview);
 // GET /api/overview/balance - Get current balance only
 router.get('/balance', overviewController.getBalance);
 
+// GET /api/overview/balance/check - Compare stored balance with the ledger
+router.get('/balance/check', overviewController.checkBalance);
+
+// POST /api/overview/balance/reconcile - Repair drift (rate limited)
+router.post('/balance/reconcile', writeLimiter, overviewController.reconcileBalance);
+
+// PUT /api/overview/balance/opening - Set opening balance (rate limited, validated)
+router.put(
+  '/balance/opening',
+  writeLimiter,
+  validateBody(openingBalanceSchema),
+  overviewController.updateOpeningBalance
+);
+
 export default router;
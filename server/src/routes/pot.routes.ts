@@ -15,14 +15,22 @@
 
 import { Router } from 'express';
 import * as potController from '../controllers/pot.controller.js';
+import * as potRuleController from '../controllers/potRule.controller.js';
 import { writeLimiter, userLimiter } from '../middleware/rateLimiter.js';
 import {
   validateBody,
+  validateQuery,
   validateParams,
   createPotSchema,
   updatePotSchema,
   potTransactionSchema,
+  potTransferSchema,
+  potQuerySchema,
+  completePotSchema,
+  createPotRuleSchema,
+  updatePotRuleSchema,
   idParamSchema,
+  potRuleParamSchema,
 } from '../middleware/validation.js';
 
 const router = Router();
@@ -36,9 +44,11 @@ router.use(userLimiter);
 
 /**
  * GET /api/pots
- * List all pots
+ * List pots (?status=active|completed|archived|all, default: not archived)
+ *
+ * SECURITY: Status whitelisted
  */
-router.get('/', potController.getPots);
+router.get('/', validateQuery(potQuerySchema), potController.getPots);
 
 /**
  * GET /api/pots/:id
@@ -52,6 +62,18 @@ router.get(
   potController.getPot
 );
 
+/**
+ * GET /api/pots/:id/history
+ * Deposits and withdrawals of a pot (oldest first)
+ *
+ * SECURITY: ID format validated
+ */
+router.get(
+  '/:id/history',
+  validateParams(idParamSchema),
+  potController.getPotHistory
+);
+
 /**
  * POST /api/pots
  * Create pot
@@ -131,4 +153,131 @@ router.post(
   potController.withdrawFromPot
 );
 
+/**
+ * POST /api/pots/:id/transfer
+ * Move money from this pot to another (balance unchanged)
+ *
+ * SECURITY:
+ * - Rate limited (financial operation)
+ * - Destination ID and amount validation
+ */
+router.post(
+  '/:id/transfer',
+  writeLimiter,
+  validateParams(idParamSchema),
+  validateBody(potTransferSchema),
+  potController.transferBetweenPots
+);
+
+// =============================================================================
+// LIFECYCLE ROUTES
+// =============================================================================
+
+/**
+ * POST /api/pots/:id/complete
+ * Mark a pot that reached its target as completed
+ *
+ * SECURITY:
+ * - Rate limited
+ * - ID and body validation
+ */
+router.post(
+  '/:id/complete',
+  writeLimiter,
+  validateParams(idParamSchema),
+  validateBody(completePotSchema),
+  potController.completePot
+);
+
+/**
+ * POST /api/pots/:id/archive
+ * Archive a pot (hidden from lists, money and history kept)
+ *
+ * SECURITY:
+ * - Rate limited
+ * - ID validation
+ */
+router.post(
+  '/:id/archive',
+  writeLimiter,
+  validateParams(idParamSchema),
+  potController.archivePot
+);
+
+/**
+ * POST /api/pots/:id/restore
+ * Make a completed or archived pot active again
+ *
+ * SECURITY:
+ * - Rate limited
+ * - ID validation
+ */
+router.post(
+  '/:id/restore',
+  writeLimiter,
+  validateParams(idParamSchema),
+  potController.restorePot
+);
+
+// =============================================================================
+// SAVINGS RULE ROUTES
+// =============================================================================
+
+/**
+ * GET /api/pots/:id/rules
+ * List a pot's automatic savings rules
+ */
+router.get(
+  '/:id/rules',
+  validateParams(idParamSchema),
+  potRuleController.getPotRules
+);
+
+/**
+ * POST /api/pots/:id/rules
+ * Create a savings rule (scheduled, round_up or income_percentage)
+ *
+ * SECURITY:
+ * - Rate limited
+ * - Fields validated per rule type
+ */
+router.post(
+  '/:id/rules',
+  writeLimiter,
+  validateParams(idParamSchema),
+  validateBody(createPotRuleSchema),
+  potRuleController.createPotRule
+);
+
+/**
+ * PUT /api/pots/:id/rules/:ruleId
+ * Update or pause/resume a savings rule
+ *
+ * SECURITY:
+ * - Rate limited
+ * - ID and body validation
+ */
+router.put(
+  '/:id/rules/:ruleId',
+  writeLimiter,
+  validateParams(potRuleParamSchema),
+  validateBody(updatePotRuleSchema),
+  potRuleController.updatePotRule
+);
+
+/**
+ * DELETE /api/pots/:id/rules/:ruleId
+ * Delete a savings rule (deposits already made stay in the pot)
+ *
+ * SECURITY:
+ * - Rate limited
+ * - ID validation
+ */
+router.delete(
+  '/:id/rules/:ruleId',
+  writeLimiter,
+  validateParams(potRuleParamSchema),
+  potRuleController.deletePotRule
+);
+
 export default router;
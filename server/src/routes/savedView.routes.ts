@@ -0,0 +1,101 @@
+/**
+ * Saved View Routes
+ *
+ * SECURITY: All routes include input validation and rate limiting.
+ *
+ * Features:
+ * - Schema-based validation for all inputs
+ * - Whitelist validation for sort, category names format-checked
+ * - Rate limiting for write operations
+ *
+ * OWASP References:
+ * - A03:2021 Injection - Input validation
+ * - A04:2021 Insecure Design - Validated schemas
+ */
+
+import { Router } from 'express';
+import * as savedViewController from '../controllers/savedView.controller.js';
+import { writeLimiter, userLimiter } from '../middleware/rateLimiter.js';
+import {
+  validateBody,
+  validateParams,
+  createSavedViewSchema,
+  updateSavedViewSchema,
+  idParamSchema,
+} from '../middleware/validation.js';
+
+const router = Router();
+
+// Apply user-based rate limiting to all view routes
+router.use(userLimiter);
+
+// =============================================================================
+// ROUTES
+// =============================================================================
+
+/**
+ * GET /api/views
+ * List saved views (sorted by name)
+ */
+router.get('/', savedViewController.getSavedViews);
+
+/**
+ * GET /api/views/:id
+ * Get single view
+ *
+ * SECURITY: ID format validated
+ */
+router.get(
+  '/:id',
+  validateParams(idParamSchema),
+  savedViewController.getSavedView
+);
+
+/**
+ * POST /api/views
+ * Save a view
+ *
+ * SECURITY:
+ * - Rate limited
+ * - Strict schema validation
+ * - Sort is whitelisted, category names are format-checked
+ */
+router.post(
+  '/',
+  writeLimiter,
+  validateBody(createSavedViewSchema),
+  savedViewController.createSavedView
+);
+
+/**
+ * PUT /api/views/:id
+ * Rename a view or replace its filters
+ *
+ * SECURITY:
+ * - Rate limited
+ * - ID and body validation
+ */
+router.put(
+  '/:id',
+  writeLimiter,
+  validateParams(idParamSchema),
+  validateBody(updateSavedViewSchema),
+  savedViewController.updateSavedView
+);
+
+/**
+ * DELETE /api/views/:id
+ * Delete a view
+ *
+ * SECURITY:
+ * - Rate limited
+ * - ID validation
+ */
+router.delete(
+  '/:id',
+  writeLimiter,
+  validateParams(idParamSchema),
+  savedViewController.deleteSavedView
+);
+
+export default router;
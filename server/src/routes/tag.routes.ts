@@ -0,0 +1,52 @@
+/**
+ * Tag Routes
+ *
+ * SECURITY: All routes include input validation and rate limiting.
+ *
+ * Read-only - tags are added and removed through the transactions that
+ * carry them.
+ */
+
+import { Router } from 'express';
+import * as tagController from '../controllers/tag.controller.js';
+import { userLimiter } from '../middleware/rateLimiter.js';
+import {
+  validateQuery,
+  tagQuerySchema,
+  tagSummaryQuerySchema,
+} from '../middleware/validation.js';
+
+const router = Router();
+
+// Apply user-based rate limiting to all tag routes
+router.use(userLimiter);
+
+// =============================================================================
+// ROUTES
+// =============================================================================
+
+/**
+ * GET /api/tags
+ * List the user's tags, most used first (autocomplete)
+ *
+ * SECURITY: Search is normalized and regex-escaped, limit capped at 50
+ */
+router.get(
+  '/',
+  validateQuery(tagQuerySchema),
+  tagController.getTags
+);
+
+/**
+ * GET /api/tags/summary
+ * Income and expenses per tag over a date range
+ *
+ * SECURITY: Dates and tags validated, range ordered
+ */
+router.get(
+  '/summary',
+  validateQuery(tagSummaryQuerySchema),
+  tagController.getTagSummary
+);
+
+export default router;
@@ -14,9 +14,9 @@
  * - A04:2021 Insecure Design - Validated schemas
  */
 
-import { Router } from 'express';
+import express, { Router } from 'express';
 import * as transactionController from '../controllers/transaction.controller.js';
-import { writeLimiter, userLimiter } from '../middleware/rateLimiter.js';
+import { writeLimiter, userLimiter, sensitiveLimiter } from '../middleware/rateLimiter.js';
 import {
   validateBody,
   validateQuery,
@@ -24,6 +24,10 @@ import {
   createTransactionSchema,
   updateTransactionSchema,
   transactionQuerySchema,
+  importTransactionsQuerySchema,
+  importStatementQuerySchema,
+  exportTransactionsQuerySchema,
+  suggestCategoryQuerySchema,
   idParamSchema,
 } from '../middleware/validation.js';
 
@@ -47,7 +51,12 @@ router.use(userLimiter);
  * - limit: Items per page (default: 10, max: 100)
  * - search: Search by name (sanitized, max 100 chars)
  * - sort: Sort order (whitelisted values only)
- * - category: Filter by category (whitelisted values)
+ * - category: Filter by category (includes its subcategories and split lines)
+ * - categories, excludeCategories: Comma-separated category lists (subcategories included)
+ * - tags: Comma-separated tags (matches transactions with any of them)
+ * - from, to: Date range (inclusive)
+ * - minAmount, maxAmount: Absolute amount range (inclusive)
+ * - type: income | expense
  */
 router.get(
   '/',
@@ -55,6 +64,45 @@ router.get(
   transactionController.getTransactions
 );
 
+/**
+ * GET /api/transactions/export
+ * Download transactions as CSV, JSON or OFX
+ *
+ * SECURITY:
+ * - Sensitive rate limit (exports the full history)
+ * - Same validated filters as the list
+ * - Declared before /:id so "export" isn't treated as an ID
+ *
+ * Query Parameters:
+ * - format: csv | json | ofx (default: csv)
+ * - search, sort, category/filter, categories, excludeCategories, tags,
+ *   from/to, minAmount/maxAmount, type:
+ *   Same as GET /api/transactions
+ */
+router.get(
+  '/export',
+  sensitiveLimiter,
+  validateQuery(exportTransactionsQuerySchema),
+  transactionController.exportTransactions
+);
+
+/**
+ * GET /api/transactions/suggest-category
+ * Suggest categories for a payee from the user's past transactions
+ *
+ * SECURITY:
+ * - Name is sanitized and length-limited
+ * - Declared before /:id so "suggest-category" isn't treated as an ID
+ *
+ * Query Parameters:
+ * - name: Payee name (1-100 chars)
+ */
+router.get(
+  '/suggest-category',
+  validateQuery(suggestCategoryQuerySchema),
+  transactionController.suggestCategory
+);
+
 /**
  * GET /api/transactions/:id
  * Get a single transaction by ID
@@ -79,10 +127,17 @@ router.get(
  * Body:
  * - name: string (1-100 chars, sanitized)
  * - amount: number (non-zero, max ±1B)
- * - category: string (whitelisted)
+ * - category?: string (one of the user's active categories; when omitted, the
+ *   first matching rule's category, else General)
+ * - splits?: { category, amount, note? }[] (optional, 2-20 lines adding up to
+ *   amount, same sign; the category becomes the largest line's)
  * - date: string (ISO date, validated)
  * - avatar?: string (optional, max 500 chars)
  * - recurring?: boolean (optional)
+ * - tags?: string[] (optional, up to 10, e.g. "#vacation-2026" - stored lowercase without #)
+ *
+ * The first matching rule (see /api/rules) can also rename the transaction,
+ * add tags and set its avatar.
  */
 router.post(
   '/',
@@ -91,6 +146,70 @@ router.post(
   transactionController.createTransaction
 );
 
+/**
+ * POST /api/transactions/import
+ * Import transactions from a CSV file (preview or save)
+ *
+ * SECURITY:
+ * - Rate limited
+ * - Body is raw CSV (text/csv) with its own 1MB limit
+ *   (the global 10KB JSON limit is too small for bank exports)
+ * - Max IMPORT_MAX_ROWS rows per file
+ * - Every row is validated with createTransactionSchema
+ *
+ * Query Parameters:
+ * - nameColumn, amountColumn, dateColumn, categoryColumn: Column indexes (0-based)
+ * - defaultCategory: Category for rows without one and no matching rule (default: General)
+ * - signConvention: expenses-negative | expenses-positive
+ * - dateFormat: YYYY-MM-DD | MM/DD/YYYY | DD/MM/YYYY
+ * - decimalSeparator: . | , (default: .) - amounts in another format are invalid rows
+ * - delimiter, hasHeader
+ * - dryRun: Preview only (default: true)
+ * - skipInvalid: Save valid rows even if some are invalid (default: false)
+ */
+router.post(
+  '/import',
+  writeLimiter,
+  express.text({ type: ['text/csv', 'text/plain'], limit: '1mb' }),
+  validateQuery(importTransactionsQuerySchema),
+  transactionController.importTransactions
+);
+
+/**
+ * POST /api/transactions/import/statement
+ * Import transactions from an OFX/QFX or QIF bank statement (preview or save)
+ *
+ * SECURITY:
+ * - Rate limited
+ * - Body is the raw statement file with its own 1MB limit
+ * - Max IMPORT_MAX_ROWS transactions per file
+ * - Every transaction is validated with createTransactionSchema
+ *
+ * Query Parameters:
+ * - format: ofx | qif (detected from the file if omitted)
+ * - dateFormat: Day/month order for QIF dates (default: MM/DD/YYYY)
+ * - defaultCategory: Category for rows without a known one and no matching rule (default: General)
+ * - dryRun: Preview only (default: true)
+ * - skipInvalid: Save valid rows even if some are invalid (default: false)
+ */
+router.post(
+  '/import/statement',
+  writeLimiter,
+  express.text({
+    type: [
+      'text/plain',
+      'application/x-ofx',
+      'application/vnd.intu.qfx',
+      'application/qif',
+      'application/x-qif',
+      'application/octet-stream',
+    ],
+    limit: '1mb',
+  }),
+  validateQuery(importStatementQuerySchema),
+  transactionController.importStatement
+);
+
 /**
  * PUT /api/transactions/:id
  * Update an existing transaction
@@ -98,6 +217,9 @@ router.post(
  * SECURITY:
  * - Rate limited
  * - ID and body validation
+ *
+ * splits: [] removes the split. Changing the amount of a split transaction
+ * needs splits that add up to the new amount.
  */
 router.put(
   '/:id',
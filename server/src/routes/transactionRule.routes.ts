@@ -0,0 +1,119 @@
+/**
+ * Transaction Rule Routes
+ *
+ * SECURITY: All routes include input validation and rate limiting.
+ *
+ * Features:
+ * - Strict schema validation (conditions and actions are whitelisted)
+ * - Regex conditions are length-limited and analysed for ReDoS
+ * - Rate limiting for write operations
+ *
+ * OWASP References:
+ * - A03:2021 Injection - Input validation
+ * - A04:2021 Insecure Design - Validated schemas
+ */
+
+import { Router } from 'express';
+import * as transactionRuleController from '../controllers/transactionRule.controller.js';
+import { writeLimiter, userLimiter } from '../middleware/rateLimiter.js';
+import {
+  validateBody,
+  validateParams,
+  createTransactionRuleSchema,
+  updateTransactionRuleSchema,
+  reorderTransactionRulesSchema,
+  applyTransactionRulesSchema,
+  idParamSchema,
+} from '../middleware/validation.js';
+
+const router = Router();
+
+// Apply user-based rate limiting to all rule routes
+router.use(userLimiter);
+
+// =============================================================================
+// ROUTES
+// =============================================================================
+
+/**
+ * GET /api/rules
+ * List rules in the order they run
+ */
+router.get('/', transactionRuleController.getRules);
+
+/**
+ * POST /api/rules
+ * Create a rule (runs after the existing ones)
+ *
+ * SECURITY:
+ * - Rate limited
+ * - Strict schema validation
+ * - Category must be one of the user's active categories
+ */
+router.post(
+  '/',
+  writeLimiter,
+  validateBody(createTransactionRuleSchema),
+  transactionRuleController.createRule
+);
+
+/**
+ * PUT /api/rules/order
+ * Reorder rules (the first matching rule wins)
+ *
+ * SECURITY:
+ * - Rate limited
+ * - IDs validated, must be exactly the user's rules
+ */
+router.put(
+  '/order',
+  writeLimiter,
+  validateBody(reorderTransactionRulesSchema),
+  transactionRuleController.reorderRules
+);
+
+/**
+ * POST /api/rules/apply
+ * Run rules over existing transactions (dryRun: true previews the changes)
+ *
+ * SECURITY: Rate limited, rule IDs validated
+ */
+router.post(
+  '/apply',
+  writeLimiter,
+  validateBody(applyTransactionRulesSchema),
+  transactionRuleController.applyRules
+);
+
+/**
+ * PUT /api/rules/:id
+ * Update a rule (null clears a condition or action)
+ *
+ * SECURITY:
+ * - Rate limited
+ * - ID and body validation
+ */
+router.put(
+  '/:id',
+  writeLimiter,
+  validateParams(idParamSchema),
+  validateBody(updateTransactionRuleSchema),
+  transactionRuleController.updateRule
+);
+
+/**
+ * DELETE /api/rules/:id
+ * Delete a rule
+ *
+ * SECURITY:
+ * - Rate limited
+ * - ID validation
+ */
+router.delete(
+  '/:id',
+  writeLimiter,
+  validateParams(idParamSchema),
+  transactionRuleController.deleteRule
+);
+
+export default router;
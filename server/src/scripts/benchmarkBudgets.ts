@@ -0,0 +1,197 @@
+/**
+ * Budgets Benchmark
+ *
+ * CONCEPT: Compares the budgets page queries before and after they were
+ * merged into one query each for all budgets:
+ * - before: one aggregate (spent) + one find (latest 3) per budget, in parallel
+ * - after: withBudgetDetails - one aggregation over the current periods for
+ *   all budgets, plus one aggregation for the latest 3 of every budget
+ *
+ * RUN: npm run bench:budgets (from server folder)
+ *
+ * Seeds a throwaway user with a budget per category and BENCH_TRANSACTIONS
+ * expenses (default 20000) spread over the last BENCH_YEARS years (default
+ * 6) - a long history, so a query reading all of it shows up in the times.
+ * Times both versions and the budget history query, then removes the
+ * user. Checks both versions return the same spent amounts and latest
+ * transactions; exits with code 1 when they don't.
+ */
+
+import mongoose, { Types } from 'mongoose';
+import { connectDB, disconnectDB } from '../config/db.js';
+import { User, Budget, Transaction } from '../models/index.js';
+import { DEFAULT_CATEGORIES } from '../constants/categories.js';
+import { THEME_COLORS } from '../constants/themes.js';
+import { withBudgetDetails, getBudgetPeriodHistory } from '../services/budget.service.js';
+
+const TRANSACTION_COUNT = Number(process.env.BENCH_TRANSACTIONS) || 20000;
+const HISTORY_YEARS = Number(process.env.BENCH_YEARS) || 6;
+const WARMUP_RUNS = 3;
+const RUNS = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Queries sent to MongoDB (counted through the Mongoose debug hook)
+let queryCount = 0;
+
+/**
+ * The budgets page before: spent and latest transactions queried per budget
+ * (calendar months, as budgets were monthly only)
+ */
+async function getBudgetsPerBudget(userId: Types.ObjectId) {
+  const now = new Date();
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0, 23, 59, 59, 999));
+
+  const budgets = await Budget.find({ userId }).lean();
+  return Promise.all(
+    budgets.map(async (budget) => {
+      const spentResult = await Transaction.aggregate([
+        {
+          $match: {
+            userId,
+            category: budget.category,
+            amount: { $lt: 0 },
+            isTemplate: { $ne: true },
+            date: { $gte: start, $lte: end },
+          },
+        },
+        { $group: { _id: null, total: { $sum: '$amount' } } },
+      ]);
+      const latestTransactions = await Transaction.find({
+        userId,
+        category: budget.category,
+        amount: { $lt: 0 },
+        isTemplate: { $ne: true },
+      })
+        .sort({ date: -1 })
+        .limit(3)
+        .lean();
+
+      return {
+        ...budget,
+        spent: spentResult.length > 0 ? Math.round(Math.abs(spentResult[0].total) * 100) / 100 : 0,
+        latestTransactions,
+      };
+    })
+  );
+}
+
+/**
+ * The budgets page now
+ */
+async function getBudgetsWithDetails(userId: Types.ObjectId) {
+  return withBudgetDetails(userId, await Budget.find({ userId }).lean());
+}
+
+/**
+ * Time a function over several runs (after a warm-up)
+ */
+async function measure(label: string, run: () => Promise<unknown>) {
+  for (let i = 0; i < WARMUP_RUNS; i++) {
+    await run();
+  }
+
+  const times: number[] = [];
+  queryCount = 0;
+  for (let i = 0; i < RUNS; i++) {
+    const start = performance.now();
+    await run();
+    times.push(performance.now() - start);
+  }
+  times.sort((a, b) => a - b);
+
+  const median = times[Math.floor(RUNS / 2)];
+  const p95 = times[Math.ceil(RUNS * 0.95) - 1];
+  console.log(
+    `   ${label.padEnd(20)} median ${median.toFixed(1)} ms   p95 ${p95.toFixed(1)} ms   ` +
+      `${queryCount / RUNS} queries per load`
+  );
+  return median;
+}
+
+async function seed(userId: Types.ObjectId) {
+  await Budget.insertMany(
+    DEFAULT_CATEGORIES.map((category, i) => ({
+      userId,
+      category,
+      maximum: 500,
+      theme: THEME_COLORS[i],
+    }))
+  );
+
+  const now = Date.now();
+  const historyDays = Math.round(HISTORY_YEARS * 365.25);
+  await Transaction.insertMany(
+    Array.from({ length: TRANSACTION_COUNT }, (_, i) => ({
+      userId,
+      name: `Benchmark ${i}`,
+      amount: -Math.round(Math.random() * 10000) / 100 - 0.01,
+      category: DEFAULT_CATEGORIES[i % DEFAULT_CATEGORIES.length],
+      // Random day, never the same time twice (keeps "latest" well defined)
+      date: new Date(now - Math.floor(Math.random() * historyDays) * DAY_MS - i),
+      avatar: '/assets/images/avatars/default.jpg',
+    }))
+  );
+}
+
+async function run(): Promise<void> {
+  console.log(
+    `⏱️  Benchmarking the budgets page with ${TRANSACTION_COUNT} transactions ` +
+      `over ${HISTORY_YEARS} years...\n`
+  );
+
+  await connectDB();
+  const user = await User.create({
+    email: `budget-bench-${Date.now()}@example.com`,
+    password: 'password123',
+    fullName: 'Budget Benchmark',
+    authProvider: 'local',
+  });
+
+  try {
+    await seed(user._id);
+    mongoose.set('debug', () => {
+      queryCount++;
+    });
+
+    // Same results from both versions
+    const [before, after] = await Promise.all([
+      getBudgetsPerBudget(user._id),
+      getBudgetsWithDetails(user._id),
+    ]);
+    const same = before.every((budget) => {
+      const match = after.find((item) => item.category === budget.category);
+      return (
+        match?.spent === budget.spent &&
+        match.latestTransactions.map((tx) => tx._id.toString()).join() ===
+          budget.latestTransactions.map((tx) => tx._id.toString()).join()
+      );
+    });
+    if (!same) {
+      throw new Error('Both versions must return the same spent amounts and latest transactions');
+    }
+    console.log(`   ✓ Same results for ${before.length} budgets\n`);
+
+    const beforeMs = await measure('per budget (before)', () => getBudgetsPerBudget(user._id));
+    const afterMs = await measure('withBudgetDetails', () => getBudgetsWithDetails(user._id));
+
+    console.log(`\n✅ ${(beforeMs / afterMs).toFixed(1)}x faster (median)\n`);
+
+    // Budget history reads the last year's expenses, not the whole history
+    const budgets = await Budget.find({ userId: user._id }).lean();
+    await measure('history (12 months)', () => getBudgetPeriodHistory(user._id, budgets, 12));
+  } finally {
+    mongoose.set('debug', false);
+    await Promise.all([
+      User.deleteOne({ _id: user._id }),
+      Budget.deleteMany({ userId: user._id }),
+      Transaction.deleteMany({ userId: user._id }),
+    ]);
+    await disconnectDB();
+  }
+}
+
+run().catch((error) => {
+  console.error('❌', error);
+  process.exit(1);
+});
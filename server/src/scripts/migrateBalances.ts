@@ -0,0 +1,79 @@
+/**
+ * Balance Migration Script
+ *
+ * CONCEPT: Balances used to change only for transactions in the current
+ * month, so stored balances don't match the ledger
+ * (openingBalance + all transactions - pots).
+ *
+ * RUN: npm run migrate:balances (from server folder)
+ *      npm run migrate:balances -- --dry-run (only lists the drift)
+ *
+ * What it does (per user):
+ * 1. Sets a missing opening balance to 0
+ * 2. Compares the stored balance with the ledger and lists the drift
+ * 3. Repairs the drift like POST /api/overview/balance/reconcile: the
+ *    stored balance is set to the ledger balance
+ *
+ * The drift is not hidden in the opening balance - a user whose balance
+ * changes can set their opening balance (PUT /api/overview/balance/opening)
+ * once they've checked the listed amount. Run with --dry-run first.
+ *
+ * From then on every transaction (any date) moves the balance, and
+ * GET /api/overview/balance/check reports any drift.
+ *
+ * Safe to run more than once - consistent users are left as they are.
+ */
+
+import { connectDB, disconnectDB } from '../config/db.js';
+import { User } from '../models/index.js';
+import { checkBalance, reconcileBalance } from '../services/ledger.service.js';
+
+const dryRun = process.argv.includes('--dry-run');
+
+async function migrate(): Promise<void> {
+  console.log(`💰 Starting balance migration${dryRun ? ' (dry run, nothing is saved)' : ''}...\n`);
+
+  try {
+    await connectDB();
+
+    if (!dryRun) {
+      const { modifiedCount } = await User.updateMany(
+        { openingBalance: { $exists: false } },
+        { $set: { openingBalance: 0 } }
+      );
+      console.log(`   - ${modifiedCount} users given an opening balance of $0.00\n`);
+    }
+
+    const users = await User.find({}, { _id: 1, email: 1 }).lean();
+    let drifting = 0;
+
+    for (const user of users) {
+      const check = await checkBalance(user._id);
+      if (check.consistent) continue;
+
+      drifting++;
+      console.log(
+        `   - ${user.email}: stored $${check.stored.toFixed(2)}, ` +
+          `ledger $${check.ledger.balance.toFixed(2)}, drift $${check.drift.toFixed(2)}`
+      );
+      if (!dryRun) {
+        await reconcileBalance(user._id);
+      }
+    }
+
+    console.log('');
+    console.log(
+      dryRun
+        ? `✅ Dry run completed: ${drifting} of ${users.length} users have drift`
+        : `✅ Migration completed: ${drifting} of ${users.length} users reconciled`
+    );
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exit(1);
+  } finally {
+    await disconnectDB();
+  }
+}
+
+// Run the migration
+migrate();
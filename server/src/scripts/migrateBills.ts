@@ -0,0 +1,80 @@
+/**
+ * Bill Migration Script
+ *
+ * CONCEPT: Bills used to be inferred from recurring transactions in the browser.
+ * This one-off script creates a Bill document for every user's recurring vendors
+ * so existing data shows up on the Recurring Bills page.
+ *
+ * RUN: npm run migrate:bills (from server folder)
+ *
+ * What it does (per user):
+ * 1. Groups recurring expense transactions by vendor name
+ * 2. Creates a Bill from the oldest transaction (amount, category, due day)
+ * 3. Links existing payments to the bill and removes bill templates
+ *
+ * It also converts bills created with a fixed monthly `dueDay` into the
+ * recurrence format (monthly, anchored on that day of the month they were created).
+ *
+ * Safe to run more than once - vendors that already have a bill are skipped.
+ */
+
+import { connectDB, disconnectDB } from '../config/db.js';
+import { User, Bill } from '../models/index.js';
+import { createBillsFromRecurring } from '../services/bill.service.js';
+
+async function migrate(): Promise<void> {
+  console.log('🧾 Starting bill migration...\n');
+
+  try {
+    await connectDB();
+
+    // Convert legacy bills (dueDay) to recurrence rules
+    const legacyBills = await Bill.collection
+      .find({ anchorDate: { $exists: false } })
+      .toArray();
+    for (const bill of legacyBills) {
+      const created = new Date(bill.createdAt);
+      const year = created.getUTCFullYear();
+      const month = created.getUTCMonth();
+      const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+      await Bill.collection.updateOne(
+        { _id: bill._id },
+        {
+          $set: {
+            frequency: 'monthly',
+            interval: 1,
+            anchorDate: new Date(Date.UTC(year, month, Math.min(bill.dueDay ?? 1, lastDay))),
+            endDate: null,
+          },
+          $unset: { dueDay: '' },
+        }
+      );
+    }
+    if (legacyBills.length > 0) {
+      console.log(`   - ${legacyBills.length} bills converted to recurrence rules`);
+    }
+
+    const users = await User.find({}, { _id: 1, email: 1 }).lean();
+    let total = 0;
+
+    for (const user of users) {
+      const created = await createBillsFromRecurring(user._id);
+      if (created > 0) {
+        console.log(`   - ${user.email}: ${created} bills created`);
+      }
+      total += created;
+    }
+
+    console.log('');
+    console.log(`✅ Migration completed: ${total} bills created for ${users.length} users`);
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exit(1);
+  } finally {
+    await disconnectDB();
+  }
+}
+
+// Run the migration
+migrate();
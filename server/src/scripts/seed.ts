@@ -10,6 +10,7 @@
  * 1. Clears existing data
  * 2. Creates a demo user account
  * 3. Imports transactions, budgets, and pots from data.json
+ * 4. Creates recurring bills from recurring transactions
  *
  * Demo Account:
  *   Email: demo@example.com
@@ -21,7 +22,9 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 
 import { connectDB, disconnectDB } from '../config/db.js';
-import { User, Transaction, Budget, Pot } from '../models/index.js';
+import { User, Transaction, Budget, Pot, PotMovement, PotRule, Bill, Category } from '../models/index.js';
+import { createBillsFromRecurring } from '../services/bill.service.js';
+import { getLedgerBalance } from '../services/ledger.service.js';
 
 // Get directory name in ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -78,6 +81,10 @@ async function seed(): Promise<void> {
       Transaction.deleteMany({}),
       Budget.deleteMany({}),
       Pot.deleteMany({}),
+      PotMovement.deleteMany({}),
+      PotRule.deleteMany({}),
+      Bill.deleteMany({}),
+      Category.deleteMany({}),
     ]);
     console.log('✅ Existing data cleared\n');
 
@@ -130,6 +137,18 @@ async function seed(): Promise<void> {
     await Pot.insertMany(pots);
     console.log(`✅ ${pots.length} pots imported\n`);
 
+    // Opening balance makes the ledger match the balance in data.json
+    // (openingBalance + transactions - pots = current)
+    const ledger = await getLedgerBalance(user._id);
+    const openingBalance = Math.round((data.balance.current - ledger.balance) * 100) / 100;
+    await User.updateOne({ _id: user._id }, { $set: { openingBalance } });
+    console.log(`✅ Opening balance set: $${openingBalance.toFixed(2)}\n`);
+
+    // Create recurring bills
+    console.log('🧾 Creating recurring bills...');
+    const billCount = await createBillsFromRecurring(user._id);
+    console.log(`✅ ${billCount} bills created\n`);
+
     // Summary
     console.log('='.repeat(50));
     console.log('🎉 Seed completed successfully!');
@@ -142,6 +161,7 @@ async function seed(): Promise<void> {
     console.log(`   - Transactions: ${transactions.length}`);
     console.log(`   - Budgets: ${budgets.length}`);
     console.log(`   - Pots: ${pots.length}`);
+    console.log(`   - Bills: ${billCount}`);
     console.log('');
     console.log('🔐 Login with:');
     console.log('   Email: demo@example.com');
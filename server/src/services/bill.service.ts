@@ -0,0 +1,294 @@
+/**
+ * Bill Service
+ *
+ * CONCEPT: Calculates bill status on the server so every client sees the
+ * same paid/upcoming/due-soon state.
+ *
+ * Each payment covers one due date (Transaction.billDueDate). The bill's
+ * next due date is the first due date after the latest one covered.
+ * Missed due dates don't stack up: the next due date is never earlier than
+ * the most recent due date (on or before today).
+ *
+ * Status rules:
+ * - due-soon: Next due date is within DUE_SOON_DAYS days (or already past)
+ * - paid: The most recent due date has been paid and the next one isn't close
+ * - upcoming: Everything else (e.g. the first due date is still far away)
+ */
+
+import { Types } from 'mongoose';
+import { Transaction, Bill, type IBill } from '../models/index.js';
+import { postTransaction } from './transaction.service.js';
+import {
+  getNextOccurrence,
+  getPreviousOccurrence,
+  getNearestOccurrence,
+  type RecurrenceRule,
+} from '../utils/recurrence.js';
+
+// Bills due within this many days are flagged as "due soon"
+export const DUE_SOON_DAYS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type BillStatus = 'paid' | 'upcoming' | 'due-soon';
+
+export interface BillsSummary {
+  total: number;
+  totalAmount: number;
+  paid: { count: number; amount: number };
+  upcoming: { count: number; amount: number };
+  dueSoon: { count: number; amount: number };
+}
+
+// Minimal bill shape needed to calculate status
+type LeanBill = Pick<IBill, '_id' | 'frequency' | 'interval' | 'anchorDate' | 'endDate'>;
+
+// Calculated fields added to each bill
+export interface BillStatusFields {
+  status: BillStatus;
+  nextDueDate: Date | null;  // null when the series has ended and everything is paid
+  paidThrough: Date | null;  // Latest due date covered by a payment
+  lastPaidAt: Date | null;   // Date of the latest payment
+}
+
+/**
+ * Get the recurrence rule of a bill
+ */
+export function getBillRule(bill: LeanBill): RecurrenceRule {
+  return {
+    frequency: bill.frequency,
+    interval: bill.interval,
+    anchorDate: new Date(bill.anchorDate),
+    endDate: bill.endDate ? new Date(bill.endDate) : null,
+  };
+}
+
+/**
+ * Get the first due date that hasn't been paid yet
+ */
+export function getNextDueDate(bill: LeanBill, paidThrough: Date | null): Date | null {
+  const rule = getBillRule(bill);
+  return paidThrough ? getNextOccurrence(rule, paidThrough) : getNextOccurrence(rule, new Date(0));
+}
+
+/**
+ * Calculate status for a list of bills
+ *
+ * Looks up the payments for every bill in a single aggregation.
+ */
+export async function withBillStatus<T extends LeanBill>(
+  userId: Types.ObjectId,
+  bills: T[],
+  now: Date = new Date()
+): Promise<Array<T & BillStatusFields>> {
+  if (bills.length === 0) {
+    return [];
+  }
+
+  // Latest covered due date and latest payment date per bill
+  const payments: Array<{
+    _id: Types.ObjectId;
+    lastDueDate: Date | null;
+    lastPaidAt: Date;
+  }> = await Transaction.aggregate([
+    {
+      $match: {
+        userId,
+        billId: { $in: bills.map((bill) => bill._id) },
+        isTemplate: { $ne: true },
+      },
+    },
+    {
+      $group: {
+        _id: '$billId',
+        lastDueDate: { $max: '$billDueDate' },
+        lastPaidAt: { $max: '$date' },
+      },
+    },
+  ]);
+  const paymentsByBill = new Map(payments.map((payment) => [payment._id.toString(), payment]));
+
+  const dueSoonLimit = new Date(now.getTime() + DUE_SOON_DAYS * DAY_MS);
+
+  return bills.map((bill) => {
+    const rule = getBillRule(bill);
+    const payment = paymentsByBill.get(bill._id.toString());
+
+    // Payments recorded before due dates were tracked cover the nearest due date
+    let paidThrough: Date | null = payment?.lastDueDate ?? null;
+    if (payment && !payment.lastDueDate) {
+      paidThrough = getNearestOccurrence(rule, payment.lastPaidAt);
+    }
+
+    const previousDueDate = getPreviousOccurrence(rule, now);
+    const firstUnpaid = getNextDueDate(bill, paidThrough);
+    const nextDueDate =
+      firstUnpaid && previousDueDate && firstUnpaid < previousDueDate
+        ? previousDueDate
+        : firstUnpaid;
+
+    let status: BillStatus;
+    if (nextDueDate && nextDueDate <= dueSoonLimit) {
+      status = 'due-soon';
+    } else if (paidThrough && (!previousDueDate || paidThrough >= previousDueDate)) {
+      status = 'paid';
+    } else {
+      status = 'upcoming';
+    }
+
+    return {
+      ...bill,
+      status,
+      nextDueDate,
+      paidThrough,
+      lastPaidAt: payment?.lastPaidAt ?? null,
+    };
+  });
+}
+
+/**
+ * Summarize bills by status
+ *
+ * Total only counts UNPAID bills (upcoming + due soon).
+ */
+export function summarizeBills(
+  bills: Array<{ amount: number; status: BillStatus }>
+): BillsSummary {
+  const sum = (items: Array<{ amount: number }>) =>
+    items.reduce((total, bill) => total + Math.abs(bill.amount), 0);
+
+  const paid = bills.filter((bill) => bill.status === 'paid');
+  const unpaid = bills.filter((bill) => bill.status !== 'paid');
+  const dueSoon = bills.filter((bill) => bill.status === 'due-soon');
+
+  return {
+    total: unpaid.length,
+    totalAmount: sum(unpaid),
+    paid: { count: paid.length, amount: sum(paid) },
+    upcoming: { count: unpaid.length, amount: sum(unpaid) },
+    dueSoon: { count: dueSoon.length, amount: sum(dueSoon) },
+  };
+}
+
+/**
+ * Create bills from a user's recurring expense transactions
+ *
+ * Used by the seed and migration scripts. Recurring transactions are grouped by
+ * vendor name; the oldest one defines the bill amount, category and first due date
+ * (bills are assumed to be monthly).
+ * Existing transactions are linked to the new bill and bill templates
+ * (isTemplate) are removed since the Bill document replaces them.
+ *
+ * Returns the number of bills created. Vendors that already have a bill are skipped.
+ */
+export async function createBillsFromRecurring(userId: Types.ObjectId): Promise<number> {
+  const recurring = await Transaction.find({
+    userId,
+    recurring: true,
+    amount: { $lt: 0 },
+    billId: { $exists: false },
+  })
+    .sort({ date: 1 })
+    .lean();
+
+  // Group by vendor name (oldest first)
+  const byVendor = new Map<string, typeof recurring>();
+  recurring.forEach((tx) => {
+    const existing = byVendor.get(tx.name) || [];
+    existing.push(tx);
+    byVendor.set(tx.name, existing);
+  });
+
+  let created = 0;
+  for (const [name, transactions] of byVendor) {
+    const template = transactions[0];
+
+    let bill = await Bill.findOne({ userId, name });
+    if (!bill) {
+      bill = await Bill.create({
+        userId,
+        name,
+        avatar: template.avatar,
+        amount: Math.abs(template.amount),
+        category: template.category,
+        frequency: 'monthly',
+        interval: 1,
+        anchorDate: template.date,
+      });
+      created++;
+    }
+
+    const ids = transactions.map((tx) => tx._id);
+    await Transaction.deleteMany({ _id: { $in: ids }, isTemplate: true });
+    await Transaction.updateMany({ _id: { $in: ids } }, { $set: { billId: bill._id } });
+  }
+
+  return created;
+}
+
+/**
+ * Post payments for auto-post bills that have come due
+ *
+ * Used by the auto-post job. Every unpaid due date between the time auto-post
+ * was turned on and `now` gets a payment transaction dated on the due date.
+ * Balance is updated through postTransaction (same path as POST /api/transactions).
+ *
+ * IDEMPOTENT: Payments are keyed by (billId, billDueDate) with a unique index,
+ * so a due date that was already posted (by a previous run, another server
+ * instance or a manual payment) is skipped instead of posted twice.
+ *
+ * Returns the number of payments posted.
+ */
+export async function autoPostDueBills(now: Date = new Date()): Promise<number> {
+  const bills = await Bill.find({ autoPost: true, anchorDate: { $lte: now } }).lean();
+
+  // Group by user so status is calculated with one aggregation per user
+  const byUser = new Map<string, typeof bills>();
+  bills.forEach((bill) => {
+    const key = bill.userId.toString();
+    byUser.set(key, [...(byUser.get(key) || []), bill]);
+  });
+
+  let posted = 0;
+  for (const userBills of byUser.values()) {
+    const userId = userBills[0].userId;
+
+    for (const bill of await withBillStatus(userId, userBills, now)) {
+      const rule = getBillRule(bill);
+
+      // Start at the first unpaid due date, but never before auto-post was turned on
+      let dueDate = getNextDueDate(bill, bill.paidThrough);
+      if (bill.autoPostSince && dueDate && dueDate < bill.autoPostSince) {
+        const since = new Date(bill.autoPostSince);
+        since.setUTCHours(0, 0, 0, 0); // Include a due date earlier the same day
+        dueDate = getNextOccurrence(rule, new Date(since.getTime() - 1));
+      }
+
+      while (dueDate && dueDate <= now) {
+        try {
+          await postTransaction(userId, {
+            name: bill.name,
+            amount: -Math.abs(bill.amount), // Bills are expenses (negative)
+            category: bill.category,
+            date: dueDate,
+            avatar: bill.avatar,
+            recurring: true,
+            billId: bill._id,
+            billDueDate: dueDate,
+          });
+          posted++;
+        } catch (error) {
+          // Already posted - skip to the next due date
+          // Anything else: leave this bill for the next run, keep posting the others
+          if ((error as { code?: number }).code !== 11000) {
+            console.error(`Auto-post failed for bill ${bill._id}:`, error);
+            break;
+          }
+        }
+        dueDate = getNextOccurrence(rule, dueDate);
+      }
+    }
+  }
+
+  return posted;
+}
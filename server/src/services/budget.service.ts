@@ -0,0 +1,481 @@
+/**
+ * Budget Service
+ *
+ * CONCEPT: Calculates what a budget has left in its current period,
+ * including money carried over from earlier periods (envelope budgeting).
+ *
+ * Periods are a recurrence series (see utils/recurrence.ts): every budget
+ * period starts on an occurrence of its frequency from the period anchor
+ * and ends just before the next one. Without an anchor, periods follow the
+ * calendar - DEFAULT_PERIOD_ANCHOR is a Monday, January 1st.
+ *
+ * Periods are replayed from the oldest one needed up to the current one.
+ * With rollover, every period from rolloverSince on carries into the next:
+ *   limit    = maximum + carried in
+ *   leftover = limit - spent
+ *   carried out = leftover (surplus_and_deficit) or max(leftover, 0) (surplus),
+ *                 clamped to ±rolloverCap when set
+ *
+ * The replay uses the current maximum and period settings for every
+ * period - changing them changes past limits too.
+ *
+ * A budget on a parent category also counts its subcategories' expenses
+ * (Bills covers Utilities and Electricity).
+ *
+ * PERFORMANCE: The spending of every budget comes from ONE aggregation
+ * over the expenses in the replayed periods, whatever the number of
+ * budgets - after one read of the user's category tree. The budgets page
+ * adds one more for the latest expenses of every budget, limited to
+ * LATEST_TRANSACTIONS_COUNT transactions per budget. Neither reads the
+ * whole history.
+ */
+
+import { Types, type PipelineStage } from 'mongoose';
+import {
+  Transaction,
+  CATEGORY_LINE_STAGES,
+  DEFAULT_ALERT_THRESHOLDS,
+  type IBudget,
+  type ITransaction,
+  type BudgetPeriod,
+  type RolloverMode,
+} from '../models/index.js';
+import { FREQUENCY_STEPS } from '../constants/recurrence.js';
+import { getCategoryTree } from './category.service.js';
+import {
+  getNextOccurrence,
+  getPreviousOccurrence,
+  type RecurrenceRule,
+} from '../utils/recurrence.js';
+
+// Calendar periods: months from the 1st, quarters from Jan/Apr/Jul/Oct,
+// years from Jan 1, weeks from Monday
+export const DEFAULT_PERIOD_ANCHOR = new Date(Date.UTC(2024, 0, 1));
+
+// Period settings of a budget
+type BudgetPeriodSettings = Partial<Pick<IBudget, 'period' | 'periodAnchor'>>;
+
+// Minimal budget shape needed to calculate status
+type LeanBudget = Pick<IBudget, '_id' | 'category' | 'maximum'> &
+  BudgetPeriodSettings &
+  Partial<Pick<IBudget, 'rolloverMode' | 'rolloverCap' | 'rolloverSince' | 'alertThresholds'>>;
+
+export interface PeriodRange {
+  start: Date;
+  end: Date;  // Last millisecond of the period
+}
+
+// How a budget did in one period
+export interface BudgetPeriodStatus {
+  periodStart: Date;
+  periodEnd: Date;
+  limit: number;        // maximum + carriedOver
+  carriedOver: number;
+  spent: number;
+  difference: number;   // limit - spent (negative = over budget)
+  isCurrent: boolean;   // The period in progress
+}
+
+// Calculated fields added to each budget
+export interface BudgetStatusFields {
+  period: BudgetPeriod;         // 'monthly' for budgets from before periods
+  rolloverMode: RolloverMode;   // 'none' for budgets from before rollover
+  alertThresholds: number[];    // Defaults for budgets from before alerts
+  periodStart: Date;            // Current period
+  periodEnd: Date;
+  spent: number;                // Expenses this period (positive)
+  carriedOver: number;          // Added to this period's limit (negative after overspending)
+  effectiveMaximum: number;     // maximum + carriedOver
+  remaining: number;            // effectiveMaximum - spent
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Periods can be calculated back to this date, whatever the anchor
+const EARLIEST_PERIOD = new Date(Date.UTC(2000, 0, 1));
+
+const roundToCents = (amount: number) => Math.round(amount * 100) / 100;
+
+// Looks up a budget category's expenses in a period (subcategories included)
+type SpentLookup = (category: string, range: PeriodRange) => number;
+
+// Expense listed with a budget (the whole transaction is returned)
+export type LatestTransaction = Pick<ITransaction, '_id' | 'name' | 'amount' | 'category' | 'date'>;
+
+// Number of latest expenses listed with each budget
+export const LATEST_TRANSACTIONS_COUNT = 3;
+
+interface BudgetActivity {
+  getSpent: SpentLookup;
+  latestByCategory: Map<string, LatestTransaction[]>;  // Newest first, subcategories included
+}
+
+/**
+ * Get the recurrence rule whose occurrences start the budget's periods
+ *
+ * The anchor only sets where periods start, so it's moved back to
+ * EARLIEST_PERIOD (by whole periods) to give periods before it too.
+ */
+export function getPeriodRule(budget: BudgetPeriodSettings): RecurrenceRule {
+  const frequency = budget.period ?? 'monthly';
+  const anchor = budget.periodAnchor ? new Date(budget.periodAnchor) : DEFAULT_PERIOD_ANCHOR;
+
+  let anchorDate: Date;
+  if (FREQUENCY_STEPS[frequency].unit === 'month') {
+    // Same day and month in 2000 (a leap year, so Feb 29 stays)
+    anchorDate = new Date(Date.UTC(2000, anchor.getUTCMonth(), anchor.getUTCDate()));
+  } else {
+    const stepMs = FREQUENCY_STEPS[frequency].count * DAY_MS;
+    const steps = Math.ceil((anchor.getTime() - EARLIEST_PERIOD.getTime()) / stepMs);
+    anchorDate = new Date(anchor.getTime() - steps * stepMs);
+  }
+
+  return { frequency, interval: 1, anchorDate };
+}
+
+/**
+ * Get the budget period containing a date
+ */
+export function getPeriodRange(
+  budget: BudgetPeriodSettings,
+  date: Date = new Date()
+): PeriodRange {
+  const rule = getPeriodRule(budget);
+  const start = getPreviousOccurrence(rule, date) ?? rule.anchorDate;
+  // The series has no end date, so there's always a next period
+  const next = getNextOccurrence(rule, start)!;
+
+  return { start, end: new Date(next.getTime() - 1) };
+}
+
+/**
+ * Day key used to look up spending (e.g. "2026-03-25")
+ */
+function toDayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Whether a budget carries anything between periods
+ */
+function hasRollover(budget: LeanBudget): boolean {
+  return !!budget.rolloverMode && budget.rolloverMode !== 'none' && !!budget.rolloverSince;
+}
+
+/**
+ * Amount carried out of a period for a given leftover
+ */
+export function getCarryOut(
+  leftover: number,
+  mode: RolloverMode,
+  cap: number | null | undefined
+): number {
+  let carry = mode === 'surplus_and_deficit' ? leftover : Math.max(leftover, 0);
+  if (cap !== null && cap !== undefined) {
+    carry = Math.min(Math.max(carry, -cap), cap);
+  }
+  return roundToCents(carry);
+}
+
+/**
+ * Match stage for a user's expenses in some categories (split lines included)
+ */
+function expensesIn(userId: Types.ObjectId, categories: string[]) {
+  return {
+    userId,
+    $or: [{ category: { $in: categories } }, { 'splits.category': { $in: categories } }],
+    amount: { $lt: 0 },  // Only expenses (negative amounts)
+    isTemplate: { $ne: true },
+  };
+}
+
+/**
+ * The `count` most recent expenses of each budget category, newest first
+ *
+ * One aggregation: a branch per budget category ($unionWith), each sorted
+ * and limited before split lines are unwound, so it reads `count`
+ * transactions per budget at most. A split transaction is listed with the
+ * amount of its (first) line in the budget category.
+ */
+async function getLatestExpenses(
+  userId: Types.ObjectId,
+  namesByCategory: Map<string, string[]>,
+  count: number
+): Promise<Map<string, LatestTransaction[]>> {
+  const latestByCategory = new Map<string, LatestTransaction[]>(
+    [...namesByCategory.keys()].map((category) => [category, []])
+  );
+  if (latestByCategory.size === 0) return latestByCategory;
+
+  // Latest expenses of one budget, tagged with its category
+  const branch = (category: string, names: string[]): PipelineStage.FacetPipelineStage[] => [
+    { $match: expensesIn(userId, names) },
+    { $sort: { date: -1 } },
+    { $limit: count },
+    ...CATEGORY_LINE_STAGES,
+    { $match: { category: { $in: names } } },
+    { $group: { _id: '$_id', transaction: { $first: '$$ROOT' } } },
+    { $replaceWith: { $mergeObjects: ['$transaction', { budgetCategory: { $literal: category } }] } },
+  ];
+  const [first, ...others] = [...namesByCategory].map(([category, names]) => branch(category, names));
+
+  const rows = await Transaction.aggregate<LatestTransaction & { budgetCategory: string }>([
+    ...first,
+    ...others.map((pipeline) => ({
+      $unionWith: { coll: Transaction.collection.name, pipeline },
+    })),
+  ]);
+
+  for (const { budgetCategory, ...transaction } of rows) {
+    latestByCategory.get(budgetCategory)!.push(transaction);
+  }
+  for (const transactions of latestByCategory.values()) {
+    transactions.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  }
+  return latestByCategory;
+}
+
+/**
+ * Look up expenses for a set of budgets (templates excluded)
+ *
+ * - spending: One aggregation of the expenses between two dates, totalled
+ *   per category and day, summed per period here (budgets can have
+ *   different periods)
+ * - latest: The `latestCount` most recent expenses of each budget category
+ *   (any date), one aggregation for all budgets
+ * Spending is grouped by category and combined here into each budget
+ * category's subtree. A split transaction counts each line in its own
+ * category.
+ */
+async function getBudgetActivity(
+  userId: Types.ObjectId,
+  budgets: LeanBudget[],
+  from: Date,
+  to: Date,
+  latestCount = 0
+): Promise<BudgetActivity> {
+  const tree = await getCategoryTree(userId);
+  const namesByCategory = new Map(
+    budgets.map((budget) => [budget.category, tree.getDescendantNames(budget.category)])
+  );
+  const names = [...new Set([...namesByCategory.values()].flat())];
+
+  const [spending, latestByCategory] = await Promise.all([
+    Transaction.aggregate<{ _id: { category: string; day: string }; total: number }>([
+      { $match: { ...expensesIn(userId, names), date: { $gte: from, $lte: to } } },
+      // Split transactions count per line (the other lines are dropped)
+      ...CATEGORY_LINE_STAGES,
+      { $match: { category: { $in: names } } },
+      {
+        $group: {
+          _id: {
+            category: '$category',
+            day: { $dateToString: { format: '%Y-%m-%d', date: '$date', timezone: 'UTC' } },
+          },
+          total: { $sum: '$amount' },
+        },
+      },
+    ]),
+    latestCount > 0
+      ? getLatestExpenses(userId, namesByCategory, latestCount)
+      : new Map<string, LatestTransaction[]>(),
+  ]);
+
+  const spentByCategory = new Map<string, Array<{ day: string; amount: number }>>();
+  for (const entry of spending) {
+    const days = spentByCategory.get(entry._id.category) ?? [];
+    days.push({ day: entry._id.day, amount: Math.abs(entry.total) });
+    spentByCategory.set(entry._id.category, days);
+  }
+
+  const getSpent: SpentLookup = (category, range) => {
+    const first = toDayKey(range.start);
+    const last = toDayKey(range.end);
+    const total = (namesByCategory.get(category) ?? [category])
+      .flatMap((name) => spentByCategory.get(name) ?? [])
+      .filter((entry) => entry.day >= first && entry.day <= last)
+      .reduce((sum, entry) => sum + entry.amount, 0);
+    return roundToCents(total);
+  };
+
+  return { getSpent, latestByCategory };
+}
+
+/**
+ * First period start a budget's replay needs to report from `from`
+ * (earlier when the rollover started before it)
+ */
+function getReplayStart(budget: LeanBudget, from: Date): Date {
+  const start = getPeriodRange(budget, from).start;
+  if (!hasRollover(budget)) return start;
+  const rolloverStart = getPeriodRange(budget, new Date(budget.rolloverSince!)).start;
+  return rolloverStart < start ? rolloverStart : start;
+}
+
+/**
+ * Replay a budget's periods up to the current one
+ *
+ * Returns the periods from the one containing `from` to the current one
+ * (oldest first).
+ */
+function replayPeriods(
+  budget: LeanBudget,
+  from: Date,
+  now: Date,
+  getSpent: SpentLookup
+): BudgetPeriodStatus[] {
+  const current = getPeriodRange(budget, now);
+  const reportFrom = getPeriodRange(budget, from).start;
+  const rolloverStart = hasRollover(budget)
+    ? getPeriodRange(budget, new Date(budget.rolloverSince!)).start
+    : null;
+
+  const periods: BudgetPeriodStatus[] = [];
+  let carriedOver = 0;
+  let range = getPeriodRange(budget, getReplayStart(budget, from));
+  while (range.start <= current.start) {
+    const limit = roundToCents(budget.maximum + carriedOver);
+    const spent = getSpent(budget.category, range);
+
+    if (range.start >= reportFrom) {
+      periods.push({
+        periodStart: range.start,
+        periodEnd: range.end,
+        limit,
+        carriedOver,
+        spent,
+        difference: roundToCents(limit - spent),
+        isCurrent: range.start.getTime() === current.start.getTime(),
+      });
+    }
+
+    // Only periods since the rollover started carry anything
+    carriedOver =
+      rolloverStart && range.start >= rolloverStart
+        ? getCarryOut(limit - spent, budget.rolloverMode!, budget.rolloverCap)
+        : 0;
+    range = getPeriodRange(budget, new Date(range.end.getTime() + 1));
+  }
+
+  return periods;
+}
+
+/**
+ * Date range covering every budget's replay from `from` to its current period
+ */
+function getReplayWindow(budgets: LeanBudget[], from: Date, now: Date) {
+  let start = getReplayStart(budgets[0], from);
+  let end = getPeriodRange(budgets[0], now).end;
+  for (const budget of budgets) {
+    const replayStart = getReplayStart(budget, from);
+    const currentEnd = getPeriodRange(budget, now).end;
+    if (replayStart < start) start = replayStart;
+    if (currentEnd > end) end = currentEnd;
+  }
+  return { start, end };
+}
+
+/**
+ * Current status of a list of budgets (and the latest expenses when asked for)
+ */
+async function getCurrentStatus<T extends LeanBudget>(
+  userId: Types.ObjectId,
+  budgets: T[],
+  now: Date,
+  latestCount: number
+) {
+  const window = getReplayWindow(budgets, now, now);
+  const { getSpent, latestByCategory } = await getBudgetActivity(
+    userId,
+    budgets,
+    window.start,
+    window.end,
+    latestCount
+  );
+
+  const items: Array<T & BudgetStatusFields> = budgets.map((budget) => {
+    const [current] = replayPeriods(budget, now, now, getSpent);
+
+    return {
+      ...budget,
+      period: budget.period ?? 'monthly',
+      rolloverMode: budget.rolloverMode ?? 'none',
+      alertThresholds: budget.alertThresholds ?? DEFAULT_ALERT_THRESHOLDS,
+      periodStart: current.periodStart,
+      periodEnd: current.periodEnd,
+      spent: current.spent,
+      carriedOver: current.carriedOver,
+      effectiveMaximum: current.limit,
+      remaining: current.difference,
+    };
+  });
+
+  return { items, latestByCategory };
+}
+
+/**
+ * Calculate period, spent, carried over and remaining amounts for a list of budgets
+ */
+export async function withBudgetStatus<T extends LeanBudget>(
+  userId: Types.ObjectId,
+  budgets: T[],
+  now: Date = new Date()
+): Promise<Array<T & BudgetStatusFields>> {
+  if (budgets.length === 0) {
+    return [];
+  }
+
+  const { items } = await getCurrentStatus(userId, budgets, now, 0);
+  return items;
+}
+
+/**
+ * Budget status plus the latest expenses of each budget's category (any period)
+ */
+export async function withBudgetDetails<T extends LeanBudget>(
+  userId: Types.ObjectId,
+  budgets: T[],
+  now: Date = new Date()
+): Promise<Array<T & BudgetStatusFields & { latestTransactions: LatestTransaction[] }>> {
+  if (budgets.length === 0) {
+    return [];
+  }
+
+  const { items, latestByCategory } = await getCurrentStatus(
+    userId,
+    budgets,
+    now,
+    LATEST_TRANSACTIONS_COUNT
+  );
+  return items.map((budget) => ({
+    ...budget,
+    latestTransactions: latestByCategory.get(budget.category) ?? [],
+  }));
+}
+
+/**
+ * Get how each budget did in every period of the last `months` months
+ *
+ * Covers the periods from the one containing the start of the month
+ * `months` months ago up to the current one.
+ */
+export async function getBudgetPeriodHistory(
+  userId: Types.ObjectId,
+  budgets: LeanBudget[],
+  months: number,
+  now: Date = new Date()
+): Promise<Map<string, BudgetPeriodStatus[]>> {
+  const history = new Map<string, BudgetPeriodStatus[]>();
+  if (budgets.length === 0) {
+    return history;
+  }
+
+  const from = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - months, 1));
+  const window = getReplayWindow(budgets, from, now);
+  const { getSpent } = await getBudgetActivity(userId, budgets, window.start, window.end);
+
+  for (const budget of budgets) {
+    history.set(budget._id.toString(), replayPeriods(budget, from, now, getSpent));
+  }
+  return history;
+}
@@ -0,0 +1,599 @@
+/**
+ * Category Service
+ *
+ * CONCEPT: Each user's categories form a tree (at most MAX_CATEGORY_DEPTH
+ * levels, e.g. Bills -> Utilities -> Electricity).
+ *
+ * Transactions, budgets, bills and saved views store category NAMES, so:
+ * - Renaming a category re-tags everything that uses the old name
+ * - Merging moves everything (transactions, budgets, bills, subcategories)
+ *   to the target category and removes the merged one
+ * - Archiving hides a category (and its subcategories) from the pickers;
+ *   existing transactions keep it
+ * Each of these runs in one MongoDB transaction, so a rename is never
+ * half-applied.
+ *
+ * Roll-up: a parent category covers its subcategories. Transaction filters,
+ * budgets and the spending report use getDescendantNames for that.
+ *
+ * Users get the default categories the first time their categories are
+ * needed (ensureDefaultCategories). FALLBACK_CATEGORY, which new
+ * transactions and imports use when no category is given, can't be
+ * renamed, merged away or archived.
+ */
+
+import mongoose, { Types, type ClientSession } from 'mongoose';
+import {
+  Category,
+  Transaction,
+  Budget,
+  Bill,
+  SavedView,
+  TransactionRule,
+  CATEGORY_NAME_COLLATION,
+  CATEGORY_LINE_STAGES,
+  type ICategory,
+  type CategoryStatus,
+} from '../models/index.js';
+import {
+  DEFAULT_CATEGORIES,
+  FALLBACK_CATEGORY,
+  MAX_CATEGORIES_PER_USER,
+  MAX_CATEGORY_DEPTH,
+} from '../constants/categories.js';
+import { AppError } from '../utils/AppError.js';
+import { HTTP_STATUS } from '../constants/http.js';
+
+// Minimal category shape needed to build the tree
+type LeanCategory = Pick<ICategory, '_id' | 'name' | 'parentId' | 'status'>;
+
+export interface CategoryTree {
+  findByName(name: string): LeanCategory | undefined;  // Case-insensitive
+  findById(id: string): LeanCategory | undefined;
+  getDescendantNames(name: string): string[];  // The category and everything below it
+  getAncestorNames(name: string): string[];    // The category and everything above it
+  getDepth(id: string): number;    // 1 = top level
+  getHeight(id: string): number;   // 1 = no subcategories
+  isDescendant(id: string, ancestorId: string): boolean;
+  ordered: Array<LeanCategory & { depth: number }>;  // Parents first, siblings by name
+}
+
+// What a rename or merge changed
+export interface RetagResult {
+  transactions: number;
+  budgets: number;
+  bills: number;
+  views: number;
+  rules: number;
+}
+
+// One row of the spending report
+export interface CategorySpending {
+  _id: Types.ObjectId | null;  // null = name no longer in the user's categories
+  name: string;
+  parentId: Types.ObjectId | null;
+  status: CategoryStatus;
+  depth: number;
+  spent: number;        // Expenses tagged with this category (positive)
+  income: number;
+  totalSpent: number;   // Including subcategories
+  totalIncome: number;
+}
+
+const roundToCents = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Build the tree of a user's categories
+ */
+export function buildCategoryTree(categories: LeanCategory[]): CategoryTree {
+  const byId = new Map(categories.map((category) => [category._id.toString(), category]));
+  const byName = new Map(categories.map((category) => [category.name.toLowerCase(), category]));
+  const children = new Map<string, LeanCategory[]>();
+  for (const category of categories) {
+    const parentKey = category.parentId?.toString() ?? '';
+    children.set(parentKey, [...(children.get(parentKey) ?? []), category]);
+  }
+
+  const collectDescendants = (category: LeanCategory): LeanCategory[] => [
+    category,
+    ...(children.get(category._id.toString()) ?? []).flatMap(collectDescendants),
+  ];
+
+  const getAncestors = (category: LeanCategory): LeanCategory[] => {
+    const ancestors = [category];
+    let parent = category.parentId ? byId.get(category.parentId.toString()) : undefined;
+    while (parent && !ancestors.includes(parent)) {
+      ancestors.push(parent);
+      parent = parent.parentId ? byId.get(parent.parentId.toString()) : undefined;
+    }
+    return ancestors;
+  };
+
+  const getHeight = (category: LeanCategory): number =>
+    1 + Math.max(0, ...(children.get(category._id.toString()) ?? []).map(getHeight));
+
+  const ordered: Array<LeanCategory & { depth: number }> = [];
+  const visit = (parentKey: string, depth: number) => {
+    const siblings = [...(children.get(parentKey) ?? [])].sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+    for (const category of siblings) {
+      ordered.push({ ...category, depth });
+      visit(category._id.toString(), depth + 1);
+    }
+  };
+  visit('', 0);
+
+  return {
+    findByName: (name) => byName.get(name.toLowerCase()),
+    findById: (id) => byId.get(id),
+    getDescendantNames: (name) => {
+      const category = byName.get(name.toLowerCase());
+      return category ? collectDescendants(category).map((item) => item.name) : [name];
+    },
+    getAncestorNames: (name) => {
+      const category = byName.get(name.toLowerCase());
+      return category ? getAncestors(category).map((item) => item.name) : [name];
+    },
+    getDepth: (id) => {
+      const category = byId.get(id);
+      return category ? getAncestors(category).length : 0;
+    },
+    getHeight: (id) => {
+      const category = byId.get(id);
+      return category ? getHeight(category) : 0;
+    },
+    isDescendant: (id, ancestorId) => {
+      const category = byId.get(id);
+      return !!category && getAncestors(category).some((item) => item._id.toString() === ancestorId);
+    },
+    ordered,
+  };
+}
+
+/**
+ * Get the tree of a user's categories (archived ones included)
+ */
+export async function getCategoryTree(
+  userId: Types.ObjectId,
+  session?: ClientSession
+): Promise<CategoryTree> {
+  const categories = await Category.find({ userId })
+    .select('name parentId status')
+    .session(session ?? null)
+    .lean();
+  return buildCategoryTree(categories);
+}
+
+/**
+ * Give a user the default categories if they have none yet
+ */
+export async function ensureDefaultCategories(userId: Types.ObjectId): Promise<void> {
+  if (await Category.exists({ userId })) {
+    return;
+  }
+
+  try {
+    await Category.insertMany(
+      DEFAULT_CATEGORIES.map((name) => ({ userId, name })),
+      { ordered: false }
+    );
+  } catch (error) {
+    // Another request created them first
+    const { code, writeErrors } = error as {
+      code?: number;
+      writeErrors?: Array<{ code?: number; err?: { code?: number } }>;
+    };
+    const onlyDuplicates = writeErrors?.length
+      ? writeErrors.every((writeError) => (writeError.code ?? writeError.err?.code) === 11000)
+      : code === 11000;
+    if (!onlyDuplicates) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * List a user's categories, parents first (with their depth, 0 = top level)
+ */
+export async function listCategories(userId: Types.ObjectId, status?: CategoryStatus) {
+  await ensureDefaultCategories(userId);
+  const categories = await Category.find({ userId }).lean();
+  const tree = buildCategoryTree(categories);
+
+  const fullById = new Map(categories.map((category) => [category._id.toString(), category]));
+  return tree.ordered
+    .filter((category) => !status || category.status === status)
+    .map((category) => ({ ...fullById.get(category._id.toString())!, depth: category.depth }));
+}
+
+/**
+ * Get the stored name of a user's category (any letter case matches)
+ *
+ * Archived categories are refused unless the name is `current` - the
+ * category the transaction/budget/bill already has (or one of them, for
+ * the lines of a split transaction).
+ *
+ * Throws INVALID_CATEGORY or CATEGORY_ARCHIVED.
+ */
+export async function resolveCategory(
+  userId: Types.ObjectId,
+  name: string,
+  current?: string | string[]
+): Promise<string> {
+  await ensureDefaultCategories(userId);
+  const category = await Category.findOne({ userId, name })
+    .collation(CATEGORY_NAME_COLLATION)
+    .lean();
+
+  if (!category) {
+    throw new AppError(`Unknown category "${name}"`, HTTP_STATUS.BAD_REQUEST, 'INVALID_CATEGORY');
+  }
+  if (category.status === 'archived' && ![current ?? []].flat().includes(category.name)) {
+    throw new AppError(
+      `The ${category.name} category is archived`,
+      HTTP_STATUS.BAD_REQUEST,
+      'CATEGORY_ARCHIVED'
+    );
+  }
+  return category.name;
+}
+
+/**
+ * Throw unless `parentId` can hold a subtree of `height` levels
+ */
+function assertValidParent(tree: CategoryTree, parentId: string, height: number): void {
+  const parent = tree.findById(parentId);
+  if (!parent) {
+    throw new AppError('Parent category not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+  }
+  if (parent.status === 'archived') {
+    throw new AppError(
+      `The ${parent.name} category is archived`,
+      HTTP_STATUS.BAD_REQUEST,
+      'CATEGORY_ARCHIVED'
+    );
+  }
+  if (tree.getDepth(parentId) + height > MAX_CATEGORY_DEPTH) {
+    throw new AppError(
+      `Categories can be nested at most ${MAX_CATEGORY_DEPTH} levels deep`,
+      HTTP_STATUS.BAD_REQUEST,
+      'CATEGORY_TOO_DEEP'
+    );
+  }
+}
+
+/**
+ * Throw DUPLICATE_ERROR if the user has another category with this name
+ */
+async function assertNameAvailable(
+  userId: Types.ObjectId,
+  name: string,
+  excludeId?: Types.ObjectId
+): Promise<void> {
+  const existing = await Category.exists({
+    userId,
+    name,
+    ...(excludeId && { _id: { $ne: excludeId } }),
+  }).collation(CATEGORY_NAME_COLLATION);
+
+  if (existing) {
+    throw new AppError('A category with this name already exists', HTTP_STATUS.CONFLICT, 'DUPLICATE_ERROR');
+  }
+}
+
+/**
+ * Create a category (top level without a parent)
+ */
+export async function createCategory(
+  userId: Types.ObjectId,
+  data: { name: string; parentId?: string | null }
+) {
+  await ensureDefaultCategories(userId);
+
+  const count = await Category.countDocuments({ userId });
+  if (count >= MAX_CATEGORIES_PER_USER) {
+    throw new AppError(
+      `You can have at most ${MAX_CATEGORIES_PER_USER} categories`,
+      HTTP_STATUS.BAD_REQUEST,
+      'LIMIT_REACHED'
+    );
+  }
+
+  await assertNameAvailable(userId, data.name);
+  if (data.parentId) {
+    assertValidParent(await getCategoryTree(userId), data.parentId, 1);
+  }
+
+  return Category.create({ userId, name: data.name, parentId: data.parentId ?? null });
+}
+
+/**
+ * Replace a category name everywhere it's stored
+ *
+ * Budgets are only re-tagged when `to` has none yet; otherwise the budget
+ * of `from` is removed (a category can only have one budget).
+ */
+async function retagCategory(
+  userId: Types.ObjectId,
+  from: string,
+  to: string,
+  session: ClientSession
+): Promise<RetagResult> {
+  // One operation at a time (a transaction's session can't run them in parallel)
+  // Split lines are renamed in the same update (pipeline update)
+  const renamed = { $literal: to };
+  const transactions = await Transaction.updateMany(
+    { userId, $or: [{ category: from }, { 'splits.category': from }] },
+    [
+      {
+        $set: {
+          category: { $cond: [{ $eq: ['$category', from] }, renamed, '$category'] },
+          splits: {
+            $map: {
+              input: { $ifNull: ['$splits', []] },
+              as: 'line',
+              in: {
+                $cond: [
+                  { $eq: ['$$line.category', from] },
+                  { $mergeObjects: ['$$line', { category: renamed }] },
+                  '$$line',
+                ],
+              },
+            },
+          },
+        },
+      },
+    ],
+    { session }
+  );
+  const bills = await Bill.updateMany({ userId, category: from }, { category: to }, { session });
+
+  const targetHasBudget = await Budget.exists({ userId, category: to }).session(session);
+  const budgetResult = targetHasBudget
+    ? await Budget.deleteMany({ userId, category: from }, { session })
+    : await Budget.updateMany({ userId, category: from }, { category: to }, { session });
+
+  let views = 0;
+  for (const field of ['filters.categories', 'filters.excludeCategories']) {
+    const result = await SavedView.updateMany(
+      { userId, [field]: from },
+      { $set: { [`${field}.$[name]`]: to } },
+      { arrayFilters: [{ name: from }], session }
+    );
+    views += result.modifiedCount;
+  }
+
+  const rules = await TransactionRule.updateMany(
+    { userId, category: from },
+    { category: to },
+    { session }
+  );
+
+  return {
+    transactions: transactions.modifiedCount,
+    budgets: 'deletedCount' in budgetResult ? budgetResult.deletedCount : budgetResult.modifiedCount,
+    bills: bills.modifiedCount,
+    views,
+    rules: rules.modifiedCount,
+  };
+}
+
+/**
+ * Throw if `names` (a category, or a category and its subcategories)
+ * include the fallback category
+ *
+ * Throws FALLBACK_CATEGORY.
+ */
+function assertNotFallback(names: string[], action: string): void {
+  const fallback = FALLBACK_CATEGORY.toLowerCase();
+  if (names.some((name) => name.toLowerCase() === fallback)) {
+    throw new AppError(
+      `The ${FALLBACK_CATEGORY} category can't be ${action} - transactions and imports without a category use it`,
+      HTTP_STATUS.BAD_REQUEST,
+      'FALLBACK_CATEGORY'
+    );
+  }
+}
+
+/**
+ * Rename a category and/or move it under another parent (null = top level)
+ *
+ * The fallback category can be moved but not renamed.
+ */
+export async function updateCategory(
+  userId: Types.ObjectId,
+  id: string,
+  data: { name?: string; parentId?: string | null }
+) {
+  return mongoose.connection.transaction(async (session) => {
+    const tree = await getCategoryTree(userId, session);
+    const category = tree.findById(id);
+    if (!category) {
+      throw new AppError('Category not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+    }
+
+    if (data.parentId) {
+      if (data.parentId === id || tree.isDescendant(data.parentId, id)) {
+        throw new AppError(
+          "A category can't be moved under itself or its subcategories",
+          HTTP_STATUS.BAD_REQUEST,
+          'INVALID_PARENT'
+        );
+      }
+      assertValidParent(tree, data.parentId, tree.getHeight(id));
+    }
+    if (data.name) {
+      if (data.name !== category.name) {
+        assertNotFallback([category.name], 'renamed');
+      }
+      await assertNameAvailable(userId, data.name, category._id);
+    }
+
+    const updated = await Category.findOneAndUpdate(
+      { _id: id, userId },
+      {
+        ...(data.name && { name: data.name }),
+        ...(data.parentId !== undefined && { parentId: data.parentId }),
+      },
+      { new: true, runValidators: true, session }
+    );
+
+    const retagged =
+      data.name && data.name !== category.name
+        ? await retagCategory(userId, category.name, data.name, session)
+        : null;
+
+    return { category: updated!, retagged };
+  });
+}
+
+/**
+ * Merge a category into another one
+ *
+ * Everything tagged with the merged category is re-tagged with the target,
+ * its subcategories move under the target, and the merged category is removed.
+ * Other categories can be merged into the fallback category, not the other way.
+ */
+export async function mergeCategory(userId: Types.ObjectId, id: string, targetId: string) {
+  if (id === targetId) {
+    throw new AppError("A category can't be merged into itself", HTTP_STATUS.BAD_REQUEST, 'INVALID_MERGE');
+  }
+
+  return mongoose.connection.transaction(async (session) => {
+    const tree = await getCategoryTree(userId, session);
+    const source = tree.findById(id);
+    const target = tree.findById(targetId);
+    if (!source || !target) {
+      throw new AppError('Category not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+    }
+    assertNotFallback([source.name], 'merged into another category');
+    if (tree.isDescendant(targetId, id)) {
+      throw new AppError(
+        "A category can't be merged into one of its subcategories",
+        HTTP_STATUS.BAD_REQUEST,
+        'INVALID_MERGE'
+      );
+    }
+    // The subcategories move up to the target's level
+    assertValidParent(tree, targetId, tree.getHeight(id) - 1);
+
+    await Category.updateMany({ userId, parentId: source._id }, { parentId: target._id }, { session });
+    const retagged = await retagCategory(userId, source.name, target.name, session);
+    await Category.deleteOne({ _id: source._id, userId }, { session });
+
+    return { category: target, retagged };
+  });
+}
+
+/**
+ * Archive a category and its subcategories
+ *
+ * Refused when the fallback category is one of them.
+ */
+export async function archiveCategory(userId: Types.ObjectId, id: string) {
+  const tree = await getCategoryTree(userId);
+  const category = tree.findById(id);
+  if (!category) {
+    throw new AppError('Category not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+  }
+
+  const names = tree.getDescendantNames(category.name);
+  assertNotFallback(names, 'archived');
+  await Category.updateMany(
+    { userId, name: { $in: names }, status: 'active' },
+    { status: 'archived', archivedAt: new Date() }
+  );
+  return Category.findById(category._id).lean();
+}
+
+/**
+ * Make an archived category (and its subcategories) active again
+ */
+export async function restoreCategory(userId: Types.ObjectId, id: string) {
+  const tree = await getCategoryTree(userId);
+  const category = tree.findById(id);
+  if (!category) {
+    throw new AppError('Category not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+  }
+
+  const parent = category.parentId ? tree.findById(category.parentId.toString()) : undefined;
+  if (parent?.status === 'archived') {
+    throw new AppError(
+      `Restore the ${parent.name} category first`,
+      HTTP_STATUS.BAD_REQUEST,
+      'CATEGORY_ARCHIVED'
+    );
+  }
+
+  await Category.updateMany(
+    { userId, name: { $in: tree.getDescendantNames(category.name) }, status: 'archived' },
+    { status: 'active', archivedAt: null }
+  );
+  return Category.findById(category._id).lean();
+}
+
+/**
+ * Income and expenses per category between two dates, with parent
+ * categories also totalling their subcategories
+ *
+ * Split transactions count each line in its own category.
+ */
+export async function getCategorySpending(
+  userId: Types.ObjectId,
+  from: Date,
+  to: Date
+): Promise<CategorySpending[]> {
+  const [tree, totals] = await Promise.all([
+    getCategoryTree(userId),
+    Transaction.aggregate<{ _id: string; spent: number; income: number }>([
+      { $match: { userId, isTemplate: { $ne: true }, date: { $gte: from, $lte: to } } },
+      ...CATEGORY_LINE_STAGES, // Split transactions count per line
+      {
+        $group: {
+          _id: '$category',
+          spent: { $sum: { $cond: [{ $lt: ['$amount', 0] }, { $abs: '$amount' }, 0] } },
+          income: { $sum: { $cond: [{ $gt: ['$amount', 0] }, '$amount', 0] } },
+        },
+      },
+    ]),
+  ]);
+  const totalsByName = new Map(totals.map((total) => [total._id, total]));
+
+  const sumOf = (names: string[], field: 'spent' | 'income') =>
+    roundToCents(names.reduce((sum, name) => sum + (totalsByName.get(name)?.[field] ?? 0), 0));
+
+  const rows: CategorySpending[] = tree.ordered.map((category) => {
+    const names = tree.getDescendantNames(category.name);
+    return {
+      _id: category._id,
+      name: category.name,
+      parentId: category.parentId,
+      status: category.status,
+      depth: category.depth,
+      spent: sumOf([category.name], 'spent'),
+      income: sumOf([category.name], 'income'),
+      totalSpent: sumOf(names, 'spent'),
+      totalIncome: sumOf(names, 'income'),
+    };
+  });
+
+  // Names no category has anymore still count towards the totals
+  for (const total of totals) {
+    if (!tree.findByName(total._id)) {
+      rows.push({
+        _id: null,
+        name: total._id,
+        parentId: null,
+        status: 'active',
+        depth: 0,
+        spent: roundToCents(total.spent),
+        income: roundToCents(total.income),
+        totalSpent: roundToCents(total.spent),
+        totalIncome: roundToCents(total.income),
+      });
+    }
+  }
+
+  return rows;
+}
@@ -0,0 +1,142 @@
+/**
+ * Category Suggestion Service
+ *
+ * CONCEPT: Suggest a category for a payee from the user's own history -
+ * the categories of their past transactions with a similar name. Nothing
+ * is trained or stored: every suggestion is counted from the transactions
+ * as they are now, so recategorizing past transactions changes it.
+ *
+ * Names are compared normalized ("AMZN Mktp US*2K4HJ" -> "amzn mktp us"):
+ * - Lowercase, split on anything that isn't a letter or digit
+ * - Reference numbers (numbers, and codes of 4+ characters with a digit) dropped
+ * - Noise words banks add (POS, PURCHASE, card, www, com, inc...) dropped
+ *
+ * A past transaction with the same normalized name counts fully; one whose
+ * name starts with it (or the other way round, e.g. "amazon" and "amazon
+ * prime") counts half.
+ */
+
+import { Types } from 'mongoose';
+import { Transaction } from '../models/index.js';
+import { escapeRegex } from '../middleware/validation.js';
+import { getCategoryTree } from './category.service.js';
+
+export interface CategorySuggestion {
+  category: string;
+  confidence: number;  // 0-1
+  matches: number;     // Past transactions with this category and a similar name
+}
+
+// Words banks add to card payments that say nothing about the payee
+const NOISE_WORDS = new Set([
+  'pos', 'purchase', 'debit', 'card', 'contactless', 'www', 'com', 'inc', 'ltd', 'llc', 'co',
+]);
+
+// Most recent transactions compared (recent habits count, old ones fade out)
+const MAX_CANDIDATES = 1000;
+
+// Suggestions returned (best first)
+const MAX_SUGGESTIONS = 3;
+
+// Weight of a similar (not identical) name
+const PARTIAL_MATCH_WEIGHT = 0.5;
+
+const roundToHundredths = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Normalize a payee name into its meaningful words
+ *
+ * Works on stored names, which are sanitized (HTML-escaped): the escaped
+ * apostrophe is dropped ("McDonald's" -> "mcdonalds"), other entities
+ * split words.
+ */
+function normalizePayee(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/&#x27;/g, '')
+    .replace(/&(amp|lt|gt|quot);/g, ' ')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(
+      (word) =>
+        word &&
+        !NOISE_WORDS.has(word) &&
+        !/^\p{N}+$/u.test(word) &&
+        !(word.length >= 4 && /\p{N}/u.test(word))
+    );
+}
+
+/**
+ * Whether `words` starts with every word of `prefix`
+ */
+function startsWithWords(words: string[], prefix: string[]): boolean {
+  return prefix.every((word, i) => words[i] === word);
+}
+
+/**
+ * Suggest categories for a payee name (sanitized like stored names)
+ *
+ * Returns up to 3 suggestions, best first, or none when the user has no
+ * similar transaction. Only active categories are suggested.
+ *
+ * Confidence is the share of similar transactions in the category, scaled
+ * down when there are few of them (n / (n + 1)): one match gives 0.5,
+ * nine identical ones 0.9.
+ */
+export async function getCategorySuggestions(
+  userId: Types.ObjectId,
+  name: string
+): Promise<CategorySuggestion[]> {
+  const words = normalizePayee(name);
+  if (words.length === 0) {
+    return [];
+  }
+
+  // Candidates contain the start of the first word (with the escaped
+  // apostrophe allowed anywhere in it); they're compared exactly below
+  const start = [...words[0].slice(0, 4)].map(escapeRegex).join('(?:&#x27;)?');
+  const candidates = await Transaction.find({
+    userId,
+    isTemplate: { $ne: true },
+    name: { $regex: start, $options: 'i' },
+  })
+    .sort({ date: -1 })
+    .limit(MAX_CANDIDATES)
+    .select('name category')
+    .lean();
+
+  const weights = new Map<string, { weight: number; matches: number }>();
+  let totalWeight = 0;
+  for (const candidate of candidates) {
+    const candidateWords = normalizePayee(candidate.name);
+    const isSame =
+      candidateWords.length === words.length && startsWithWords(candidateWords, words);
+    const isSimilar =
+      candidateWords.length > 0 &&
+      (startsWithWords(candidateWords, words) || startsWithWords(words, candidateWords));
+    if (!isSimilar) continue;
+
+    const weight = isSame ? 1 : PARTIAL_MATCH_WEIGHT;
+    const entry = weights.get(candidate.category) ?? { weight: 0, matches: 0 };
+    entry.weight += weight;
+    entry.matches++;
+    weights.set(candidate.category, entry);
+    totalWeight += weight;
+  }
+  if (totalWeight === 0) {
+    return [];
+  }
+
+  // Archived or removed categories can't be picked for new transactions
+  const tree = await getCategoryTree(userId);
+  const evidence = totalWeight / (totalWeight + 1);
+
+  return [...weights.entries()]
+    .filter(([category]) => tree.findByName(category)?.status === 'active')
+    .sort(([, a], [, b]) => b.weight - a.weight)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(([category, { weight, matches }]) => ({
+      category: tree.findByName(category)!.name,
+      confidence: roundToHundredths((weight / totalWeight) * evidence),
+      matches,
+    }));
+}
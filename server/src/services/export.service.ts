@@ -0,0 +1,126 @@
+/**
+ * Export Service
+ *
+ * CONCEPT: Writes transactions to a response as CSV, JSON or OFX.
+ *
+ * Transactions are streamed from a MongoDB cursor one at a time, so
+ * exporting the full history never loads it into memory at once.
+ * Each format defines what goes before, between and after the rows.
+ */
+
+import { once } from 'events';
+import type { Response } from 'express';
+import type { ITransaction } from '../models/index.js';
+import { toCsvRow } from '../utils/csv.js';
+import { ofxStatementStart, ofxStatementEnd, toOfxTransaction } from '../utils/statement.js';
+
+export const EXPORT_FORMATS = ['csv', 'json', 'ofx'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Fields written to exports (internal fields like userId are left out)
+type ExportTransaction = Pick<
+  ITransaction,
+  '_id' | 'name' | 'amount' | 'category' | 'date' | 'recurring'
+> &
+  Partial<Pick<ITransaction, 'tags' | 'splits'>>;  // Missing on transactions from before them
+
+interface ExportWriter {
+  contentType: string;
+  start: (range: { from: Date; to: Date }) => string;
+  row: (transaction: ExportTransaction, index: number) => string;
+  end: () => string;
+}
+
+const CSV_COLUMNS = ['Date', 'Name', 'Category', 'Amount', 'Recurring', 'ID', 'Tags'];
+
+const WRITERS: Record<ExportFormat, ExportWriter> = {
+  csv: {
+    contentType: 'text/csv; charset=utf-8',
+    start: () => toCsvRow(CSV_COLUMNS),
+    row: (transaction) =>
+      toCsvRow([
+        transaction.date.toISOString().slice(0, 10),
+        transaction.name,
+        transaction.category,
+        transaction.amount,
+        transaction.recurring,
+        transaction._id.toString(),
+        (transaction.tags ?? []).join(' '),  // Space-separated
+      ]),
+    end: () => '',
+  },
+  json: {
+    contentType: 'application/json; charset=utf-8',
+    start: () => '[\n',
+    row: (transaction, index) =>
+      (index > 0 ? ',\n' : '') +
+      JSON.stringify({
+        _id: transaction._id,
+        name: transaction.name,
+        amount: transaction.amount,
+        category: transaction.category,
+        date: transaction.date,
+        recurring: transaction.recurring,
+        tags: transaction.tags ?? [],
+        ...(transaction.splits?.length && { splits: transaction.splits }),
+      }),
+    end: () => '\n]\n',
+  },
+  ofx: {
+    contentType: 'application/x-ofx',
+    start: ({ from, to }) => ofxStatementStart(from, to),
+    row: (transaction) => toOfxTransaction(transaction),
+    end: () => ofxStatementEnd(),
+  },
+};
+
+/**
+ * Stream transactions to the response in the given format
+ *
+ * Sets the download headers, respects backpressure and stops early
+ * if the client disconnects. Returns the number of transactions written.
+ */
+export async function streamTransactions(
+  res: Response,
+  transactions: AsyncIterable<ExportTransaction> & { close: () => Promise<void> },
+  format: ExportFormat,
+  range: { from: Date; to: Date }
+): Promise<number> {
+  const writer = WRITERS[format];
+  const fileName = `transactions-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  res.status(200);
+  res.setHeader('Content-Type', writer.contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  res.setHeader('Cache-Control', 'no-store');
+
+  // Wait for the buffer to drain (or the client to disconnect) before writing more
+  const write = async (chunk: string) => {
+    if (chunk && !res.write(chunk)) {
+      const controller = new AbortController();
+      const { signal } = controller;
+      await Promise.race([once(res, 'drain', { signal }), once(res, 'close', { signal })]);
+      controller.abort();
+    }
+  };
+
+  let count = 0;
+  try {
+    await write(writer.start(range));
+    for await (const transaction of transactions) {
+      if (res.destroyed) break; // Client disconnected
+      await write(writer.row(transaction, count));
+      count++;
+    }
+    await write(writer.end());
+    res.end();
+  } catch (error) {
+    // Headers are already sent - the only option is to abort the download
+    console.error('Export failed:', error);
+    res.destroy(error as Error);
+  } finally {
+    await transactions.close();
+  }
+
+  return count;
+}
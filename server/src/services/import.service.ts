@@ -0,0 +1,267 @@
+/**
+ * Import Service
+ *
+ * CONCEPT: Turns an uploaded CSV file or bank statement into transactions.
+ *
+ * CSV:
+ * 1. The CSV is parsed into rows (utils/csv.ts)
+ * 2. Columns are mapped to name/amount/date/category by index
+ * 3. Amounts and dates are parsed using the chosen sign convention and date format
+ * 4. Every row is validated with createTransactionSchema - the same rules
+ *    (and sanitization) as POST /api/transactions
+ * 5. Categories must be one of the user's active categories (any letter case)
+ * 6. The user's rules run on each valid row, like on new transactions: a
+ *    rule's category only replaces the default one (never a category the
+ *    file gave)
+ *
+ * Statements (OFX/QFX, QIF):
+ * - Parsed by utils/statement.ts, validated with the same schema
+ * - Each entry has an externalId (FITID or content hash); entries the user
+ *   already imported are flagged as duplicates and never saved again
+ *
+ * Rows are only validated here; saving is done by the controller with
+ * postTransactions so the balance is adjusted once for the whole import.
+ */
+
+import { Types } from 'mongoose';
+import { Transaction } from '../models/index.js';
+import { createTransactionSchema } from '../middleware/validation.js';
+import {
+  parseCsv,
+  parseAmount,
+  parseDate,
+  type DateFormat,
+  type DecimalSeparator,
+} from '../utils/csv.js';
+import type { StatementEntry } from '../utils/statement.js';
+import type { PostTransactionData } from './transaction.service.js';
+import { applyRules, type CompiledRule } from './transactionRule.service.js';
+
+// Maximum data rows per import (keeps a single request bounded)
+export const IMPORT_MAX_ROWS = 2000;
+
+// Number of raw rows returned to help the user map columns
+const SAMPLE_ROWS = 5;
+
+export interface ImportMapping {
+  nameColumn: number;
+  amountColumn: number;
+  dateColumn: number;
+  categoryColumn?: number;
+  defaultCategory: string;  // One of the user's categories
+  signConvention: 'expenses-negative' | 'expenses-positive';
+  dateFormat: DateFormat;
+  decimalSeparator: DecimalSeparator;
+}
+
+export interface ParsedCsv {
+  headers: string[];
+  sample: string[][];
+  rows: string[][];
+  firstRowNumber: number; // Line number of the first data row (for error messages)
+}
+
+export interface ImportRow {
+  row: number; // Row number in the file (1-based, including the header; blank lines skipped)
+  data: PostTransactionData | null; // null when the row is invalid
+  errors?: Record<string, string[]>;
+  duplicate?: boolean; // Statement entry that was already imported
+}
+
+/**
+ * Parse an uploaded CSV and split off the header row
+ */
+export function parseCsvImport(csv: string, delimiter: string, hasHeader: boolean): ParsedCsv {
+  const allRows = parseCsv(csv, delimiter);
+  const columnCount = Math.max(0, ...allRows.map((row) => row.length));
+
+  const headers = hasHeader
+    ? allRows[0]?.map((header) => header.trim()) ?? []
+    : Array.from({ length: columnCount }, (_, i) => `Column ${i + 1}`);
+  const rows = hasHeader ? allRows.slice(1) : allRows;
+
+  return {
+    headers,
+    sample: rows.slice(0, SAMPLE_ROWS),
+    rows,
+    firstRowNumber: hasHeader ? 2 : 1,
+  };
+}
+
+/**
+ * Match a category to one of the user's categories (case-insensitive)
+ */
+function findCategory(value: string, categories: string[]): string | undefined {
+  const trimmed = value.trim().toLowerCase();
+  return categories.find((category) => category.toLowerCase() === trimmed);
+}
+
+/**
+ * Collect schema errors, keeping the more specific parse errors already found
+ */
+function addSchemaErrors(
+  errors: Record<string, string[]>,
+  issues: Array<{ path: PropertyKey[]; message: string }>
+): void {
+  issues.forEach((issue) => {
+    const path = issue.path.join('.') || 'row';
+    if (errors[path] && (path === 'amount' || path === 'date')) return;
+    errors[path] = [...(errors[path] || []), issue.message];
+  });
+}
+
+/**
+ * Run the user's rules on a validated row
+ *
+ * `category` is the one the file gave (undefined when the row uses the default).
+ */
+function applyImportRules(
+  rules: CompiledRule[],
+  data: { name: string; amount: number; category?: string; avatar: string },
+  defaultCategory: string
+) {
+  const { name, amount, category, tags, avatar } = applyRules(rules, { ...data, tags: [] });
+  return { name, amount, category: category ?? defaultCategory, tags, avatar };
+}
+
+/**
+ * Map and validate CSV rows as transactions
+ *
+ * `categories` are the names of the user's active categories, `rules` the
+ * user's enabled rules (see loadRules).
+ */
+export function validateImportRows(
+  parsed: ParsedCsv,
+  mapping: ImportMapping,
+  categories: string[],
+  rules: CompiledRule[] = []
+): ImportRow[] {
+  return parsed.rows.map((cells, index) => {
+    const row = parsed.firstRowNumber + index;
+    const errors: Record<string, string[]> = {};
+    const cell = (column?: number) => (column === undefined ? '' : (cells[column] ?? ''));
+
+    // Amount: flip the sign when the bank exports expenses as positive numbers
+    const rawAmount = cell(mapping.amountColumn);
+    let amount = parseAmount(rawAmount, mapping.decimalSeparator);
+    if (amount === null) {
+      errors.amount = [
+        `Invalid amount "${rawAmount.trim()}" (expected ${mapping.decimalSeparator} as decimal separator)`,
+      ];
+    } else if (mapping.signConvention === 'expenses-positive') {
+      amount = -amount;
+    }
+
+    const rawDate = cell(mapping.dateColumn);
+    const date = parseDate(rawDate, mapping.dateFormat);
+    if (!date) {
+      errors.date = [`Invalid date "${rawDate.trim()}" (expected ${mapping.dateFormat})`];
+    }
+
+    const rawCategory = cell(mapping.categoryColumn).trim();
+    const knownCategory = rawCategory
+      ? findCategory(rawCategory, categories)
+      : mapping.defaultCategory;
+    if (!knownCategory) {
+      errors.category = [`Unknown category "${rawCategory}"`];
+    }
+
+    const result = createTransactionSchema.safeParse({
+      name: cell(mapping.nameColumn).trim(),
+      amount: amount ?? 0,
+      category: knownCategory ?? mapping.defaultCategory,
+      date: date ?? new Date(0).toISOString(),
+    });
+
+    if (!result.success) {
+      addSchemaErrors(errors, result.error.issues);
+    }
+
+    if (!result.success || Object.keys(errors).length > 0) {
+      return { row, data: null, errors };
+    }
+
+    const { name, amount: validAmount, category, date: validDate, avatar, recurring } = result.data;
+    const ruled = applyImportRules(
+      rules,
+      { name, amount: validAmount, category: rawCategory ? category : undefined, avatar },
+      mapping.defaultCategory
+    );
+    return {
+      row,
+      data: { ...ruled, date: validDate, recurring },
+    };
+  });
+}
+
+/**
+ * Validate statement entries as transactions
+ *
+ * Statement categories (QIF only) are free text, so unknown ones fall back
+ * to the default category (or a rule's) instead of failing the row.
+ */
+export function validateStatementEntries(
+  entries: StatementEntry[],
+  defaultCategory: string,
+  categories: string[],
+  rules: CompiledRule[] = []
+): ImportRow[] {
+  return entries.map((entry, index) => {
+    const row = index + 1;
+    const errors: Record<string, string[]> = {};
+
+    if (entry.amount === null) {
+      errors.amount = [`Invalid amount "${entry.raw.amount}"`];
+    }
+    if (!entry.date) {
+      errors.date = [`Invalid date "${entry.raw.date}"`];
+    }
+
+    const knownCategory = entry.category ? findCategory(entry.category, categories) : undefined;
+    const result = createTransactionSchema.safeParse({
+      name: entry.name.slice(0, 100),
+      amount: entry.amount ?? 0,
+      category: knownCategory,
+      date: entry.date ?? new Date(0).toISOString(),
+    });
+
+    if (!result.success) {
+      addSchemaErrors(errors, result.error.issues);
+    }
+
+    if (!result.success || Object.keys(errors).length > 0) {
+      return { row, data: null, errors };
+    }
+
+    const { name, amount, category, date, avatar, recurring } = result.data;
+    const ruled = applyImportRules(rules, { name, amount, category, avatar }, defaultCategory);
+    return {
+      row,
+      data: { ...ruled, date, recurring, externalId: entry.externalId },
+    };
+  });
+}
+
+/**
+ * Flag statement rows the user already imported
+ *
+ * Also flags repeats within the same file (same FITID listed twice).
+ */
+export async function markDuplicateRows(
+  userId: Types.ObjectId,
+  rows: ImportRow[]
+): Promise<ImportRow[]> {
+  const externalIds = rows.flatMap((row) => (row.data?.externalId ? [row.data.externalId] : []));
+  const existing = await Transaction.find({ userId, externalId: { $in: externalIds } })
+    .select('externalId')
+    .lean();
+  const seen = new Set(existing.map((transaction) => transaction.externalId));
+
+  return rows.map((row) => {
+    const externalId = row.data?.externalId;
+    if (!externalId) return row;
+    if (seen.has(externalId)) return { ...row, duplicate: true };
+    seen.add(externalId);
+    return row;
+  });
+}
@@ -0,0 +1,163 @@
+/**
+ * Ledger Service
+ *
+ * CONCEPT: The balance is derived from a ledger, not tracked by hand.
+ *
+ *   balance = openingBalance
+ *           + all posted transactions (any date, templates excluded)
+ *           - money currently held in pots
+ *
+ * User.balance stores the result so reads (e.g. the pot deposit check)
+ * don't need an aggregation. Every write that moves money updates it
+ * with $inc; checkBalance() compares it against the ledger and
+ * reconcileBalance() repairs any drift.
+ */
+
+import { Types } from 'mongoose';
+import { Transaction, Pot, User } from '../models/index.js';
+import { AppError } from '../utils/AppError.js';
+import { HTTP_STATUS } from '../constants/http.js';
+
+export interface LedgerBalance {
+  openingBalance: number;
+  income: number;    // Sum of posted income
+  expenses: number;  // Sum of posted expenses (positive)
+  pots: number;      // Money held in pots
+  balance: number;   // openingBalance + income - expenses - pots
+}
+
+export interface BalanceCheck {
+  stored: number;     // User.balance
+  ledger: LedgerBalance;
+  drift: number;      // stored - ledger.balance
+  consistent: boolean;
+}
+
+/**
+ * Round to cents (sums of floats drift by fractions of a cent)
+ */
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Calculate a user's balance from the ledger
+ */
+export async function getLedgerBalance(userId: Types.ObjectId): Promise<LedgerBalance> {
+  const [user, totals, potTotals] = await Promise.all([
+    User.findById(userId).select('openingBalance').lean(),
+    Transaction.aggregate<{ income: number; expenses: number }>([
+      { $match: { userId, isTemplate: { $ne: true } } },
+      {
+        $group: {
+          _id: null,
+          income: { $sum: { $cond: [{ $gt: ['$amount', 0] }, '$amount', 0] } },
+          expenses: { $sum: { $cond: [{ $lt: ['$amount', 0] }, '$amount', 0] } },
+        },
+      },
+    ]),
+    Pot.aggregate<{ total: number }>([
+      { $match: { userId } },
+      { $group: { _id: null, total: { $sum: '$total' } } },
+    ]),
+  ]);
+
+  const openingBalance = user?.openingBalance ?? 0;
+  const income = roundCents(totals[0]?.income ?? 0);
+  const expenses = roundCents(Math.abs(totals[0]?.expenses ?? 0));
+  const pots = roundCents(potTotals[0]?.total ?? 0);
+
+  return {
+    openingBalance,
+    income,
+    expenses,
+    pots,
+    balance: roundCents(openingBalance + income - expenses - pots),
+  };
+}
+
+/**
+ * Compare the stored balance with the ledger
+ */
+export async function checkBalance(userId: Types.ObjectId): Promise<BalanceCheck> {
+  const [user, ledger] = await Promise.all([
+    User.findById(userId).select('balance').lean(),
+    getLedgerBalance(userId),
+  ]);
+
+  const stored = user?.balance ?? 0;
+  const drift = roundCents(stored - ledger.balance);
+
+  return { stored, ledger, drift, consistent: drift === 0 };
+}
+
+/**
+ * Repair drift between the stored balance and the ledger
+ *
+ * The correction is applied with $inc only if the stored balance hasn't
+ * changed since it was checked, so a transaction posted in the meantime
+ * isn't overwritten. Retries a few times if it has.
+ */
+export async function reconcileBalance(
+  userId: Types.ObjectId,
+  maxAttempts = 3
+): Promise<BalanceCheck & { corrected: number }> {
+  for (let attempt = 1; ; attempt++) {
+    const check = await checkBalance(userId);
+    if (check.consistent) {
+      return { ...check, corrected: 0 };
+    }
+
+    const updated = await User.findOneAndUpdate(
+      { _id: userId, balance: check.stored },
+      { $inc: { balance: -check.drift } },
+      { new: true }
+    ).lean();
+
+    if (updated) {
+      return {
+        stored: updated.balance,
+        ledger: check.ledger,
+        drift: roundCents(updated.balance - check.ledger.balance),
+        consistent: true,
+        corrected: -check.drift,
+      };
+    }
+
+    if (attempt >= maxAttempts) {
+      throw new AppError(
+        'Balance changed while reconciling, please try again',
+        HTTP_STATUS.CONFLICT,
+        'BALANCE_CHANGED'
+      );
+    }
+  }
+}
+
+/**
+ * Set the opening balance and move the stored balance by the same amount
+ */
+export async function setOpeningBalance(
+  userId: Types.ObjectId,
+  openingBalance: number
+): Promise<LedgerBalance> {
+  const user = await User.findById(userId).select('openingBalance').lean();
+  const current = user?.openingBalance ?? 0;
+
+  // Only apply the change if nobody else changed the opening balance meanwhile
+  // (accounts created before opening balances existed have no value yet)
+  const updated = await User.findOneAndUpdate(
+    { _id: userId, openingBalance: current === 0 ? { $in: [0, null] } : current },
+    { $set: { openingBalance }, $inc: { balance: roundCents(openingBalance - current) } }
+  );
+
+  if (!updated) {
+    throw new AppError(
+      'Opening balance changed while saving, please try again',
+      HTTP_STATUS.CONFLICT,
+      'BALANCE_CHANGED'
+    );
+  }
+
+  return getLedgerBalance(userId);
+}
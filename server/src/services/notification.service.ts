@@ -0,0 +1,155 @@
+/**
+ * Notification Service
+ *
+ * CONCEPT: Creates the notifications shown in the notification center.
+ *
+ * Budget alerts: after transactions are created or updated, every budget
+ * of their categories (or of a parent category) is checked against its
+ * alert thresholds (percentages of the current period's limit, see
+ * models/budget.model.ts).
+ * - Only the highest threshold crossed is notified (40% -> 110% sends
+ *   one "110%" alert, not three)
+ * - Thresholds at or below one already notified this period are skipped
+ * - A new period starts with no alerts
+ *
+ * Failures are logged and never fail the transaction that triggered them.
+ */
+
+import { Types } from 'mongoose';
+import { Budget, Notification, type ITransaction } from '../models/index.js';
+import { withBudgetStatus } from './budget.service.js';
+import { getCategoryTree } from './category.service.js';
+
+const formatAmount = (amount: number) => `$${amount.toFixed(2)}`;
+
+/**
+ * Percentage of the limit spent (any spending counts as over a limit of 0)
+ */
+function getSpentPercentage(spent: number, limit: number): number {
+  if (limit <= 0) {
+    return spent > 0 ? Infinity : 0;
+  }
+  return (spent / limit) * 100;
+}
+
+/**
+ * Text of a budget alert
+ */
+function getBudgetAlertText(category: string, threshold: number, spent: number, limit: number) {
+  const title =
+    threshold === 100
+      ? `${category} budget limit reached`
+      : `${category} budget at ${threshold}%`;
+
+  const over = spent - limit;
+  const message =
+    over > 0
+      ? `You've spent ${formatAmount(spent)} of ${formatAmount(limit)} this period - ${formatAmount(over)} over.`
+      : `You've spent ${formatAmount(spent)} of ${formatAmount(limit)} this period.`;
+
+  return { title, message };
+}
+
+/**
+ * Notify budgets of the transactions' categories that crossed an alert threshold
+ * (budgets on parent categories and on the lines of split transactions included)
+ *
+ * Returns the number of notifications created.
+ */
+export async function checkBudgetAlerts(
+  userId: Types.ObjectId,
+  transactions: Pick<ITransaction, 'category' | 'splits' | 'amount' | 'isTemplate'>[],
+  now: Date = new Date()
+): Promise<number> {
+  // Only expenses move a budget (templates never count)
+  const categories = [
+    ...new Set(
+      transactions
+        .filter((transaction) => !transaction.isTemplate && transaction.amount < 0)
+        .flatMap((transaction) =>
+          transaction.splits.length > 0
+            ? transaction.splits.map((line) => line.category)
+            : [transaction.category]
+        )
+    ),
+  ];
+  if (categories.length === 0) {
+    return 0;
+  }
+
+  try {
+    const tree = await getCategoryTree(userId);
+    const budgetCategories = [...new Set(categories.flatMap((name) => tree.getAncestorNames(name)))];
+    const budgets = await withBudgetStatus(
+      userId,
+      await Budget.find({ userId, category: { $in: budgetCategories } }).lean(),
+      now
+    );
+    if (budgets.length === 0) {
+      return 0;
+    }
+
+    // Highest threshold already notified in each budget's current period
+    const notified = await Notification.find({
+      userId,
+      type: 'budget_threshold',
+      $or: budgets.map((budget) => ({ budgetId: budget._id, periodStart: budget.periodStart })),
+    })
+      .select('budgetId threshold')
+      .lean();
+    const highestNotified = new Map<string, number>();
+    for (const notification of notified) {
+      const budgetId = notification.budgetId!.toString();
+      highestNotified.set(
+        budgetId,
+        Math.max(highestNotified.get(budgetId) ?? 0, notification.threshold ?? 0)
+      );
+    }
+
+    const alerts = [];
+    for (const budget of budgets) {
+      const percentage = getSpentPercentage(budget.spent, budget.effectiveMaximum);
+      const already = highestNotified.get(budget._id.toString()) ?? 0;
+      const crossed = budget.alertThresholds.filter(
+        (threshold) => threshold > already && percentage >= threshold
+      );
+      if (crossed.length === 0) continue;
+
+      const threshold = Math.max(...crossed);
+      alerts.push({
+        userId,
+        type: 'budget_threshold' as const,
+        ...getBudgetAlertText(budget.category, threshold, budget.spent, budget.effectiveMaximum),
+        budgetId: budget._id,
+        threshold,
+        periodStart: budget.periodStart,
+      });
+    }
+
+    if (alerts.length === 0) {
+      return 0;
+    }
+
+    try {
+      const created = await Notification.insertMany(alerts, { ordered: false });
+      return created.length;
+    } catch (error) {
+      // Another request notified the same threshold first
+      const { code, writeErrors, insertedDocs } = error as {
+        code?: number;
+        writeErrors?: Array<{ code?: number; err?: { code?: number } }>;
+        insertedDocs?: unknown[];
+      };
+      const onlyDuplicates = writeErrors?.length
+        ? writeErrors.every((writeError) => (writeError.code ?? writeError.err?.code) === 11000)
+        : code === 11000;
+      if (!onlyDuplicates) {
+        throw error;
+      }
+      return insertedDocs?.length ?? 0;
+    }
+  } catch (error) {
+    console.error(`Budget alerts failed for user ${userId}:`, error);
+    return 0;
+  }
+}
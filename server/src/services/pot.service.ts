@@ -0,0 +1,485 @@
+/**
+ * Pot Service
+ *
+ * CONCEPT: Moves money between the balance and pots.
+ *
+ * Each movement touches two documents (the pot and the user's balance, or
+ * two pots for a transfer), so both writes run in one MongoDB transaction:
+ * they commit together or not at all. The checks are part of the updates
+ * themselves (e.g. "decrease balance where balance >= amount"), so two
+ * concurrent deposits can't both pass the check and overdraw the balance.
+ *
+ * Every movement is also recorded as a PotMovement (pot history).
+ *
+ * Lifecycle: active -> completed (target reached, deposits optionally
+ * locked) -> archived (hidden from lists, kept for history). Restoring
+ * makes a pot active again. Money can always be taken out; only pots
+ * that accept deposits can receive money (see acceptsDeposits).
+ *
+ * Progress (withPotProgress) is calculated on the server as well:
+ * - requiredWeekly/requiredMonthly: What still has to go in per week/month
+ *   to reach the target by its target date
+ * - projectedDate: When the target will be reached at the recent saving
+ *   rate (net deposits and transfers over the last PROJECTION_WINDOW_DAYS days)
+ * - onTrack: Whether the projected date is on or before the target date
+ *
+ * NOTE: MongoDB transactions need a replica set (Atlas clusters are one;
+ * a local mongod can be started with --replSet rs0 and rs.initiate()).
+ */
+
+import mongoose, { Types, type ClientSession } from 'mongoose';
+import {
+  Pot,
+  PotMovement,
+  PotRule,
+  User,
+  type IPot,
+  type PotStatus,
+  type IPotMovement,
+  type PotMovementType,
+  type PotRuleType,
+} from '../models/index.js';
+import { AppError } from '../utils/AppError.js';
+import { HTTP_STATUS } from '../constants/http.js';
+
+export interface PotMovementResult {
+  pot: IPot;
+  newBalance: number;
+}
+
+export interface PotTransferResult {
+  from: IPot;
+  to: IPot;
+}
+
+// Automatic savings rule behind a deposit (see potRule.service.ts)
+export interface PotMovementSource {
+  ruleId: Types.ObjectId;
+  ruleType: PotRuleType;
+  transactionId?: Types.ObjectId;
+  scheduledFor?: Date;
+}
+
+// Saving rate for projections is measured over this many recent days
+export const PROJECTION_WINDOW_DAYS = 90;
+
+// Younger pots are measured over at least this many days, so a single
+// deposit on day one doesn't project an unrealistic rate
+const MIN_RATE_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 365.25 / 12;
+
+// Minimal pot shape needed to calculate progress
+type LeanPot = Pick<IPot, '_id' | 'target' | 'total' | 'targetDate' | 'createdAt'> &
+  Partial<Pick<IPot, 'status'>>;
+
+// Calculated fields added to each pot
+export interface PotProgressFields {
+  status: PotStatus;              // 'active' for pots from before lifecycles
+  percentage: number;
+  remaining: number;
+  requiredWeekly: number | null;  // null without a target date or once reached
+  requiredMonthly: number | null;
+  projectedDate: Date | null;     // null once reached or when not saving
+  onTrack: boolean | null;        // null without a target date
+}
+
+/**
+ * Whether a pot can receive money (deposits, rules, transfers in)
+ */
+export function acceptsDeposits(pot: Pick<IPot, 'status' | 'lockDeposits'>): boolean {
+  if (pot.status === 'archived') return false;
+  return !(pot.status === 'completed' && pot.lockDeposits);
+}
+
+/**
+ * Throw NOT_FOUND if the pot doesn't exist, POT_LOCKED if it can't receive money
+ */
+async function assertAcceptsDeposits(
+  userId: Types.ObjectId,
+  potId: string,
+  session: ClientSession
+): Promise<void> {
+  const pot = await Pot.findOne({ _id: potId, userId }).session(session);
+  if (!pot) {
+    throw new AppError('Pot not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+  }
+  if (!acceptsDeposits(pot)) {
+    throw new AppError(
+      pot.status === 'archived' ? 'This pot is archived' : 'This pot is locked for deposits',
+      HTTP_STATUS.BAD_REQUEST,
+      'POT_LOCKED'
+    );
+  }
+}
+
+/**
+ * Throw NOT_FOUND if the pot doesn't exist (or isn't the user's)
+ */
+async function assertPotExists(
+  userId: Types.ObjectId,
+  potId: string,
+  session: ClientSession
+): Promise<void> {
+  const exists = await Pot.exists({ _id: potId, userId }).session(session);
+  if (!exists) {
+    throw new AppError('Pot not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+  }
+}
+
+/**
+ * Record a deposit, withdrawal or transfer leg (pot is the updated pot)
+ */
+async function recordMovement(
+  pot: IPot,
+  type: Exclude<PotMovementType, 'close'>,
+  amount: number,
+  session: ClientSession,
+  source?: PotMovementSource | { counterpartPotId: Types.ObjectId }
+): Promise<void> {
+  await PotMovement.create(
+    [{ userId: pot.userId, potId: pot._id, type, amount, totalAfter: pot.total, ...source }],
+    { session }
+  );
+}
+
+/**
+ * Get a pot's movements, oldest first
+ */
+export async function getPotHistory(
+  userId: Types.ObjectId,
+  potId: string
+): Promise<{ pot: IPot; movements: IPotMovement[] }> {
+  const pot = await Pot.findOne({ _id: potId, userId });
+  if (!pot) {
+    throw new AppError('Pot not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+  }
+
+  const movements = await PotMovement.find({ userId, potId: pot._id })
+    .sort({ createdAt: 1 })
+    .lean<IPotMovement[]>();
+
+  return { pot, movements };
+}
+
+/**
+ * Round a contribution up to the next cent
+ */
+function roundUpToCents(amount: number): number {
+  return Math.ceil(Math.round(amount * 10000) / 100) / 100;
+}
+
+/**
+ * Calculate progress for a list of pots
+ *
+ * Looks up the recent movements of every pot in a single aggregation.
+ */
+export async function withPotProgress<T extends LeanPot>(
+  userId: Types.ObjectId,
+  pots: T[],
+  now: Date = new Date()
+): Promise<Array<T & PotProgressFields>> {
+  if (pots.length === 0) {
+    return [];
+  }
+
+  // Net amount saved per pot within the projection window
+  const windowStart = new Date(now.getTime() - PROJECTION_WINDOW_DAYS * DAY_MS);
+  const saved: Array<{ _id: Types.ObjectId; net: number }> = await PotMovement.aggregate([
+    {
+      $match: {
+        userId,
+        potId: { $in: pots.map((pot) => pot._id) },
+        type: { $in: ['deposit', 'withdrawal', 'transfer_in', 'transfer_out'] },
+        createdAt: { $gte: windowStart },
+      },
+    },
+    {
+      $group: {
+        _id: '$potId',
+        net: {
+          $sum: {
+            $cond: [
+              { $in: ['$type', ['deposit', 'transfer_in']] },
+              '$amount',
+              { $multiply: ['$amount', -1] },
+            ],
+          },
+        },
+      },
+    },
+  ]);
+  const netByPot = new Map(saved.map((entry) => [entry._id.toString(), entry.net]));
+
+  return pots.map((pot) => {
+    const status = pot.status ?? 'active';
+    const remaining = pot.target - pot.total;
+    const percentage = pot.target > 0 ? (pot.total / pot.target) * 100 : 0;
+    const targetDate = pot.targetDate ? new Date(pot.targetDate) : null;
+
+    if (remaining <= 0) {
+      return {
+        ...pot,
+        status,
+        percentage,
+        remaining,
+        requiredWeekly: null,
+        requiredMonthly: null,
+        projectedDate: null,
+        onTrack: targetDate ? true : null,
+      };
+    }
+
+    // Recent saving rate per day (pots younger than the window use their age)
+    const measuredFrom = Math.max(windowStart.getTime(), new Date(pot.createdAt).getTime());
+    const measuredDays = Math.max((now.getTime() - measuredFrom) / DAY_MS, MIN_RATE_DAYS);
+    const dailyRate = (netByPot.get(pot._id.toString()) ?? 0) / measuredDays;
+    const projectedDate =
+      dailyRate > 0 ? new Date(now.getTime() + (remaining / dailyRate) * DAY_MS) : null;
+
+    // What's needed to hit the target date (everything, once it has passed)
+    let requiredWeekly: number | null = null;
+    let requiredMonthly: number | null = null;
+    if (targetDate) {
+      const daysLeft = (targetDate.getTime() - now.getTime()) / DAY_MS;
+      requiredWeekly = roundUpToCents(remaining / Math.max(daysLeft / 7, 1));
+      requiredMonthly = roundUpToCents(remaining / Math.max(daysLeft / DAYS_PER_MONTH, 1));
+    }
+
+    return {
+      ...pot,
+      status,
+      percentage,
+      remaining,
+      requiredWeekly,
+      requiredMonthly,
+      projectedDate,
+      onTrack: targetDate ? projectedDate !== null && projectedDate <= targetDate : null,
+    };
+  });
+}
+
+/**
+ * Move money from the balance into a pot
+ *
+ * `source` is set when an automatic savings rule makes the deposit.
+ */
+export async function depositToPot(
+  userId: Types.ObjectId,
+  potId: string,
+  amount: number,
+  source?: PotMovementSource
+): Promise<PotMovementResult> {
+  return mongoose.connection.transaction(async (session) => {
+    await assertAcceptsDeposits(userId, potId, session);
+
+    // Balance check and debit in one update
+    const user = await User.findOneAndUpdate(
+      { _id: userId, balance: { $gte: amount } },
+      { $inc: { balance: -amount } },
+      { new: true, session }
+    );
+    if (!user) {
+      throw new AppError('Insufficient balance', HTTP_STATUS.BAD_REQUEST, 'INSUFFICIENT_BALANCE');
+    }
+
+    const pot = await Pot.findOneAndUpdate(
+      { _id: potId, userId },
+      { $inc: { total: amount } },
+      { new: true, session }
+    );
+
+    await recordMovement(pot!, 'deposit', amount, session, source);
+
+    return { pot: pot!, newBalance: user.balance };
+  });
+}
+
+/**
+ * Move money from a pot back into the balance
+ */
+export async function withdrawFromPot(
+  userId: Types.ObjectId,
+  potId: string,
+  amount: number
+): Promise<PotMovementResult> {
+  return mongoose.connection.transaction(async (session) => {
+    await assertPotExists(userId, potId, session);
+
+    // Pot total check and debit in one update
+    const pot = await Pot.findOneAndUpdate(
+      { _id: potId, userId, total: { $gte: amount } },
+      { $inc: { total: -amount } },
+      { new: true, session }
+    );
+    if (!pot) {
+      throw new AppError(
+        'Insufficient pot balance',
+        HTTP_STATUS.BAD_REQUEST,
+        'INSUFFICIENT_POT_BALANCE'
+      );
+    }
+
+    const user = await User.findByIdAndUpdate(
+      userId,
+      { $inc: { balance: amount } },
+      { new: true, session }
+    );
+
+    await recordMovement(pot, 'withdrawal', amount, session);
+
+    return { pot, newBalance: user?.balance ?? 0 };
+  });
+}
+
+/**
+ * Move money from one pot to another
+ *
+ * Only the two pots change - the balance is never touched.
+ */
+export async function transferBetweenPots(
+  userId: Types.ObjectId,
+  fromPotId: string,
+  toPotId: string,
+  amount: number
+): Promise<PotTransferResult> {
+  if (fromPotId === toPotId) {
+    throw new AppError('Choose a different pot to transfer to', HTTP_STATUS.BAD_REQUEST, 'SAME_POT');
+  }
+
+  return mongoose.connection.transaction(async (session) => {
+    await assertPotExists(userId, fromPotId, session);
+    await assertAcceptsDeposits(userId, toPotId, session);
+
+    // Source total check and debit in one update
+    const from = await Pot.findOneAndUpdate(
+      { _id: fromPotId, userId, total: { $gte: amount } },
+      { $inc: { total: -amount } },
+      { new: true, session }
+    );
+    if (!from) {
+      throw new AppError(
+        'Insufficient pot balance',
+        HTTP_STATUS.BAD_REQUEST,
+        'INSUFFICIENT_POT_BALANCE'
+      );
+    }
+
+    const to = await Pot.findOneAndUpdate(
+      { _id: toPotId, userId },
+      { $inc: { total: amount } },
+      { new: true, session }
+    );
+
+    await recordMovement(from, 'transfer_out', amount, session, { counterpartPotId: to!._id });
+    await recordMovement(to!, 'transfer_in', amount, session, { counterpartPotId: from._id });
+
+    return { from, to: to! };
+  });
+}
+
+/**
+ * Delete a pot and return its money to the balance
+ *
+ * The pot's savings rules are deleted with it.
+ */
+export async function deletePot(userId: Types.ObjectId, potId: string): Promise<IPot> {
+  return mongoose.connection.transaction(async (session) => {
+    const pot = await Pot.findOneAndDelete({ _id: potId, userId }, { session });
+    if (!pot) {
+      throw new AppError('Pot not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+    }
+
+    if (pot.total > 0) {
+      await User.findByIdAndUpdate(userId, { $inc: { balance: pot.total } }, { session });
+    }
+
+    await PotRule.deleteMany({ userId, potId: pot._id }, { session });
+
+    // Everything left in the pot goes back to the balance
+    await PotMovement.create(
+      [{ userId, potId: pot._id, type: 'close', amount: pot.total, totalAfter: 0 }],
+      { session }
+    );
+
+    return pot;
+  });
+}
+
+// =============================================================================
+// LIFECYCLE
+// =============================================================================
+
+/**
+ * Mark a pot as completed (its target must be reached)
+ */
+export async function completePot(
+  userId: Types.ObjectId,
+  potId: string,
+  lockDeposits: boolean
+): Promise<IPot> {
+  const pot = await Pot.findOne({ _id: potId, userId });
+  if (!pot) {
+    throw new AppError('Pot not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+  }
+  if (pot.status !== 'active') {
+    throw new AppError(`Pot is already ${pot.status}`, HTTP_STATUS.CONFLICT, 'INVALID_POT_STATUS');
+  }
+  if (pot.total < pot.target) {
+    throw new AppError('Pot has not reached its target yet', HTTP_STATUS.BAD_REQUEST, 'TARGET_NOT_REACHED');
+  }
+
+  // Conditional so a concurrent status change or withdrawal isn't overwritten
+  // (pots from before lifecycles have no status field, hence $nin)
+  const completed = await Pot.findOneAndUpdate(
+    {
+      _id: pot._id,
+      userId,
+      status: { $nin: ['completed', 'archived'] },
+      $expr: { $gte: ['$total', '$target'] },
+    },
+    { $set: { status: 'completed', lockDeposits, completedAt: new Date() } },
+    { new: true }
+  );
+  if (!completed) {
+    throw new AppError('Pot was changed, please try again', HTTP_STATUS.CONFLICT, 'POT_CHANGED');
+  }
+  return completed;
+}
+
+/**
+ * Archive a pot (hidden from lists, its money and history are kept)
+ */
+export async function archivePot(userId: Types.ObjectId, potId: string): Promise<IPot> {
+  const pot = await Pot.findOneAndUpdate(
+    { _id: potId, userId, status: { $ne: 'archived' } },
+    { $set: { status: 'archived', archivedAt: new Date() } },
+    { new: true }
+  );
+  if (!pot) {
+    const exists = await Pot.exists({ _id: potId, userId });
+    throw exists
+      ? new AppError('Pot is already archived', HTTP_STATUS.CONFLICT, 'INVALID_POT_STATUS')
+      : new AppError('Pot not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+  }
+  return pot;
+}
+
+/**
+ * Make a completed or archived pot active again (deposits unlocked)
+ */
+export async function restorePot(userId: Types.ObjectId, potId: string): Promise<IPot> {
+  const pot = await Pot.findOneAndUpdate(
+    { _id: potId, userId, status: { $in: ['completed', 'archived'] } },
+    { $set: { status: 'active', lockDeposits: false, completedAt: null, archivedAt: null } },
+    { new: true }
+  );
+  if (!pot) {
+    const exists = await Pot.exists({ _id: potId, userId });
+    throw exists
+      ? new AppError('Pot is already active', HTTP_STATUS.CONFLICT, 'INVALID_POT_STATUS')
+      : new AppError('Pot not found', HTTP_STATUS.NOT_FOUND, 'NOT_FOUND');
+  }
+  return pot;
+}
@@ -0,0 +1,183 @@
+/**
+ * Pot Rule Service
+ *
+ * CONCEPT: The rule engine for automatic savings rules (see models/potRule.model.ts).
+ * Rules deposit into pots through depositToPot, so every automatic deposit
+ * moves the balance and is recorded in the pot history like a manual one.
+ *
+ * When rules run:
+ * - round_up / income_percentage: Right after a transaction is posted
+ *   (applyTransactionRules, called from transaction.service.ts)
+ * - scheduled: From the pot rules job (applyScheduledRules)
+ *
+ * Skipped (never retried):
+ * - Transactions dated before the rule became active (e.g. imported history)
+ * - Deposits the balance can't cover
+ * - Deposits into completed pots with locked deposits, or archived pots
+ *
+ * IDEMPOTENT: A rule deposits at most once per transaction and once per
+ * scheduled occurrence (unique indexes on PotMovement), so the job can run
+ * on several server instances.
+ */
+
+import { Types } from 'mongoose';
+import { PotRule, type IPotRule, type ITransaction } from '../models/index.js';
+import { depositToPot } from './pot.service.js';
+import { AppError } from '../utils/AppError.js';
+import { getNextOccurrence, type RecurrenceRule } from '../utils/recurrence.js';
+
+/**
+ * Amount a round-up saves for an expense (e.g. -4.30 -> 0.70)
+ */
+export function getRoundUpAmount(expense: number): number {
+  const cents = Math.round(Math.abs(expense) * 100);
+  return ((100 - (cents % 100)) % 100) / 100;
+}
+
+/**
+ * Amount an income percentage rule saves (rounded down to cents)
+ */
+export function getIncomeShareAmount(income: number, percentage: number): number {
+  return Math.floor((Math.round(income * 100) * percentage) / 100) / 100;
+}
+
+/**
+ * Get the schedule of a scheduled rule
+ */
+export function getRuleSchedule(rule: IPotRule): RecurrenceRule {
+  return {
+    frequency: rule.frequency ?? 'monthly',
+    interval: rule.interval ?? 1,
+    anchorDate: new Date(rule.anchorDate!),
+    endDate: rule.endDate ? new Date(rule.endDate) : null,
+  };
+}
+
+/**
+ * Start of the UTC day a rule became active
+ * A transfer or transaction earlier the same day still counts.
+ */
+function getActiveFrom(rule: IPotRule): Date {
+  const activeFrom = new Date(rule.activeSince);
+  activeFrom.setUTCHours(0, 0, 0, 0);
+  return activeFrom;
+}
+
+/**
+ * Deposit for a rule, treating "already deposited", "not enough balance"
+ * and "pot locked" as skips
+ *
+ * Returns true if money was moved.
+ */
+async function depositForRule(
+  rule: IPotRule,
+  amount: number,
+  trigger: { transactionId?: Types.ObjectId; scheduledFor?: Date }
+): Promise<boolean> {
+  try {
+    await depositToPot(rule.userId, rule.potId.toString(), amount, {
+      ruleId: rule._id,
+      ruleType: rule.type,
+      ...trigger,
+    });
+    return true;
+  } catch (error) {
+    const alreadyApplied = (error as { code?: number }).code === 11000;
+    const skipped =
+      error instanceof AppError &&
+      (error.code === 'INSUFFICIENT_BALANCE' || error.code === 'POT_LOCKED');
+    if (!alreadyApplied && !skipped) {
+      throw error;
+    }
+    return false;
+  }
+}
+
+/**
+ * Apply round-up and income percentage rules to newly posted transactions
+ *
+ * A failing rule is logged and skipped - it never fails the transaction.
+ * Returns the number of deposits made.
+ */
+export async function applyTransactionRules(
+  userId: Types.ObjectId,
+  transactions: ITransaction[]
+): Promise<number> {
+  const posted = transactions.filter((transaction) => !transaction.isTemplate);
+  if (posted.length === 0) {
+    return 0;
+  }
+
+  const rules = await PotRule.find({
+    userId,
+    enabled: true,
+    type: { $in: ['round_up', 'income_percentage'] },
+  });
+  if (rules.length === 0) {
+    return 0;
+  }
+
+  let deposits = 0;
+  for (const transaction of posted) {
+    for (const rule of rules) {
+      if (new Date(transaction.date) < getActiveFrom(rule)) continue;
+
+      let amount = 0;
+      if (rule.type === 'round_up' && transaction.amount < 0) {
+        amount = getRoundUpAmount(transaction.amount);
+      } else if (rule.type === 'income_percentage' && transaction.amount > 0) {
+        amount = getIncomeShareAmount(transaction.amount, rule.percentage ?? 0);
+      }
+      if (amount <= 0) continue;
+
+      try {
+        if (await depositForRule(rule, amount, { transactionId: transaction._id })) {
+          deposits++;
+        }
+      } catch (error) {
+        console.error(`Pot rule ${rule._id} failed for transaction ${transaction._id}:`, error);
+      }
+    }
+  }
+
+  return deposits;
+}
+
+/**
+ * Make the transfers of scheduled rules that have come due
+ *
+ * Used by the pot rules job. Every occurrence between the time the rule became
+ * active and `now` is handled once, oldest first; lastRunDate moves forward
+ * after each one (even when it's skipped for lack of balance).
+ *
+ * Returns the number of deposits made.
+ */
+export async function applyScheduledRules(now: Date = new Date()): Promise<number> {
+  const rules = await PotRule.find({ type: 'scheduled', enabled: true, anchorDate: { $lte: now } });
+
+  let deposits = 0;
+  for (const rule of rules) {
+    const schedule = getRuleSchedule(rule);
+
+    // First occurrence not handled yet, never before the rule became active
+    const after = rule.lastRunDate ?? new Date(getActiveFrom(rule).getTime() - 1);
+    let occurrence = getNextOccurrence(schedule, new Date(after));
+
+    while (occurrence && occurrence <= now) {
+      try {
+        if (await depositForRule(rule, rule.amount ?? 0, { scheduledFor: occurrence })) {
+          deposits++;
+        }
+      } catch (error) {
+        // Leave this rule for the next run, keep applying the others
+        console.error(`Scheduled pot rule ${rule._id} failed:`, error);
+        break;
+      }
+
+      await PotRule.updateOne({ _id: rule._id }, { $max: { lastRunDate: occurrence } });
+      occurrence = getNextOccurrence(schedule, occurrence);
+    }
+  }
+
+  return deposits;
+}
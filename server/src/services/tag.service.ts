@@ -0,0 +1,114 @@
+/**
+ * Tag Service
+ *
+ * CONCEPT: Tags are free-form labels stored on transactions (there is no
+ * tag collection) - a tag exists as long as a transaction has it.
+ *
+ * - listTags: The user's tags by how often they're used (autocomplete)
+ * - getTagSummary: Income and expenses per tag over a date range
+ *
+ * A transaction with several tags counts towards each of them, so tag
+ * totals can add up to more than the transactions they cover.
+ */
+
+import { Types, type PipelineStage } from 'mongoose';
+import { Transaction } from '../models/index.js';
+import { escapeRegex } from '../middleware/validation.js';
+
+export interface TagUsage {
+  tag: string;
+  count: number;      // Transactions with this tag
+  lastUsed: Date;     // Date of the latest one
+}
+
+export interface TagSummary {
+  tag: string;
+  spent: number;      // Expenses (positive)
+  income: number;
+  net: number;        // income - spent
+  count: number;
+  firstDate: Date;
+  lastDate: Date;
+}
+
+const roundToCents = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Get the user's tags, most used first
+ *
+ * `search` matches the start of a tag (already normalized to lowercase).
+ */
+export async function listTags(
+  userId: Types.ObjectId,
+  search: string | undefined,
+  limit: number
+): Promise<TagUsage[]> {
+  const prefix = search ? { $regex: `^${escapeRegex(search)}` } : undefined;
+
+  const tags = await Transaction.aggregate<{ _id: string; count: number; lastUsed: Date }>([
+    // Uses the { userId, tags } index
+    { $match: { userId, tags: prefix ?? { $exists: true, $ne: [] } } },
+    { $unwind: '$tags' },
+    ...(prefix ? [{ $match: { tags: prefix } }] : []),
+    { $group: { _id: '$tags', count: { $sum: 1 }, lastUsed: { $max: '$date' } } },
+    { $sort: { count: -1, _id: 1 } },
+    { $limit: limit },
+  ]);
+
+  return tags.map(({ _id, count, lastUsed }) => ({ tag: _id, count, lastUsed }));
+}
+
+/**
+ * Income and expenses per tag (biggest spend first)
+ *
+ * Without from/to, covers every transaction. `tags` limits the summary to
+ * those tags. Bill templates never count.
+ */
+export async function getTagSummary(
+  userId: Types.ObjectId,
+  filters: { from?: string; to?: string; tags?: string[] }
+): Promise<TagSummary[]> {
+  const { from, to, tags } = filters;
+  const onlyTags = tags?.length ? { $in: tags } : undefined;
+
+  const pipeline: PipelineStage[] = [
+    {
+      $match: {
+        userId,
+        isTemplate: { $ne: true },
+        tags: onlyTags ?? { $exists: true, $ne: [] },
+        ...((from || to) && {
+          date: {
+            ...(from && { $gte: new Date(from) }),
+            ...(to && { $lte: new Date(to) }),
+          },
+        }),
+      },
+    },
+    { $unwind: '$tags' },
+    ...(onlyTags ? [{ $match: { tags: onlyTags } }] : []),
+    {
+      $group: {
+        _id: '$tags',
+        spent: { $sum: { $cond: [{ $lt: ['$amount', 0] }, { $abs: '$amount' }, 0] } },
+        income: { $sum: { $cond: [{ $gt: ['$amount', 0] }, '$amount', 0] } },
+        count: { $sum: 1 },
+        firstDate: { $min: '$date' },
+        lastDate: { $max: '$date' },
+      },
+    },
+    { $sort: { spent: -1, _id: 1 } },
+  ];
+
+  const summary = await Transaction.aggregate<Omit<TagSummary, 'tag' | 'net'> & { _id: string }>(
+    pipeline
+  );
+
+  return summary.map(({ _id, spent, income, ...rest }) => ({
+    tag: _id,
+    spent: roundToCents(spent),
+    income: roundToCents(income),
+    net: roundToCents(income - spent),
+    ...rest,
+  }));
+}
@@ -0,0 +1,296 @@
+/**
+ * Transaction Service
+ *
+ * CONCEPT: Shared business logic for posting transactions.
+ * Controllers that create money movements (transactions, bill payments)
+ * go through this service so the balance is always adjusted the same way.
+ * Automatic savings rules (round-ups, income percentage) run after posting,
+ * followed by the budget alerts (see notification.service.ts).
+ */
+
+import { Types, type FilterQuery } from 'mongoose';
+import { Transaction, User, type ITransaction, type ITransactionSplit } from '../models/index.js';
+import { escapeRegex } from '../middleware/validation.js';
+import { AppError } from '../utils/AppError.js';
+import { HTTP_STATUS } from '../constants/http.js';
+import { applyTransactionRules } from './potRule.service.js';
+import { checkBudgetAlerts } from './notification.service.js';
+import { getCategoryTree, resolveCategory } from './category.service.js';
+
+// Data needed to post a transaction (already validated)
+export interface PostTransactionData {
+  name: string;
+  amount: number;  // Positive = income, Negative = expense
+  category: string;  // One of the user's categories
+  splits?: ITransactionSplit[];  // Already resolved (see resolveSplits)
+  tags?: string[];
+  date: Date | string;
+  avatar?: string;
+  recurring?: boolean;
+  isTemplate?: boolean;
+  billId?: Types.ObjectId;
+  billDueDate?: Date;
+  externalId?: string;
+}
+
+// Filters shared by the transaction list and export (already validated)
+export interface TransactionFilters {
+  search?: string;
+  filter?: string;
+  category?: string;
+  categories?: string[];        // Any of these
+  excludeCategories?: string[]; // None of these
+  tags?: string[];              // Any of these
+  from?: string; // ISO date (inclusive)
+  to?: string;   // ISO date (inclusive)
+  minAmount?: number; // Absolute amount (inclusive)
+  maxAmount?: number; // Absolute amount (inclusive)
+  type?: 'income' | 'expense';
+}
+
+// Sort options mapping (whitelisted values only)
+export const TRANSACTION_SORT_OPTIONS: Record<string, Record<string, 1 | -1>> = {
+  Latest: { date: -1 },
+  Oldest: { date: 1 },
+  'A to Z': { name: 1 },
+  'Z to A': { name: -1 },
+  Highest: { amount: -1 },
+  Lowest: { amount: 1 },
+};
+
+/**
+ * Build the MongoDB filter for a user's transactions
+ *
+ * A category filter also matches the category's subcategories, and split
+ * transactions with a line in them.
+ *
+ * SECURITY: search is regex-escaped (prevents ReDoS), categories are only
+ * matched as exact names
+ */
+export async function buildTransactionFilter(
+  userId: Types.ObjectId,
+  filters: TransactionFilters
+): Promise<FilterQuery<ITransaction>> {
+  const query: FilterQuery<ITransaction> = { userId };
+
+  if (filters.search) {
+    query.name = { $regex: escapeRegex(filters.search), $options: 'i' };
+  }
+
+  // "filter" and "category" are aliases for a single category
+  const categoryValue = filters.filter || filters.category;
+  const included = [...(filters.categories ?? [])];
+  const excluded = filters.excludeCategories ?? [];
+  if (categoryValue && categoryValue !== 'All Transactions') {
+    included.push(categoryValue);
+  }
+
+  if (included.length > 0 || excluded.length > 0) {
+    const tree = await getCategoryTree(userId);
+    const expand = (names: string[]) => [
+      ...new Set(names.flatMap((name) => tree.getDescendantNames(name))),
+    ];
+    if (included.length > 0) {
+      const names = expand(included);
+      query.$and = [{ $or: [{ category: { $in: names } }, { 'splits.category': { $in: names } }] }];
+    }
+    if (excluded.length > 0) {
+      const names = expand(excluded);
+      query.category = { $nin: names };
+      query['splits.category'] = { $nin: names };
+    }
+  }
+
+  if (filters.tags?.length) {
+    query.tags = { $in: filters.tags };
+  }
+
+  // Date range uses the { userId, date } index
+  if (filters.from || filters.to) {
+    query.date = {
+      ...(filters.from && { $gte: new Date(filters.from) }),
+      ...(filters.to && { $lte: new Date(filters.to) }),
+    };
+  }
+
+  // Amount range is on the absolute amount (expenses are stored negative)
+  const { minAmount, maxAmount, type } = filters;
+  const incomeRange = {
+    $gt: 0,
+    ...(minAmount !== undefined && { $gte: minAmount }),
+    ...(maxAmount !== undefined && { $lte: maxAmount }),
+  };
+  const expenseRange = {
+    $lt: 0,
+    ...(maxAmount !== undefined && { $gte: -maxAmount }),
+    ...(minAmount !== undefined && { $lte: -minAmount }),
+  };
+
+  if (type === 'income') {
+    query.amount = incomeRange;
+  } else if (type === 'expense') {
+    query.amount = expenseRange;
+  } else if (minAmount !== undefined || maxAmount !== undefined) {
+    query.$or = [{ amount: incomeRange }, { amount: expenseRange }];
+  }
+
+  return query;
+}
+
+/**
+ * Check split lines against the transaction amount and resolve their
+ * categories (see resolveCategory - `current` keeps archived ones)
+ *
+ * Every line must have the sign of the transaction and the lines must add
+ * up to its amount, to the cent. Throws INVALID_SPLIT.
+ */
+export async function resolveSplits(
+  userId: Types.ObjectId,
+  amount: number,
+  splits: ITransactionSplit[],
+  current: string[] = []
+): Promise<ITransactionSplit[]> {
+  if (splits.length === 0) {
+    return [];
+  }
+
+  if (splits.some((line) => Math.sign(line.amount) !== Math.sign(amount))) {
+    throw new AppError(
+      amount < 0 ? 'Split lines of an expense must be negative' : 'Split lines of an income must be positive',
+      HTTP_STATUS.BAD_REQUEST,
+      'INVALID_SPLIT'
+    );
+  }
+  const totalCents = splits.reduce((sum, line) => sum + Math.round(line.amount * 100), 0);
+  if (totalCents !== Math.round(amount * 100)) {
+    throw new AppError(
+      `Split lines add up to ${(totalCents / 100).toFixed(2)} instead of ${amount.toFixed(2)}`,
+      HTTP_STATUS.BAD_REQUEST,
+      'INVALID_SPLIT'
+    );
+  }
+
+  const resolved: ITransactionSplit[] = [];
+  for (const line of splits) {
+    resolved.push({
+      category: await resolveCategory(userId, line.category, current),
+      amount: line.amount,
+      ...(line.note && { note: line.note }),
+    });
+  }
+  return resolved;
+}
+
+/**
+ * Category of a split transaction: the one of its largest line
+ * (what lists show and what code unaware of splits sees)
+ */
+export function getSplitCategory(splits: ITransactionSplit[]): string {
+  return splits.reduce((largest, line) =>
+    Math.abs(line.amount) > Math.abs(largest.amount) ? line : largest
+  ).category;
+}
+
+/**
+ * Build the transaction document for posted data
+ */
+function toTransactionDoc(userId: Types.ObjectId, data: PostTransactionData) {
+  return {
+    userId,
+    name: data.name,
+    amount: data.amount,
+    category: data.category,
+    splits: data.splits ?? [],
+    tags: data.tags ?? [],
+    date: new Date(data.date),
+    avatar: data.avatar || '/assets/images/avatars/default.jpg',
+    recurring: data.recurring || false,
+    isTemplate: data.isTemplate || false, // Bill templates don't affect balance
+    ...(data.billId && { billId: data.billId, billDueDate: data.billDueDate }),
+    ...(data.externalId && { externalId: data.externalId }),
+  };
+}
+
+/**
+ * Apply a transaction amount to the user's balance
+ *
+ * Every posted transaction counts, whatever its date (the balance is
+ * openingBalance + all transactions - pots, see ledger.service.ts).
+ */
+export async function applyBalanceChange(userId: Types.ObjectId, amount: number): Promise<void> {
+  if (amount !== 0) {
+    await User.findByIdAndUpdate(userId, {
+      $inc: { balance: amount }, // Positive for income, negative for expenses
+    });
+  }
+}
+
+/**
+ * Create a transaction and update the user's balance
+ *
+ * IMPORTANT: Templates (bill definitions) do NOT affect balance - only actual payments do
+ */
+export async function postTransaction(
+  userId: Types.ObjectId,
+  data: PostTransactionData
+): Promise<ITransaction> {
+  const transaction = await Transaction.create(toTransactionDoc(userId, data));
+
+  if (!transaction.isTemplate) {
+    await applyBalanceChange(userId, transaction.amount);
+    await applyTransactionRules(userId, [transaction]);
+    await checkBudgetAlerts(userId, [transaction]);
+  }
+
+  return transaction;
+}
+
+/**
+ * Create many transactions and update the user's balance once
+ *
+ * Used for imports: all transactions are inserted in one batch and the
+ * balance is adjusted with a single update (sum of the amounts).
+ *
+ * Transactions that hit a unique index (e.g. a statement row imported
+ * concurrently) are skipped; only the inserted ones are returned.
+ */
+export async function postTransactions(
+  userId: Types.ObjectId,
+  data: PostTransactionData[]
+): Promise<ITransaction[]> {
+  if (data.length === 0) {
+    return [];
+  }
+
+  let transactions: ITransaction[];
+  try {
+    transactions = await Transaction.insertMany(
+      data.map((item) => toTransactionDoc(userId, item)),
+      { ordered: false }
+    );
+  } catch (error) {
+    const { code, writeErrors, insertedDocs } = error as {
+      code?: number;
+      writeErrors?: Array<{ code?: number; err?: { code?: number } }>;
+      insertedDocs?: ITransaction[];
+    };
+    const onlyDuplicates = writeErrors?.length
+      ? writeErrors.every((writeError) => (writeError.code ?? writeError.err?.code) === 11000)
+      : code === 11000;
+    if (!onlyDuplicates || !insertedDocs) {
+      throw error;
+    }
+    transactions = insertedDocs;
+  }
+
+  const balanceChange = transactions
+    .filter((transaction) => !transaction.isTemplate)
+    .reduce((total, transaction) => total + transaction.amount, 0);
+
+  // Rounded to cents to avoid floating point drift
+  await applyBalanceChange(userId, Math.round(balanceChange * 100) / 100);
+  await applyTransactionRules(userId, transactions);
+  await checkBudgetAlerts(userId, transactions);
+
+  return transactions;
+}
@@ -0,0 +1,386 @@
+/**
+ * Transaction Rule Service
+ *
+ * CONCEPT: The engine for categorization rules (see models/transactionRule.model.ts).
+ *
+ * When rules run:
+ * - Creating a transaction (POST /api/transactions) and importing CSV or
+ *   statement rows: the first matching rule fills in the category (only
+ *   when none was given), adds its tags, renames the transaction and sets
+ *   its avatar (only over the default one)
+ * - On demand over existing transactions (applyRulesToTransactions), with
+ *   a dry run that lists what would change. There the rule's category
+ *   replaces the current one (except on split transactions).
+ *
+ * A rule whose category is archived (or gone) keeps its other actions.
+ *
+ * SECURITY: Regex conditions are user input run on the server (ReDoS):
+ * - On save they're analysed with recheck and rejected unless matching
+ *   takes at most quadratic time (see assertValidRule)
+ * - Each match also runs with a time limit, so a pattern that slips
+ *   through stops matching instead of blocking the event loop
+ */
+
+import vm from 'node:vm';
+import { Types, type AnyBulkWriteOperation } from 'mongoose';
+import { check } from 'recheck';
+import {
+  Transaction,
+  TransactionRule,
+  type ITransaction,
+  type ITransactionRule,
+} from '../models/index.js';
+import { sanitizeString } from '../middleware/validation.js';
+import { MAX_TAGS_PER_TRANSACTION } from '../constants/tags.js';
+import { AppError } from '../utils/AppError.js';
+import { HTTP_STATUS } from '../constants/http.js';
+import { getCategoryTree } from './category.service.js';
+import { checkBudgetAlerts } from './notification.service.js';
+
+// Rule fields the engine reads
+type LeanRule = Pick<
+  ITransactionRule,
+  | '_id'
+  | 'nameOperator'
+  | 'nameValue'
+  | 'minAmount'
+  | 'maxAmount'
+  | 'type'
+  | 'category'
+  | 'tags'
+  | 'rename'
+  | 'avatar'
+>;
+
+// A rule with its name condition turned into a test
+export interface CompiledRule {
+  rule: LeanRule;
+  matchesName: (name: string) => boolean;
+}
+
+// Transaction fields rules read and set
+export interface RuleTarget {
+  name: string;
+  amount: number;
+  category?: string;
+  tags?: string[];
+  avatar?: string;
+}
+
+// A change applyRulesToTransactions makes (or would make)
+export interface RuleChange {
+  transactionId: Types.ObjectId;
+  ruleId: Types.ObjectId;
+  date: Date;
+  amount: number;
+  before: Partial<Pick<ITransaction, 'name' | 'category' | 'tags' | 'avatar'>>;
+  after: Partial<Pick<ITransaction, 'name' | 'category' | 'tags' | 'avatar'>>;
+}
+
+// Maximum rules per user (every new transaction is checked against all of them)
+export const MAX_RULES_PER_USER = 100;
+
+// Changes listed in a dry run (the total is always counted)
+const MAX_LISTED_CHANGES = 200;
+
+// Updates sent to MongoDB at once when applying
+const BULK_BATCH_SIZE = 500;
+
+const MAX_REGEX_LENGTH = 100;
+
+// Highest polynomial degree allowed for a pattern's worst-case matching time
+// (names are at most 100 characters, so quadratic is still instant)
+const MAX_REGEX_DEGREE = 2;
+
+// Time the ReDoS analysis may take before the pattern is rejected
+const REGEX_CHECK_TIMEOUT_MS = 2000;
+
+// Time one name may take to match a pattern before the rule stops matching
+const REGEX_MATCH_TIMEOUT_MS = 50;
+
+/**
+ * Whether an avatar is the one every transaction starts with
+ * (the server and the client use slightly different paths)
+ */
+function isDefaultAvatar(avatar: string | undefined): boolean {
+  return !avatar || avatar.endsWith('/avatars/default.jpg');
+}
+
+/**
+ * Throw unless a rule (after an update is merged in) is complete:
+ * a condition, an action, a usable name condition and an ordered amount range
+ *
+ * Regex patterns must be safe from ReDoS: exponential patterns like
+ * ^(a|aa)+$ and high-degree polynomial ones like .*.*.*x are rejected, as
+ * are patterns the analysis can't decide in time.
+ *
+ * Throws VALIDATION_ERROR or INVALID_REGEX.
+ */
+export async function assertValidRule(rule: Omit<LeanRule, '_id'>): Promise<void> {
+  const fail = (message: string, code = 'VALIDATION_ERROR') => {
+    throw new AppError(message, HTTP_STATUS.BAD_REQUEST, code);
+  };
+
+  if (!rule.nameOperator !== !rule.nameValue) {
+    fail('A name condition needs both an operator and a value');
+  }
+  if (!rule.nameOperator && rule.minAmount === null && rule.maxAmount === null && !rule.type) {
+    fail('A rule needs at least one condition (name, amount or type)');
+  }
+  if (!rule.category && rule.tags.length === 0 && !rule.rename && !rule.avatar) {
+    fail('A rule needs at least one action (category, tags, name or avatar)');
+  }
+  if (rule.minAmount !== null && rule.maxAmount !== null && rule.minAmount > rule.maxAmount) {
+    fail('Minimum amount cannot be greater than maximum amount');
+  }
+
+  if (rule.nameOperator === 'regex' && rule.nameValue) {
+    if (rule.nameValue.length > MAX_REGEX_LENGTH) {
+      fail(`Patterns cannot exceed ${MAX_REGEX_LENGTH} characters`, 'INVALID_REGEX');
+    }
+    try {
+      new RegExp(rule.nameValue, 'i');
+    } catch {
+      fail('Pattern is not a valid regular expression', 'INVALID_REGEX');
+    }
+    const diagnostics = await check(rule.nameValue, 'i', { timeout: REGEX_CHECK_TIMEOUT_MS });
+    const isSafe =
+      diagnostics.status === 'safe' ||
+      (diagnostics.status === 'vulnerable' &&
+        diagnostics.complexity.type === 'polynomial' &&
+        diagnostics.complexity.degree <= MAX_REGEX_DEGREE);
+    if (!isSafe) {
+      fail(
+        'Pattern could take too long to match - avoid repeating groups that can match the same text',
+        'INVALID_REGEX'
+      );
+    }
+  }
+}
+
+/**
+ * Test a name against a pattern, giving up after REGEX_MATCH_TIMEOUT_MS
+ *
+ * The match runs in a vm script, the only way to interrupt a regex in Node.
+ * A pattern that times out never matches again (it would time out on every
+ * similar name).
+ */
+function boundedMatcher(pattern: RegExp, ruleId: Types.ObjectId): (name: string) => boolean {
+  const context = vm.createContext({ pattern, name: '' });
+  const script = new vm.Script('pattern.test(name)');
+  let timedOut = false;
+
+  return (name) => {
+    if (timedOut) return false;
+    context.name = name;
+    try {
+      return script.runInContext(context, { timeout: REGEX_MATCH_TIMEOUT_MS }) === true;
+    } catch (error) {
+      timedOut = true;
+      console.warn(`Rule ${ruleId} pattern timed out and was skipped:`, (error as Error).message);
+      return false;
+    }
+  };
+}
+
+/**
+ * Turn a rule's name condition into a test (case-insensitive)
+ *
+ * Names are stored sanitized (HTML-escaped), so contains/exact values are
+ * sanitized the same way before comparing.
+ */
+export function compileRule(rule: LeanRule): CompiledRule {
+  const value = rule.nameValue ?? '';
+  switch (rule.nameOperator) {
+    case 'contains': {
+      const needle = sanitizeString(value).toLowerCase();
+      return { rule, matchesName: (name) => name.toLowerCase().includes(needle) };
+    }
+    case 'exact': {
+      const expected = sanitizeString(value).toLowerCase();
+      return { rule, matchesName: (name) => name.toLowerCase() === expected };
+    }
+    case 'regex': {
+      try {
+        return { rule, matchesName: boundedMatcher(new RegExp(value, 'i'), rule._id) };
+      } catch {
+        // Validated on save - a pattern that no longer compiles never matches
+        return { rule, matchesName: () => false };
+      }
+    }
+    default:
+      return { rule, matchesName: () => true };
+  }
+}
+
+/**
+ * Load a user's enabled rules in the order they run
+ *
+ * `ruleIds` limits them to some rules (still in priority order).
+ */
+export async function loadRules(
+  userId: Types.ObjectId,
+  ruleIds?: string[]
+): Promise<CompiledRule[]> {
+  const rules = await TransactionRule.find({
+    userId,
+    enabled: true,
+    ...(ruleIds && { _id: { $in: ruleIds } }),
+  })
+    .sort({ priority: 1, createdAt: 1 })
+    .lean();
+  if (rules.length === 0) {
+    return [];
+  }
+
+  // Archived or removed categories can't be set anymore
+  const tree = await getCategoryTree(userId);
+  return rules.map((rule) => {
+    const category = rule.category ? tree.findByName(rule.category) : undefined;
+    return compileRule({
+      ...rule,
+      category: category?.status === 'active' ? category.name : null,
+    });
+  });
+}
+
+/**
+ * First rule matching a transaction's name and amount
+ */
+export function findMatchingRule(rules: CompiledRule[], name: string, amount: number) {
+  return rules.find(({ rule, matchesName }) => {
+    const absolute = Math.abs(amount);
+    if (rule.type === 'income' && amount <= 0) return false;
+    if (rule.type === 'expense' && amount >= 0) return false;
+    if (rule.minAmount !== null && absolute < rule.minAmount) return false;
+    if (rule.maxAmount !== null && absolute > rule.maxAmount) return false;
+    return matchesName(name);
+  })?.rule;
+}
+
+/**
+ * Apply the first matching rule to a new transaction
+ *
+ * `overrideCategory` replaces a category that's already set (used when
+ * applying rules to existing transactions).
+ */
+export function applyRules<T extends RuleTarget>(
+  rules: CompiledRule[],
+  data: T,
+  options: { overrideCategory?: boolean } = {}
+): T & { ruleId?: Types.ObjectId } {
+  const rule = findMatchingRule(rules, data.name, data.amount);
+  if (!rule) {
+    return data;
+  }
+
+  const tags = [...new Set([...(data.tags ?? []), ...rule.tags])];
+  return {
+    ...data,
+    ruleId: rule._id,
+    ...(rule.rename && { name: rule.rename }),
+    ...(rule.category && (options.overrideCategory || !data.category) && { category: rule.category }),
+    // Keeps the transaction's own tags when there'd be too many
+    ...(rule.tags.length > 0 && tags.length <= MAX_TAGS_PER_TRANSACTION && { tags }),
+    ...(rule.avatar && isDefaultAvatar(data.avatar) && { avatar: rule.avatar }),
+  };
+}
+
+/**
+ * Apply rules to a user's existing transactions (templates excluded)
+ *
+ * With dryRun, nothing is saved and the first changes are listed. Split
+ * transactions keep their category (it comes from their split lines).
+ * Amounts never change, so the balance doesn't either.
+ */
+export async function applyRulesToTransactions(
+  userId: Types.ObjectId,
+  options: { dryRun: boolean; ruleIds?: string[] }
+): Promise<{ total: number; changes: RuleChange[] }> {
+  const rules = await loadRules(userId, options.ruleIds);
+  const changes: RuleChange[] = [];
+  let total = 0;
+  let batch: AnyBulkWriteOperation<ITransaction>[] = [];
+  const recategorizedExpenses = new Set<string>();
+
+  if (rules.length === 0) {
+    return { total, changes };
+  }
+
+  const cursor = Transaction.find({ userId, isTemplate: { $ne: true } })
+    .sort({ date: -1 })
+    .select('name amount category splits tags avatar date')
+    .lean()
+    .cursor();
+
+  for await (const transaction of cursor) {
+    const result = applyRules(
+      rules,
+      {
+        name: transaction.name,
+        amount: transaction.amount,
+        category: transaction.category,
+        tags: transaction.tags ?? [],
+        avatar: transaction.avatar,
+      },
+      { overrideCategory: (transaction.splits ?? []).length === 0 }
+    );
+    if (!result.ruleId) continue;
+
+    const before: RuleChange['before'] = {};
+    const after: RuleChange['after'] = {};
+    if (result.name !== transaction.name) {
+      before.name = transaction.name;
+      after.name = result.name;
+    }
+    if (result.category !== transaction.category) {
+      before.category = transaction.category;
+      after.category = result.category;
+    }
+    if (result.tags!.length !== (transaction.tags ?? []).length) {
+      before.tags = transaction.tags ?? [];
+      after.tags = result.tags;
+    }
+    if (result.avatar !== transaction.avatar) {
+      before.avatar = transaction.avatar;
+      after.avatar = result.avatar;
+    }
+    if (Object.keys(after).length === 0) continue;
+
+    total++;
+    if (changes.length < MAX_LISTED_CHANGES) {
+      changes.push({
+        transactionId: transaction._id,
+        ruleId: result.ruleId,
+        date: transaction.date,
+        amount: transaction.amount,
+        before,
+        after,
+      });
+    }
+
+    if (options.dryRun) continue;
+    batch.push({ updateOne: { filter: { _id: transaction._id, userId }, update: { $set: after } } });
+    if (after.category && transaction.amount < 0) {
+      recategorizedExpenses.add(after.category);
+    }
+    if (batch.length >= BULK_BATCH_SIZE) {
+      await Transaction.bulkWrite(batch, { ordered: false });
+      batch = [];
+    }
+  }
+
+  if (batch.length > 0) {
+    await Transaction.bulkWrite(batch, { ordered: false });
+  }
+
+  // Moving expenses into a category can cross its budget alerts
+  if (recategorizedExpenses.size > 0) {
+    await checkBudgetAlerts(
+      userId,
+      [...recategorizedExpenses].map((category) => ({ category, splits: [], amount: -1, isTemplate: false }))
+    );
+  }
+
+  return { total, changes };
+}
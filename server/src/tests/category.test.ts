@@ -0,0 +1,86 @@
+/**
+ * Category Tests
+ *
+ * The fallback category (General) is what transactions and imports without
+ * a category get, so it must survive every category change.
+ *
+ * Runs against an in-memory replica set (see helpers/database.ts), or the
+ * one TEST_MONGODB_URI points at.
+ */
+
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { Types } from 'mongoose';
+import { Category } from '../models/index.js';
+import { FALLBACK_CATEGORY } from '../constants/categories.js';
+import {
+  listCategories,
+  createCategory,
+  updateCategory,
+  mergeCategory,
+  archiveCategory,
+  resolveCategory,
+} from '../services/category.service.js';
+import { connectTestDatabase, disconnectTestDatabase, skipDatabaseTests } from './helpers/database.js';
+
+describe('fallback category', { skip: skipDatabaseTests }, () => {
+  const userIds: Types.ObjectId[] = [];
+  let userId: Types.ObjectId;
+
+  const findId = async (name: string) => {
+    const categories = await listCategories(userId);
+    return categories.find((category) => category.name === name)!._id.toString();
+  };
+
+  before(connectTestDatabase);
+
+  after(async () => {
+    await Category.deleteMany({ userId: { $in: userIds } });
+    await disconnectTestDatabase();
+  });
+
+  // A new user (with the default categories) for each test
+  beforeEach(() => {
+    userId = new Types.ObjectId();
+    userIds.push(userId);
+  });
+
+  it('cannot be renamed', async () => {
+    const id = await findId(FALLBACK_CATEGORY);
+
+    await assert.rejects(updateCategory(userId, id, { name: 'Misc' }), { code: 'FALLBACK_CATEGORY' });
+    assert.equal(await resolveCategory(userId, FALLBACK_CATEGORY), FALLBACK_CATEGORY);
+  });
+
+  it('can still be moved', async () => {
+    const parentId = await findId('Shopping');
+    const id = await findId(FALLBACK_CATEGORY);
+
+    const { category } = await updateCategory(userId, id, { parentId });
+    assert.equal(category.parentId?.toString(), parentId);
+  });
+
+  it('cannot be merged into another category', async () => {
+    const id = await findId(FALLBACK_CATEGORY);
+    const targetId = await findId('Shopping');
+
+    await assert.rejects(mergeCategory(userId, id, targetId), { code: 'FALLBACK_CATEGORY' });
+    assert.equal(await resolveCategory(userId, FALLBACK_CATEGORY), FALLBACK_CATEGORY);
+
+    // Merging another category into it is fine
+    await mergeCategory(userId, targetId, id);
+  });
+
+  it('cannot be archived, also not with its parent', async () => {
+    const id = await findId(FALLBACK_CATEGORY);
+    await assert.rejects(archiveCategory(userId, id), { code: 'FALLBACK_CATEGORY' });
+
+    const parent = await createCategory(userId, { name: 'Everything' });
+    await updateCategory(userId, id, { parentId: parent._id.toString() });
+    await assert.rejects(archiveCategory(userId, parent._id.toString()), {
+      code: 'FALLBACK_CATEGORY',
+    });
+
+    assert.equal(await resolveCategory(userId, FALLBACK_CATEGORY), FALLBACK_CATEGORY);
+  });
+});
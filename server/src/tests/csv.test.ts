@@ -0,0 +1,87 @@
+/**
+ * CSV Import Tests
+ *
+ * Amounts are read in the decimal format the user picked. A value in any
+ * other format must be an invalid row, never a different number
+ * ("12,50" is not 1250).
+ *
+ * Run with: npm test
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseAmount } from '../utils/csv.js';
+import { parseCsvImport, validateImportRows } from '../services/import.service.js';
+
+describe('parseAmount', () => {
+  const valid: Array<[string, '.' | ',', number]> = [
+    ['12.50', '.', 12.5],
+    ['$1,234.56', '.', 1234.56],
+    ['-$12.00', '.', -12],
+    ['12.00-', '.', -12],
+    ['(12.00)', '.', -12],
+    ['USD 5', '.', 5],
+    ['.5', '.', 0.5],
+    ['12,50', ',', 12.5],
+    ['-4,99', ',', -4.99],
+    ['1.234,56', ',', 1234.56],
+    ['1 234,56 EUR', ',', 1234.56],
+  ];
+
+  for (const [value, separator, expected] of valid) {
+    it(`reads ${value} with ${separator} decimals as ${expected}`, () => {
+      assert.equal(parseAmount(value, separator), expected);
+    });
+  }
+
+  const invalid: Array<[string, '.' | ',']> = [
+    ['12,50', '.'],
+    ['-4,99', '.'],
+    ['1.234,56', '.'],
+    ['1,234.56', ','],
+    ['1e5', '.'],
+    ['1,2345', '.'],
+    ['12.', '.'],
+    ['-', '.'],
+    ['', '.'],
+  ];
+
+  for (const [value, separator] of invalid) {
+    it(`rejects ${JSON.stringify(value)} with ${separator} decimals`, () => {
+      assert.equal(parseAmount(value, separator), null);
+    });
+  }
+});
+
+describe('validateImportRows', () => {
+  const mapping = {
+    nameColumn: 0,
+    amountColumn: 1,
+    dateColumn: 2,
+    defaultCategory: 'General',
+    signConvention: 'expenses-negative' as const,
+    dateFormat: 'YYYY-MM-DD' as const,
+  };
+
+  it('reports amounts in the other decimal format as invalid rows', () => {
+    const parsed = parseCsvImport('Name;Amount;Date\nCafe;-4,99;2024-01-05\nRent;1e5;2024-01-06\n', ';', true);
+
+    const rows = validateImportRows(parsed, { ...mapping, decimalSeparator: '.' }, ['General']);
+
+    assert.deepEqual(
+      rows.map((row) => [row.row, row.data, row.errors?.amount?.length]),
+      [
+        [2, null, 1],
+        [3, null, 1],
+      ]
+    );
+  });
+
+  it('reads comma decimals when asked to', () => {
+    const parsed = parseCsvImport('Name;Amount;Date\nCafe;-4,99;2024-01-05\n', ';', true);
+
+    const [row] = validateImportRows(parsed, { ...mapping, decimalSeparator: ',' }, ['General']);
+
+    assert.equal(row.data?.amount, -4.99);
+  });
+});
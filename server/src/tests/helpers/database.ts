@@ -0,0 +1,44 @@
+/**
+ * Test Database
+ *
+ * Connects Mongoose for tests that need the database. Pot movements and
+ * category changes run in MongoDB transactions, so it has to be a replica
+ * set:
+ * - By default an in-memory one (mongodb-memory-server, which downloads
+ *   a MongoDB binary the first time)
+ * - TEST_MONGODB_URI uses an existing replica set instead
+ *
+ * These tests never skip on their own - a database that can't start fails
+ * them. SKIP_DB_TESTS=1 skips them on purpose (e.g. offline).
+ */
+
+import mongoose from 'mongoose';
+import { MongoMemoryReplSet } from 'mongodb-memory-server';
+
+// Reason the database tests are skipped, or false (for the `skip` test option)
+export const skipDatabaseTests = process.env.SKIP_DB_TESTS === '1' && 'SKIP_DB_TESTS=1 is set';
+
+let replSet: MongoMemoryReplSet | null = null;
+
+/**
+ * Start the test database (unless TEST_MONGODB_URI is set) and connect to it
+ */
+export async function connectTestDatabase(): Promise<void> {
+  let uri = process.env.TEST_MONGODB_URI;
+  if (!uri) {
+    replSet = await MongoMemoryReplSet.create({
+      replSet: { count: 1, storageEngine: 'wiredTiger' },
+    });
+    uri = replSet.getUri('centinel-test');
+  }
+  await mongoose.connect(uri);
+}
+
+/**
+ * Disconnect and stop the in-memory database (its data is thrown away)
+ */
+export async function disconnectTestDatabase(): Promise<void> {
+  await mongoose.disconnect();
+  await replSet?.stop();
+  replSet = null;
+}
@@ -0,0 +1,156 @@
+/**
+ * Pot Concurrency Tests
+ *
+ * Fires many pot deposits/withdrawals/transfers/deletes at the API at the
+ * same time and checks that no money is created or lost, and the balance
+ * never goes negative.
+ *
+ * Runs against an in-memory replica set (see helpers/database.ts), or the
+ * one TEST_MONGODB_URI points at. Uses a throwaway user and removes it
+ * afterwards.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Server } from 'node:http';
+import { Types } from 'mongoose';
+import request from 'supertest';
+import app from '../app.js';
+import { User, Pot, PotMovement, Transaction, Category } from '../models/index.js';
+import { connectTestDatabase, disconnectTestDatabase, skipDatabaseTests } from './helpers/database.js';
+
+const START_BALANCE = 100;
+const CONCURRENT_REQUESTS = 50;
+
+describe('concurrent pot movements', { skip: skipDatabaseTests }, () => {
+  let server: Server;
+  let token: string;
+  let userId: Types.ObjectId;
+
+  const api = {
+    get: (path: string) => request(server).get(path).set('Authorization', `Bearer ${token}`),
+    post: (path: string, body?: object) =>
+      request(server).post(path).set('Authorization', `Bearer ${token}`).send(body),
+    put: (path: string, body: object) =>
+      request(server).put(path).set('Authorization', `Bearer ${token}`).send(body),
+    delete: (path: string) => request(server).delete(path).set('Authorization', `Bearer ${token}`),
+  };
+
+  /**
+   * Send the same request many times at once; count successes
+   * (every failure must be the expected rejection)
+   */
+  async function fireConcurrently(send: () => request.Test, expectedCode: string) {
+    const responses = await Promise.all(Array.from({ length: CONCURRENT_REQUESTS }, () => send()));
+
+    let succeeded = 0;
+    for (const response of responses) {
+      if (response.ok) {
+        succeeded++;
+      } else {
+        assert.equal(response.body.code, expectedCode, `${response.status}: ${response.body.message}`);
+      }
+    }
+    return succeeded;
+  }
+
+  /**
+   * Current balance and pot totals, checked against the ledger
+   */
+  async function getTotals(...potIds: string[]) {
+    const [check, ...pots] = await Promise.all([
+      api.get('/api/overview/balance/check'),
+      ...potIds.map((id) => api.get(`/api/pots/${id}`)),
+    ]);
+    assert.equal(check.body.data.consistent, true, 'stored balance matches the ledger');
+    return {
+      balance: check.body.data.stored as number,
+      pots: pots.map((pot) => pot.body.data.pot.total as number),
+    };
+  }
+
+  async function createPot(name: string) {
+    const response = await api.post('/api/pots', { name, target: 1000, theme: '#277C78' });
+    assert.equal(response.status, 201);
+    return response.body.data.pot._id as string;
+  }
+
+  before(async () => {
+    await connectTestDatabase();
+    server = app.listen(0);
+
+    const registered = await request(server).post('/api/auth/register').send({
+      email: `pot-check-${Date.now()}@example.com`,
+      password: 'Password123!',
+      fullName: 'Pot Check',
+    });
+    assert.equal(registered.status, 201, registered.body.message);
+    token = registered.body.data.token;
+    userId = new Types.ObjectId(registered.body.data.user._id);
+
+    const opening = await api.put('/api/overview/balance/opening', { openingBalance: START_BALANCE });
+    assert.equal(opening.status, 200, opening.body.message);
+  });
+
+  after(async () => {
+    if (userId) {
+      await Promise.all([
+        User.deleteOne({ _id: userId }),
+        Pot.deleteMany({ userId }),
+        PotMovement.deleteMany({ userId }),
+        Transaction.deleteMany({ userId }),
+        Category.deleteMany({ userId }),
+      ]);
+    }
+    server?.close();
+    await disconnectTestDatabase();
+  });
+
+  it('deposits and withdrawals never overdraw the balance or the pot', async () => {
+    const potId = await createPot('Check');
+
+    // 50 x $10 deposits against a $100 balance: exactly 10 may succeed
+    const deposits = await fireConcurrently(
+      () => api.post(`/api/pots/${potId}/deposit`, { amount: 10 }),
+      'INSUFFICIENT_BALANCE'
+    );
+    assert.equal(deposits, 10);
+    assert.deepEqual(await getTotals(potId), { balance: 0, pots: [100] });
+
+    // 50 x $5 withdrawals against a $100 pot: exactly 20 may succeed
+    const withdrawals = await fireConcurrently(
+      () => api.post(`/api/pots/${potId}/withdraw`, { amount: 5 }),
+      'INSUFFICIENT_POT_BALANCE'
+    );
+    assert.equal(withdrawals, 20);
+    assert.deepEqual(await getTotals(potId), { balance: START_BALANCE, pots: [0] });
+
+    const deleted = await api.delete(`/api/pots/${potId}`);
+    assert.equal(deleted.status, 200);
+  });
+
+  it('transfers move money between pots without touching the balance', async () => {
+    const [fromId, toId] = await Promise.all([createPot('From'), createPot('To')]);
+    await api.post(`/api/pots/${fromId}/deposit`, { amount: 60 });
+
+    // 50 x $5 transfers out of a $60 pot: exactly 12 may succeed
+    const transfers = await fireConcurrently(
+      () => api.post(`/api/pots/${fromId}/transfer`, { toPotId: toId, amount: 5 }),
+      'INSUFFICIENT_POT_BALANCE'
+    );
+    assert.equal(transfers, 12);
+    assert.deepEqual(await getTotals(fromId, toId), { balance: START_BALANCE - 60, pots: [0, 60] });
+
+    await Promise.all([api.delete(`/api/pots/${fromId}`), api.delete(`/api/pots/${toId}`)]);
+    assert.equal((await getTotals()).balance, START_BALANCE);
+  });
+
+  it('concurrent deletes refund the pot once', async () => {
+    const potId = await createPot('Delete');
+    await api.post(`/api/pots/${potId}/deposit`, { amount: 40 });
+
+    const deletes = await fireConcurrently(() => api.delete(`/api/pots/${potId}`), 'NOT_FOUND');
+    assert.equal(deletes, 1);
+    assert.equal((await getTotals()).balance, START_BALANCE);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Transaction Rule Engine Tests
+ *
+ * Regex conditions are user input run on the server: patterns that can
+ * backtrack catastrophically (ReDoS) must be rejected on save, and a
+ * pattern that gets through anyway must not block matching.
+ *
+ * Run with: npm test
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Types } from 'mongoose';
+import { assertValidRule, compileRule } from '../services/transactionRule.service.js';
+
+const regexRule = (nameValue: string) => ({
+  nameOperator: 'regex' as const,
+  nameValue,
+  minAmount: null,
+  maxAmount: null,
+  type: null,
+  category: 'Groceries',
+  tags: [],
+  rename: null,
+  avatar: null,
+});
+
+describe('assertValidRule', () => {
+  const unsafe = [
+    '^(a|a)*$',      // Overlapping alternatives, repeated
+    '^(a|aa)+$',
+    '(\\w|\\d)+$',
+    '(a+)+$',        // Nested quantifiers
+    '.*.*.*.*.*.*x', // High-degree polynomial
+  ];
+
+  for (const pattern of unsafe) {
+    it(`rejects ${pattern}`, async () => {
+      await assert.rejects(assertValidRule(regexRule(pattern)), { code: 'INVALID_REGEX' });
+    });
+  }
+
+  const safe = ['^AMZN\\s', '^(uber|lyft)\\b', 'tesco|sainsbury', '\\d{3,}\\s*ref', '(a)\\1'];
+
+  for (const pattern of safe) {
+    it(`accepts ${pattern}`, async () => {
+      await assertValidRule(regexRule(pattern));
+    });
+  }
+
+  it('rejects patterns that do not compile', async () => {
+    await assert.rejects(assertValidRule(regexRule('(unclosed')), { code: 'INVALID_REGEX' });
+  });
+
+  it('rejects patterns that are too long', async () => {
+    await assert.rejects(assertValidRule(regexRule('a'.repeat(101))), { code: 'INVALID_REGEX' });
+  });
+});
+
+describe('compileRule', () => {
+  it('matches regex conditions case-insensitively', () => {
+    const { matchesName } = compileRule({ _id: new Types.ObjectId(), ...regexRule('^amzn\\s') });
+
+    assert.equal(matchesName('AMZN Mktp US'), true);
+    assert.equal(matchesName('Amazon'), false);
+  });
+
+  it('stops a catastrophic pattern instead of hanging', () => {
+    // Saved before validation was added, or otherwise never validated
+    const { matchesName } = compileRule({ _id: new Types.ObjectId(), ...regexRule('^(a|aa)+$') });
+    const started = Date.now();
+
+    assert.equal(matchesName(`${'a'.repeat(60)}!`), false);
+    assert.equal(matchesName('aa'), false); // Disabled after timing out
+    assert.ok(Date.now() - started < 1000);
+  });
+});
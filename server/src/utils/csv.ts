@@ -0,0 +1,171 @@
+/**
+ * CSV Utilities
+ *
+ * CONCEPT: Minimal RFC 4180 CSV parser for bank exports.
+ * - Fields may be quoted ("...") and contain delimiters or line breaks
+ * - Quotes inside quoted fields are escaped by doubling them ("")
+ * - Accepts \n, \r\n and \r line endings
+ * - Blank lines are skipped
+ *
+ * Also includes helpers for the formats banks commonly use for dates and amounts,
+ * and for writing CSV rows (exports).
+ */
+
+export const DATE_FORMATS = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY'] as const;
+export type DateFormat = (typeof DATE_FORMATS)[number];
+
+// "1,234.56" or "1.234,56" (common in ;-delimited exports)
+export const DECIMAL_SEPARATORS = ['.', ','] as const;
+export type DecimalSeparator = (typeof DECIMAL_SEPARATORS)[number];
+
+// Sign, whole part (thousands in groups of 3), fraction
+const AMOUNT_PATTERNS: Record<DecimalSeparator, RegExp> = {
+  '.': /^([+-]?)(\d{1,3}(?:,\d{3})+|\d*)(?:\.(\d+))?$/,
+  ',': /^([+-]?)(\d{1,3}(?:\.\d{3})+|\d*)(?:,(\d+))?$/,
+};
+
+/**
+ * Parse CSV text into rows of fields
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip byte order mark (added by Excel)
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    // Skip blank lines
+    if (row.length > 1 || row[0].trim() !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  // Last row (no trailing newline)
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Parse a date in the given format
+ *
+ * Returns an ISO date string (midnight UTC) or null if the date is invalid.
+ */
+export function parseDate(value: string, format: DateFormat): string | null {
+  const trimmed = value.trim();
+  let parts: RegExpMatchArray | null;
+  let year: number, month: number, day: number;
+
+  if (format === 'YYYY-MM-DD') {
+    parts = trimmed.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+    if (!parts) return null;
+    [year, month, day] = [Number(parts[1]), Number(parts[2]), Number(parts[3])];
+  } else {
+    parts = trimmed.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+    if (!parts) return null;
+    const [first, second] = [Number(parts[1]), Number(parts[2])];
+    [month, day] = format === 'MM/DD/YYYY' ? [first, second] : [second, first];
+    // Two-digit years are in the 2000s
+    year = parts[3].length === 2 ? 2000 + Number(parts[3]) : Number(parts[3]);
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Reject dates that rolled over (e.g. 02/30)
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+
+  return date.toISOString();
+}
+
+/**
+ * Parse an amount as exported by banks
+ *
+ * Handles currency symbols and codes, thousands separators, a trailing minus
+ * and accounting-style negatives: "$1,234.56", "-12.00", "12.00-", "(12.00)",
+ * or "1.234,56 EUR" with a ',' decimal separator.
+ * Returns null if the value isn't a number in that format - "12,50" with a
+ * '.' separator is rejected rather than read as 1250.
+ */
+export function parseAmount(value: string, decimalSeparator: DecimalSeparator = '.'): number | null {
+  let trimmed = value.trim();
+  let negative = false;
+
+  if (/^\(.*\)$/.test(trimmed)) {
+    negative = true;
+    trimmed = trimmed.slice(1, -1);
+  }
+  if (trimmed.endsWith('-')) {
+    negative = true;
+    trimmed = trimmed.slice(0, -1);
+  }
+
+  // Currency symbols, 3-letter currency codes and spaces
+  const cleaned = trimmed.replace(/^[A-Z]{3}\s*|\s*[A-Z]{3}$/g, '').replace(/[\p{Sc}\s]/gu, '');
+
+  const match = cleaned.match(AMOUNT_PATTERNS[decimalSeparator]);
+  if (!match || (match[2] === '' && match[3] === undefined)) {
+    return null;
+  }
+
+  const [, sign, whole, fraction = '0'] = match;
+  const amount = Number(`${sign}${whole.replace(/\D/g, '') || '0'}.${fraction}`);
+  return negative ? -Math.abs(amount) : amount;
+}
+
+/**
+ * Format values as one CSV line (with trailing \r\n)
+ *
+ * SECURITY: Text starting with =, +, -, @ is prefixed with ' so spreadsheet
+ * apps don't run it as a formula (CSV injection). Numbers are written as-is.
+ */
+export function toCsvRow(values: Array<string | number | boolean>): string {
+  return (
+    values
+      .map((value) => {
+        if (typeof value !== 'string') return String(value);
+        const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+        return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+      })
+      .join(',') + '\r\n'
+  );
+}
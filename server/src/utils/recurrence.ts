@@ -0,0 +1,141 @@
+/**
+ * Recurrence Utilities
+ *
+ * CONCEPT: A recurrence rule describes a series of due dates ("occurrences")
+ * starting at an anchor date. Occurrence N is always calculated directly from
+ * the anchor (never from the previous occurrence) so month-end dates don't drift:
+ * a monthly bill anchored on Jan 31 is due Feb 28, Mar 31, Apr 30, ...
+ *
+ * All calculations use UTC for consistent date handling across timezones.
+ */
+
+import { FREQUENCY_STEPS, type Frequency } from '../constants/recurrence.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RecurrenceRule {
+  frequency: Frequency;
+  interval: number;        // Multiplier for the frequency step
+  anchorDate: Date;        // First occurrence
+  endDate?: Date | null;   // No occurrences after this date
+}
+
+/**
+ * Get the step of a rule in days or months
+ */
+function getStep(rule: RecurrenceRule): { unit: 'day' | 'month'; count: number } {
+  const base = FREQUENCY_STEPS[rule.frequency];
+  return { unit: base.unit, count: base.count * Math.max(1, rule.interval || 1) };
+}
+
+/**
+ * Add months to a date, clamping to the last day of the target month
+ */
+function addMonthsUTC(date: Date, months: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+  return new Date(
+    Date.UTC(
+      year,
+      month,
+      Math.min(date.getUTCDate(), lastDay),
+      date.getUTCHours(),
+      date.getUTCMinutes(),
+      date.getUTCSeconds(),
+      date.getUTCMilliseconds()
+    )
+  );
+}
+
+/**
+ * Get occurrence number `index` (0 = anchor date)
+ */
+export function getOccurrence(rule: RecurrenceRule, index: number): Date {
+  const step = getStep(rule);
+  if (step.unit === 'day') {
+    return new Date(rule.anchorDate.getTime() + index * step.count * DAY_MS);
+  }
+  return addMonthsUTC(rule.anchorDate, index * step.count);
+}
+
+/**
+ * Estimate the index of the last occurrence on or before a date
+ * (may be off by one for month-based rules - callers adjust)
+ */
+function estimateIndex(rule: RecurrenceRule, date: Date): number {
+  const step = getStep(rule);
+  const anchor = rule.anchorDate;
+  if (step.unit === 'day') {
+    return Math.floor((date.getTime() - anchor.getTime()) / (step.count * DAY_MS));
+  }
+  const months =
+    (date.getUTCFullYear() - anchor.getUTCFullYear()) * 12 +
+    (date.getUTCMonth() - anchor.getUTCMonth());
+  return Math.floor(months / step.count);
+}
+
+/**
+ * Check that an occurrence is within the rule's end date
+ */
+function isWithinEnd(rule: RecurrenceRule, occurrence: Date): boolean {
+  return !rule.endDate || occurrence <= rule.endDate;
+}
+
+/**
+ * Get the last occurrence on or before a date
+ * Returns null if the series hasn't started yet.
+ */
+export function getPreviousOccurrence(rule: RecurrenceRule, date: Date): Date | null {
+  // Nothing after the end of the series counts
+  const limit = rule.endDate && rule.endDate < date ? rule.endDate : date;
+  if (limit < rule.anchorDate) {
+    return null;
+  }
+
+  let index = Math.max(0, estimateIndex(rule, limit));
+  while (index > 0 && getOccurrence(rule, index) > limit) {
+    index--;
+  }
+  while (getOccurrence(rule, index + 1) <= limit) {
+    index++;
+  }
+  return getOccurrence(rule, index);
+}
+
+/**
+ * Get the first occurrence strictly after a date
+ * Returns null if the series has ended.
+ */
+export function getNextOccurrence(rule: RecurrenceRule, date: Date): Date | null {
+  if (date < rule.anchorDate) {
+    return isWithinEnd(rule, rule.anchorDate) ? rule.anchorDate : null;
+  }
+
+  let index = Math.max(0, estimateIndex(rule, date));
+  while (index > 0 && getOccurrence(rule, index - 1) > date) {
+    index--;
+  }
+  while (getOccurrence(rule, index) <= date) {
+    index++;
+  }
+
+  const occurrence = getOccurrence(rule, index);
+  return isWithinEnd(rule, occurrence) ? occurrence : null;
+}
+
+/**
+ * Get the occurrence closest to a date (before or after)
+ */
+export function getNearestOccurrence(rule: RecurrenceRule, date: Date): Date | null {
+  const previous = getPreviousOccurrence(rule, date);
+  const next = getNextOccurrence(rule, date);
+
+  if (!previous) return next;
+  if (!next) return previous;
+
+  return date.getTime() - previous.getTime() <= next.getTime() - date.getTime()
+    ? previous
+    : next;
+}
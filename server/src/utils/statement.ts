@@ -0,0 +1,261 @@
+/**
+ * Statement Parsers (OFX/QFX and QIF)
+ *
+ * CONCEPT: Parses the statement formats most banks export into plain entries.
+ *
+ * - OFX/QFX: Both the SGML (v1, unclosed tags) and XML (v2) flavours.
+ *   Each <STMTTRN> is one transaction; its FITID is the bank's unique id.
+ * - QIF: Line-based records ending with "^". QIF has no transaction id,
+ *   so entries get a content hash instead.
+ *
+ * Every entry has an externalId so re-importing an overlapping statement
+ * can skip transactions that were already imported.
+ *
+ * Also writes OFX (v2, XML) for exports.
+ */
+
+import { createHash } from 'crypto';
+import { parseAmount, parseDate, type DateFormat } from './csv.js';
+
+export const STATEMENT_FORMATS = ['ofx', 'qif'] as const;
+export type StatementFormat = (typeof STATEMENT_FORMATS)[number];
+
+export interface StatementEntry {
+  externalId: string;
+  name: string;
+  amount: number | null; // null if the amount couldn't be parsed
+  date: string | null;   // ISO date, null if the date couldn't be parsed
+  category?: string;
+  raw: { amount: string; date: string };
+}
+
+/**
+ * Guess the format from the file contents
+ */
+export function detectStatementFormat(text: string): StatementFormat | null {
+  if (/<OFX>|OFXHEADER/i.test(text)) return 'ofx';
+  if (/^\s*!Type:/im.test(text) || /^\^\s*$/m.test(text)) return 'qif';
+  return null;
+}
+
+// =============================================================================
+// OFX / QFX
+// =============================================================================
+
+/**
+ * Decode the XML entities allowed in OFX values
+ */
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Read a tag value inside an OFX block (works with and without closing tags)
+ */
+function getOfxValue(block: string, tag: string): string {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeEntities(match[1].trim()) : '';
+}
+
+/**
+ * Parse an OFX date (YYYYMMDD[HHMMSS[.XXX]][[-5:EST]]) - only the day is kept
+ */
+function parseOfxDate(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? parseDate(`${match[1]}-${match[2]}-${match[3]}`, 'YYYY-MM-DD') : null;
+}
+
+/**
+ * Parse OFX/QFX statement transactions
+ *
+ * externalId is "ofx:<account>:<FITID>" since FITIDs are only unique per account.
+ */
+export function parseOfx(text: string): StatementEntry[] {
+  const entries: StatementEntry[] = [];
+  const pattern = /<ACCTID>([^<\r\n]*)|<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi;
+  const hashedIds = new Set<string>();
+  let accountId = '';
+
+  for (const match of text.matchAll(pattern)) {
+    if (match[1] !== undefined) {
+      accountId = decodeEntities(match[1].trim());
+      continue;
+    }
+
+    const block = match[2];
+    const rawAmount = getOfxValue(block, 'TRNAMT');
+    const rawDate = getOfxValue(block, 'DTPOSTED');
+    const fitId = getOfxValue(block, 'FITID');
+    const name = getOfxValue(block, 'NAME') || getOfxValue(block, 'MEMO');
+
+    // Transactions without a FITID fall back to a content hash like QIF
+    let externalId = `ofx:${accountId}:${fitId}`;
+    if (!fitId) {
+      externalId = hashEntry('ofx', [accountId, rawDate, rawAmount, name]);
+      hashedIds.add(externalId);
+    }
+
+    entries.push({
+      externalId,
+      name,
+      amount: parseAmount(rawAmount),
+      date: parseOfxDate(rawDate),
+      raw: { amount: rawAmount, date: rawDate },
+    });
+  }
+
+  return withUniqueHashes(entries, hashedIds);
+}
+
+// =============================================================================
+// QIF
+// =============================================================================
+
+/**
+ * Parse QIF statement transactions
+ *
+ * QIF dates have no fixed format (e.g. 03/14/2024, 3/14'24, 14/03/2024)
+ * so the caller picks the day/month order.
+ * externalId is a hash of the entry contents.
+ */
+export function parseQif(text: string, dateFormat: DateFormat): StatementEntry[] {
+  const entries: StatementEntry[] = [];
+  let fields: Record<string, string> = {};
+
+  const endRecord = () => {
+    if (fields.D || fields.T || fields.U) {
+      const rawAmount = fields.T ?? fields.U ?? '';
+      const rawDate = fields.D ?? '';
+      const name = fields.P || fields.M || '';
+
+      entries.push({
+        externalId: hashEntry('qif', [rawDate, rawAmount, name, fields.M ?? '', fields.N ?? '']),
+        name,
+        amount: parseAmount(rawAmount),
+        // Dates like 3/14'24 use an apostrophe before the year
+        date: parseDate(rawDate.replace(/'\s*/, '/').replace(/\s/g, ''), dateFormat),
+        category: fields.L?.replace(/^\[|\]$/g, ''), // [Account] = transfer
+        raw: { amount: rawAmount, date: rawDate },
+      });
+    }
+    fields = {};
+  };
+
+  for (const line of text.split(/\r\n|\r|\n/)) {
+    if (line.startsWith('^')) {
+      endRecord();
+    } else if (line.startsWith('!')) {
+      // Header (e.g. !Type:Bank) starts a new section
+      fields = {};
+    } else if (line.length > 1) {
+      const code = line[0];
+      // Split lines (S/E/$) are ignored - the total (T) is imported
+      if (!(code in fields)) {
+        fields[code] = line.slice(1).trim();
+      }
+    }
+  }
+  endRecord(); // Last record without a trailing "^"
+
+  return withUniqueHashes(entries, new Set(entries.map((entry) => entry.externalId)));
+}
+
+// =============================================================================
+// OFX EXPORT
+// =============================================================================
+
+/**
+ * Escape a value for OFX (XML)
+ */
+function encodeEntities(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Format a date as an OFX date (YYYYMMDDHHMMSS, UTC)
+ */
+function toOfxDate(date: Date): string {
+  return date.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+}
+
+/**
+ * Start of an OFX bank statement (everything before the transactions)
+ */
+export function ofxStatementStart(start: Date, end: Date): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+    '<OFX>',
+    '<BANKMSGSRSV1><STMTTRNRS><TRNUID>0</TRNUID>',
+    '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+    '<STMTRS><CURDEF>USD</CURDEF>',
+    '<BANKACCTFROM><BANKID>CENTINEL</BANKID><ACCTID>CENTINEL</ACCTID><ACCTTYPE>CHECKING</ACCTTYPE></BANKACCTFROM>',
+    `<BANKTRANLIST><DTSTART>${toOfxDate(start)}</DTSTART><DTEND>${toOfxDate(end)}</DTEND>`,
+    '',
+  ].join('\n');
+}
+
+/**
+ * One OFX transaction (<STMTTRN>)
+ */
+export function toOfxTransaction(transaction: {
+  _id: { toString(): string };
+  name: string;
+  amount: number;
+  date: Date;
+  category: string;
+}): string {
+  return (
+    '<STMTTRN>' +
+    `<TRNTYPE>${transaction.amount < 0 ? 'DEBIT' : 'CREDIT'}</TRNTYPE>` +
+    `<DTPOSTED>${toOfxDate(transaction.date)}</DTPOSTED>` +
+    `<TRNAMT>${transaction.amount.toFixed(2)}</TRNAMT>` +
+    `<FITID>${transaction._id.toString()}</FITID>` +
+    `<NAME>${encodeEntities(transaction.name.slice(0, 32))}</NAME>` +
+    `<MEMO>${encodeEntities(transaction.category)}</MEMO>` +
+    '</STMTTRN>\n'
+  );
+}
+
+/**
+ * End of an OFX bank statement
+ */
+export function ofxStatementEnd(): string {
+  return '</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1>\n</OFX>\n';
+}
+
+// =============================================================================
+// HASHING
+// =============================================================================
+
+/**
+ * Hash entry contents into an externalId
+ */
+function hashEntry(prefix: string, parts: string[]): string {
+  const hash = createHash('sha256').update(parts.join('\u001f')).digest('hex').slice(0, 32);
+  return `${prefix}:${hash}`;
+}
+
+/**
+ * Number identical hashed entries within one file
+ *
+ * Two identical rows (e.g. two coffees on the same day) are different
+ * transactions, so the second gets "#2". Re-importing the same file
+ * produces the same ids, so both are still skipped.
+ * (A repeated FITID is the same transaction, so only hashes are numbered.)
+ */
+function withUniqueHashes(entries: StatementEntry[], hashedIds: Set<string>): StatementEntry[] {
+  const seen = new Map<string, number>();
+
+  return entries.map((entry) => {
+    if (!hashedIds.has(entry.externalId)) return entry;
+    const count = (seen.get(entry.externalId) ?? 0) + 1;
+    seen.set(entry.externalId, count);
+    return count === 1 ? entry : { ...entry, externalId: `${entry.externalId}#${count}` };
+  });
+}